@@ -1,7 +1,7 @@
 import { GoogleGenAI, Type } from '@google/genai';
 
 const DEFAULT_AI_PROVIDER = 'vertex';
-const SUPPORTED_AI_PROVIDERS = new Set(['vertex', 'google']);
+const SUPPORTED_AI_PROVIDERS = new Set(['vertex', 'google', 'openai']);
 const DEFAULT_AI_REQUEST_TIMEOUT_MS = Number(process.env.AI_REQUEST_TIMEOUT_MS ?? '20000');
 const DEFAULT_AI_REQUEST_RETRY_MAX = Number(process.env.AI_REQUEST_RETRY_MAX ?? '1');
 const DEFAULT_AI_REQUEST_BACKOFF_MS = Number(process.env.AI_REQUEST_BACKOFF_MS ?? '300');
@@ -82,11 +82,146 @@ const withRetryAndTimeout = async (
   throw lastError;
 };
 
-const createAiClient = ({ apiKey, provider }) => {
+const createAiClient = ({ apiKey, provider, baseUrl }) => {
+  if (provider === 'openai') {
+    return baseUrl ? createOpenAiCompatibleClient({ apiKey, baseUrl }) : null;
+  }
   if (!apiKey) return null;
   return new GoogleGenAI({ apiKey, vertexai: provider === 'vertex' });
 };
 
+/**
+ * Converte o schema no formato do @google/genai (`Type.OBJECT`, ...) para
+ * JSON Schema, usado como instrução para backends OpenAI-compatíveis.
+ */
+const toJsonSchema = (schema) => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => [
+      key,
+      key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value),
+    ]),
+  );
+};
+
+const toOpenAiMessages = (contents, config) => {
+  const entries = Array.isArray(contents) ? contents : [contents];
+  const messages = entries.map((entry) => ({
+    role: entry.role === 'model' ? 'assistant' : 'user',
+    content: (entry.parts ?? []).map((part) => part.text ?? '').join('\n\n'),
+  }));
+  if (config?.responseSchema) {
+    messages.unshift({
+      role: 'system',
+      content: `Respond only with valid JSON matching this JSON Schema:\n${JSON.stringify(
+        toJsonSchema(config.responseSchema),
+      )}`,
+    });
+  } else if (config?.responseMimeType === 'application/json') {
+    messages.unshift({ role: 'system', content: 'Respond only with valid JSON.' });
+  }
+  return messages;
+};
+
+const buildOpenAiRequestBody = ({ model, contents, config }, stream) => {
+  // json_object exige objeto na raiz; schemas de array ficam só na instrução
+  const wantsJsonObject = config?.responseSchema
+    ? config.responseSchema.type === Type.OBJECT
+    : config?.responseMimeType === 'application/json';
+  return {
+    model,
+    messages: toOpenAiMessages(contents, config),
+    ...(wantsJsonObject ? { response_format: { type: 'json_object' } } : {}),
+    ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+  };
+};
+
+const readOpenAiError = async (response) => {
+  let detail = '';
+  try {
+    const data = await response.json();
+    detail = data?.error?.message ?? data?.error ?? '';
+  } catch (error) {
+    detail = '';
+  }
+  const message = detail
+    ? `AI provider error (${response.status}): ${detail}`
+    : `AI provider error (${response.status}).`;
+  return new Error(message);
+};
+
+/**
+ * Cliente para qualquer endpoint compatível com a API de chat completions da
+ * OpenAI (vLLM, Ollama, llama.cpp, LM Studio...). Expõe o mesmo formato de
+ * `models.generateContent`/`generateContentStream` do @google/genai para que
+ * os handlers não dependam do provedor.
+ */
+const createOpenAiCompatibleClient = ({ apiKey, baseUrl, fetchImpl = fetch }) => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const post = (request, stream) =>
+    fetchImpl(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(buildOpenAiRequestBody(request, stream)),
+      signal: request.config?.abortSignal,
+    });
+
+  return {
+    models: {
+      generateContent: async (request) => {
+        const response = await post(request, false);
+        if (!response.ok) {
+          throw await readOpenAiError(response);
+        }
+        const data = await response.json();
+        return {
+          text: data?.choices?.[0]?.message?.content ?? '',
+          usage: data?.usage ?? null,
+        };
+      },
+      generateContentStream: async (request) => {
+        const response = await post(request, true);
+        if (!response.ok) {
+          throw await readOpenAiError(response);
+        }
+        return readOpenAiStream(response.body);
+      },
+    },
+  };
+};
+
+async function* readOpenAiStream(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+      const parsed = JSON.parse(data);
+      yield {
+        text: parsed?.choices?.[0]?.delta?.content ?? '',
+        usage: parsed?.usage ?? null,
+      };
+    }
+  }
+}
+
+/**
+ * Modelos locais costumam cercar o JSON com ```json mesmo quando instruídos
+ * a não fazê-lo.
+ */
+const parseJsonText = (text) =>
+  JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+
 const AI_REQUEST_SCHEMA = {
   analyzeFile: {
     prompt: {
@@ -154,6 +289,7 @@ const AI_REQUEST_SCHEMA = {
               description: { type: Type.STRING },
               content: { type: Type.STRING },
               path: { type: Type.STRING },
+              lines: { type: Type.ARRAY, items: { type: Type.INTEGER } },
             },
           },
         },
@@ -164,6 +300,54 @@ const AI_REQUEST_SCHEMA = {
       },
     },
   },
+  summarizeThread: {
+    prompt: {
+      id: 'summarizeThread',
+      variables: ['mode', 'messages', 'suggestions'],
+    },
+    response: {
+      type: Type.OBJECT,
+      properties: {
+        summary: { type: Type.STRING },
+        decisions: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+        },
+        openQuestions: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+        },
+      },
+    },
+  },
+  reviewPullRequest: {
+    prompt: {
+      id: 'reviewPullRequest',
+      variables: ['pullRequest', 'files'],
+    },
+    response: {
+      type: Type.OBJECT,
+      properties: {
+        summary: { type: Type.STRING },
+        findings: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              category: { type: Type.STRING, enum: ['risk', 'missing_test', 'contract_break'] },
+              severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+              title: { type: Type.STRING },
+              description: { type: Type.STRING },
+              path: { type: Type.STRING },
+              startLine: { type: Type.INTEGER },
+              endLine: { type: Type.INTEGER },
+              suggestion: { type: Type.STRING },
+            },
+          },
+        },
+      },
+    },
+  },
   generatePrompt: {
     prompt: {
       id: 'generatePrompt',
@@ -229,6 +413,51 @@ const buildPromptParts = (type, params) => {
       ];
     case 'contextualChat':
       return buildContextualChatPrompt(params);
+    case 'summarizeThread':
+      return [
+        {
+          text: `Você está compactando o histórico de uma conversa sobre código (modo "${params.mode}").
+Resuma as mensagens abaixo para que a conversa possa continuar sem elas.
+- Em 'summary', descreva em poucas frases o que foi discutido.
+- Em 'decisions', liste cada decisão acordada entre usuário e assistente, com nomes de arquivos, funções e valores exatos.
+- Em 'openQuestions', liste as perguntas que ficaram sem resposta.
+Não invente decisões. Responda em português brasileiro.`,
+        },
+        {
+          text: `MENSAGENS:\n${params.messages
+            .map((message) => `${message.role === 'user' ? 'Usuário' : 'Assistente'}: ${message.content}`)
+            .join('\n\n')}`,
+        },
+        {
+          text: `SUGESTÕES INCLUÍDAS NO PROMPT:\n${params.suggestions.length > 0
+            ? params.suggestions.map((suggestion) => `- ${suggestion.title}: ${suggestion.description}`).join('\n')
+            : '(nenhuma)'}`,
+        },
+      ];
+    case 'reviewPullRequest':
+      return [
+        {
+          text: `Você é um revisor de código sênior revisando o Pull Request #${params.pullRequest.number} ("${params.pullRequest.title}", ${params.pullRequest.head} → ${params.pullRequest.base}).
+Analise os patches abaixo junto com a trilha de impacto de cada arquivo (componentes, hooks, serviços e endpoints ligados a ele).
+Liste em 'findings' apenas problemas concretos, cada um de uma categoria:
+- 'risk': bug provável, regressão ou caso de borda não tratado;
+- 'missing_test': comportamento novo ou alterado sem teste correspondente;
+- 'contract_break': mudança de assinatura, tipo, payload ou endpoint que quebra quem consome o arquivo na trilha.
+Cada finding deve ter 'path' (um dos arquivos listados) e 'startLine'/'endLine' no arquivo novo (use os números dos cabeçalhos @@ do patch).
+Use 'suggestion' para o código ou teste sugerido, quando houver. Em 'summary', resuma o PR e o risco geral em poucas frases.
+Não invente problemas. Responda em português brasileiro.`,
+        },
+        ...(params.pullRequest.body ? [{ text: `DESCRIÇÃO DO PR:\n${params.pullRequest.body}` }] : []),
+        {
+          text: params.files
+            .map((file) => [
+              `ARQUIVO: ${file.path} (${file.status})`,
+              file.trail ? `TRILHA: ${file.trail}` : '',
+              file.patch ? `PATCH:\n${file.patch}` : 'PATCH: (indisponível)',
+            ].filter(Boolean).join('\n'))
+            .join('\n\n'),
+        },
+      ];
     case 'generatePrompt':
       return [
         {
@@ -333,6 +562,7 @@ ${element.codeSnippet ? `- Código:\n\`\`\`\n${element.codeSnippet}\n\`\`\`` : '
     {
       text: `
 Responda de forma útil e prática. Se identificar sugestões de código, arquivos ou APIs a criar, inclua-as no campo "suggestions" do JSON.
+Para alterar um arquivo existente, use type "snippet" com "path" e "lines" [início, fim] (1-based, inclusivo) das linhas que "content" substitui; sem "lines" o trecho não é aplicado. Use type "file" só com o conteúdo completo do arquivo.
 Se tiver perguntas de follow-up relevantes, inclua-as em "followUpQuestions".
 ` },
   ];
@@ -352,6 +582,7 @@ const extractUsageTokens = (response) => {
     ?? usage.inputTokens
     ?? usage.input_token_count
     ?? usage.input_tokens
+    ?? usage.prompt_tokens
     ?? null,
   );
   const outputTokens = Number(
@@ -359,12 +590,14 @@ const extractUsageTokens = (response) => {
     ?? usage.outputTokens
     ?? usage.output_token_count
     ?? usage.output_tokens
+    ?? usage.completion_tokens
     ?? null,
   );
   const totalTokens = Number(
     usage.totalTokenCount
     ?? usage.totalTokens
     ?? usage.total_token_count
+    ?? usage.total_tokens
     ?? null,
   );
 
@@ -421,7 +654,7 @@ const generateJsonResponse = async ({ client, model, type, params }) => {
 
   try {
     return {
-      data: JSON.parse(response.text),
+      data: parseJsonText(response.text),
       meta: { latencyMs, usage: extractUsageTokens(response) },
     };
   } catch (error) {
@@ -429,13 +662,110 @@ const generateJsonResponse = async ({ client, model, type, params }) => {
   }
 };
 
+const JSON_ESCAPES = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Lê o valor (possivelmente incompleto) de um campo string de um JSON que
+ * ainda está sendo transmitido. Escapes cortados no fim do buffer são
+ * ignorados até o próximo chunk chegar.
+ */
+const extractPartialJsonString = (text, field) => {
+  const keyMatch = new RegExp(`"${field}"\\s*:\\s*"`).exec(text);
+  if (!keyMatch) return '';
+  let value = '';
+  for (let index = keyMatch.index + keyMatch[0].length; index < text.length; index += 1) {
+    const char = text[index];
+    if (char === '"') break;
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    const escaped = text[index + 1];
+    if (escaped === undefined) break;
+    if (escaped === 'u') {
+      const hex = text.slice(index + 2, index + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      index += 5;
+      continue;
+    }
+    value += JSON_ESCAPES[escaped] ?? escaped;
+    index += 1;
+  }
+  return value;
+};
+
+/**
+ * Variante de `generateJsonResponse` que transmite a resposta.
+ * `onText` recebe o texto acumulado a cada chunk; o JSON só é interpretado no
+ * fim. Sem retry: uma nova tentativa duplicaria o texto já enviado.
+ */
+const generateJsonResponseStream = async ({ client, model, type, params, signal, onText }) => {
+  if (!client) return null;
+  const requestSchema = AI_REQUEST_SCHEMA[type];
+  if (!requestSchema) {
+    throw new Error(`Unknown AI request schema: ${type}`);
+  }
+
+  const promptParts = buildPromptParts(type, params);
+  const startedAt = Date.now();
+  const stream = await withTimeout(
+    client.models.generateContentStream({
+      model,
+      contents: {
+        role: 'user',
+        parts: promptParts,
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: requestSchema.response,
+        abortSignal: signal,
+      },
+    }),
+    DEFAULT_AI_REQUEST_TIMEOUT_MS,
+  );
+
+  let text = '';
+  let usage = null;
+  for await (const chunk of stream) {
+    if (signal?.aborted) break;
+    usage = extractUsageTokens(chunk) ?? usage;
+    if (chunk.text) {
+      text += chunk.text;
+      onText?.(text);
+    }
+  }
+  const latencyMs = Date.now() - startedAt;
+
+  try {
+    return { data: text ? parseJsonText(text) : null, meta: { latencyMs, usage } };
+  } catch (error) {
+    return { data: null, meta: { latencyMs, usage } };
+  }
+};
+
 export {
   AI_REQUEST_SCHEMA,
   AiTimeoutError,
   buildPromptParts,
   createAiClient,
+  createOpenAiCompatibleClient,
+  extractPartialJsonString,
   extractUsageTokens,
   generateJsonResponse,
+  generateJsonResponseStream,
   normalizeAiProvider,
+  parseJsonText,
+  SUPPORTED_AI_PROVIDERS,
+  toJsonSchema,
   withRetryAndTimeout,
 };
@@ -0,0 +1,143 @@
+import { createAiClient, normalizeAiProvider, SUPPORTED_AI_PROVIDERS } from './ai-client.js';
+
+const RECOMMENDED_GOOGLE_AI_MODEL_ID = 'gemini-2.5-flash';
+const GOOGLE_AI_PROVIDERS = new Set(['vertex', 'google']);
+
+/**
+ * Variáveis de ambiente que fixam provedor/modelo por tipo de requisição,
+ * no formato `provedor:modelo` (ou só `modelo`, no provedor padrão).
+ */
+const AI_REQUEST_MODEL_ENV = {
+  contextualChat: 'AI_CHAT_MODEL',
+  analyzeFile: 'AI_ANALYZE_FILE_MODEL',
+  projectSummary: 'AI_PROJECT_SUMMARY_MODEL',
+  generatePrompt: 'AI_GENERATE_PROMPT_MODEL',
+  summarizeThread: 'AI_SUMMARIZE_THREAD_MODEL',
+  reviewPullRequest: 'AI_REVIEW_PR_MODEL',
+};
+
+const formatAiModelRef = ({ provider, model }) => `${provider}:${model}`;
+
+/**
+ * Interpreta `provedor:modelo`. Se o prefixo não for um provedor conhecido o
+ * valor inteiro é o modelo (ex.: `llama3.1:8b` no provedor padrão).
+ */
+const parseAiModelRef = (value, defaultProvider) => {
+  if (typeof value !== 'string' || value.trim().length === 0) return null;
+  const trimmed = value.trim();
+  const separatorIndex = trimmed.indexOf(':');
+  if (separatorIndex > 0) {
+    const prefix = trimmed.slice(0, separatorIndex).toLowerCase();
+    const model = trimmed.slice(separatorIndex + 1).trim();
+    if (SUPPORTED_AI_PROVIDERS.has(prefix) && model) {
+      return { provider: prefix, model };
+    }
+  }
+  return { provider: defaultProvider, model: trimmed };
+};
+
+const splitList = (value) =>
+  typeof value === 'string'
+    ? value.split(',').map((item) => item.trim()).filter(Boolean)
+    : [];
+
+/**
+ * Monta os provedores configurados e resolve, para cada requisição, qual
+ * cliente/modelo atende. O modelo pedido pelo cliente só é aceito se estiver
+ * na lista de modelos permitidos.
+ */
+const createAiProviderRegistry = (env = process.env, { createClient = createAiClient } = {}) => {
+  const defaultProvider = normalizeAiProvider(env.AI_PROVIDER);
+  const googleProvider = GOOGLE_AI_PROVIDERS.has(defaultProvider) ? defaultProvider : 'google';
+  const providers = new Map();
+
+  const googleClient = createClient({ apiKey: env.GOOGLE_AI_API_KEY ?? '', provider: googleProvider });
+  if (googleClient) {
+    providers.set(googleProvider, {
+      client: googleClient,
+      defaultModel: env.GOOGLE_AI_MODEL_ID ?? RECOMMENDED_GOOGLE_AI_MODEL_ID,
+    });
+  }
+  const openAiClient = createClient({
+    apiKey: env.OPENAI_COMPAT_API_KEY ?? '',
+    provider: 'openai',
+    baseUrl: env.OPENAI_COMPAT_BASE_URL ?? '',
+  });
+  if (openAiClient) {
+    providers.set('openai', {
+      client: openAiClient,
+      defaultModel: env.OPENAI_COMPAT_MODEL_ID ?? '',
+    });
+  }
+
+  // vertex e google compartilham o mesmo cliente Gemini configurado
+  const normalizeRef = (ref) =>
+    ref && GOOGLE_AI_PROVIDERS.has(ref.provider) ? { ...ref, provider: googleProvider } : ref;
+
+  const fallbackProvider = providers.has(defaultProvider)
+    ? defaultProvider
+    : providers.keys().next().value ?? null;
+  const defaultRef = fallbackProvider && providers.get(fallbackProvider).defaultModel
+    ? { provider: fallbackProvider, model: providers.get(fallbackProvider).defaultModel }
+    : null;
+
+  const routes = new Map(
+    Object.entries(AI_REQUEST_MODEL_ENV)
+      .map(([requestType, envName]) => [requestType, normalizeRef(parseAiModelRef(env[envName], defaultProvider))])
+      .filter(([, ref]) => ref && providers.has(ref.provider)),
+  );
+
+  const allowedRefs = new Map();
+  const allowRef = (ref) => {
+    if (ref && ref.model && providers.has(ref.provider)) {
+      allowedRefs.set(formatAiModelRef(ref), ref);
+    }
+  };
+  providers.forEach((entry, provider) => allowRef({ provider, model: entry.defaultModel }));
+  routes.forEach(allowRef);
+  splitList(env.AI_ALLOWED_MODELS).forEach((value) =>
+    allowRef(normalizeRef(parseAiModelRef(value, defaultProvider))));
+
+  const toTarget = (ref) => ({
+    client: providers.get(ref.provider).client,
+    provider: ref.provider,
+    model: ref.model,
+  });
+
+  return {
+    defaultProvider: fallbackProvider ?? defaultProvider,
+    isConfigured: () => Boolean(defaultRef) || routes.size > 0,
+    listModels: () =>
+      Array.from(allowedRefs.values()).map((ref) => ({
+        id: formatAiModelRef(ref),
+        provider: ref.provider,
+        model: ref.model,
+      })),
+    /**
+     * Resolve o alvo de uma requisição: modelo pedido pelo cliente, rota do
+     * tipo de requisição ou padrão, nessa ordem.
+     */
+    resolve: (requestType, requestedModel) => {
+      if (requestedModel !== undefined && requestedModel !== null && requestedModel !== '') {
+        const ref = normalizeRef(parseAiModelRef(requestedModel, fallbackProvider ?? defaultProvider));
+        if (!ref || !allowedRefs.has(formatAiModelRef(ref))) {
+          return { error: 'Model not allowed.', status: 400 };
+        }
+        return { target: toTarget(ref) };
+      }
+      const ref = routes.get(requestType) ?? defaultRef;
+      if (!ref) {
+        return { error: 'AI client not configured.', status: 500 };
+      }
+      return { target: toTarget(ref) };
+    },
+  };
+};
+
+export {
+  AI_REQUEST_MODEL_ENV,
+  createAiProviderRegistry,
+  formatAiModelRef,
+  parseAiModelRef,
+  RECOMMENDED_GOOGLE_AI_MODEL_ID,
+};
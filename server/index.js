@@ -9,12 +9,15 @@ import { Type } from '@google/genai';
 import {
   AI_REQUEST_SCHEMA,
   AiTimeoutError,
-  createAiClient,
+  extractPartialJsonString,
   extractUsageTokens,
   generateJsonResponse,
+  generateJsonResponseStream,
   normalizeAiProvider,
   withRetryAndTimeout,
 } from './ai-client.js';
+import { createAiProviderRegistry } from './ai-providers.js';
+import { buildRepositoryIndex, fetchGitHubSnapshot } from './indexer.js';
 
 const port = Number(process.env.PORT ?? 3000);
 const appBaseUrl = process.env.APP_BASE_URL ?? 'http://localhost:5174';
@@ -23,14 +26,12 @@ const githubClientId = process.env.GITHUB_CLIENT_ID;
 const githubClientSecret = process.env.GITHUB_CLIENT_SECRET;
 const githubCallbackUrl =
   process.env.GITHUB_OAUTH_CALLBACK_URL ?? `${serverBaseUrl}/api/auth/callback`;
-const recommendedGoogleAiModelId = 'gemini-2.5-flash';
-const aiApiKey = process.env.GOOGLE_AI_API_KEY ?? '';
-const aiModelId = process.env.GOOGLE_AI_MODEL_ID ?? recommendedGoogleAiModelId;
-const aiProvider = normalizeAiProvider(process.env.AI_PROVIDER);
+const aiProviders = createAiProviderRegistry(process.env);
 const aiRequestLimit = Number(process.env.AI_RATE_LIMIT_MAX ?? '30');
 const aiRequestWindowMs = Number(process.env.AI_RATE_LIMIT_WINDOW_MS ?? '300000');
 const indexingPollIntervalMs = Number(process.env.INDEXING_POLL_INTERVAL_MS ?? '5000');
-const indexingJobDurationMs = Number(process.env.INDEXING_JOB_DURATION_MS ?? '1000');
+const indexingMaxFiles = Number(process.env.INDEXING_MAX_FILES ?? '5000');
+const indexingMaxPayloadBytes = Number(process.env.INDEXING_MAX_PAYLOAD_BYTES ?? '25000000');
 const aiPromptCostPer1k = Number(process.env.AI_COST_PROMPT_PER_1K ?? '0');
 const aiOutputCostPer1k = Number(process.env.AI_COST_OUTPUT_PER_1K ?? '0');
 
@@ -77,10 +78,15 @@ const validateEnv = () => {
     warnings.push('GITHUB_CLIENT_ID / GITHUB_CLIENT_SECRET not set (OAuth login disabled; PAT auth available).');
   }
 
-  if (aiProvider === 'google' && !process.env.GOOGLE_AI_API_KEY) {
+  if (aiProviders.defaultProvider === 'google' && !process.env.GOOGLE_AI_API_KEY) {
     warnings.push('GOOGLE_AI_API_KEY not set (Server-side Gemini analysis requires API key).');
   }
 
+  if (normalizeAiProvider(process.env.AI_PROVIDER) === 'openai'
+    && (!process.env.OPENAI_COMPAT_BASE_URL || !process.env.OPENAI_COMPAT_MODEL_ID)) {
+    warnings.push('OPENAI_COMPAT_BASE_URL / OPENAI_COMPAT_MODEL_ID not set (OpenAI-compatible provider disabled).');
+  }
+
   if (warnings.length > 0) {
     console.warn(`[Server Init] Environment notes:\n- ${warnings.join('\n- ')}`);
   }
@@ -90,8 +96,10 @@ validateEnv();
 
 const sessions = new Map();
 const rateLimits = new Map();
-const aiClient = aiApiKey ? createAiClient({ apiKey: aiApiKey, provider: aiProvider }) : null;
 const indexingJobs = new Map();
+// Conteúdo enviado e token do GitHub ficam só em memória, nunca no indexing-store
+const indexingSnapshots = new Map();
+const indexingAccessTokens = new Map();
 let isIndexingWorkerRunning = false;
 const savedSessions = new Map();
 const realtimeSessions = new Map();
@@ -206,6 +214,19 @@ const getAiErrorMessage = (error, fallback = 'Unknown AI error') => {
 };
 const getAiErrorStatus = (error) => (isAiTimeoutError(error) ? 504 : 500);
 
+/**
+ * Resolve provedor/modelo da requisição; responde com erro se o modelo pedido
+ * não for permitido.
+ */
+const resolveAiTarget = (res, requestId, requestType, requestedModel) => {
+  const resolution = aiProviders.resolve(requestType, requestedModel);
+  if (resolution.error) {
+    jsonResponse(res, resolution.status, withRequestId({ error: resolution.error }, requestId));
+    return null;
+  }
+  return resolution.target;
+};
+
 const collectValidationErrors = (checks) =>
   checks.flatMap((check) => (check.ok ? [] : [check.message]));
 
@@ -238,6 +259,66 @@ const validateGeneratePromptPayload = (payload) => {
   return errors;
 };
 
+const validateSummarizeThreadPayload = (payload) => {
+  if (!payload || typeof payload !== 'object') {
+    return ['Payload inválido. Envie um objeto JSON.'];
+  }
+  const errors = collectValidationErrors([
+    {
+      ok: Array.isArray(payload.messages) && payload.messages.length > 0,
+      message: 'messages é obrigatório e deve ser um array não vazio.',
+    },
+    {
+      ok: payload.suggestions === undefined || Array.isArray(payload.suggestions),
+      message: 'suggestions deve ser um array quando fornecido.',
+    },
+  ]);
+
+  if (Array.isArray(payload.messages)) {
+    payload.messages.forEach((entry, index) => {
+      if (!entry || typeof entry !== 'object' || !isNonEmptyString(entry.role) || typeof entry.content !== 'string') {
+        errors.push(`messages[${index}] deve ser um objeto com role e content.`);
+      }
+    });
+  }
+
+  return errors;
+};
+
+const REVIEW_PR_MAX_FILES = 40;
+const REVIEW_PR_MAX_PATCH_CHARS = 6000;
+
+const validateReviewPullRequestPayload = (payload) => {
+  if (!payload || typeof payload !== 'object') {
+    return ['Payload inválido. Envie um objeto JSON.'];
+  }
+  const pullRequest = payload.pullRequest;
+  const errors = collectValidationErrors([
+    {
+      ok: Boolean(pullRequest) && typeof pullRequest === 'object' && Number.isInteger(pullRequest.number),
+      message: 'pullRequest é obrigatório e deve ter number.',
+    },
+    {
+      ok: Boolean(pullRequest) && isNonEmptyString(pullRequest.title),
+      message: 'pullRequest.title é obrigatório.',
+    },
+    {
+      ok: Array.isArray(payload.files) && payload.files.length > 0,
+      message: 'files é obrigatório e deve ser um array não vazio.',
+    },
+  ]);
+
+  if (Array.isArray(payload.files)) {
+    payload.files.forEach((file, index) => {
+      if (!file || typeof file !== 'object' || !isNonEmptyString(file.path)) {
+        errors.push(`files[${index}] deve ser um objeto com path.`);
+      }
+    });
+  }
+
+  return errors;
+};
+
 const validateAiChatPayload = (payload) => {
   if (!payload || typeof payload !== 'object') {
     return ['Payload inválido. Envie um objeto JSON.'];
@@ -305,6 +386,7 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const dataDir = process.env.VERCEL ? '/tmp' : __dirname;
 const indexingStorePath = path.join(dataDir, 'indexing-store.json');
+const indexesDir = path.join(dataDir, 'indexes');
 const sessionStorePath = path.join(dataDir, 'session-store.json');
 const aiAuditLogPath = path.join(dataDir, 'ai-audit-log.jsonl');
 
@@ -448,16 +530,85 @@ const updateJob = async (jobId, updates) => {
   return updated;
 };
 
+const getIndexPath = (jobId) => path.join(indexesDir, `${jobId}.json`);
+
+const readRepositoryIndex = async (jobId) => {
+  try {
+    const content = await fs.readFile(getIndexPath(jobId), 'utf-8');
+    return JSON.parse(content);
+  } catch (error) {
+    if (error?.code !== 'ENOENT') {
+      console.error('Failed to read repository index', error);
+    }
+    return null;
+  }
+};
+
+const persistRepositoryIndex = async (jobId, index) => {
+  await fs.mkdir(indexesDir, { recursive: true });
+  await fs.writeFile(getIndexPath(jobId), JSON.stringify(index));
+};
+
+const loadIndexingSnapshot = async (job, reportProgress) => {
+  const source = job.payload?.source;
+  if (source === 'upload') {
+    const files = indexingSnapshots.get(job.id);
+    if (!files) {
+      throw new Error('Snapshot not available anymore; submit the files again.');
+    }
+    return { files, skippedFileCount: 0 };
+  }
+  if (source === 'github') {
+    const { owner, repo, branch } = job.payload;
+    return fetchGitHubSnapshot({
+      owner,
+      repo,
+      branch,
+      accessToken: indexingAccessTokens.get(job.id) ?? null,
+      maxFiles: indexingMaxFiles,
+      onProgress: reportProgress,
+    });
+  }
+  throw new Error('Unsupported snapshot source.');
+};
+
 const runIndexingJob = async (job) => {
-  await updateJob(job.id, { status: 'in_progress' });
+  const reportProgress = async (progress) => {
+    await updateJob(job.id, { progress });
+  };
+  await updateJob(job.id, {
+    status: 'in_progress',
+    progress: { phase: 'snapshot', filesDone: 0, filesTotal: null },
+  });
   try {
-    await new Promise((resolve) => setTimeout(resolve, indexingJobDurationMs));
-    await updateJob(job.id, { status: 'ok', error: null, completedAt: new Date().toISOString() });
+    const { files, skippedFileCount } = await loadIndexingSnapshot(job, reportProgress);
+    const built = await buildRepositoryIndex(files, { onProgress: reportProgress });
+    // Arquivos além de INDEXING_MAX_FILES ficam de fora e isso é informado no job
+    const index = { ...built, stats: { ...built.stats, skippedFileCount } };
+    const filesTotal = index.stats.indexedFileCount;
+    await reportProgress({ phase: 'persisting', filesDone: filesTotal, filesTotal });
+    const indexedAt = new Date().toISOString();
+    await persistRepositoryIndex(job.id, {
+      jobId: job.id,
+      source: job.payload,
+      indexedAt,
+      ...index,
+    });
+    await updateJob(job.id, {
+      status: 'ok',
+      error: null,
+      progress: { phase: 'done', filesDone: filesTotal, filesTotal },
+      result: index.stats,
+      completedAt: indexedAt,
+    });
   } catch (error) {
     await updateJob(job.id, {
       status: 'error',
       error: error instanceof Error ? error.message : 'Unknown error',
     });
+  } finally {
+    indexingSnapshots.delete(job.id);
+    indexingAccessTokens.delete(job.id);
   }
 };
 
@@ -520,12 +671,12 @@ const withRequestId = (payload, requestId) => (
   requestId ? { ...payload, requestId } : payload
 );
 
-const readJsonBody = (req) =>
+const readJsonBody = (req, maxBytes = 1_000_000) =>
   new Promise((resolve, reject) => {
     let buffer = '';
     req.on('data', (chunk) => {
       buffer += chunk;
-      if (buffer.length > 1_000_000) {
+      if (buffer.length > maxBytes) {
         reject(new Error('Payload too large'));
         req.destroy();
       }
@@ -544,9 +695,9 @@ const readJsonBody = (req) =>
     req.on('error', reject);
   });
 
-const getJsonPayload = async (req, res, requestId) => {
+const getJsonPayload = async (req, res, requestId, maxBytes) => {
   try {
-    return await readJsonBody(req);
+    return await readJsonBody(req, maxBytes);
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Invalid JSON';
     if (message === 'Payload too large') {
@@ -576,6 +727,8 @@ const migrateSessionPayload = (payload) => {
   return null;
 };
 
+const LAYOUT_ALGORITHMS = new Set(['layered', 'radial', 'force', 'hierarchy']);
+
 const isValidSessionPayload = (payload) => {
   if (!payload || typeof payload !== 'object') return false;
   if (typeof payload.schemaVersion !== 'number') return false;
@@ -603,6 +756,18 @@ const isValidSessionPayload = (payload) => {
     ))) {
       return false;
     }
+    const { algorithms } = payload.layout;
+    if (algorithms !== undefined) {
+      if (!algorithms || typeof algorithms !== 'object') return false;
+      if (Object.values(algorithms).some((algorithm) => !LAYOUT_ALGORITHMS.has(algorithm))) return false;
+    }
+  }
+
+  if (payload.ingestionRules !== undefined) {
+    const rules = payload.ingestionRules;
+    if (!rules || typeof rules !== 'object') return false;
+    const isGlobList = (value) => Array.isArray(value) && value.every((pattern) => typeof pattern === 'string');
+    if (!isGlobList(rules.include) || !isGlobList(rules.exclude)) return false;
   }
 
   return prompts.every((item) => {
@@ -880,7 +1045,7 @@ const handleSession = (req, res) => {
 };
 
 const handleAiAnalyzeFile = async (req, res, session, requestId) => {
-  if (!aiClient) {
+  if (!aiProviders.isConfigured()) {
     jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
     return;
   }
@@ -900,14 +1065,18 @@ const handleAiAnalyzeFile = async (req, res, session, requestId) => {
   }
 
   const requestType = AI_REQUEST_SCHEMA.analyzeFile.prompt.id;
+  const aiTarget = resolveAiTarget(res, requestId, requestType, payload.model);
+  if (!aiTarget) {
+    return;
+  }
   const startedAt = Date.now();
   let response = null;
   let error = null;
   let errorMessage = null;
   try {
     response = await generateJsonResponse({
-      client: aiClient,
-      model: aiModelId,
+      client: aiTarget.client,
+      model: aiTarget.model,
       type: requestType,
       params: {
         filename,
@@ -931,8 +1100,8 @@ const handleAiAnalyzeFile = async (req, res, session, requestId) => {
     requestId,
     timestamp: new Date().toISOString(),
     requestType,
-    model: aiModelId,
-    provider: aiProvider,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
     latencyMs,
     success,
     error: errorMessage,
@@ -957,7 +1126,7 @@ const handleAiAnalyzeFile = async (req, res, session, requestId) => {
 };
 
 const handleAiRelevantFiles = async (req, res, session, requestId) => {
-  if (!aiClient) {
+  if (!aiProviders.isConfigured()) {
     jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
     return;
   }
@@ -977,14 +1146,18 @@ const handleAiRelevantFiles = async (req, res, session, requestId) => {
   }
 
   const requestType = AI_REQUEST_SCHEMA.relevantFiles.prompt.id;
+  const aiTarget = resolveAiTarget(res, requestId, requestType, payload.model);
+  if (!aiTarget) {
+    return;
+  }
   const startedAt = Date.now();
   let response = null;
   let error = null;
   let errorMessage = null;
   try {
     response = await generateJsonResponse({
-      client: aiClient,
-      model: aiModelId,
+      client: aiTarget.client,
+      model: aiTarget.model,
       type: requestType,
       params: {
         query,
@@ -1008,8 +1181,8 @@ const handleAiRelevantFiles = async (req, res, session, requestId) => {
     requestId,
     timestamp: new Date().toISOString(),
     requestType,
-    model: aiModelId,
-    provider: aiProvider,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
     latencyMs,
     success,
     error: errorMessage,
@@ -1034,7 +1207,7 @@ const handleAiRelevantFiles = async (req, res, session, requestId) => {
 };
 
 const handleAiProjectSummary = async (req, res, session, requestId) => {
-  if (!aiClient) {
+  if (!aiProviders.isConfigured()) {
     jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
     return;
   }
@@ -1067,14 +1240,18 @@ const handleAiProjectSummary = async (req, res, session, requestId) => {
   };
 
   const requestType = AI_REQUEST_SCHEMA.projectSummary.prompt.id;
+  const aiTarget = resolveAiTarget(res, requestId, requestType, payload.model);
+  if (!aiTarget) {
+    return;
+  }
   const startedAt = Date.now();
   let response = null;
   let error = null;
   let errorMessage = null;
   try {
     response = await generateJsonResponse({
-      client: aiClient,
-      model: aiModelId,
+      client: aiTarget.client,
+      model: aiTarget.model,
       type: requestType,
       params: {
         promptBase,
@@ -1100,8 +1277,8 @@ const handleAiProjectSummary = async (req, res, session, requestId) => {
     requestId,
     timestamp: new Date().toISOString(),
     requestType,
-    model: aiModelId,
-    provider: aiProvider,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
     latencyMs,
     success,
     error: errorMessage,
@@ -1132,7 +1309,7 @@ const handleAiProjectSummary = async (req, res, session, requestId) => {
 };
 
 const handleAnalyzeIntent = async (req, res, session, requestId) => {
-  if (!aiClient) {
+  if (!aiProviders.isConfigured()) {
     jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
     return;
   }
@@ -1155,6 +1332,11 @@ const handleAnalyzeIntent = async (req, res, session, requestId) => {
     return;
   }
 
+  const aiTarget = resolveAiTarget(res, requestId, 'analyzeIntent', payload.model);
+  if (!aiTarget) {
+    return;
+  }
+
   const prompt = buildIntentPrompt({ uiSchema, existingInfrastructure });
   const startedAt = Date.now();
   let response = null;
@@ -1162,8 +1344,8 @@ const handleAnalyzeIntent = async (req, res, session, requestId) => {
   let errorMessage = null;
   try {
     response = await withRetryAndTimeout(() =>
-      aiClient.models.generateContent({
-        model: aiModelId,
+      aiTarget.client.models.generateContent({
+        model: aiTarget.model,
         contents: {
           role: 'user',
           parts: [
@@ -1251,8 +1433,8 @@ const handleAnalyzeIntent = async (req, res, session, requestId) => {
     requestId,
     timestamp: new Date().toISOString(),
     requestType: 'analyzeIntent',
-    model: aiModelId,
-    provider: aiProvider,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
     latencyMs,
     success,
     error: errorMessage,
@@ -1288,7 +1470,7 @@ const handleAnalyze = async (req, res, session, requestId) => {
 };
 
 const handleOptimizePrompt = async (req, res, session, requestId) => {
-  if (!aiClient) {
+  if (!aiProviders.isConfigured()) {
     jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
     return;
   }
@@ -1381,14 +1563,19 @@ ${formatServices(backendRequirements.services)}
 
 Generate a comprehensive, copy-paste-ready prompt for implementing this backend with ${preferredStack}.`;
 
+  const aiTarget = resolveAiTarget(res, requestId, 'optimizePrompt', payload.model);
+  if (!aiTarget) {
+    return;
+  }
+
   const startedAt = Date.now();
   let response = null;
   let error = null;
   let errorMessage = null;
   try {
     response = await withRetryAndTimeout(() =>
-      aiClient.models.generateContent({
-        model: aiModelId,
+      aiTarget.client.models.generateContent({
+        model: aiTarget.model,
         contents: [
           { role: 'user', parts: [{ text: systemPrompt }] },
           { role: 'user', parts: [{ text: userPrompt }] },
@@ -1411,8 +1598,8 @@ Generate a comprehensive, copy-paste-ready prompt for implementing this backend
     requestId,
     timestamp: new Date().toISOString(),
     requestType: 'optimizePrompt',
-    model: aiModelId,
-    provider: aiProvider,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
     latencyMs,
     success,
     error: errorMessage,
@@ -1473,7 +1660,7 @@ const handleAiMetrics = async (req, res) => {
  * Handler para gerar prompts otimizados via AI Agent.
  */
 const handleGeneratePrompt = async (req, res, session, requestId) => {
-  if (!aiClient) {
+  if (!aiProviders.isConfigured()) {
     jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
     return;
   }
@@ -1494,6 +1681,10 @@ const handleGeneratePrompt = async (req, res, session, requestId) => {
   const { task, context, files } = payload;
 
   const requestType = AI_REQUEST_SCHEMA.generatePrompt.prompt.id;
+  const aiTarget = resolveAiTarget(res, requestId, requestType, payload.model);
+  if (!aiTarget) {
+    return;
+  }
   const startedAt = Date.now();
   let response = null;
   let error = null;
@@ -1501,8 +1692,8 @@ const handleGeneratePrompt = async (req, res, session, requestId) => {
 
   try {
     response = await generateJsonResponse({
-      client: aiClient,
-      model: aiModelId,
+      client: aiTarget.client,
+      model: aiTarget.model,
       type: requestType,
       params: { task, context, files },
     });
@@ -1529,8 +1720,8 @@ const handleGeneratePrompt = async (req, res, session, requestId) => {
     requestId,
     timestamp: new Date().toISOString(),
     requestType,
-    model: aiModelId,
-    provider: aiProvider,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
     latencyMs,
     success,
     error: errorMessage,
@@ -1559,12 +1750,237 @@ const handleGeneratePrompt = async (req, res, session, requestId) => {
   jsonResponse(res, 200, withRequestId(result, requestId));
 };
 
+/**
+ * Handler para compactação de threads: resume mensagens antigas preservando
+ * decisões e perguntas em aberto.
+ */
+const handleAiSummarizeThread = async (req, res, session, requestId) => {
+  if (!aiProviders.isConfigured()) {
+    jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
+    return;
+  }
+  if (!checkRateLimit(req, res, session.id, requestId)) {
+    return;
+  }
+  const payload = await getJsonPayload(req, res, requestId);
+  if (!payload) {
+    return;
+  }
+
+  const validationErrors = validateSummarizeThreadPayload(payload);
+  if (validationErrors.length > 0) {
+    jsonResponse(res, 400, withRequestId({ error: validationErrors.join(' ') }, requestId));
+    return;
+  }
+
+  const requestType = AI_REQUEST_SCHEMA.summarizeThread.prompt.id;
+  const aiTarget = resolveAiTarget(res, requestId, requestType, payload.model);
+  if (!aiTarget) {
+    return;
+  }
+  const startedAt = Date.now();
+  let response = null;
+  let error = null;
+  let errorMessage = null;
+  try {
+    response = await generateJsonResponse({
+      client: aiTarget.client,
+      model: aiTarget.model,
+      type: requestType,
+      params: {
+        mode: isNonEmptyString(payload.mode) ? payload.mode : 'ask',
+        messages: payload.messages.slice(-200).map((message) => ({
+          role: message.role,
+          content: message.content.slice(0, 4000),
+        })),
+        suggestions: (Array.isArray(payload.suggestions) ? payload.suggestions : [])
+          .filter((suggestion) => suggestion && typeof suggestion === 'object')
+          .slice(0, 50)
+          .map((suggestion) => ({
+            title: String(suggestion.title ?? ''),
+            description: String(suggestion.description ?? ''),
+          })),
+      },
+    });
+  } catch (caughtError) {
+    error = caughtError;
+    errorMessage = getAiErrorMessage(caughtError);
+  }
+
+  const data = response?.data ?? null;
+  const meta = response?.meta ?? null;
+  const latencyMs = meta?.latencyMs ?? Date.now() - startedAt;
+  const usage = meta?.usage ?? null;
+  const costUsd = estimateAiCostUsd(usage);
+  const success = Boolean(data?.summary);
+
+  await appendAiAuditLog({
+    id: crypto.randomUUID(),
+    requestId,
+    timestamp: new Date().toISOString(),
+    requestType,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
+    latencyMs,
+    success,
+    error: errorMessage,
+    usage,
+    costUsd,
+  });
+
+  if (errorMessage || !success) {
+    jsonResponse(
+      res,
+      errorMessage ? getAiErrorStatus(error) : 502,
+      withRequestId({ error: errorMessage ?? 'Failed to parse AI response.' }, requestId),
+    );
+    return;
+  }
+
+  jsonResponse(
+    res,
+    200,
+    withRequestId(
+      {
+        summary: data.summary,
+        decisions: Array.isArray(data.decisions) ? data.decisions.filter((item) => typeof item === 'string') : [],
+        openQuestions: Array.isArray(data.openQuestions)
+          ? data.openQuestions.filter((item) => typeof item === 'string')
+          : [],
+        ...(usage ? { usage } : {}),
+      },
+      requestId,
+    ),
+  );
+};
+
+const REVIEW_FINDING_CATEGORIES = new Set(['risk', 'missing_test', 'contract_break']);
+const REVIEW_FINDING_SEVERITIES = new Set(['low', 'medium', 'high']);
+
+const normalizeReviewFindings = (findings) =>
+  (Array.isArray(findings) ? findings : [])
+    .filter((finding) => finding && typeof finding === 'object'
+      && REVIEW_FINDING_CATEGORIES.has(finding.category)
+      && isNonEmptyString(finding.title)
+      && isNonEmptyString(finding.path))
+    .map((finding) => ({
+      category: finding.category,
+      severity: REVIEW_FINDING_SEVERITIES.has(finding.severity) ? finding.severity : 'medium',
+      title: finding.title,
+      description: typeof finding.description === 'string' ? finding.description : '',
+      path: finding.path,
+      ...(Number.isInteger(finding.startLine) ? { startLine: finding.startLine } : {}),
+      ...(Number.isInteger(finding.endLine) ? { endLine: finding.endLine } : {}),
+      ...(isNonEmptyString(finding.suggestion) ? { suggestion: finding.suggestion } : {}),
+    }));
+
+/**
+ * Handler para revisão de Pull Request com IA (patches + trilha de impacto).
+ */
+const handleAiReviewPullRequest = async (req, res, session, requestId) => {
+  if (!aiProviders.isConfigured()) {
+    jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
+    return;
+  }
+  if (!checkRateLimit(req, res, session.id, requestId)) {
+    return;
+  }
+  const payload = await getJsonPayload(req, res, requestId);
+  if (!payload) {
+    return;
+  }
+
+  const validationErrors = validateReviewPullRequestPayload(payload);
+  if (validationErrors.length > 0) {
+    jsonResponse(res, 400, withRequestId({ error: validationErrors.join(' ') }, requestId));
+    return;
+  }
+
+  const requestType = AI_REQUEST_SCHEMA.reviewPullRequest.prompt.id;
+  const aiTarget = resolveAiTarget(res, requestId, requestType, payload.model);
+  if (!aiTarget) {
+    return;
+  }
+  const startedAt = Date.now();
+  let response = null;
+  let error = null;
+  let errorMessage = null;
+  try {
+    response = await generateJsonResponse({
+      client: aiTarget.client,
+      model: aiTarget.model,
+      type: requestType,
+      params: {
+        pullRequest: {
+          number: payload.pullRequest.number,
+          title: payload.pullRequest.title,
+          body: typeof payload.pullRequest.body === 'string' ? payload.pullRequest.body.slice(0, 4000) : '',
+          head: String(payload.pullRequest.head ?? 'head'),
+          base: String(payload.pullRequest.base ?? 'base'),
+        },
+        files: payload.files.slice(0, REVIEW_PR_MAX_FILES).map((file) => ({
+          path: file.path,
+          status: String(file.status ?? 'modified'),
+          patch: typeof file.patch === 'string' ? file.patch.slice(0, REVIEW_PR_MAX_PATCH_CHARS) : '',
+          trail: typeof file.trail === 'string' ? file.trail.slice(0, 2000) : '',
+        })),
+      },
+    });
+  } catch (caughtError) {
+    error = caughtError;
+    errorMessage = getAiErrorMessage(caughtError);
+  }
+
+  const data = response?.data ?? null;
+  const meta = response?.meta ?? null;
+  const latencyMs = meta?.latencyMs ?? Date.now() - startedAt;
+  const usage = meta?.usage ?? null;
+  const costUsd = estimateAiCostUsd(usage);
+  const success = Boolean(data) && typeof data.summary === 'string';
+
+  await appendAiAuditLog({
+    id: crypto.randomUUID(),
+    requestId,
+    timestamp: new Date().toISOString(),
+    requestType,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
+    latencyMs,
+    success,
+    error: errorMessage,
+    usage,
+    costUsd,
+  });
+
+  if (errorMessage || !success) {
+    jsonResponse(
+      res,
+      errorMessage ? getAiErrorStatus(error) : 502,
+      withRequestId({ error: errorMessage ?? 'Failed to parse AI response.' }, requestId),
+    );
+    return;
+  }
+
+  jsonResponse(
+    res,
+    200,
+    withRequestId(
+      {
+        summary: data.summary,
+        findings: normalizeReviewFindings(data.findings),
+        ...(usage ? { usage } : {}),
+      },
+      requestId,
+    ),
+  );
+};
+
 /**
  * Handler para chat contextual com IA.
  * Suporta 6 modos: explore, create, alter, fix, connect, ask
  */
 const handleAiContextualChat = async (req, res, session, requestId) => {
-  if (!aiClient) {
+  if (!aiProviders.isConfigured()) {
     jsonResponse(res, 500, withRequestId({ error: 'AI client not configured.' }, requestId));
     return;
   }
@@ -1588,8 +2004,31 @@ const handleAiContextualChat = async (req, res, session, requestId) => {
   }
 
   const { mode, element, userMessage, conversationHistory, projectContext } = payload;
+  const params = {
+    mode,
+    element: element ?? null,
+    userMessage: userMessage.slice(0, 8000),
+    conversationHistory: Array.isArray(conversationHistory)
+      ? conversationHistory.slice(-10) // Limitar histórico
+      : [],
+    projectContext: typeof projectContext === 'string'
+      ? projectContext.slice(0, 4000)
+      : null,
+  };
 
   const requestType = AI_REQUEST_SCHEMA.contextualChat.prompt.id;
+  const aiTarget = resolveAiTarget(res, requestId, requestType, payload.model);
+  if (!aiTarget) {
+    return;
+  }
+
+  const wantsStream = payload.stream === true
+    || String(req.headers.accept ?? '').includes('text/event-stream');
+  if (wantsStream) {
+    await streamAiContextualChat(req, res, { params, requestId, aiTarget });
+    return;
+  }
+
   const startedAt = Date.now();
   let response = null;
   let error = null;
@@ -1597,20 +2036,10 @@ const handleAiContextualChat = async (req, res, session, requestId) => {
 
   try {
     response = await generateJsonResponse({
-      client: aiClient,
-      model: aiModelId,
+      client: aiTarget.client,
+      model: aiTarget.model,
       type: requestType,
-      params: {
-        mode,
-        element: element ?? null,
-        userMessage: userMessage.slice(0, 8000),
-        conversationHistory: Array.isArray(conversationHistory)
-          ? conversationHistory.slice(-10) // Limitar histórico
-          : [],
-        projectContext: typeof projectContext === 'string'
-          ? projectContext.slice(0, 4000)
-          : null,
-      },
+      params,
     });
   } catch (caughtError) {
     error = caughtError;
@@ -1629,8 +2058,8 @@ const handleAiContextualChat = async (req, res, session, requestId) => {
     requestId,
     timestamp: new Date().toISOString(),
     requestType,
-    model: aiModelId,
-    provider: aiProvider,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
     mode,
     latencyMs,
     success,
@@ -1644,58 +2073,222 @@ const handleAiContextualChat = async (req, res, session, requestId) => {
     return;
   }
 
-  if (!success) {
-    const responsePayload = {
+  jsonResponse(res, 200, withRequestId(buildChatResponsePayload(data, { latencyMs, usage }), requestId));
+};
+
+const buildChatResponsePayload = (data, { latencyMs, usage }) => {
+  if (!data) {
+    return {
       response: 'Não consegui interpretar a resposta da IA, tente reformular.',
       suggestions: [],
       followUpQuestions: [],
       latencyMs,
       ...(usage ? { usage } : {}),
     };
-    jsonResponse(res, 200, withRequestId(responsePayload, requestId));
-    return;
   }
-
-  const responsePayload = {
-    response: data?.response ?? '',
-    suggestions: Array.isArray(data?.suggestions) ? data.suggestions : [],
-    followUpQuestions: Array.isArray(data?.followUpQuestions) ? data.followUpQuestions : [],
+  return {
+    response: data.response ?? '',
+    suggestions: Array.isArray(data.suggestions) ? data.suggestions : [],
+    followUpQuestions: Array.isArray(data.followUpQuestions) ? data.followUpQuestions : [],
     latencyMs,
     ...(usage ? { usage } : {}),
   };
-  jsonResponse(res, 200, withRequestId(responsePayload, requestId));
 };
 
-const handleCreateIndexJob = async (req, res) => {
-  const payload = await getJsonPayload(req, res);
-  if (payload === null && req.headers['content-length'] && req.headers['content-length'] !== '0') {
+const writeSseEvent = (res, event, payload) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+};
+
+/**
+ * Chat contextual via server-sent events: `delta` carrega o texto novo do
+ * campo "response", `done` o payload completo (com sugestões) e `error` a falha.
+ * Fechar a conexão cancela a geração.
+ */
+const streamAiContextualChat = async (req, res, { params, requestId, aiTarget }) => {
+  const requestType = AI_REQUEST_SCHEMA.contextualChat.prompt.id;
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      abortController.abort();
+    }
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+
+  const startedAt = Date.now();
+  let sentLength = 0;
+  let response = null;
+  let errorMessage = null;
+
+  try {
+    response = await generateJsonResponseStream({
+      client: aiTarget.client,
+      model: aiTarget.model,
+      type: requestType,
+      params,
+      signal: abortController.signal,
+      onText: (text) => {
+        const partial = extractPartialJsonString(text, 'response');
+        if (partial.length > sentLength) {
+          writeSseEvent(res, 'delta', { text: partial.slice(sentLength) });
+          sentLength = partial.length;
+        }
+      },
+    });
+  } catch (caughtError) {
+    errorMessage = abortController.signal.aborted
+      ? 'Cancelled by client.'
+      : getAiErrorMessage(caughtError);
+  }
+  if (!errorMessage && abortController.signal.aborted) {
+    errorMessage = 'Cancelled by client.';
+  }
+
+  const data = response?.data ?? null;
+  const meta = response?.meta ?? null;
+  const latencyMs = meta?.latencyMs ?? Date.now() - startedAt;
+  const usage = meta?.usage ?? null;
+
+  await appendAiAuditLog({
+    id: crypto.randomUUID(),
+    requestId,
+    timestamp: new Date().toISOString(),
+    requestType,
+    model: aiTarget.model,
+    provider: aiTarget.provider,
+    mode: params.mode,
+    latencyMs,
+    success: Boolean(data) && !errorMessage,
+    error: errorMessage,
+    usage,
+    costUsd: estimateAiCostUsd(usage),
+    streamed: true,
+  });
+
+  if (abortController.signal.aborted) {
+    return;
+  }
+  if (errorMessage) {
+    writeSseEvent(res, 'error', withRequestId({ error: errorMessage }, requestId));
+  } else {
+    writeSseEvent(res, 'done', withRequestId(buildChatResponsePayload(data, { latencyMs, usage }), requestId));
+  }
+  res.end();
+};
+
+const isValidSnapshotFile = (file) =>
+  file && typeof file === 'object' && isNonEmptyString(file.path) && typeof file.content === 'string';
+
+const handleCreateIndexJob = async (req, res, session) => {
+  // Jobs vivem em memória e rodam depois da resposta; funções serverless não mantêm isso
+  if (process.env.VERCEL) {
+    jsonResponse(res, 501, { error: 'Repository indexing requires the standalone server (npm run server).' });
+    return;
+  }
+  const payload = await getJsonPayload(req, res, undefined, indexingMaxPayloadBytes);
+  if (payload === null) {
+    if (!res.headersSent) {
+      jsonResponse(res, 400, { error: 'Snapshot payload is required.' });
+    }
     return;
   }
+
+  let jobPayload = null;
+  let snapshotFiles = null;
+  if (Array.isArray(payload.files)) {
+    if (!payload.files.every(isValidSnapshotFile)) {
+      jsonResponse(res, 400, { error: 'files must be a list of { path, content }.' });
+      return;
+    }
+    if (payload.files.length > indexingMaxFiles) {
+      jsonResponse(res, 413, { error: `Snapshot exceeds ${indexingMaxFiles} files.` });
+      return;
+    }
+    snapshotFiles = payload.files.map((file) => ({ path: file.path, content: file.content }));
+    jobPayload = { source: 'upload', fileCount: snapshotFiles.length };
+  } else if (payload.repository && typeof payload.repository === 'object') {
+    const { owner, repo, branch } = payload.repository;
+    if (!isNonEmptyString(owner) || !isNonEmptyString(repo) || !isNonEmptyString(branch)) {
+      jsonResponse(res, 400, { error: 'repository requires owner, repo and branch.' });
+      return;
+    }
+    jobPayload = { source: 'github', owner, repo, branch };
+  } else {
+    jsonResponse(res, 400, { error: 'Provide files or repository to index.' });
+    return;
+  }
+
   const job = {
     id: crypto.randomUUID(),
+    ownerSessionHash: hashSessionId(session.id),
     status: 'pending',
-    payload: payload ?? null,
+    payload: jobPayload,
+    progress: null,
+    result: null,
     error: null,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     completedAt: null,
   };
+  if (snapshotFiles) {
+    indexingSnapshots.set(job.id, snapshotFiles);
+  }
+  if (jobPayload.source === 'github' && session.data.accessToken) {
+    indexingAccessTokens.set(job.id, session.data.accessToken);
+  }
   indexingJobs.set(job.id, job);
   await persistIndexingStore();
-  jsonResponse(res, 202, job);
+  jsonResponse(res, 202, serializeIndexJob(job));
+  processIndexingQueue().catch((error) => {
+    console.error('Indexing worker error', error);
+  });
 };
 
-const handleIndexJobStatus = (req, res, jobId) => {
+// Só o hash do sid vai para o indexing-store; o cookie em si nunca é persistido
+const hashSessionId = (sessionId) => crypto.createHash('sha256').update(sessionId).digest('hex');
+
+const isIndexJobOwner = (job, session) =>
+  Boolean(job?.ownerSessionHash) && job.ownerSessionHash === hashSessionId(session.id);
+
+const serializeIndexJob = ({ ownerSessionHash: _ownerSessionHash, ...job }) => job;
+
+const handleIndexJobStatus = (req, res, session, jobId) => {
   const job = indexingJobs.get(jobId);
-  if (!job) {
+  if (!isIndexJobOwner(job, session)) {
     jsonResponse(res, 404, { error: 'Job not found.' });
     return;
   }
-  jsonResponse(res, 200, job);
+  jsonResponse(res, 200, serializeIndexJob(job));
 };
 
-const handleIndexJobList = (req, res) => {
-  jsonResponse(res, 200, { jobs: Array.from(indexingJobs.values()) });
+const handleIndexJobResult = async (req, res, session, jobId) => {
+  const job = indexingJobs.get(jobId);
+  if (!isIndexJobOwner(job, session)) {
+    jsonResponse(res, 404, { error: 'Job not found.' });
+    return;
+  }
+  if (job.status !== 'ok') {
+    jsonResponse(res, 409, { error: 'Index is not ready.', status: job.status });
+    return;
+  }
+  const index = await readRepositoryIndex(jobId);
+  if (!index) {
+    jsonResponse(res, 404, { error: 'Index not found.' });
+    return;
+  }
+  jsonResponse(res, 200, index);
+};
+
+const handleIndexJobList = (req, res, session) => {
+  const jobs = Array.from(indexingJobs.values())
+    .filter((job) => isIndexJobOwner(job, session))
+    .map(serializeIndexJob);
+  jsonResponse(res, 200, { jobs });
 };
 
 const handleSaveSession = async (req, res) => {
@@ -1814,6 +2407,9 @@ export const handleRequest = async (req, res) => {
       const payload = await getJsonPayload(req, res, requestId);
       if (!payload) return;
 
+      const aiTarget = resolveAiTarget(res, requestId, 'detect-framework', payload.model);
+      if (!aiTarget) return;
+
       const { packageJson, entryFiles } = payload;
 
       // Build prompt for AI
@@ -1849,7 +2445,7 @@ Respond in JSON format ONLY.`;
       const startMs = Date.now();
       const result = await withRetryAndTimeout(
         async (signal) => {
-          const response = await aiClient.generateContent({
+          const response = await aiTarget.client.generateContent({
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
             generationConfig: {
               responseMimeType: 'application/json',
@@ -1870,8 +2466,8 @@ Respond in JSON format ONLY.`;
         id: requestId,
         timestamp: Date.now(),
         requestType: 'detect-framework',
-        model: aiModelId,
-        provider: aiProvider,
+        model: aiTarget.model,
+        provider: aiTarget.provider,
         latencyMs,
         success: true,
         usage,
@@ -1895,6 +2491,9 @@ Respond in JSON format ONLY.`;
       const payload = await getJsonPayload(req, res, requestId);
       if (!payload) return;
 
+      const aiTarget = resolveAiTarget(res, requestId, 'ui-hierarchy', payload.model);
+      if (!aiTarget) return;
+
       const { framework, files, entryPoint } = payload;
 
       // Build prompt for AI
@@ -1964,7 +2563,7 @@ Respond in JSON format ONLY.`;
       const startMs = Date.now();
       const result = await withRetryAndTimeout(
         async (signal) => {
-          const response = await aiClient.generateContent({
+          const response = await aiTarget.client.generateContent({
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
             generationConfig: {
               responseMimeType: 'application/json',
@@ -1988,8 +2587,8 @@ Respond in JSON format ONLY.`;
         id: requestId,
         timestamp: Date.now(),
         requestType: 'ui-hierarchy',
-        model: aiModelId,
-        provider: aiProvider,
+        model: aiTarget.model,
+        provider: aiTarget.provider,
         latencyMs,
         success: true,
         usage,
@@ -2013,6 +2612,9 @@ Respond in JSON format ONLY.`;
       const payload = await getJsonPayload(req, res, requestId);
       if (!payload) return;
 
+      const aiTarget = resolveAiTarget(res, requestId, 'dependency-analysis', payload.model);
+      if (!aiTarget) return;
+
       const { frontendFiles, backendFiles, framework } = payload;
 
       // Build prompt for AI
@@ -2054,7 +2656,7 @@ Respond in JSON format ONLY.`;
       const startMs = Date.now();
       const result = await withRetryAndTimeout(
         async (signal) => {
-          const response = await aiClient.generateContent({
+          const response = await aiTarget.client.generateContent({
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
             generationConfig: {
               responseMimeType: 'application/json'
@@ -2074,8 +2676,8 @@ Respond in JSON format ONLY.`;
         id: requestId,
         timestamp: Date.now(),
         requestType: 'dependency-analysis',
-        model: aiModelId,
-        provider: aiProvider,
+        model: aiTarget.model,
+        provider: aiTarget.provider,
         latencyMs,
         success: true,
         usage,
@@ -2203,6 +2805,14 @@ Respond in JSON format ONLY.`;
     return;
   }
 
+  if (req.method === 'GET' && url.pathname === '/api/ai/models') {
+    jsonResponse(res, 200, {
+      defaultProvider: aiProviders.defaultProvider,
+      models: aiProviders.listModels(),
+    });
+    return;
+  }
+
   if (req.method === 'POST' && url.pathname === '/api/ai/generate-prompt') {
     const requestId = crypto.randomUUID();
     try {
@@ -2241,9 +2851,44 @@ Respond in JSON format ONLY.`;
     return;
   }
 
+  if (req.method === 'POST' && url.pathname === '/api/ai/summarize-thread') {
+    const requestId = crypto.randomUUID();
+    try {
+      const session = getSession(req, res);
+      await handleAiSummarizeThread(req, res, session, requestId);
+    } catch (error) {
+      console.error({
+        requestId,
+        error,
+        route: url.pathname,
+        message: 'AI thread summary error',
+      });
+      jsonResponse(res, 500, withRequestId({ error: 'AI thread summary failed.' }, requestId));
+    }
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/api/ai/review-pr') {
+    const requestId = crypto.randomUUID();
+    try {
+      const session = getSession(req, res);
+      await handleAiReviewPullRequest(req, res, session, requestId);
+    } catch (error) {
+      console.error({
+        requestId,
+        error,
+        route: url.pathname,
+        message: 'AI pull request review error',
+      });
+      jsonResponse(res, 500, withRequestId({ error: 'AI pull request review failed.' }, requestId));
+    }
+    return;
+  }
+
   if (req.method === 'POST' && url.pathname === '/api/indexer/jobs') {
     try {
-      await handleCreateIndexJob(req, res);
+      const session = getSession(req, res);
+      await handleCreateIndexJob(req, res, session);
     } catch (error) {
       console.error('Index job create error', error);
       jsonResponse(res, 500, { error: 'Failed to create index job.' });
@@ -2252,13 +2897,24 @@ Respond in JSON format ONLY.`;
   }
 
   if (req.method === 'GET' && url.pathname === '/api/indexer/jobs') {
-    handleIndexJobList(req, res);
+    handleIndexJobList(req, res, getSession(req, res));
+    return;
+  }
+
+  if (req.method === 'GET' && /^\/api\/indexer\/jobs\/[^/]+\/index$/.test(url.pathname)) {
+    const jobId = url.pathname.split('/')[4];
+    try {
+      await handleIndexJobResult(req, res, getSession(req, res), jobId);
+    } catch (error) {
+      console.error('Index job result error', error);
+      jsonResponse(res, 500, { error: 'Failed to read index.' });
+    }
     return;
   }
 
   if (req.method === 'GET' && url.pathname.startsWith('/api/indexer/jobs/')) {
     const jobId = url.pathname.replace('/api/indexer/jobs/', '');
-    handleIndexJobStatus(req, res, jobId);
+    handleIndexJobStatus(req, res, getSession(req, res), jobId);
     return;
   }
 
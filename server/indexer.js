@@ -0,0 +1,335 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import zlib from 'zlib';
+import ts from 'typescript';
+import { buildModuleResolutionContext, isModuleConfigPath } from '../shared/moduleResolution.js';
+import { buildSemanticLinksForFile, buildSymbolIndex, getScriptBlocks } from '../shared/moduleReferences.js';
+
+export const INDEXABLE_EXTENSIONS = ['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte'];
+const HTTP_METHODS = new Set(['get', 'post', 'put', 'patch', 'delete', 'all']);
+const ROUTER_OBJECTS = new Set(['app', 'router', 'server', 'api', 'fastify']);
+const ROUTE_HANDLER_EXPORTS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']);
+const SNIPPET_MAX_LENGTH = 400;
+const PROGRESS_BATCH_SIZE = 25;
+
+export const getFileExtension = (filePath) => {
+  const fileName = filePath.split('/').pop() ?? '';
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+export const isIndexablePath = (filePath) =>
+  INDEXABLE_EXTENSIONS.includes(getFileExtension(filePath)) && !filePath.endsWith('.d.ts');
+
+export const hashFileContent = (content) =>
+  crypto.createHash('sha256').update(content).digest('hex');
+
+const yieldToEventLoop = () => new Promise((resolve) => setImmediate(resolve));
+
+const buildSnippet = (sourceFile, node) => {
+  const text = node.getText(sourceFile);
+  return text.length > SNIPPET_MAX_LENGTH ? `${text.slice(0, SNIPPET_MAX_LENGTH)}…` : text;
+};
+
+const isFunctionInitializer = (initializer) =>
+  Boolean(initializer) && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+
+const getRouteEndpoint = (node) => {
+  if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return null;
+  const method = node.expression.name.text;
+  const target = node.expression.expression;
+  if (!HTTP_METHODS.has(method) || !ts.isIdentifier(target) || !ROUTER_OBJECTS.has(target.text)) return null;
+  const [routeArg] = node.arguments;
+  if (!routeArg || !ts.isStringLiteralLike(routeArg) || !routeArg.text.startsWith('/')) return null;
+  return `${method.toUpperCase()} ${routeArg.text}`;
+};
+
+/**
+ * Extrai as declarações de topo do arquivo no mesmo formato de `CodeNode`
+ * devolvido pela análise de arquivo da IA.
+ */
+const collectDeclarations = (filePath, sourceFile) => {
+  const declarations = [];
+  const isRouteFile = /(^|\/)route\.[jt]sx?$/.test(filePath);
+  const register = (name, type, node) => {
+    if (!name || declarations.some((declaration) => declaration.name === name)) return;
+    declarations.push({ name, type, node });
+  };
+
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      const name = statement.name.text;
+      register(name, isRouteFile && ROUTE_HANDLER_EXPORTS.has(name) ? 'api_endpoint' : 'function', statement);
+      return;
+    }
+    if (ts.isClassDeclaration(statement) && statement.name) {
+      register(statement.name.text, 'class', statement);
+      return;
+    }
+    if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((declaration) => {
+        if (!ts.isIdentifier(declaration.name)) return;
+        const name = declaration.name.text;
+        const type = isRouteFile && ROUTE_HANDLER_EXPORTS.has(name)
+          ? 'api_endpoint'
+          : isFunctionInitializer(declaration.initializer) ? 'function' : 'variable';
+        register(name, type, declaration);
+      });
+    }
+  });
+
+  const visit = (node) => {
+    const endpoint = getRouteEndpoint(node);
+    if (endpoint) {
+      register(endpoint, 'api_endpoint', node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return declarations;
+};
+
+/**
+ * Estrutura de código do arquivo (declarações de topo e rotas). Imports e
+ * chamadas ficam com `shared/moduleReferences.js`, o mesmo código do front-end.
+ */
+export const analyzeSourceFile = (filePath, content) => {
+  const codeStructure = [];
+  getScriptBlocks(filePath, content).forEach((block) => {
+    const sourceFile = ts.createSourceFile(filePath, block.code, ts.ScriptTarget.Latest, true, block.kind);
+    collectDeclarations(filePath, sourceFile).forEach((declaration) => {
+      if (codeStructure.some((node) => node.name === declaration.name)) return;
+      codeStructure.push({
+        id: `${filePath}#${declaration.name}`,
+        name: declaration.name,
+        type: declaration.type,
+        codeSnippet: buildSnippet(sourceFile, declaration.node),
+      });
+    });
+  });
+  return { codeStructure };
+};
+
+/**
+ * Indexa um snapshot do repositório: estrutura de código por arquivo,
+ * arestas semânticas (import/call) e hash do conteúdo. A resolução usa os
+ * tsconfig/jsconfig (com `extends` e `references`) e package.json do snapshot.
+ * `onProgress` é chamado a cada lote de arquivos e na troca de fase.
+ */
+export const buildRepositoryIndex = async (files, { onProgress } = {}) => {
+  const indexable = files.filter((file) => isIndexablePath(file.path));
+  const contents = new Map(files.map((file) => [file.path, file.content]));
+  const filePaths = new Set(contents.keys());
+  const resolutionContext = buildModuleResolutionContext(filePaths, (filePath) => contents.get(filePath));
+  const analyses = new Map();
+  const report = async (phase, filesDone) => {
+    if (onProgress) await onProgress({ phase, filesDone, filesTotal: indexable.length });
+  };
+
+  await report('parsing', 0);
+  for (let index = 0; index < indexable.length; index += 1) {
+    const file = indexable[index];
+    try {
+      analyses.set(file.path, analyzeSourceFile(file.path, file.content));
+    } catch (error) {
+      analyses.set(file.path, { codeStructure: [], error: error instanceof Error ? error.message : 'Parse error' });
+    }
+    if ((index + 1) % PROGRESS_BATCH_SIZE === 0) {
+      await report('parsing', index + 1);
+      await yieldToEventLoop();
+    }
+  }
+
+  await report('linking', 0);
+  const symbolIndex = buildSymbolIndex(new Map(Array.from(analyses, ([filePath, analysis]) => [filePath, analysis.codeStructure])));
+  const semanticLinks = [];
+  for (let index = 0; index < indexable.length; index += 1) {
+    const file = indexable[index];
+    const analysis = analyses.get(file.path);
+    if (!analysis.error) {
+      try {
+        const { links } = buildSemanticLinksForFile({
+          sourcePath: file.path,
+          content: file.content,
+          codeStructure: analysis.codeStructure,
+          filePaths,
+          symbolIndex,
+          resolutionContext,
+        });
+        semanticLinks.push(...links);
+      } catch (error) {
+        analysis.error = error instanceof Error ? error.message : 'Link error';
+      }
+    }
+    if ((index + 1) % PROGRESS_BATCH_SIZE === 0) {
+      await report('linking', index + 1);
+      await yieldToEventLoop();
+    }
+  }
+  await report('linking', indexable.length);
+
+  const indexedFiles = files.map((file) => ({
+    path: file.path,
+    hash: hashFileContent(file.content),
+    size: file.content.length,
+    codeStructure: analyses.get(file.path)?.codeStructure ?? null,
+    ...(analyses.get(file.path)?.error ? { error: analyses.get(file.path).error } : {}),
+  }));
+
+  return {
+    files: indexedFiles,
+    semanticLinks,
+    stats: {
+      fileCount: files.length,
+      indexedFileCount: indexable.length,
+      symbolCount: indexedFiles.reduce((total, file) => total + (file.codeStructure?.length ?? 0), 0),
+      linkCount: semanticLinks.length,
+    },
+  };
+};
+
+const TAR_BLOCK_SIZE = 512;
+
+const readTarString = (block, offset, length) => {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+};
+
+const readTarSize = (block) => {
+  // Tamanhos acima de 8 GiB usam codificação base-256 (bit alto ligado)
+  if (block[124] & 0x80) {
+    return block.subarray(125, 136).reduce((size, byte) => size * 256 + byte, 0);
+  }
+  return parseInt(readTarString(block, 124, 12).trim() || '0', 8);
+};
+
+const readPaxPath = (content) => {
+  let offset = 0;
+  let paxPath = null;
+  while (offset < content.length) {
+    const space = content.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = Number(content.subarray(offset, space).toString('utf8'));
+    if (!length) break;
+    const record = content.subarray(space + 1, offset + length - 1).toString('utf8');
+    if (record.startsWith('path=')) paxPath = record.slice('path='.length);
+    offset += length;
+  }
+  return paxPath;
+};
+
+/**
+ * Lê um tar (ustar, com nomes longos pax/GNU) em streaming. Só o conteúdo dos
+ * arquivos aceitos por `shouldRead` é mantido em memória.
+ */
+export async function* readTarEntries(chunks, shouldRead) {
+  let buffer = Buffer.alloc(0);
+  let current = null;
+  let nextPath = null;
+
+  for await (const chunk of chunks) {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk]) : chunk;
+    let offset = 0;
+    while (true) {
+      if (current) {
+        const available = buffer.length - offset;
+        const take = Math.min(current.bodyLeft, available);
+        if (current.parts && take > 0) current.parts.push(buffer.subarray(offset, offset + take));
+        current.bodyLeft -= take;
+        offset += take;
+        const skip = Math.min(current.paddingLeft, buffer.length - offset);
+        current.paddingLeft -= skip;
+        offset += skip;
+        if (current.bodyLeft > 0 || current.paddingLeft > 0) break;
+
+        const entry = current;
+        current = null;
+        const content = entry.parts ? Buffer.concat(entry.parts) : null;
+        if (entry.type === 'x') {
+          nextPath = readPaxPath(content) ?? nextPath;
+        } else if (entry.type === 'L') {
+          nextPath = readTarString(content, 0, content.length);
+        } else if (entry.type === '0' || entry.type === '\0') {
+          yield { path: entry.path, size: entry.size, content: content ? content.toString('utf8') : null };
+        }
+        continue;
+      }
+
+      if (buffer.length - offset < TAR_BLOCK_SIZE) break;
+      const header = buffer.subarray(offset, offset + TAR_BLOCK_SIZE);
+      offset += TAR_BLOCK_SIZE;
+      // Blocos zerados marcam o fim do arquivo
+      if (header.every((byte) => byte === 0)) continue;
+
+      const type = String.fromCharCode(header[156]);
+      const size = readTarSize(header);
+      const name = readTarString(header, 0, 100);
+      const prefix = readTarString(header, 257, 6).startsWith('ustar') ? readTarString(header, 345, 155) : '';
+      const entryPath = nextPath ?? (prefix ? `${prefix}/${name}` : name);
+      const isMeta = type === 'x' || type === 'L' || type === 'g';
+      if (!isMeta) nextPath = null;
+      const isFile = type === '0' || type === '\0';
+      current = {
+        path: entryPath,
+        type,
+        size,
+        parts: type === 'x' || type === 'L' || (isFile && shouldRead(entryPath)) ? [] : null,
+        bodyLeft: size,
+        paddingLeft: (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE,
+      };
+    }
+    buffer = buffer.subarray(offset);
+  }
+}
+
+/**
+ * Baixa o snapshot de um repositório GitHub com uma única requisição (tarball
+ * do ref), mantendo os arquivos indexáveis e os de configuração de módulos.
+ * Arquivos indexáveis além de `maxFiles` são descartados e contados em
+ * `skippedFileCount`.
+ */
+export const fetchGitHubSnapshot = async ({ owner, repo, branch, accessToken, maxFiles, onProgress }) => {
+  const ref = branch.split('/').map(encodeURIComponent).join('/');
+  const response = await fetch(
+    `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/tarball/${ref}`,
+    {
+      headers: {
+        Accept: 'application/vnd.github+json',
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+    },
+  );
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download repository tarball (${response.status}).`);
+  }
+
+  let indexableCount = 0;
+  let skippedFileCount = 0;
+  // O tarball tem uma pasta raiz `<owner>-<repo>-<sha>/`
+  const toRepositoryPath = (entryPath) => entryPath.slice(entryPath.indexOf('/') + 1);
+  const shouldRead = (entryPath) => {
+    const filePath = toRepositoryPath(entryPath);
+    if (isModuleConfigPath(filePath)) return true;
+    if (!isIndexablePath(filePath)) return false;
+    if (indexableCount >= maxFiles) {
+      skippedFileCount += 1;
+      return false;
+    }
+    indexableCount += 1;
+    return true;
+  };
+
+  const files = [];
+  const chunks = Readable.fromWeb(response.body).pipe(zlib.createGunzip());
+  for await (const entry of readTarEntries(chunks, shouldRead)) {
+    if (entry.content === null) continue;
+    files.push({ path: toRepositoryPath(entry.path), content: entry.content });
+    // O tarball é lido em fluxo: o total só é conhecido no fim do download
+    if (onProgress && files.length % PROGRESS_BATCH_SIZE === 0) {
+      await onProgress({ phase: 'snapshot', filesDone: files.length, filesTotal: null });
+    }
+  }
+  return { files, skippedFileCount };
+};
@@ -0,0 +1,57 @@
+import type { ScriptKind } from 'typescript';
+import type { ModuleResolutionContext } from './moduleResolution';
+import type { SymbolIndex, SymbolNode } from './symbolIndex';
+
+export type { SymbolIndex, SymbolNode } from './symbolIndex';
+export { buildCodeNodeId, buildSymbolIndex } from './symbolIndex';
+
+export type ScriptBlock = {
+  code: string;
+  lineOffset: number;
+  kind: ScriptKind;
+};
+
+export type ImportReference = {
+  specifier: string;
+  /** Nomes exportados pelo módulo alvo ('default', '*' ou nomeado) */
+  symbols: string[];
+  /** Ligações locais criadas pelo import (vazio para re-exports e side-effects) */
+  bindings: Array<{ localName: string; importedName: string }>;
+  lineRange: [number, number];
+  isReExport: boolean;
+};
+
+export type CallReference = {
+  /** Identificador local chamado (import ou declaração de módulo) */
+  callee: string;
+  /** Membro acessado quando a chamada é `namespace.membro()` */
+  member?: string;
+  binding: 'import' | 'module';
+  /** Declaração mais interna que contém a chamada */
+  enclosing: string | null;
+  lineRange: [number, number];
+};
+
+export type ModuleLink = {
+  source: string;
+  target: string;
+  kind: 'import' | 'call';
+  symbols: string[];
+  lineRanges: Array<[number, number]>;
+};
+
+export declare const getScriptBlocks: (path: string, content: string) => ScriptBlock[];
+
+export declare const extractModuleReferences: (
+  sourcePath: string,
+  content: string
+) => { imports: ImportReference[]; calls: CallReference[] };
+
+export declare const buildSemanticLinksForFile: <T extends SymbolNode>(input: {
+  sourcePath: string;
+  content: string;
+  codeStructure?: T[];
+  filePaths: Set<string>;
+  symbolIndex: SymbolIndex;
+  resolutionContext?: ModuleResolutionContext | null;
+}) => { links: ModuleLink[]; sourceIds: Set<string> };
@@ -0,0 +1,388 @@
+import ts from 'typescript';
+import { resolveImportTarget } from './moduleResolution.js';
+import { buildCodeNodeId, flattenCodeNodes } from './symbolIndex.js';
+
+/**
+ * Extração de imports e chamadas pela AST do TypeScript e montagem das arestas
+ * semânticas (import/call). Usado pelo front-end e pelo indexador do servidor,
+ * para que o grafo indexado e o montado no navegador sejam os mesmos. No
+ * navegador é carregado sob demanda (`loadModuleParser`) por causa do
+ * compilador do TypeScript.
+ */
+
+export { buildCodeNodeId, buildSymbolIndex } from './symbolIndex.js';
+
+const SCRIPT_KIND_BY_EXTENSION = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JS,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+};
+
+const SFC_EXTENSIONS = new Set(['vue', 'svelte']);
+
+const SCRIPT_BLOCK_PATTERN = /<script\b([^>]*)>([\s\S]*?)<\/script>/g;
+
+const getExtension = (path) => {
+  const fileName = path.split('/').pop() ?? '';
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+/**
+ * Blocos de script do arquivo; `.vue`/`.svelte` podem ter vários `<script>`.
+ */
+export const getScriptBlocks = (path, content) => {
+  const extension = getExtension(path);
+  const kind = SCRIPT_KIND_BY_EXTENSION[extension];
+  if (kind !== undefined) return [{ code: content, lineOffset: 0, kind }];
+  if (!SFC_EXTENSIONS.has(extension)) return [];
+
+  const blocks = [];
+  for (const match of content.matchAll(SCRIPT_BLOCK_PATTERN)) {
+    const codeStart = match.index + match[0].indexOf('>') + 1;
+    const lineOffset = content.slice(0, codeStart).split('\n').length - 1;
+    const isTypeScript = /lang=["']ts["']/.test(match[1]);
+    blocks.push({ code: match[2], lineOffset, kind: isTypeScript ? ts.ScriptKind.TS : ts.ScriptKind.JS });
+  }
+  return blocks;
+};
+
+const collectBindingNames = (name, into) => {
+  if (ts.isIdentifier(name)) {
+    into.add(name.text);
+    return;
+  }
+  name.elements.forEach((element) => {
+    if (ts.isBindingElement(element)) collectBindingNames(element.name, into);
+  });
+};
+
+/**
+ * Ligações criadas por `const x = require('m')` e `const { a: b } = require('m')`:
+ * no padrão de objeto o nome importado é a propriedade (`a`), não o alias local.
+ */
+const collectRequireBindings = (name) => {
+  if (ts.isIdentifier(name)) return [{ localName: name.text, importedName: '*' }];
+  const bindings = [];
+  name.elements.forEach((element) => {
+    if (!ts.isBindingElement(element)) return;
+    const property = element.propertyName ?? element.name;
+    const importedName = ts.isObjectBindingPattern(name) && !element.dotDotDotToken
+      && (ts.isIdentifier(property) || ts.isStringLiteral(property))
+      ? property.text
+      : '*';
+    const locals = new Set();
+    collectBindingNames(element.name, locals);
+    locals.forEach((localName) => bindings.push({ localName, importedName }));
+  });
+  return bindings;
+};
+
+const collectStatementDeclarations = (statements, into) => {
+  statements.forEach((statement) => {
+    if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((declaration) => collectBindingNames(declaration.name, into));
+    } else if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement))
+      && statement.name
+    ) {
+      into.add(statement.name.text);
+    }
+  });
+};
+
+const getDeclarationName = (node) => {
+  if (
+    (ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isMethodDeclaration(node))
+    && node.name
+    && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))
+  ) {
+    return node.name.text;
+  }
+  if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+    const initializer = node.initializer;
+    if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer) || ts.isClassExpression(initializer)) {
+      return node.name.text;
+    }
+  }
+  return null;
+};
+
+const isStringLiteralLike = (node) =>
+  Boolean(node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)));
+
+/**
+ * Percorre a AST do TypeScript e extrai imports, re-exports e chamadas resolvíveis.
+ * Comentários e strings são ignorados naturalmente, e chamadas a variáveis locais,
+ * parâmetros ou globais não geram referências.
+ */
+export const extractModuleReferences = (sourcePath, content) => {
+  const imports = [];
+  const calls = [];
+  if (!content) return { imports, calls };
+
+  getScriptBlocks(sourcePath, content).forEach(({ code, lineOffset, kind }) => {
+    const sourceFile = ts.createSourceFile(sourcePath, code, ts.ScriptTarget.Latest, true, kind);
+    const importBindings = new Set();
+    const scopes = [];
+    const enclosing = [];
+
+    const lineRangeOf = (node) => {
+      const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+      const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line;
+      return [start + 1 + lineOffset, end + 1 + lineOffset];
+    };
+
+    const resolveBinding = (name) => {
+      for (let i = scopes.length - 1; i > 0; i--) {
+        if (scopes[i].has(name)) return null;
+      }
+      if (importBindings.has(name)) return 'import';
+      if (scopes[0]?.has(name)) return 'module';
+      return null;
+    };
+
+    const recordImportDeclaration = (node) => {
+      if (!ts.isStringLiteral(node.moduleSpecifier)) return;
+      const bindings = [];
+      const clause = node.importClause;
+      if (clause?.name) {
+        bindings.push({ localName: clause.name.text, importedName: 'default' });
+      }
+      const namedBindings = clause?.namedBindings;
+      if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+        bindings.push({ localName: namedBindings.name.text, importedName: '*' });
+      } else if (namedBindings) {
+        namedBindings.elements.forEach((element) => {
+          bindings.push({
+            localName: element.name.text,
+            importedName: (element.propertyName ?? element.name).text,
+          });
+        });
+      }
+      bindings.forEach((binding) => importBindings.add(binding.localName));
+      imports.push({
+        specifier: node.moduleSpecifier.text,
+        symbols: bindings.map((binding) => binding.importedName),
+        bindings,
+        lineRange: lineRangeOf(node),
+        isReExport: false,
+      });
+    };
+
+    const recordExportDeclaration = (node) => {
+      if (!node.moduleSpecifier || !ts.isStringLiteral(node.moduleSpecifier)) return;
+      const clause = node.exportClause;
+      let symbols = ['*'];
+      if (clause && ts.isNamedExports(clause)) {
+        symbols = clause.elements.map((element) => (element.propertyName ?? element.name).text);
+      }
+      imports.push({
+        specifier: node.moduleSpecifier.text,
+        symbols,
+        bindings: [],
+        lineRange: lineRangeOf(node),
+        isReExport: true,
+      });
+    };
+
+    const recordCall = (node) => {
+      const expression = node.expression;
+      let callee = null;
+      let member;
+      if (ts.isIdentifier(expression)) {
+        callee = expression.text;
+      } else if (
+        ts.isPropertyAccessExpression(expression)
+        && ts.isIdentifier(expression.expression)
+        && ts.isIdentifier(expression.name)
+      ) {
+        callee = expression.expression.text;
+        member = expression.name.text;
+      }
+      if (!callee) return;
+      const binding = resolveBinding(callee);
+      if (!binding) return;
+      // Acesso a membro só é resolvível quando o objeto é um namespace importado
+      if (member && binding !== 'import') return;
+      calls.push({
+        callee,
+        ...(member ? { member } : {}),
+        binding,
+        enclosing: enclosing.length > 0 ? enclosing[enclosing.length - 1] : null,
+        lineRange: lineRangeOf(node),
+      });
+    };
+
+    const visit = (node) => {
+      if (ts.isImportDeclaration(node)) {
+        recordImportDeclaration(node);
+        return;
+      }
+      if (ts.isExportDeclaration(node)) {
+        recordExportDeclaration(node);
+        return;
+      }
+      if (
+        ts.isImportEqualsDeclaration(node)
+        && ts.isExternalModuleReference(node.moduleReference)
+        && ts.isStringLiteral(node.moduleReference.expression)
+      ) {
+        importBindings.add(node.name.text);
+        imports.push({
+          specifier: node.moduleReference.expression.text,
+          symbols: ['*'],
+          bindings: [{ localName: node.name.text, importedName: '*' }],
+          lineRange: lineRangeOf(node),
+          isReExport: false,
+        });
+        return;
+      }
+
+      if (ts.isCallExpression(node)) {
+        const [firstArgument] = node.arguments;
+        const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require' && !resolveBinding('require');
+        if ((isDynamicImport || isRequire) && isStringLiteralLike(firstArgument)) {
+          const requireBindings = [];
+          const declaration = node.parent;
+          if (isRequire && ts.isVariableDeclaration(declaration) && declaration.initializer === node) {
+            collectRequireBindings(declaration.name).forEach((binding) => {
+              importBindings.add(binding.localName);
+              requireBindings.push(binding);
+            });
+          }
+          imports.push({
+            specifier: firstArgument.text,
+            symbols: requireBindings.length > 0 ? requireBindings.map((binding) => binding.importedName) : ['*'],
+            bindings: requireBindings,
+            lineRange: lineRangeOf(node),
+            isReExport: false,
+          });
+          return;
+        }
+      }
+
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        recordCall(node);
+      }
+
+      const declarationName = getDeclarationName(node);
+      if (declarationName) enclosing.push(declarationName);
+
+      let scope = null;
+      if (ts.isSourceFile(node) || ts.isBlock(node) || ts.isModuleBlock(node)) {
+        scope = new Set();
+        collectStatementDeclarations(node.statements, scope);
+      } else if (ts.isCaseBlock(node)) {
+        scope = new Set();
+        node.clauses.forEach((clause) => collectStatementDeclarations(clause.statements, scope));
+      } else if (ts.isFunctionLike(node)) {
+        scope = new Set();
+        node.parameters.forEach((parameter) => collectBindingNames(parameter.name, scope));
+        if ((ts.isFunctionExpression(node) || ts.isClassExpression(node)) && node.name) {
+          scope.add(node.name.text);
+        }
+      } else if ((ts.isForStatement(node) || ts.isForOfStatement(node) || ts.isForInStatement(node)) && node.initializer) {
+        scope = new Set();
+        if (ts.isVariableDeclarationList(node.initializer)) {
+          node.initializer.declarations.forEach((declaration) => collectBindingNames(declaration.name, scope));
+        }
+      } else if (ts.isCatchClause(node) && node.variableDeclaration) {
+        scope = new Set();
+        collectBindingNames(node.variableDeclaration.name, scope);
+      }
+
+      if (scope) scopes.push(scope);
+      ts.forEachChild(node, visit);
+      if (scope) scopes.pop();
+      if (declarationName) enclosing.pop();
+    };
+
+    visit(sourceFile);
+  });
+
+  return { imports, calls };
+};
+
+export const buildSemanticLinksForFile = ({
+  sourcePath,
+  content,
+  codeStructure,
+  filePaths,
+  symbolIndex,
+  resolutionContext,
+}) => {
+  const linksByKey = new Map();
+  const sourceIds = new Set();
+  sourceIds.add(sourcePath);
+
+  const addUniqueLink = (source, target, kind, symbols, lineRange) => {
+    if (!source || !target || source === target) return;
+    const key = `${source}-->${target}:${kind}`;
+    const existing = linksByKey.get(key);
+    if (!existing) {
+      linksByKey.set(key, { source, target, kind, symbols: [...new Set(symbols)], lineRanges: [lineRange] });
+      return;
+    }
+    symbols.forEach((symbol) => {
+      if (!existing.symbols.includes(symbol)) existing.symbols.push(symbol);
+    });
+    if (!existing.lineRanges.some(([start, end]) => start === lineRange[0] && end === lineRange[1])) {
+      existing.lineRanges.push(lineRange);
+    }
+  };
+
+  const { imports, calls } = extractModuleReferences(sourcePath, content);
+  const importedBindings = new Map();
+  imports.forEach((reference) => {
+    const resolved = resolveImportTarget(sourcePath, reference.specifier, filePaths, resolutionContext);
+    if (!resolved) return;
+    addUniqueLink(sourcePath, resolved, 'import', reference.symbols, reference.lineRange);
+    reference.bindings.forEach(({ localName, importedName }) => {
+      importedBindings.set(localName, { targetPath: resolved, importedName });
+    });
+  });
+
+  const codeNodesByName = new Map();
+  flattenCodeNodes(codeStructure ?? []).forEach((codeNode) => {
+    sourceIds.add(buildCodeNodeId(sourcePath, codeNode));
+    if (!codeNodesByName.has(codeNode.name)) codeNodesByName.set(codeNode.name, codeNode);
+  });
+
+  const symbolsInFile = (name, filePath) =>
+    (symbolIndex.get(name) ?? []).filter((id) => id.startsWith(`${filePath}#`));
+
+  calls.forEach((call) => {
+    const enclosingNode = call.enclosing ? codeNodesByName.get(call.enclosing) : undefined;
+    const sourceId = enclosingNode ? buildCodeNodeId(sourcePath, enclosingNode) : sourcePath;
+    let symbol = call.callee;
+    let targets = [];
+
+    if (call.binding === 'import') {
+      const imported = importedBindings.get(call.callee);
+      if (!imported) return;
+      if (imported.importedName === '*') {
+        if (!call.member) return;
+        symbol = call.member;
+      } else if (imported.importedName !== 'default') {
+        symbol = imported.importedName;
+      }
+      targets = symbolsInFile(symbol, imported.targetPath);
+    } else {
+      const localNode = codeNodesByName.get(call.callee);
+      targets = localNode ? [buildCodeNodeId(sourcePath, localNode)] : symbolsInFile(call.callee, sourcePath);
+    }
+
+    targets.forEach((targetId) => {
+      addUniqueLink(sourceId, targetId, 'call', [symbol], call.lineRange);
+    });
+  });
+
+  return { links: Array.from(linksByKey.values()), sourceIds };
+};
@@ -0,0 +1,40 @@
+export declare const MODULE_CONFIG_FILE_PATTERN: RegExp;
+
+export declare const isModuleConfigPath: (path: string) => boolean;
+
+export declare const normalizePath: (path: string) => string;
+
+export type PackageManifest = {
+  name?: string;
+  exports?: unknown;
+  source?: string;
+  module?: string;
+  main?: string;
+  types?: string;
+  typings?: string;
+};
+
+export type PathAliasConfig = {
+  baseUrl: string | null;
+  paths: Record<string, string[]>;
+  pathsBase: string;
+};
+
+export type ModuleResolutionContext = {
+  /** Configuração de aliases (tsconfig/jsconfig) por diretório */
+  aliasConfigsByDirectory: Map<string, PathAliasConfig>;
+  /** Pacotes do workspace indexados pelo campo `name` do package.json */
+  packagesByName: Map<string, { directory: string; manifest: PackageManifest }>;
+};
+
+export declare const buildModuleResolutionContext: (
+  filePaths: Iterable<string>,
+  readFile: (path: string) => string | undefined
+) => ModuleResolutionContext;
+
+export declare const resolveImportTarget: (
+  sourcePath: string,
+  specifier: string,
+  filePaths: Set<string>,
+  context?: ModuleResolutionContext | null
+) => string | null;
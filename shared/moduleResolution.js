@@ -0,0 +1,372 @@
+/**
+ * Resolução de especificadores de import compartilhada entre o front-end
+ * (`src/dependencyParser.ts`) e o indexador do servidor (`server/indexer.js`):
+ * caminhos relativos, `paths`/`baseUrl` dos tsconfig/jsconfig (com `extends` e
+ * `references`) e pacotes do workspace declarados em package.json.
+ */
+
+const FILE_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.json'];
+
+const SOURCE_EXTENSION_BY_OUTPUT = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+const BUILD_OUTPUT_DIRECTORY_PATTERN = /(^|\/)(dist|lib|build|out)(\/|$)/;
+
+const EXPORT_CONDITIONS = ['source', 'development', 'import', 'module', 'browser', 'default', 'require', 'node', 'types'];
+
+const PACKAGE_ENTRY_FIELDS = ['source', 'module', 'main', 'types', 'typings'];
+
+/**
+ * Arquivos de configuração que influenciam a resolução de módulos.
+ */
+export const MODULE_CONFIG_FILE_PATTERN = /(^|\/)(tsconfig(\.[\w-]+)?\.json|jsconfig\.json|package\.json)$/;
+
+export const isModuleConfigPath = (path) =>
+  MODULE_CONFIG_FILE_PATTERN.test(path) && !path.split('/').includes('node_modules');
+
+export const normalizePath = (path) => {
+  if (!path) return '';
+  const parts = path.split('/').filter(Boolean);
+  const resolved = [];
+  parts.forEach((part) => {
+    if (part === '.') return;
+    if (part === '..') {
+      resolved.pop();
+      return;
+    }
+    resolved.push(part);
+  });
+  return resolved.join('/');
+};
+
+const getDirname = (path) => {
+  if (!path) return '';
+  const parts = path.split('/');
+  parts.pop();
+  return parts.join('/');
+};
+
+const joinPath = (base, path) => normalizePath(base ? `${base}/${path}` : path);
+
+const resolveFileCandidate = (rawPath, filePaths) => {
+  for (const ext of FILE_EXTENSIONS) {
+    const candidate = `${rawPath}${ext}`;
+    if (filePaths.has(candidate)) return candidate;
+  }
+
+  // Imports ESM em TypeScript costumam apontar para a extensão emitida ('./util.js' -> util.ts)
+  const outputExtension = Object.keys(SOURCE_EXTENSION_BY_OUTPUT).find((ext) => rawPath.endsWith(ext));
+  if (outputExtension) {
+    const stem = rawPath.slice(0, -outputExtension.length);
+    for (const ext of SOURCE_EXTENSION_BY_OUTPUT[outputExtension]) {
+      if (filePaths.has(`${stem}${ext}`)) return `${stem}${ext}`;
+    }
+  }
+
+  for (const ext of FILE_EXTENSIONS) {
+    const candidate = `${rawPath}/index${ext}`;
+    if (filePaths.has(candidate)) return candidate;
+  }
+
+  return null;
+};
+
+/**
+ * tsconfig/jsconfig são JSONC: remove comentários e vírgulas finais fora de
+ * strings antes do `JSON.parse`, sem precisar do compilador do TypeScript.
+ */
+const stripJsonc = (text) => {
+  let result = '';
+  let inString = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    const next = text[index + 1];
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        index += 1;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '/' && next === '/') {
+      const end = text.indexOf('\n', index);
+      index = end === -1 ? text.length : end - 1;
+      continue;
+    }
+    if (char === '/' && next === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end === -1 ? text.length : end + 1;
+      result += ' ';
+      continue;
+    }
+    if (char === '}' || char === ']') {
+      const trimmed = result.trimEnd();
+      if (trimmed.endsWith(',')) result = trimmed.slice(0, -1);
+    }
+    if (char === '"') inString = true;
+    result += char;
+  }
+  return result;
+};
+
+const parseJsonConfig = (text) => {
+  if (!text) return null;
+  try {
+    const config = JSON.parse(stripJsonc(text.replace(/^\uFEFF/, '')));
+    return config && typeof config === 'object' ? config : null;
+  } catch {
+    return null;
+  }
+};
+
+const findAliasConfig = (configPath, filePaths, readFile, visited = new Set()) => {
+  if (visited.has(configPath)) return null;
+  visited.add(configPath);
+  const config = parseJsonConfig(readFile(configPath));
+  if (!config) return null;
+  const directory = getDirname(configPath);
+  const options = config.compilerOptions ?? {};
+  const baseUrl = typeof options.baseUrl === 'string' ? joinPath(directory, options.baseUrl) : null;
+  const paths = options.paths && typeof options.paths === 'object' ? options.paths : null;
+
+  const resolveRelatedConfig = (reference) => {
+    if (!reference.startsWith('.')) return null;
+    const target = joinPath(directory, reference);
+    if (filePaths.has(target) && target.endsWith('.json')) return target;
+    if (filePaths.has(`${target}.json`)) return `${target}.json`;
+    if (filePaths.has(`${target}/tsconfig.json`)) return `${target}/tsconfig.json`;
+    return null;
+  };
+
+  const extendsList = Array.isArray(config.extends)
+    ? config.extends
+    : typeof config.extends === 'string' ? [config.extends] : [];
+  let inherited = null;
+  for (const reference of extendsList) {
+    const target = resolveRelatedConfig(reference);
+    const parent = target ? findAliasConfig(target, filePaths, readFile, visited) : null;
+    if (parent) inherited = parent;
+  }
+
+  if (paths || baseUrl !== null) {
+    const effectiveBaseUrl = baseUrl ?? inherited?.baseUrl ?? null;
+    return {
+      baseUrl: effectiveBaseUrl,
+      paths: paths ?? inherited?.paths ?? {},
+      // Como no tsc: `paths` partem do baseUrl efetivo (local ou herdado); sem
+      // nenhum baseUrl, do diretório do tsconfig que declarou os `paths`
+      pathsBase: effectiveBaseUrl ?? (paths ? directory : inherited?.pathsBase ?? directory),
+    };
+  }
+  if (inherited) return inherited;
+
+  // Projetos com "solution config" (ex.: Vite) declaram aliases nos tsconfig referenciados
+  const references = Array.isArray(config.references) ? config.references : [];
+  for (const reference of references) {
+    const target = reference?.path ? resolveRelatedConfig(reference.path) : null;
+    const referenced = target ? findAliasConfig(target, filePaths, readFile, visited) : null;
+    if (referenced) return referenced;
+  }
+  return null;
+};
+
+/**
+ * Monta o contexto de resolução a partir dos tsconfig/jsconfig e package.json
+ * presentes no próprio projeto importado.
+ */
+export const buildModuleResolutionContext = (filePaths, readFile) => {
+  const pathSet = filePaths instanceof Set ? filePaths : new Set(filePaths);
+  const aliasConfigsByDirectory = new Map();
+  const packagesByName = new Map();
+
+  pathSet.forEach((path) => {
+    if (!isModuleConfigPath(path)) return;
+    const directory = getDirname(path);
+    const fileName = path.split('/').pop();
+
+    if (fileName === 'package.json') {
+      const manifest = parseJsonConfig(readFile(path));
+      if (manifest?.name && typeof manifest.name === 'string') {
+        packagesByName.set(manifest.name, { directory, manifest });
+      }
+      return;
+    }
+
+    if (fileName !== 'tsconfig.json' && fileName !== 'jsconfig.json') return;
+    // tsconfig.json tem precedência sobre jsconfig.json no mesmo diretório
+    if (fileName === 'jsconfig.json' && pathSet.has(joinPath(directory, 'tsconfig.json'))) return;
+    const aliasConfig = findAliasConfig(path, pathSet, readFile);
+    if (aliasConfig) aliasConfigsByDirectory.set(directory, aliasConfig);
+  });
+
+  return { aliasConfigsByDirectory, packagesByName };
+};
+
+const findNearestAliasConfig = (sourcePath, context) => {
+  let directory = getDirname(sourcePath);
+  while (true) {
+    const config = context.aliasConfigsByDirectory.get(directory);
+    if (config) return config;
+    if (!directory) return null;
+    directory = getDirname(directory);
+  }
+};
+
+const resolvePathAlias = (specifier, config, filePaths) => {
+  let bestMatch = null;
+  for (const [pattern, substitutions] of Object.entries(config.paths)) {
+    if (!Array.isArray(substitutions)) continue;
+    const starIndex = pattern.indexOf('*');
+    if (starIndex === -1) {
+      if (pattern === specifier && (!bestMatch || pattern.length > bestMatch.prefixLength)) {
+        bestMatch = { substitutions, captured: '', prefixLength: pattern.length };
+      }
+      continue;
+    }
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (
+      specifier.startsWith(prefix)
+      && specifier.endsWith(suffix)
+      && specifier.length >= prefix.length + suffix.length
+      && (!bestMatch || prefix.length > bestMatch.prefixLength)
+    ) {
+      bestMatch = {
+        substitutions,
+        captured: specifier.slice(prefix.length, specifier.length - suffix.length),
+        prefixLength: prefix.length,
+      };
+    }
+  }
+
+  if (bestMatch) {
+    for (const substitution of bestMatch.substitutions) {
+      if (typeof substitution !== 'string') continue;
+      const target = joinPath(config.pathsBase, substitution.replace('*', bestMatch.captured));
+      const resolved = resolveFileCandidate(target, filePaths);
+      if (resolved) return resolved;
+    }
+  }
+
+  if (config.baseUrl !== null) {
+    return resolveFileCandidate(joinPath(config.baseUrl, specifier), filePaths);
+  }
+  return null;
+};
+
+const collectExportTargets = (value) => {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap(collectExportTargets);
+  if (!value || typeof value !== 'object') return [];
+  const ordered = [
+    ...EXPORT_CONDITIONS.filter((condition) => condition in value),
+    ...Object.keys(value).filter((condition) => !EXPORT_CONDITIONS.includes(condition)),
+  ];
+  return ordered.flatMap((condition) => collectExportTargets(value[condition]));
+};
+
+const resolveExportsField = (exportsField, subpath) => {
+  if (typeof exportsField === 'string' || Array.isArray(exportsField)) {
+    return subpath === '.' ? collectExportTargets(exportsField) : [];
+  }
+  if (!exportsField || typeof exportsField !== 'object') return [];
+  const isSubpathMap = Object.keys(exportsField).some((key) => key.startsWith('.'));
+  if (!isSubpathMap) {
+    return subpath === '.' ? collectExportTargets(exportsField) : [];
+  }
+  if (subpath in exportsField) return collectExportTargets(exportsField[subpath]);
+
+  for (const [key, value] of Object.entries(exportsField)) {
+    const starIndex = key.indexOf('*');
+    if (starIndex === -1) continue;
+    const prefix = key.slice(0, starIndex);
+    const suffix = key.slice(starIndex + 1);
+    if (subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+      const captured = subpath.slice(prefix.length, subpath.length - suffix.length);
+      return collectExportTargets(value).map((target) => target.replace('*', captured));
+    }
+  }
+  return [];
+};
+
+const resolvePackageTarget = (directory, target, filePaths) => {
+  const rawPath = joinPath(directory, target);
+  const resolved = resolveFileCandidate(rawPath, filePaths);
+  if (resolved) return resolved;
+  // Saídas de build raramente estão versionadas; tenta o equivalente em src/
+  if (BUILD_OUTPUT_DIRECTORY_PATTERN.test(target)) {
+    const sourcePath = joinPath(directory, target.replace(BUILD_OUTPUT_DIRECTORY_PATTERN, '$1src$3'));
+    const withoutDeclaration = sourcePath.replace(/\.d\.(m|c)?ts$/, '');
+    return resolveFileCandidate(withoutDeclaration.replace(/\.(m|c)?js$/, ''), filePaths);
+  }
+  return null;
+};
+
+const resolveWorkspacePackage = (specifier, context, filePaths) => {
+  const segments = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const packageName = segments.slice(0, nameLength).join('/');
+  const entry = context.packagesByName.get(packageName);
+  if (!entry) return null;
+  const { directory, manifest } = entry;
+  const rest = segments.slice(nameLength).join('/');
+  const subpath = rest ? `./${rest}` : '.';
+
+  if (manifest.exports !== undefined) {
+    for (const target of resolveExportsField(manifest.exports, subpath)) {
+      const resolved = resolvePackageTarget(directory, target, filePaths);
+      if (resolved) return resolved;
+    }
+  }
+
+  if (subpath === '.') {
+    for (const field of PACKAGE_ENTRY_FIELDS) {
+      const target = manifest[field];
+      if (typeof target !== 'string') continue;
+      const resolved = resolvePackageTarget(directory, target, filePaths);
+      if (resolved) return resolved;
+    }
+    return resolveFileCandidate(joinPath(directory, 'index'), filePaths)
+      ?? resolveFileCandidate(joinPath(directory, 'src/index'), filePaths);
+  }
+
+  return resolveFileCandidate(joinPath(directory, rest), filePaths)
+    ?? resolveFileCandidate(joinPath(directory, `src/${rest}`), filePaths);
+};
+
+export const resolveImportTarget = (sourcePath, specifier, filePaths, context) => {
+  if (!specifier || specifier.startsWith('http') || specifier.startsWith('data:')) return null;
+  const baseDir = getDirname(sourcePath);
+
+  if (specifier.startsWith('/')) {
+    return resolveFileCandidate(normalizePath(specifier.slice(1)), filePaths);
+  }
+  if (specifier.startsWith('.')) {
+    return resolveFileCandidate(normalizePath(`${baseDir}/${specifier}`), filePaths);
+  }
+
+  if (context) {
+    const aliasConfig = findNearestAliasConfig(sourcePath, context);
+    const aliased = aliasConfig ? resolvePathAlias(specifier, aliasConfig, filePaths) : null;
+    if (aliased) return aliased;
+    const workspaceTarget = resolveWorkspacePackage(specifier, context, filePaths);
+    if (workspaceTarget) return workspaceTarget;
+  }
+
+  if (specifier.startsWith('@/') || specifier.startsWith('~/')) {
+    // Standard alias resolution
+    return resolveFileCandidate(normalizePath(`src/${specifier.slice(2)}`), filePaths);
+  }
+
+  // Might be relative to root or an external package
+  const candidateDirect = normalizePath(specifier);
+  if (filePaths.has(candidateDirect)) return candidateDirect;
+  return null;
+};
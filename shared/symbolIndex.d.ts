@@ -0,0 +1,13 @@
+/** Forma mínima de `CodeNode` usada para indexar símbolos */
+export type SymbolNode = {
+  name: string;
+  children?: SymbolNode[];
+};
+
+export type SymbolIndex = Map<string, string[]>;
+
+export declare const buildCodeNodeId: (filePath: string, codeNode: SymbolNode) => string;
+
+export declare const flattenCodeNodes: <T extends SymbolNode>(nodes: T[]) => T[];
+
+export declare const buildSymbolIndex: <T extends SymbolNode>(codeStructures: Map<string, T[]>) => SymbolIndex;
@@ -0,0 +1,35 @@
+/**
+ * Ids e índice de símbolos das estruturas de código. Fica separado de
+ * `moduleReferences.js` para não depender do compilador do TypeScript.
+ */
+
+export const buildCodeNodeId = (filePath, codeNode) => `${filePath}#${codeNode.name}`;
+
+export const flattenCodeNodes = (nodes) => {
+  const result = [];
+  const visit = (node) => {
+    result.push(node);
+    if (node.children) {
+      node.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+  return result;
+};
+
+/**
+ * Índice nome → ids de símbolo de todas as estruturas conhecidas, inclusive
+ * símbolos aninhados e de arquivos fora do grafo visível.
+ */
+export const buildSymbolIndex = (codeStructures) => {
+  const index = new Map();
+  codeStructures.forEach((structure, filePath) => {
+    flattenCodeNodes(structure).forEach((codeNode) => {
+      const ids = index.get(codeNode.name) ?? [];
+      const id = buildCodeNodeId(filePath, codeNode);
+      if (!ids.includes(id)) ids.push(id);
+      index.set(codeNode.name, ids);
+    });
+  });
+  return index;
+};
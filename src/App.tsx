@@ -7,6 +7,7 @@ import PromptStudioPanel from './components/PromptStudioPanel';
 import GitHubImportModal from './components/GitHubImportModal';
 import { TemplateWizard } from './components/TemplateWizard';
 import AppEffects from './components/AppEffects';
+import CommandPalette from './components/CommandPalette';
 
 const App: React.FC = () => (
   <div className="flex h-screen w-full bg-slate-950 text-slate-200 overflow-hidden font-sans">
@@ -31,6 +32,9 @@ const App: React.FC = () => (
     <ErrorBoundary name="TemplateWizard">
       <TemplateWizard />
     </ErrorBoundary>
+    <ErrorBoundary name="CommandPalette">
+      <CommandPalette />
+    </ErrorBoundary>
     <AppEffects />
   </div>
 );
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+// @ts-ignore
+import { createAiProviderRegistry, parseAiModelRef } from '../../server/ai-providers.js';
+// @ts-ignore
+import { AI_REQUEST_SCHEMA, createOpenAiCompatibleClient, generateJsonResponse } from '../../server/ai-client.js';
+
+const fakeClient = (provider: string) => ({ provider });
+
+describe('AI providers', () => {
+  it('should keep model names with colons on the default provider', () => {
+    expect(parseAiModelRef('openai:qwen2.5-coder', 'google')).toEqual({ provider: 'openai', model: 'qwen2.5-coder' });
+    expect(parseAiModelRef('llama3.1:8b', 'openai')).toEqual({ provider: 'openai', model: 'llama3.1:8b' });
+    expect(parseAiModelRef('  ', 'openai')).toBeNull();
+  });
+
+  it('should route request types and validate the requested model', () => {
+    const registry = createAiProviderRegistry(
+      {
+        AI_PROVIDER: 'google',
+        GOOGLE_AI_API_KEY: 'key',
+        OPENAI_COMPAT_BASE_URL: 'http://localhost:11434/v1',
+        OPENAI_COMPAT_MODEL_ID: 'llama3.1:8b',
+        AI_CHAT_MODEL: 'openai:qwen2.5-coder',
+      },
+      { createClient: ({ provider, apiKey, baseUrl }: { provider: string; apiKey: string; baseUrl?: string }) =>
+        (provider === 'openai' ? (baseUrl ? fakeClient('openai') : null) : apiKey ? fakeClient(provider) : null) },
+    );
+
+    expect(registry.resolve('analyzeFile').target).toMatchObject({ provider: 'google', model: 'gemini-2.5-flash' });
+    expect(registry.resolve('contextualChat').target).toMatchObject({ provider: 'openai', model: 'qwen2.5-coder' });
+    expect(registry.resolve('analyzeFile', 'openai:llama3.1:8b').target).toMatchObject({
+      provider: 'openai',
+      model: 'llama3.1:8b',
+      client: { provider: 'openai' },
+    });
+    expect(registry.resolve('analyzeFile', 'openai:gpt-4o')).toEqual({ error: 'Model not allowed.', status: 400 });
+    expect(registry.listModels().map((model: { id: string }) => model.id)).toEqual([
+      'google:gemini-2.5-flash',
+      'openai:llama3.1:8b',
+      'openai:qwen2.5-coder',
+    ]);
+  });
+
+  it('should call an OpenAI-compatible endpoint with the schema as instruction', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: '```json\n{"summary":"Resumo","diagram":"flowchart TD"}\n```' } }],
+        usage: { prompt_tokens: 40, completion_tokens: 10, total_tokens: 50 },
+      }),
+    });
+    const client = createOpenAiCompatibleClient({ apiKey: 'local', baseUrl: 'http://localhost:8000/v1/', fetchImpl });
+
+    const response = await generateJsonResponse({
+      client,
+      model: 'qwen2.5-coder',
+      type: AI_REQUEST_SCHEMA.projectSummary.prompt.id,
+      params: { promptBase: 'Resuma', filePaths: ['src/a.ts'], graph: {}, context: [] },
+    });
+
+    expect(response.data).toEqual({ summary: 'Resumo', diagram: 'flowchart TD' });
+    expect(response.meta.usage).toEqual({ promptTokens: 40, outputTokens: 10, totalTokens: 50 });
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer local');
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('qwen2.5-coder');
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages[0].content).toContain('"summary":{"type":"string"}');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { sendChatMessage, ChatContext } from '../services/chatService';
+// @ts-ignore
+import { extractPartialJsonString } from '../../server/ai-client.js';
+
+const context: ChatContext = {
+  mode: 'explore',
+  elements: [],
+  conversationHistory: [],
+};
+
+const buildSseBody = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+describe('chat streaming', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should read the response field from a partial JSON stream', () => {
+    const full = JSON.stringify({ response: 'Linha "um"\nlinha dois', suggestions: [] });
+
+    // Escape cortado no fim do chunk fica para o próximo
+    expect(extractPartialJsonString(full.slice(0, 20), 'response')).toBe('Linha ');
+    expect(extractPartialJsonString(full.slice(0, 23), 'response')).toBe('Linha "um');
+    expect(extractPartialJsonString(full, 'response')).toBe('Linha "um"\nlinha dois');
+    expect(extractPartialJsonString('{"resp', 'response')).toBe('');
+  });
+
+  it('should forward deltas to onProgress and parse suggestions once the stream is done', async () => {
+    const done = {
+      response: 'Olá mundo',
+      suggestions: [{ id: 's1', type: 'snippet', title: 'Dica', description: 'desc', included: true }],
+      followUpQuestions: ['E agora?'],
+      latencyMs: 12,
+    };
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'Content-Type': 'text/event-stream' }),
+      body: buildSseBody([
+        'event: delta\ndata: {"text":"Olá"}\n\n',
+        'event: delta\ndata: {"text":" mun',
+        'do"}\n\n',
+        `event: done\ndata: ${JSON.stringify(done)}\n\n`,
+      ]),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const progress: string[] = [];
+
+    const response = await sendChatMessage({
+      userMessage: 'Explique',
+      context,
+      onProgress: (partial) => progress.push(partial),
+    });
+
+    expect(progress).toEqual(['Olá', 'Olá mundo']);
+    expect(response.response).toBe('Olá mundo');
+    expect(response.suggestions).toHaveLength(1);
+    expect(response.followUpQuestions).toEqual(['E agora?']);
+    const [, init] = fetchMock.mock.calls[0];
+    expect(JSON.parse(init.body).stream).toBe(true);
+    expect(init.headers.Accept).toBe('text/event-stream');
+  });
+
+  it('should reject with the streamed error event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      headers: new Headers({ 'Content-Type': 'text/event-stream' }),
+      body: buildSseBody(['event: delta\ndata: {"text":"Par"}\n\n', 'event: error\ndata: {"error":"AI timeout"}\n\n']),
+    }));
+
+    await expect(
+      sendChatMessage({ userMessage: 'Oi', context, onProgress: () => undefined }),
+    ).rejects.toThrow('AI timeout');
+  });
+});
@@ -7,10 +7,13 @@ import {
   listRepoTags,
   listRepoPullRequests,
   getPullRequestFiles,
+  listPullRequestReviewComments,
   fetchAuthenticatedUser,
   fetchUserRepositories,
   listRepoCommits,
   getRateLimitStatus,
+  createBranchAndOpenPr,
+  GitHubCommitError,
 } from '../githubClient';
 
 describe('githubClient', () => {
@@ -146,6 +149,23 @@ describe('githubClient', () => {
     expect(files).toEqual(mockFiles);
   });
 
+  it('should page through review comments until a short page', async () => {
+    const comment = (id: number) => ({ id, path: 'src/index.ts', line: 1, body: `c${id}` });
+    const fetchMock = vi.fn(async (url: any) => {
+      const page = Number(new URL(String(url)).searchParams.get('page'));
+      const body = page === 1
+        ? Array.from({ length: 100 }, (_, index) => comment(index))
+        : [comment(100), comment(101)];
+      return { ok: true, status: 200, headers: new Headers(), json: async () => body } as any;
+    });
+    globalThis.fetch = fetchMock;
+    window.fetch = fetchMock;
+
+    const comments = await listPullRequestReviewComments('facebook', 'react', 42);
+    expect(comments).toHaveLength(102);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
   it('should fetch tags for a repository', async () => {
     const mockTags = [{ name: 'v1.0.0', commit: { sha: '123', url: '' }, zipball_url: '', tarball_url: '', node_id: '' }];
     const fetchMock = vi.fn().mockResolvedValue({
@@ -176,6 +196,145 @@ describe('githubClient', () => {
     expect(commits).toEqual(mockCommits);
   });
 
+  const mockGitDataApi = (options: { failPullRequest?: boolean; branchReadStatus?: number; movedSha?: string } = {}) => {
+    const calls: Array<{ method: string; url: string; body?: any }> = [];
+    let branchSha: string | null = null;
+    const reply = (status: number, data: unknown) => ({
+      ok: status < 400,
+      status,
+      statusText: '',
+      headers: new Headers(),
+      json: async () => data,
+    });
+    const fetchMock = vi.fn().mockImplementation(async (url: string, init?: RequestInit) => {
+      const method = init?.method ?? 'GET';
+      calls.push({ method, url, body: init?.body ? JSON.parse(String(init.body)) : undefined });
+      if (method === 'GET' && url.endsWith('/git/ref/heads/ai-fix')) {
+        if (options.branchReadStatus) return reply(options.branchReadStatus, { message: 'API rate limit exceeded' });
+        return branchSha ? reply(200, { object: { sha: branchSha } }) : reply(404, {});
+      }
+      if (method === 'GET' && url.endsWith('/git/ref/heads/main')) return reply(200, { object: { sha: 'base-sha' } });
+      if (method === 'GET' && url.endsWith('/git/commits/base-sha')) return reply(200, { tree: { sha: 'base-tree' } });
+      if (method === 'GET' && url.endsWith('/git/trees/base-tree')) {
+        return reply(200, { tree: [{ path: 'src', mode: '040000', type: 'tree', sha: 'src-tree' }] });
+      }
+      if (method === 'GET' && url.endsWith('/git/trees/src-tree')) {
+        return reply(200, {
+          tree: [
+            { path: 'old.ts', mode: '100755', type: 'blob', sha: 'old-blob' },
+            { path: 'cli.sh', mode: '100755', type: 'blob', sha: 'cli-blob' },
+          ],
+        });
+      }
+      if (url.endsWith('/git/blobs')) return reply(201, { sha: `blob-${calls.length}` });
+      if (url.endsWith('/git/trees')) return reply(201, { sha: 'new-tree' });
+      if (url.endsWith('/git/commits')) return reply(201, { sha: 'new-commit' });
+      if (url.endsWith('/git/refs')) {
+        branchSha = options.movedSha ?? 'new-commit';
+        return reply(201, {});
+      }
+      if (method === 'DELETE') return reply(204, {});
+      if (url.endsWith('/pulls')) {
+        return options.failPullRequest ? reply(422, { message: 'No commits between main and ai-fix' }) : reply(201, { number: 9 });
+      }
+      return reply(500, {});
+    });
+    globalThis.fetch = fetchMock;
+    window.fetch = fetchMock;
+    return calls;
+  };
+
+  const prPayload = {
+    branchName: 'ai-fix',
+    commitMessage: 'fix: apply suggestions',
+    prTitle: 'AI fix',
+    files: [
+      { path: 'src/a.ts', content: 'export const a = 1;' },
+      { path: 'assets/logo.png', content: 'iVBORw0KGgo=', encoding: 'base64' as const },
+      { path: 'src/legacy.ts', delete: true },
+      { path: 'src/new.ts', previousPath: 'src/old.ts' },
+    ],
+  };
+
+  it('should create a single commit with blobs and a tree before moving the ref', async () => {
+    setGitHubPat('ghp_test1234567890');
+    const calls = mockGitDataApi();
+
+    const pr = await createBranchAndOpenPr('octocat', 'app', 'main', prPayload);
+
+    expect(pr.number).toBe(9);
+    expect(calls.filter((call) => call.url.endsWith('/git/blobs')).map((call) => call.body.content)).toEqual([
+      btoa('export const a = 1;'),
+      'iVBORw0KGgo=',
+    ]);
+    const tree = calls.find((call) => call.url.endsWith('/git/trees'))!.body;
+    expect(tree.base_tree).toBe('base-tree');
+    expect(tree.tree.map((entry: any) => [entry.path, entry.sha, entry.mode])).toEqual([
+      ['src/a.ts', 'blob-4', '100644'],
+      ['assets/logo.png', 'blob-7', '100644'],
+      ['src/legacy.ts', null, '100644'],
+      ['src/old.ts', null, '100644'],
+      // Renamed executable keeps its mode from the base tree
+      ['src/new.ts', 'old-blob', '100755'],
+    ]);
+    expect(calls.filter((call) => call.url.endsWith('/git/commits') && call.method === 'POST')).toHaveLength(1);
+    expect(calls.find((call) => call.url.endsWith('/git/refs'))!.body).toEqual({ ref: 'refs/heads/ai-fix', sha: 'new-commit' });
+    expect(calls.some((call) => call.url.includes('/contents/') && call.method === 'PUT')).toBe(false);
+  });
+
+  it('should keep the executable bit of edited files and create new files as regular blobs', async () => {
+    setGitHubPat('ghp_test1234567890');
+    const calls = mockGitDataApi();
+
+    await createBranchAndOpenPr('octocat', 'app', 'main', {
+      ...prPayload,
+      files: [
+        { path: 'src/cli.sh', content: '#!/bin/sh\necho ok\n' },
+        { path: 'src/b.ts', content: 'export const b = 2;' },
+      ],
+    });
+
+    const tree = calls.find((call) => call.url.endsWith('/git/trees') && call.method === 'POST')!.body;
+    expect(tree.tree.map((entry: any) => [entry.path, entry.mode])).toEqual([
+      ['src/cli.sh', '100755'],
+      ['src/b.ts', '100644'],
+    ]);
+  });
+
+  it('should delete the new branch and name the step when opening the PR fails', async () => {
+    setGitHubPat('ghp_test1234567890');
+    const calls = mockGitDataApi({ failPullRequest: true });
+
+    const error = await createBranchAndOpenPr('octocat', 'app', 'main', prPayload).catch((err) => err);
+
+    expect(error).toBeInstanceOf(GitHubCommitError);
+    expect(error).toMatchObject({ step: 'open-pr', rolledBack: true });
+    expect(error.message).toContain('No commits between main and ai-fix');
+    expect(calls.at(-1)).toMatchObject({ method: 'DELETE', url: 'https://api.github.com/repos/octocat/app/git/refs/heads/ai-fix' });
+  });
+
+  it('should leave the branch alone when it moved before the rollback', async () => {
+    setGitHubPat('ghp_test1234567890');
+    const calls = mockGitDataApi({ failPullRequest: true, movedSha: 'someone-else' });
+
+    const error = await createBranchAndOpenPr('octocat', 'app', 'main', prPayload).catch((err) => err);
+
+    expect(error).toMatchObject({ step: 'open-pr', rolledBack: false });
+    expect(error.message).toContain('left untouched');
+    expect(calls.some((call) => call.method === 'DELETE' || call.method === 'PATCH')).toBe(false);
+  });
+
+  it('should fail at read-base instead of assuming a new branch when the ref lookup errors', async () => {
+    setGitHubPat('ghp_test1234567890');
+    const calls = mockGitDataApi({ branchReadStatus: 403 });
+
+    const error = await createBranchAndOpenPr('octocat', 'app', 'main', prPayload).catch((err) => err);
+
+    expect(error).toBeInstanceOf(GitHubCommitError);
+    expect(error.step).toBe('read-base');
+    expect(calls.some((call) => call.method === 'POST')).toBe(false);
+  });
+
   it('should fetch rate limit status', async () => {
     const mockRateLimit = {
       resources: {
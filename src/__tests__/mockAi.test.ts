@@ -0,0 +1,230 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  mockAnalyzeFile,
+  mockAnalyzeIntent,
+  mockChatResponse,
+  mockDependencyAnalysis,
+  mockDetectFramework,
+  mockProjectSummary,
+  mockRelevantFiles,
+  mockReviewPullRequest,
+  mockUIHierarchy,
+} from '../services/mockAi';
+import { UIIntentSchema } from '../types';
+
+describe('mock AI', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('should derive code nodes from the file content', () => {
+    const { nodes } = mockAnalyzeFile(
+      [
+        'export async function loadUser(id: string) {}',
+        'export class UserStore {}',
+        'const format = (value: string) => value.trim();',
+        'export const LIMIT = 10;',
+        "router.get('/api/users', loadUser);",
+      ].join('\n'),
+      'src/users.ts',
+    );
+
+    expect(nodes.map((node) => [node.name, node.type])).toEqual([
+      ['loadUser', 'function'],
+      ['UserStore', 'class'],
+      ['format', 'function'],
+      ['LIMIT', 'variable'],
+      ['GET /api/users', 'api_endpoint'],
+    ]);
+    expect(nodes[0].id).toBe('src/users.ts#loadUser');
+  });
+
+  it('should rank relevant files by query terms', () => {
+    const paths = ['src/auth/LoginForm.tsx', 'src/utils/format.ts', 'server/auth/session.js'];
+
+    expect(mockRelevantFiles('Como funciona o login com auth?', paths).relevantFiles).toEqual([
+      'src/auth/LoginForm.tsx',
+      'server/auth/session.js',
+    ]);
+  });
+
+  it('should summarise modules and draw their dependencies', () => {
+    const result = mockProjectSummary({
+      filePaths: ['src/components/App.tsx', 'src/stores/graph.ts', 'src/stores/basket.ts'],
+      graph: {
+        nodes: [
+          { id: 'a', type: 'file', label: 'App.tsx', path: 'src/components/App.tsx' },
+          { id: 'b', type: 'file', label: 'graph.ts', path: 'src/stores/graph.ts' },
+        ],
+        edges: [{ source: 'a', target: 'b' }],
+      },
+    });
+
+    expect(result.summary).toContain('src/stores (2)');
+    expect(result.diagram).toBe('flowchart TD\n    M0["src/stores"]\n    M1["src/components"]\n    M1 --> M0');
+  });
+
+  it('should infer backend requirements from the UI schema', () => {
+    const uiSchema: UIIntentSchema = {
+      component: 'SignupForm',
+      fields: [
+        { name: 'email', type: 'email', required: true },
+        { name: 'password', type: 'password', required: true },
+        { name: 'birthDate', type: 'date' },
+      ],
+      actions: [{ type: 'submit', handler: 'handleSubmit', apiCall: 'POST /api/signup' }],
+      dataFlow: { direction: 'create', entityGuess: 'User', confidence: 0.8 },
+      hooks: [],
+    };
+
+    const result = mockAnalyzeIntent({ uiSchema });
+
+    expect(result.tables).toEqual([
+      {
+        name: 'users',
+        columns: [
+          { name: 'id', type: 'uuid', constraints: ['PRIMARY KEY'] },
+          { name: 'email', type: 'text', constraints: ['NOT NULL', 'UNIQUE'] },
+          { name: 'birth_date', type: 'timestamptz', constraints: [] },
+        ],
+      },
+    ]);
+    expect(result.endpoints.map((endpoint) => `${endpoint.method} ${endpoint.path}`)).toEqual(['POST /api/signup']);
+    expect(result.services.map((service) => service.type)).toEqual(['auth', 'email']);
+  });
+
+  it('should keep chat suggestion ids stable for the same input', () => {
+    const input = {
+      userMessage: 'Explique',
+      mode: 'explore' as const,
+      elements: [{ nodeId: 'n1', name: 'App', path: 'src/App.tsx', type: 'file' }],
+    };
+
+    expect(mockChatResponse(input)).toEqual(mockChatResponse(input));
+  });
+
+  it('should flag contract breaks, risky additions and missing tests in a PR', () => {
+    const result = mockReviewPullRequest({
+      pullRequest: { number: 7, title: 'Refatora API' },
+      files: [
+        {
+          path: 'src/api.ts',
+          status: 'modified',
+          patch: '@@ -1,2 +1,3 @@\n-export function load() {}\n+function load() {}\n+// TODO tratar erro',
+          trail: 'network:load GET /api/users',
+        },
+      ],
+    });
+
+    expect(result.findings.map((finding) => [finding.category, finding.startLine, finding.endLine])).toEqual([
+      ['contract_break', 1, 3],
+      ['risk', 1, 3],
+      ['missing_test', 1, 3],
+    ]);
+    expect(result.findings[0].description).toContain('GET /api/users');
+  });
+
+  it('should detect the framework from package.json and entry files', () => {
+    const packageJson = JSON.stringify({ dependencies: { react: '^18.0.0', 'react-router-dom': '^6.0.0', zustand: '^4.0.0' } });
+
+    expect(mockDetectFramework({ packageJson, entryFiles: [{ path: 'src/main.tsx', content: '' }] }).framework).toEqual({
+      name: 'react',
+      confidence: 0.9,
+      entryPoint: 'src/main.tsx',
+      routerType: 'react-router-dom',
+      stateManagement: 'zustand',
+    });
+    expect(mockDetectFramework({ packageJson: '', entryFiles: [{ path: 'src/App.vue', content: '' }] }).framework)
+      .toMatchObject({ name: 'vue', confidence: 0.6 });
+  });
+
+  it('should build the UI hierarchy from components and their elements', () => {
+    const { graph } = mockUIHierarchy({
+      framework: 'react',
+      entryPoint: 'src/main.tsx',
+      files: [
+        { path: 'src/main.tsx', content: 'render(<App />);' },
+        { path: 'src/pages/Login.tsx', content: 'return (\n  <form>\n    <input name="email" />\n    <button>Entrar</button>\n  </form>\n);' },
+        { path: 'src/utils/format.ts', content: 'export const format = () => "";' },
+      ],
+    });
+
+    expect(graph.root.sourceFile).toBe('src/main.tsx');
+    expect(graph.root.children.map((child) => [child.id, child.type])).toEqual([['ui:src/pages/Login.tsx', 'page']]);
+    expect(graph.root.children[0].children.map((child) => [child.type, child.lineRange])).toEqual([
+      ['form', [2, 2]],
+      ['input', [3, 3]],
+      ['button', [4, 4]],
+    ]);
+    expect(graph.totalNodes).toBe(5);
+  });
+
+  it('should report API routes and tables the backend does not provide', () => {
+    const { analysis } = mockDependencyAnalysis({
+      frontendFiles: [
+        { path: 'src/users.ts', content: "fetch('/api/users');\naxios.post('/api/orders', body);\nsupabase.from('profiles').select();" },
+        { path: 'src/admin.ts', content: "fetch('/api/users');" },
+      ],
+      backendFiles: [{ path: 'server/routes.js', content: "router.post('/api/orders', create);" }],
+    });
+
+    expect(analysis.map((entry) => [entry.type, entry.name, entry.requiredBy])).toEqual([
+      ['endpoint', 'GET /api/users', ['src/users.ts', 'src/admin.ts']],
+      ['table', 'profiles', ['src/users.ts']],
+    ]);
+  });
+
+  it('should answer every AI route without network in mock mode', async () => {
+    vi.stubEnv('VITE_AI_MODE', 'mock');
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    const client = await import('../api/client');
+
+    const summary = await client.projectSummary({ filePaths: ['src/a.ts'], graph: { nodes: [], edges: [] } });
+    const prompt = await client.generatePromptAgent({ task: 'Adicionar paginação', files: ['src/list.ts'] });
+    const optimized = await client.optimizePrompt({
+      userIntent: 'Salvar contatos',
+      fileContent: '',
+      selectedNode: { name: 'ContactForm', path: 'src/ContactForm.tsx', type: 'file' },
+      uiIntentSchema: {
+        component: 'ContactForm',
+        fields: [],
+        actions: [],
+        dataFlow: { direction: 'create', entityGuess: 'Contact', confidence: 1 },
+        hooks: [],
+      },
+      projectStructure: { hasBackend: false, stack: [], existingEndpoints: [] },
+      backendRequirements: { tables: [], endpoints: [], services: [] },
+    });
+    const intentPrompt = await client.optimizeIntentPrompt({
+      userIntent: 'Adicionar validação de e-mail',
+      selectedNode: { id: 'src/ContactForm.tsx', name: 'ContactForm.tsx', path: 'src/ContactForm.tsx', type: 'file' },
+      fileContent: 'export function ContactForm() {\n  return null;\n}',
+    });
+
+    const framework = await client.detectFramework({
+      packageJson: JSON.stringify({ dependencies: { next: '14.0.0' } }),
+      entryFiles: [],
+    });
+    const uiGraph = await client.analyzeUIHierarchy({ framework: framework.name, files: [], entryPoint: '' });
+    const dependencies = await client.analyzeDependencies({
+      framework: framework.name,
+      frontendFiles: [{ path: 'src/a.ts', content: "fetch('/api/a')" }],
+      backendFiles: [],
+    });
+
+    expect(framework.name).toBe('nextjs');
+    expect(uiGraph.root.type).toBe('app');
+    expect(dependencies.map((entry) => entry.name)).toEqual(['GET /api/a']);
+    expect(summary.diagram).toContain('flowchart TD');
+    expect(prompt.content).toContain('Adicionar paginação');
+    expect(prompt.techniquesApplied.length).toBeGreaterThan(0);
+    expect(prompt.sections.instructions).toContain('src/list.ts');
+    expect(optimized).toContain('# Implementar backend para ContactForm');
+    expect(intentPrompt).toContain('# Adicionar validação de e-mail');
+    expect(intentPrompt).toContain('`src/ContactForm.tsx`');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { gzipSync } from 'zlib';
+// @ts-ignore
+import { analyzeSourceFile, buildRepositoryIndex, fetchGitHubSnapshot, hashFileContent } from '../../server/indexer.js';
+
+const tarHeader = (name: string, size: number, type: string) => {
+  const header = Buffer.alloc(512);
+  header.write(name.slice(0, 100), 0, 'utf8');
+  header.write(size.toString(8).padStart(11, '0'), 124, 'utf8');
+  header.write(type, 156, 'utf8');
+  header.write('ustar', 257, 'utf8');
+  return header;
+};
+
+const tarEntry = (name: string, content: string, type = '0') => {
+  const body = Buffer.from(content, 'utf8');
+  const padding = Buffer.alloc((512 - (body.length % 512)) % 512);
+  return Buffer.concat([tarHeader(name, body.length, type), body, padding]);
+};
+
+const buildTarball = (entries: Array<[string, string]>) =>
+  gzipSync(Buffer.concat([
+    ...entries.flatMap(([name, content]) => (name.length > 100 ? [tarEntry('././@LongLink', name, 'L'), tarEntry(name, content)] : [tarEntry(name, content)])),
+    Buffer.alloc(1024),
+  ]));
+
+describe('Repository indexer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should extract top-level declarations and route endpoints as code nodes', () => {
+    const { codeStructure } = analyzeSourceFile(
+      'server/app.ts',
+      [
+        'export function start() {}',
+        'export class Store {}',
+        'export const limit = 10;',
+        'const handler = () => start();',
+        "router.post('/api/items', handler);",
+      ].join('\n'),
+    );
+
+    expect(codeStructure.map((node: { name: string; type: string }) => [node.name, node.type])).toEqual([
+      ['start', 'function'],
+      ['Store', 'class'],
+      ['limit', 'variable'],
+      ['handler', 'function'],
+      ['POST /api/items', 'api_endpoint'],
+    ]);
+    expect(codeStructure[0].id).toBe('server/app.ts#start');
+  });
+
+  it('should build import and call edges resolved through tsconfig paths', async () => {
+    const files = [
+      {
+        path: 'app/tsconfig.json',
+        content: JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@lib/*': ['src/lib/*'] } } }),
+      },
+      { path: 'app/src/lib/math.ts', content: 'export function sum(a: number, b: number) { return a + b; }' },
+      {
+        path: 'app/src/index.ts',
+        content: [
+          "// import { ghost } from './ghost';",
+          "import { sum } from '@lib/math';",
+          'export const main = () => sum(1, 2);',
+        ].join('\n'),
+      },
+    ];
+    const progress: Array<{ phase: string; filesDone: number; filesTotal: number }> = [];
+
+    const index = await buildRepositoryIndex(files, { onProgress: (entry: (typeof progress)[number]) => { progress.push(entry); } });
+
+    expect(index.semanticLinks).toEqual([
+      { source: 'app/src/index.ts', target: 'app/src/lib/math.ts', kind: 'import', symbols: ['sum'], lineRanges: [[2, 2]] },
+      { source: 'app/src/index.ts#main', target: 'app/src/lib/math.ts#sum', kind: 'call', symbols: ['sum'], lineRanges: [[3, 3]] },
+    ]);
+    expect(index.stats).toEqual({ fileCount: 3, indexedFileCount: 2, symbolCount: 2, linkCount: 2 });
+    expect(index.files.find((file: { path: string }) => file.path === 'app/tsconfig.json')).toMatchObject({
+      codeStructure: null,
+      hash: hashFileContent(files[0].content),
+    });
+    expect(progress.map((entry) => entry.phase)).toEqual(['parsing', 'linking', 'linking']);
+    expect(progress[progress.length - 1]).toEqual({ phase: 'linking', filesDone: 2, filesTotal: 2 });
+  });
+
+  it('should resolve through extended configs and workspace packages like the client', async () => {
+    const index = await buildRepositoryIndex([
+      { path: 'tsconfig.base.json', content: '{ "compilerOptions": { "baseUrl": ".", "paths": { "@shared/*": ["libs/shared/*"] } } }' },
+      { path: 'apps/web/tsconfig.json', content: '{ "extends": "../../tsconfig.base.json" }' },
+      { path: 'libs/shared/format.ts', content: 'export function format() {}' },
+      { path: 'packages/ui/package.json', content: JSON.stringify({ name: '@acme/ui', main: './dist/index.js' }) },
+      { path: 'packages/ui/src/index.ts', content: 'export function Button() {}' },
+      {
+        path: 'apps/web/src/main.ts',
+        content: [
+          "import { format } from '@shared/format';",
+          "import { Button } from '@acme/ui';",
+          'export function render(format: () => void) { format(); }',
+          'export function mount() { Button(); }',
+        ].join('\n'),
+      },
+    ]);
+
+    expect(index.semanticLinks.map((link: { source: string; target: string; kind: string }) => `${link.kind}:${link.source}->${link.target}`)).toEqual([
+      'import:apps/web/src/main.ts->libs/shared/format.ts',
+      'import:apps/web/src/main.ts->packages/ui/src/index.ts',
+      'call:apps/web/src/main.ts#mount->packages/ui/src/index.ts#Button',
+    ]);
+  });
+
+  it('should link same-file calls between declarations', async () => {
+    const index = await buildRepositoryIndex([
+      { path: 'src/util.ts', content: 'function inner() {}\nexport function outer() { inner(); }' },
+    ]);
+
+    expect(index.semanticLinks).toEqual([
+      { source: 'src/util.ts#outer', target: 'src/util.ts#inner', kind: 'call', symbols: ['inner'], lineRanges: [[2, 2]] },
+    ]);
+  });
+
+  it('should download a GitHub snapshot as one tarball and report files over the limit', async () => {
+    const longPath = `acme-app-1a2b3c/src/${'nested/'.repeat(14)}deep.ts`;
+    const fetchMock = vi.fn(async (_url: string) => new Response(buildTarball([
+      ['acme-app-1a2b3c/package.json', '{ "name": "app" }'],
+      ['acme-app-1a2b3c/README.md', '# App'],
+      [longPath, 'export const deep = 1;'],
+      ['acme-app-1a2b3c/src/a.ts', 'export const a = 1;'],
+    ])));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const snapshot = await fetchGitHubSnapshot({ owner: 'acme', repo: 'my app', branch: 'feature/x', accessToken: null, maxFiles: 1 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.github.com/repos/acme/my%20app/tarball/feature/x');
+    expect(snapshot.files).toEqual([
+      { path: 'package.json', content: '{ "name": "app" }' },
+      { path: longPath.slice('acme-app-1a2b3c/'.length), content: 'export const deep = 1;' },
+    ]);
+    expect(snapshot.skippedFileCount).toBe(1);
+  });
+
+  it('should report snapshot progress without a total while the tarball streams', async () => {
+    const entries = Array.from({ length: 30 }, (_, index): [string, string] => [
+      `acme-app-1a2b3c/src/f${index}.ts`,
+      `export const f${index} = ${index};`,
+    ]);
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(buildTarball(entries))));
+    const progress: Array<{ phase: string; filesDone: number; filesTotal: number | null }> = [];
+
+    await fetchGitHubSnapshot({
+      owner: 'acme',
+      repo: 'app',
+      branch: 'main',
+      accessToken: null,
+      maxFiles: 100,
+      onProgress: async (update: (typeof progress)[number]) => {
+        progress.push(update);
+      },
+    });
+
+    expect(progress).toEqual([{ phase: 'snapshot', filesDone: 25, filesTotal: null }]);
+  });
+});
@@ -1,26 +1,45 @@
 import {
   AiAuditEntry,
   AiMetricsResponse,
+  AiModelsResponse,
   BackendRequirements,
   CodeNode,
+  DetectedFramework,
+  FrameworkName,
   GeneratedPrompt,
+  IndexJob,
+  MissingDependency,
   PromptAgentInput,
   PromptOptimizerPayload,
   ProjectGraphInput,
+  PullRequestAiReview,
+  PullRequestReviewFileInput,
+  PullRequestReviewFinding,
   ProjectSummary,
+  RepositoryIndex,
   SelectedNodePayload,
   SessionPayload,
   SESSION_SCHEMA_VERSION,
+  ThreadSummary,
+  UIHierarchyResponse,
   UIIntentSchema,
 } from '../types';
 import {
+  deleteCachedAnalysis,
   getCachedAnalysis,
   getCachedRelevantFiles,
   hashContent,
   setCachedAnalysis,
   setCachedRelevantFiles,
 } from '../cacheRepository';
-import { isAiMetricsResponse, isSessionPayload } from '../utils/typeGuards';
+import {
+  isAiMetricsResponse,
+  isAiModelsResponse,
+  isIndexJob,
+  isRepositoryIndex,
+  isSessionPayload,
+} from '../utils/typeGuards';
+import { IS_AI_MOCK_MODE, resolveMockAiResponse } from '../services/mockAi';
 
 type AnalyzeIntentPayload = {
   fileContent: string;
@@ -123,17 +142,21 @@ Requisitos:
 - Responda em pt-br.
 - Retorne apenas JSON válido conforme o schema, sem markdown ou explicações extras.`;
 
-const requestApi = async <T>(path: string, payload: Record<string, unknown>): Promise<T> =>
-  requestJson<T>(path, {
+const requestApi = async <T>(path: string, payload: Record<string, unknown>): Promise<T> => {
+  if (IS_AI_MOCK_MODE) {
+    const mock = resolveMockAiResponse(path, payload);
+    if (mock !== undefined) {
+      return mock as T;
+    }
+  }
+  return requestJson<T>(path, {
     method: 'POST',
     body: JSON.stringify(payload),
   });
+};
 
 const requestAi = async <T>(path: string, payload: Record<string, unknown>): Promise<T> =>
-  requestJson<T>(`/api/ai/${path}`, {
-    method: 'POST',
-    body: JSON.stringify(payload),
-  });
+  requestApi<T>(`/api/ai/${path}`, payload);
 
 export const analyzeIntent = async (
   payload: AnalyzeIntentPayload,
@@ -167,12 +190,62 @@ export const optimizePrompt = async (payload: PromptOptimizerPayload): Promise<s
   return typeof result.prompt === 'string' ? result.prompt : '';
 };
 
+export const optimizeIntentPrompt = async (payload: {
+  userIntent: string;
+  selectedNode: SelectedNodePayload;
+  fileContent: string;
+}): Promise<string> => {
+  const result = await requestApi<{ prompt?: string }>('/api/optimize-prompt', {
+    userIntent: payload.userIntent,
+    selectedNode: payload.selectedNode,
+    fileContent: payload.fileContent,
+  });
+
+  return typeof result.prompt === 'string' ? result.prompt : '';
+};
+
+type ProjectFilePayload = { path: string; content: string };
+
+export const detectFramework = async (payload: {
+  packageJson: string;
+  entryFiles: ProjectFilePayload[];
+}): Promise<DetectedFramework> => {
+  const result = await requestApi<{ framework?: DetectedFramework }>('/api/analyze/detect-framework', payload);
+  if (!result?.framework || typeof result.framework.name !== 'string') {
+    throw new Error('Detecção de framework inválida.');
+  }
+  return result.framework;
+};
+
+export const analyzeUIHierarchy = async (payload: {
+  framework: FrameworkName;
+  files: ProjectFilePayload[];
+  entryPoint: string;
+}): Promise<UIHierarchyResponse> => {
+  const result = await requestApi<{ graph?: UIHierarchyResponse }>('/api/analyze/ui-hierarchy', payload);
+  if (!result?.graph?.root) {
+    throw new Error('Hierarquia de UI inválida.');
+  }
+  return result.graph;
+};
+
+export const analyzeDependencies = async (payload: {
+  framework: FrameworkName;
+  frontendFiles: ProjectFilePayload[];
+  backendFiles: ProjectFilePayload[];
+}): Promise<MissingDependency[]> => {
+  const result = await requestApi<{ analysis?: MissingDependency[] }>('/api/analyze/dependencies', payload);
+  return Array.isArray(result?.analysis) ? result.analysis : [];
+};
+
+const analysisCacheKey = (code: string, filename: string) => hashContent(`${filename}:${code}`);
+
 export const analyzeFile = async (
   code: string,
   filename: string,
   options?: { ttlMs?: number },
 ): Promise<CodeNode[]> => {
-  const key = await hashContent(`${filename}:${code}`);
+  const key = await analysisCacheKey(code, filename);
   const cached = await getCachedAnalysis(key);
   if (cached) {
     return cached;
@@ -191,6 +264,13 @@ export const analyzeFile = async (
   }
 };
 
+/**
+ * Descarta a análise em cache de uma versão do arquivo (a chave é o hash do conteúdo).
+ */
+export const invalidateFileAnalysis = async (code: string, filename: string): Promise<void> => {
+  await deleteCachedAnalysis(await analysisCacheKey(code, filename));
+};
+
 export const relevantFiles = async (
   query: string,
   filePaths: string[],
@@ -224,12 +304,14 @@ export const projectSummary = async (inputs: {
   graph: ProjectGraphInput;
   context?: string[];
   promptBase?: string;
+  model?: string;
 }): Promise<ProjectSummary> => {
   const result = await requestAi<ProjectSummary>('project-summary', {
     promptBase: inputs.promptBase ?? PROJECT_SUMMARY_PROMPT_BASE,
     filePaths: inputs.filePaths,
     graph: inputs.graph,
     context: inputs.context ?? [],
+    model: inputs.model,
   });
   return {
     summary: typeof result.summary === 'string' ? result.summary : '',
@@ -237,6 +319,43 @@ export const projectSummary = async (inputs: {
   };
 };
 
+export const summarizeThread = async (payload: {
+  mode: string;
+  messages: Array<{ role: string; content: string }>;
+  suggestions: Array<{ title: string; description: string }>;
+  model?: string;
+}): Promise<ThreadSummary> => {
+  const result = await requestAi<Partial<ThreadSummary>>('summarize-thread', payload);
+  if (typeof result?.summary !== 'string' || result.summary.trim().length === 0) {
+    throw new Error('Resumo da thread inválido.');
+  }
+  const asStrings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  return {
+    summary: result.summary,
+    decisions: asStrings(result.decisions),
+    openQuestions: asStrings(result.openQuestions),
+  };
+};
+
+export const reviewPullRequest = async (payload: {
+  pullRequest: { number: number; title: string; body?: string | null; head: string; base: string };
+  files: PullRequestReviewFileInput[];
+  model?: string;
+}): Promise<PullRequestAiReview> => {
+  const result = await requestAi<Partial<PullRequestAiReview>>('review-pr', payload);
+  if (typeof result?.summary !== 'string') {
+    throw new Error('Revisão do PR inválida.');
+  }
+  return {
+    summary: result.summary,
+    findings: Array.isArray(result.findings)
+      ? result.findings.filter((finding): finding is PullRequestReviewFinding =>
+        Boolean(finding) && typeof finding.title === 'string' && typeof finding.path === 'string')
+      : [],
+  };
+};
+
 export const fetchAiMetrics = async (): Promise<AiMetricsResponse> => {
   const response = await requestJson<AiMetricsApiResponse>('/api/ai/metrics', {}, {
     errorMessage: 'Falha ao carregar métricas.',
@@ -272,6 +391,23 @@ export const fetchAiMetrics = async (): Promise<AiMetricsResponse> => {
   };
 };
 
+/**
+ * Modelos que podem ser escolhidos por thread; o `id` vai no campo `model`
+ * das requisições de IA.
+ */
+export const fetchAiModels = async (): Promise<AiModelsResponse> => {
+  if (IS_AI_MOCK_MODE) {
+    return { defaultProvider: 'mock', models: [] };
+  }
+  const response = await requestJson<unknown>('/api/ai/models', {}, {
+    errorMessage: 'Falha ao carregar modelos de IA.',
+  });
+  if (!isAiModelsResponse(response)) {
+    return { defaultProvider: '', models: [] };
+  }
+  return response;
+};
+
 export const fetchSessionAccessToken = async (): Promise<string | null> => {
   const response = await requestResponse('/api/session', {}, {
     allowedStatuses: [401, 403],
@@ -366,6 +502,43 @@ export const openSession = async (sessionId: string): Promise<OpenSessionRespons
   };
 };
 
+export type IndexJobRequest =
+  | { files: Array<{ path: string; content: string }> }
+  | { repository: { owner: string; repo: string; branch: string } };
+
+export const createIndexJob = async (payload: IndexJobRequest): Promise<IndexJob> => {
+  const response = await requestJson<unknown>('/api/indexer/jobs', {
+    method: 'POST',
+    body: JSON.stringify(payload),
+  }, {
+    errorMessage: 'Falha ao criar job de indexação.',
+  });
+  if (!isIndexJob(response)) {
+    throw new Error('Resposta inválida do indexador.');
+  }
+  return response;
+};
+
+export const fetchIndexJob = async (jobId: string): Promise<IndexJob> => {
+  const response = await requestJson<unknown>(`/api/indexer/jobs/${jobId}`, {}, {
+    errorMessage: 'Falha ao consultar job de indexação.',
+  });
+  if (!isIndexJob(response)) {
+    throw new Error('Resposta inválida do indexador.');
+  }
+  return response;
+};
+
+export const fetchRepositoryIndex = async (jobId: string): Promise<RepositoryIndex> => {
+  const response = await requestJson<unknown>(`/api/indexer/jobs/${jobId}/index`, {}, {
+    errorMessage: 'Falha ao carregar índice do repositório.',
+  });
+  if (!isRepositoryIndex(response)) {
+    throw new Error('Índice do repositório inválido.');
+  }
+  return response;
+};
+
 export const generatePromptAgent = async (input: PromptAgentInput): Promise<GeneratedPrompt> => {
   const result = await requestAi<unknown>('generate-prompt', input as any);
   const response = typeof result === 'object' && result !== null ? (result as Record<string, unknown>) : {};
@@ -168,6 +168,12 @@ export const setCachedAnalysis = async (
   });
 };
 
+export const deleteCachedAnalysis = async (key: string): Promise<void> => {
+  await withStore<void>(ANALYSIS_STORE, 'readwrite', (store) => {
+    store.delete(key);
+  });
+};
+
 export const getCachedRelevantFiles = async (
   key: string,
   repoHash: string,
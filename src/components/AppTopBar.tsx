@@ -4,6 +4,8 @@ import {
   BarChart3,
   BookOpen,
   ChevronDown,
+  Command,
+  Database,
   FileDown,
   FileText,
   FolderOpen,
@@ -12,9 +14,13 @@ import {
   GitPullRequest,
   Key,
   Lightbulb,
+  ListFilter,
   Loader2,
   LogOut,
   Network,
+  Radar,
+  RefreshCw,
+  Repeat,
   Route,
   Save,
   Search,
@@ -25,6 +31,7 @@ import {
 import { useBasketStore } from '../stores/basketStore';
 import { generateMarkdownExport, downloadMarkdown } from '../utils/exportUtils';
 import { useGraphStore } from '../stores/graphStore';
+import { IngestionRulesModal } from './IngestionRulesModal';
 import {
   selectActivePullRequest,
   selectAuthNotice,
@@ -42,7 +49,14 @@ import {
   selectGithubUrl,
   selectUserProfile,
 } from '../stores/graphSelectors';
-import { AppStatus } from '../types';
+import { AppStatus, GraphLayoutAlgorithm } from '../types';
+
+const LAYOUT_ALGORITHM_LABELS: Record<GraphLayoutAlgorithm, string> = {
+  layered: 'Camadas (DAG)',
+  radial: 'Árvore radial',
+  force: 'Forças + comunidades',
+  hierarchy: 'Hierarquia'
+};
 
 const AppTopBar: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -60,12 +74,19 @@ const AppTopBar: React.FC = () => {
   const clearGithubPat = useGraphStore((state) => state.clearGithubPat);
   const graphViewMode = useGraphStore((state) => state.graphViewMode);
   const setGraphViewMode = useGraphStore((state) => state.setGraphViewMode);
+  const layoutAlgorithm = useGraphStore((state) => state.layoutAlgorithms[state.graphViewMode]);
+  const setLayoutAlgorithm = useGraphStore((state) => state.setLayoutAlgorithm);
   const setSearchQuery = useGraphStore((state) => state.setSearchQuery);
   const setGithubUrl = useGraphStore((state) => state.setGithubUrl);
   const setPromptOpen = useGraphStore((state) => state.setPromptOpen);
   const setSidebarTab = useGraphStore((state) => state.setSidebarTab);
+  const setCommandPaletteOpen = useGraphStore((state) => state.setCommandPaletteOpen);
   const processFiles = useGraphStore((state) => state.processFiles);
   const openLocalDirectory = useGraphStore((state) => state.openLocalDirectory);
+  const hasLocalDirectory = useGraphStore((state) => state.localDirectoryHandle !== null);
+  const liveReloadEnabled = useGraphStore((state) => state.liveReloadEnabled);
+  const liveReloadError = useGraphStore((state) => state.liveReloadError);
+  const setLiveReloadEnabled = useGraphStore((state) => state.setLiveReloadEnabled);
   const processZipFile = useGraphStore((state) => state.processZipFile);
   const importGithubRepo = useGraphStore((state) => state.importGithubRepo);
   const searchRelevantFiles = useGraphStore((state) => state.searchRelevantFiles);
@@ -88,10 +109,17 @@ const AppTopBar: React.FC = () => {
   const userProfile = useGraphStore(selectUserProfile);
   const setImportModalOpen = useGraphStore((state) => state.setImportModalOpen);
   const switchBranch = useGraphStore((state) => state.switchBranch);
+  const hasProject = useGraphStore((state) => state.allFilePaths.length > 0);
+  const ingestionRules = useGraphStore((state) => state.ingestionRules);
+  const hasIngestionCandidates = useGraphStore((state) => state.ingestionCandidates.length > 0);
+  const indexJob = useGraphStore((state) => state.indexJob);
+  const indexError = useGraphStore((state) => state.indexError);
+  const startRepositoryIndex = useGraphStore((state) => state.startRepositoryIndex);
 
   const [showRepoDropdown, setShowRepoDropdown] = useState(false);
   const [showBranchDropdown, setShowBranchDropdown] = useState(false);
   const [showPatModal, setShowPatModal] = useState(false);
+  const [showRulesModal, setShowRulesModal] = useState(false);
   const [patInputValue, setPatInputValue] = useState('');
 
   useEffect(() => {
@@ -117,7 +145,16 @@ const AppTopBar: React.FC = () => {
     }
   };
 
-  const toggleSidebar = (tab: 'prompt' | 'summary' | 'flow' | 'recommendations' | 'metrics' | 'library' | 'github-pr') => {
+  const isIndexing = indexJob?.status === 'pending' || indexJob?.status === 'in_progress';
+  const indexPhaseLabels: Record<string, string> = {
+    snapshot: 'Snapshot',
+    parsing: 'Analisando',
+    linking: 'Conectando',
+    persisting: 'Salvando',
+    done: 'Concluído',
+  };
+
+  const toggleSidebar = (tab: 'prompt' | 'summary' | 'flow' | 'impact' | 'cycles' | 'recommendations' | 'metrics' | 'library' | 'github-pr') => {
     if (isPromptOpen && sidebarTab === tab) {
       setPromptOpen(false);
     } else {
@@ -144,6 +181,20 @@ const AppTopBar: React.FC = () => {
             >
               <FolderOpen size={14} className="text-amber-400" /> Folder
             </button>
+            {hasLocalDirectory && (
+              <button
+                onClick={() => setLiveReloadEnabled(!liveReloadEnabled)}
+                className={`flex items-center gap-1.5 border px-2.5 py-1.5 rounded text-sm transition-colors ${
+                  liveReloadEnabled
+                    ? 'bg-emerald-500/10 border-emerald-500/40 text-emerald-300'
+                    : 'bg-slate-800 hover:bg-slate-700 border-slate-700 text-slate-300'
+                }`}
+                title={liveReloadError ?? 'Watch the opened folder and apply edits made outside the app'}
+              >
+                <RefreshCw size={14} className={liveReloadError ? 'text-rose-400' : liveReloadEnabled ? 'animate-spin [animation-duration:3s]' : ''} />
+                Live
+              </button>
+            )}
             <input
               type="file"
               ref={fileInputRef}
@@ -346,6 +397,51 @@ const AppTopBar: React.FC = () => {
               <span className="text-indigo-400/60">({Math.round(detectedFramework.confidence * 100)}%)</span>
             </div>
           )}
+
+          {hasIngestionCandidates && (
+            <button
+              onClick={() => setShowRulesModal(true)}
+              className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-medium border transition-colors ${
+                ingestionRules.include.length + ingestionRules.exclude.length > 0
+                  ? 'bg-indigo-500/20 border-indigo-500/30 text-indigo-200 hover:bg-indigo-500/30'
+                  : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'
+              }`}
+              title="Include/exclude rules applied on top of .gitignore"
+            >
+              <ListFilter size={13} className="text-indigo-400" />
+              Rules
+            </button>
+          )}
+
+          {/* Server-side Repository Index */}
+          {hasProject && (
+            <button
+              onClick={() => startRepositoryIndex()}
+              disabled={isIndexing}
+              className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded text-xs font-medium border transition-colors ${
+                indexError
+                  ? 'bg-red-500/10 border-red-500/30 text-red-300 hover:bg-red-500/20'
+                  : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700 disabled:hover:bg-slate-800'
+              }`}
+              title={
+                indexError
+                ?? (indexJob?.result?.skippedFileCount
+                  ? `${indexJob.result.skippedFileCount} arquivos ficaram de fora do índice (limite do servidor)`
+                  : 'Indexar o repositório no servidor (estrutura, conexões semânticas e hashes)')
+              }
+            >
+              {isIndexing ? <Loader2 size={13} className="animate-spin text-indigo-400" /> : <Database size={13} className="text-indigo-400" />}
+              {isIndexing && indexJob?.progress
+                ? `${indexPhaseLabels[indexJob.progress.phase] ?? indexJob.progress.phase} ${indexJob.progress.filesDone}${indexJob.progress.filesTotal === null ? '' : `/${indexJob.progress.filesTotal}`}`
+                : isIndexing
+                  ? 'Na fila...'
+                  : indexJob?.status === 'ok' && indexJob.result
+                    ? `Indexado (${indexJob.result.symbolCount} símbolos${indexJob.result.skippedFileCount ? `, ${indexJob.result.skippedFileCount} arquivos de fora` : ''})`
+                    : indexError
+                      ? 'Falha ao indexar'
+                      : 'Indexar'}
+            </button>
+          )}
         </div>
 
         {/* AI Query Bar */}
@@ -370,6 +466,13 @@ const AppTopBar: React.FC = () => {
 
         {/* Sidebars and Navigation Controls */}
         <div className="flex items-center gap-1">
+          <button
+            onClick={() => setCommandPaletteOpen(true)}
+            className="p-2 rounded-lg transition-colors hover:bg-slate-800 text-slate-400"
+            title="Buscar arquivos, símbolos e threads (Ctrl+K)"
+          >
+            <Command size={20} />
+          </button>
           <button
             onClick={() => toggleSidebar('prompt')}
             className={`p-2 rounded-lg transition-colors relative ${isPromptOpen && sidebarTab === 'prompt' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}
@@ -398,6 +501,22 @@ const AppTopBar: React.FC = () => {
           >
             <Route size={20} />
           </button>
+          <button
+            onClick={() => toggleSidebar('impact')}
+            className={`p-2 rounded-lg transition-colors ${isPromptOpen && sidebarTab === 'impact' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}
+            aria-label="Open impact radius"
+            title="Impact Radius"
+          >
+            <Radar size={20} />
+          </button>
+          <button
+            onClick={() => toggleSidebar('cycles')}
+            className={`p-2 rounded-lg transition-colors ${isPromptOpen && sidebarTab === 'cycles' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}
+            aria-label="Open circular dependencies"
+            title="Circular Dependencies"
+          >
+            <Repeat size={20} />
+          </button>
           <button
             onClick={() => toggleSidebar('recommendations')}
             className={`p-2 rounded-lg transition-colors ${isPromptOpen && sidebarTab === 'recommendations' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-800 text-slate-400'}`}
@@ -462,8 +581,29 @@ const AppTopBar: React.FC = () => {
             >
               Semântico
             </button>
+            <button
+              onClick={() => setGraphViewMode('symbols')}
+              className={`px-3 py-1 rounded-full transition-colors ${graphViewMode === 'symbols' ? 'bg-indigo-600 text-white' : 'text-slate-300 hover:bg-slate-800'}`}
+              title="Expanda arquivos em funções, classes, variáveis e endpoints"
+            >
+              Símbolos
+            </button>
           </div>
 
+          <select
+            value={layoutAlgorithm}
+            onChange={(event) => setLayoutAlgorithm(graphViewMode, event.target.value as GraphLayoutAlgorithm)}
+            title="Algoritmo de layout deste modo de visualização"
+            aria-label="Algoritmo de layout"
+            className="bg-slate-900 border border-slate-700 rounded-full px-3 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+          >
+            {(Object.keys(LAYOUT_ALGORITHM_LABELS) as GraphLayoutAlgorithm[]).map((algorithm) => (
+              <option key={algorithm} value={algorithm}>
+                {LAYOUT_ALGORITHM_LABELS[algorithm]}
+              </option>
+            ))}
+          </select>
+
           <button
             onClick={handleSaveSession}
             className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 px-3 py-1.5 rounded text-sm transition-colors text-slate-200"
@@ -531,6 +671,8 @@ const AppTopBar: React.FC = () => {
       )}
 
       {/* GitHub Personal Access Token (PAT) Modal */}
+      {showRulesModal && <IngestionRulesModal onClose={() => setShowRulesModal(false)} />}
+
       {showPatModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
           <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 w-full max-w-md shadow-2xl space-y-4">
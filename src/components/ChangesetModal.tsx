@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Download, FileDiff, GitPullRequest, HardDriveDownload, Loader2, X } from 'lucide-react';
+import { useGraphStore } from '../stores/graphStore';
+import { Thread } from '../types';
+import { SideBySideRow, buildChangeset, buildSideBySideHunks, buildUnifiedPatch } from '../utils/changeset';
+import { downloadText } from '../utils/exportUtils';
+import { LocalWriteResult, isNeverIngestedPath } from '../utils/localFileSystem';
+
+const ROW_CLASS: Record<SideBySideRow['kind'], { left: string; right: string }> = {
+  context: { left: 'text-slate-400', right: 'text-slate-400' },
+  added: { left: 'bg-slate-900/60', right: 'text-emerald-300 bg-emerald-950/40' },
+  removed: { left: 'text-rose-300 bg-rose-950/40', right: 'bg-slate-900/60' },
+  changed: { left: 'text-rose-300 bg-rose-950/40', right: 'text-emerald-300 bg-emerald-950/40' }
+};
+
+const WRITE_STATUS_LABELS: Record<LocalWriteResult['status'], { label: string; className: string }> = {
+  created: { label: 'criar', className: 'text-emerald-400' },
+  updated: { label: 'sobrescrever', className: 'text-amber-400' },
+  unchanged: { label: 'sem mudança', className: 'text-slate-500' },
+  stale: { label: 'alterado no disco', className: 'text-rose-400' }
+};
+
+const SideBySideDiff: React.FC<{ original: string; updated: string }> = ({ original, updated }) => {
+  const hunks = useMemo(() => buildSideBySideHunks(original, updated), [original, updated]);
+
+  if (hunks.length === 0) {
+    return <p className="px-3 py-4 text-xs text-slate-500">As sugestões não alteram o conteúdo atual.</p>;
+  }
+
+  const renderCell = (cell: SideBySideRow['left'], className: string) => (
+    <div className={`flex min-w-0 ${className}`}>
+      <span className="w-10 shrink-0 select-none pr-2 text-right text-slate-600">{cell?.line ?? ''}</span>
+      <span className="whitespace-pre-wrap break-all">{cell?.text ?? ''}</span>
+    </div>
+  );
+
+  return (
+    <div className="font-mono text-[11px] leading-5">
+      {hunks.map((rows, hunkIndex) => (
+        <div key={hunkIndex} className="border-b border-slate-800 last:border-b-0">
+          {hunkIndex > 0 && <div className="bg-cyan-950/30 px-3 text-cyan-400">⋯</div>}
+          {rows.map((row, rowIndex) => (
+            <div key={rowIndex} className="grid grid-cols-2 divide-x divide-slate-800">
+              {renderCell(row.left, ROW_CLASS[row.kind].left)}
+              {renderCell(row.right, ROW_CLASS[row.kind].right)}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+interface ChangesetModalProps {
+  thread: Thread;
+  onClose: () => void;
+}
+
+/**
+ * Aplica as sugestões incluídas da thread sobre o conteúdo atual dos arquivos
+ * e deixa revisar o resultado antes de abrir um PR, baixar um `.patch` ou, em
+ * pastas locais, gravar no disco após uma simulação.
+ */
+export const ChangesetModal: React.FC<ChangesetModalProps> = ({ thread, onClose }) => {
+  const githubOwnerRepo = useGraphStore((state) => state.githubOwnerRepo);
+  const suggestions = useMemo(
+    () => thread.suggestions.filter((suggestion) => suggestion.included && suggestion.path && suggestion.content !== undefined),
+    [thread.suggestions]
+  );
+
+  const [contents, setContents] = useState<Map<string, string | undefined> | null>(null);
+  const [unreadablePaths, setUnreadablePaths] = useState<string[]>([]);
+  const [approved, setApproved] = useState<Set<string>>(new Set());
+  const [activePath, setActivePath] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const localDirectoryHandle = useGraphStore((state) => state.localDirectoryHandle);
+  // Simulação da gravação no disco: o diff passa a comparar com o que está no disco
+  const [diskPlan, setDiskPlan] = useState<LocalWriteResult[] | null>(null);
+  const [diskStatus, setDiskStatus] = useState<'idle' | 'checking' | 'writing' | 'done'>('idle');
+
+  useEffect(() => {
+    let cancelled = false;
+    const paths = Array.from(new Set(suggestions.map((suggestion) => suggestion.path!)));
+    const { allFilePaths, ingestionCandidates, ensureFileContent } = useGraphStore.getState();
+    const knownPaths = new Set(allFilePaths);
+    // Existência vem da árvore do repositório, não da lista filtrada: um arquivo
+    // ignorado pelo filtro existe e não pode ser tratado como novo
+    const existingPaths = new Set(ingestionCandidates);
+    const exists = (path: string) => knownPaths.has(path) || existingPaths.has(path) || isNeverIngestedPath(path);
+
+    Promise.all(
+      paths.map(async (path) => [path, knownPaths.has(path) ? await ensureFileContent(path) : undefined] as const)
+    ).then((entries) => {
+      if (cancelled) return;
+      // Arquivo existente sem conteúdo (ou fora do grafo) não pode receber edição
+      const unreadable = entries.filter(([path, content]) => exists(path) && content === undefined).map(([path]) => path);
+      setUnreadablePaths(unreadable);
+      setContents(new Map(entries.filter(([path]) => !unreadable.includes(path))));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [suggestions]);
+
+  const files = useMemo(() => {
+    if (!contents) return [];
+    return buildChangeset(
+      suggestions.filter((suggestion) => contents.has(suggestion.path!)),
+      (path) => contents.get(path)
+    );
+  }, [contents, suggestions]);
+
+  useEffect(() => {
+    const changed = files.filter((file) => file.original !== file.updated).map((file) => file.path);
+    setApproved(new Set(changed));
+    setActivePath(changed[0] ?? files[0]?.path ?? null);
+    setDiskPlan(null);
+    setDiskStatus('idle');
+  }, [files]);
+
+  const approvedFiles = files.filter((file) => approved.has(file.path));
+  const activeFile = files.find((file) => file.path === activePath) ?? null;
+  const activePlan = diskPlan?.find((result) => result.path === activePath) ?? null;
+  const conflictCount = files.reduce((sum, file) => sum + file.conflicts.length, 0);
+  const unappliableCount = files.reduce((sum, file) => sum + file.unappliable.length, 0);
+
+  const toggleApproved = (path: string) => {
+    setDiskPlan(null);
+    setDiskStatus('idle');
+    setApproved((current) => {
+      const next = new Set(current);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const handleDownload = () => {
+    const slug = thread.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'changeset';
+    downloadText(buildUnifiedPatch(approvedFiles), `${slug}.patch`, 'text/x-diff;charset=utf-8');
+  };
+
+  const handleOpenPr = async () => {
+    if (!githubOwnerRepo || approvedFiles.length === 0) return;
+    const defaultBranchName = `ai-changeset/${Date.now().toString().slice(-6)}`;
+    const branchName = window.prompt('Nome da nova branch no GitHub:', defaultBranchName);
+    if (!branchName) return;
+    const prTitle = window.prompt('Título do Pull Request:', `AI Changeset: ${thread.title}`);
+    if (!prTitle) return;
+
+    const appliedTitles = approvedFiles.flatMap((file) => file.applied.map((edit) => `- \`${file.path}\`: ${edit.title}`));
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const pr = await useGraphStore.getState().createPrFromSuggestion({
+        branchName,
+        commitMessage: `feat: apply AI changeset (${thread.title})`,
+        prTitle,
+        prBody: `## Changeset de IA aplicado via Code Palandir\n\n**Thread:** ${thread.title}\n\n${appliedTitles.join('\n')}`,
+        files: approvedFiles.map((file) => ({ path: file.path, content: file.updated }))
+      });
+      alert(`Pull Request criado com sucesso! PR #${pr.number}: ${pr.html_url}`);
+      onClose();
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Erro ao criar Pull Request.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const diskChanges = () =>
+    approvedFiles.map((file) => ({ path: file.path, content: file.updated, expected: file.original }));
+
+  const handleDryRun = async () => {
+    setDiskStatus('checking');
+    setSubmitError(null);
+    try {
+      setDiskPlan(await useGraphStore.getState().writeSuggestionsToDisk(diskChanges(), { dryRun: true }));
+      setDiskStatus('idle');
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Erro ao ler a pasta local.');
+      setDiskStatus('idle');
+    }
+  };
+
+  const handleWriteToDisk = async () => {
+    setDiskStatus('writing');
+    setSubmitError(null);
+    try {
+      setDiskPlan(await useGraphStore.getState().writeSuggestionsToDisk(diskChanges()));
+      setDiskStatus('done');
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Erro ao gravar na pasta local.');
+      setDiskStatus('idle');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="flex h-[85vh] w-full max-w-6xl flex-col rounded-xl border border-slate-700 bg-slate-900 shadow-2xl">
+        <div className="flex items-center justify-between border-b border-slate-700 px-4 py-3">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-100">
+              <FileDiff size={16} className="text-sky-400" />
+              Changeset: {thread.title}
+            </h3>
+            <p className="text-xs text-slate-500">
+              {suggestions.length} sugestões incluídas · {files.length} arquivos
+              {conflictCount > 0 && ` · ${conflictCount} conflitos`}
+              {unappliableCount > 0 && ` · ${unappliableCount} sem intervalo`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-slate-400 hover:bg-slate-800 hover:text-slate-100"
+            aria-label="Fechar changeset"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        {!contents ? (
+          <div className="flex flex-1 items-center justify-center gap-2 text-sm text-slate-400">
+            <Loader2 size={16} className="animate-spin" />
+            Carregando arquivos...
+          </div>
+        ) : (
+          <div className="flex min-h-0 flex-1">
+            <div className="w-72 shrink-0 overflow-y-auto border-r border-slate-700 p-2 space-y-1">
+              {files.map((file) => (
+                <div
+                  key={file.path}
+                  className={`rounded-lg border px-2 py-1.5 text-xs ${file.path === activePath ? 'border-sky-500/50 bg-sky-500/10' : 'border-transparent hover:bg-slate-800'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={approved.has(file.path)}
+                      onChange={() => toggleApproved(file.path)}
+                      disabled={file.original === file.updated}
+                      aria-label={`Aprovar ${file.path}`}
+                    />
+                    <button onClick={() => setActivePath(file.path)} className="min-w-0 flex-1 truncate text-left text-slate-200" title={file.path}>
+                      {file.path}
+                    </button>
+                    <span className={`text-[10px] uppercase ${file.status === 'added' ? 'text-emerald-400' : 'text-amber-400'}`}>
+                      {file.status === 'added' ? 'novo' : 'mod'}
+                    </span>
+                  </div>
+                  {diskPlan?.find((result) => result.path === file.path) && (
+                    <p className={`mt-1 text-[10px] ${WRITE_STATUS_LABELS[diskPlan.find((result) => result.path === file.path)!.status].className}`}>
+                      Disco: {WRITE_STATUS_LABELS[diskPlan.find((result) => result.path === file.path)!.status].label}
+                    </p>
+                  )}
+                  {file.conflicts.length > 0 && (
+                    <p className="mt-1 flex items-center gap-1 text-[10px] text-rose-400">
+                      <AlertTriangle size={10} />
+                      {file.conflicts.length} sugestões em conflito
+                    </p>
+                  )}
+                  {file.unappliable.length > 0 && (
+                    <p className="mt-1 flex items-center gap-1 text-[10px] text-amber-400">
+                      <AlertTriangle size={10} />
+                      {file.unappliable.length} trechos sem intervalo de linhas
+                    </p>
+                  )}
+                </div>
+              ))}
+              {unreadablePaths.map((path) => (
+                <div key={path} className="rounded-lg px-2 py-1.5 text-xs text-slate-500" title="Conteúdo indisponível">
+                  <span className="line-through">{path}</span>
+                  <p className="text-[10px] text-rose-400">Conteúdo atual indisponível (não carregado ou fora do grafo).</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="min-w-0 flex-1 overflow-y-auto">
+              {activeFile ? (
+                <>
+                  {activeFile.conflicts.length > 0 && (
+                    <div className="space-y-1 border-b border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-300">
+                      {activeFile.conflicts.map((conflict) => (
+                        <p key={conflict.suggestionId}>
+                          "{conflict.title}" (linhas {conflict.lines[0]}–{conflict.lines[1]}) conflita com "{conflict.conflictsWith}" e não foi aplicada.
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {activeFile.unappliable.length > 0 && (
+                    <div className="space-y-1 border-b border-amber-500/30 bg-amber-500/10 px-3 py-2 text-xs text-amber-300">
+                      {activeFile.unappliable.map((entry) => (
+                        <p key={entry.suggestionId}>
+                          "{entry.title}" {entry.lines ? `tem um intervalo inválido (linhas ${entry.lines[0]}–${entry.lines[1]})` : 'não indica as linhas que substitui'} e não foi aplicada.
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  {activePlan?.status === 'stale' && (
+                    <div className="border-b border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-300">
+                      O arquivo mudou no disco depois da revisão e não será gravado. O diff abaixo compara com o conteúdo do disco.
+                    </div>
+                  )}
+                  {activePlan?.backupPath && (
+                    <div className="border-b border-slate-800 px-3 py-1.5 text-[11px] text-slate-400">
+                      Backup: <code className="text-slate-300">{activePlan.backupPath}</code>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 divide-x divide-slate-800 border-b border-slate-800 text-[10px] uppercase tracking-wider text-slate-500">
+                    <span className="px-3 py-1">
+                      {activePlan ? 'No disco' : activeFile.status === 'added' ? 'Arquivo novo' : 'Atual'}
+                    </span>
+                    <span className="px-3 py-1">Com sugestões</span>
+                  </div>
+                  <SideBySideDiff
+                    original={activePlan && diskStatus !== 'done' ? activePlan.previous ?? '' : activeFile.original}
+                    updated={activeFile.updated}
+                  />
+                </>
+              ) : (
+                <p className="px-4 py-6 text-sm text-slate-500">Nenhuma sugestão com caminho e conteúdo para aplicar.</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-3 border-t border-slate-700 px-4 py-3">
+          <div className="min-w-0 text-xs">
+            {submitError ? (
+              <span className="text-rose-400">{submitError}</span>
+            ) : diskStatus === 'done' && diskPlan ? (
+              <span className="text-emerald-400">
+                {diskPlan.filter((result) => result.status === 'created' || result.status === 'updated').length} arquivos gravados no disco
+                {diskPlan.some((result) => result.status === 'stale') && ' (arquivos alterados no disco foram ignorados)'}
+              </span>
+            ) : diskPlan ? (
+              <span className="text-slate-400">
+                Simulação: {diskPlan.filter((result) => result.status === 'created' || result.status === 'updated').length} arquivos serão gravados,
+                {' '}{diskPlan.filter((result) => result.backupPath).length} com backup
+              </span>
+            ) : (
+              <span className="text-slate-500">{approvedFiles.length} arquivos aprovados</span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={approvedFiles.length === 0}
+              className="flex items-center gap-1.5 rounded-lg border border-slate-700 px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-800 disabled:opacity-50"
+            >
+              <Download size={14} />
+              Baixar .patch
+            </button>
+            {localDirectoryHandle && (
+              <button
+                onClick={diskPlan && diskStatus !== 'done' ? handleWriteToDisk : handleDryRun}
+                disabled={approvedFiles.length === 0 || diskStatus === 'checking' || diskStatus === 'writing' || diskStatus === 'done'}
+                title="Grava os arquivos aprovados na pasta local aberta, com backup dos sobrescritos"
+                className="flex items-center gap-1.5 rounded-lg border border-sky-500/40 px-3 py-1.5 text-xs text-sky-200 hover:bg-sky-500/10 disabled:opacity-50"
+              >
+                {diskStatus === 'checking' || diskStatus === 'writing'
+                  ? <Loader2 size={14} className="animate-spin" />
+                  : <HardDriveDownload size={14} />}
+                {diskPlan && diskStatus !== 'done' ? 'Confirmar gravação' : 'Gravar no disco'}
+              </button>
+            )}
+            <button
+              onClick={handleOpenPr}
+              disabled={!githubOwnerRepo || approvedFiles.length === 0 || isSubmitting}
+              title={githubOwnerRepo ? undefined : 'Carregue um repositório do GitHub para abrir Pull Requests.'}
+              className="flex items-center gap-1.5 rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-emerald-500 disabled:opacity-50"
+            >
+              {isSubmitting ? <Loader2 size={14} className="animate-spin" /> : <GitPullRequest size={14} />}
+              Abrir PR
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
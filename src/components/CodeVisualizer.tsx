@@ -1,7 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { Maximize2, RotateCcw, ZoomIn, ZoomOut, Github, FolderOpen, Archive, Sparkles } from 'lucide-react';
-import { AIActionMode, ClusterData, FlatNode, Link } from '../types';
+import { Maximize2, RotateCcw, ZoomIn, ZoomOut, Github, FolderOpen, Archive, Sparkles, Network } from 'lucide-react';
+import { AIActionMode, ClusterData, FlatNode, Link, SemanticLink } from '../types';
 import { useGraphStore } from '../stores/graphStore';
 import { usePresenceStore } from '../stores/presenceStore';
 import {
@@ -14,11 +14,21 @@ import {
   selectExpandedDirectories,
   selectFlowPathNodeIds,
   selectFlowPathLinkIds,
+  selectImpactNodeIds,
+  selectImpactLinkIds,
+  selectCycleNodeIds,
+  selectCycleLinkIds,
+  selectHeatmapStyles,
+  selectReviewCommentCounts,
   selectRequestExpandNode,
   selectNodesById,
   selectGhostNodes,
-  selectGhostLinks
+  selectGhostLinks,
+  selectGraphViewMode
 } from '../stores/graphSelectors';
+import { clusterGraph, DEFAULT_GRAPH_NODE_BUDGET, getLodLevel, LOD_LEVELS } from '../utils/graphClustering';
+import { createWebGLGraphRenderer, GraphRenderScene, WebGLGraphRenderer } from '../utils/webglGraphRenderer';
+import type { LayoutMode, LayoutResponse } from '../workers/graphLayout.worker';
 import AIContextBalloon from './AIContextBalloon';
 import ContextualChat from './ContextualChat';
 import { ErrorBoundary } from './ErrorBoundary';
@@ -63,10 +73,48 @@ const writeLayoutCache = (hash: string, positions: Record<string, { x: number; y
   } catch { }
 };
 
+// A partir deste número de nós o modo canvas troca o 2D pelo WebGL
+const WEBGL_NODE_THRESHOLD = 500;
+
+const LAYOUT_ANIMATION_MS = 350;
+// Pedido de foco para um nó que não entrou no grafo filtrado é descartado após este prazo
+const FOCUS_REQUEST_TIMEOUT_MS = 3000;
+const REVIEW_BADGE_RADIUS = 6;
+const REVIEW_BADGE_COLOR = "#a78bfa";
+
+type LayoutAnimation = { origins: Record<string, { x: number; y: number }>; startedAt: number };
+
+// Progresso vem do início da animação: re-renders no meio não a reiniciam
+const getLayoutAnimationProgress = (animation: LayoutAnimation) =>
+  d3.easeCubicOut(Math.min(1, (performance.now() - animation.startedAt) / LAYOUT_ANIMATION_MS));
+
+const getAnimatedPosition = (
+  animation: LayoutAnimation | null,
+  id: string,
+  target: { x: number; y: number }
+) => {
+  const origin = animation?.origins[id];
+  if (!animation || !origin) return target;
+  const t = getLayoutAnimationProgress(animation);
+  return { x: origin.x + (target.x - origin.x) * t, y: origin.y + (target.y - origin.y) * t };
+};
+
+const describeSemanticLink = (link: SemanticLink) => {
+  const symbols = (link.symbols ?? []).join(', ');
+  const lines = (link.lineRanges ?? [])
+    .map(([start, end]) => (start === end ? `L${start}` : `L${start}-${end}`))
+    .join(', ');
+  return `${link.kind}: ${symbols}${lines ? ` (${lines})` : ''}`;
+};
+
 const CodeVisualizerContent: React.FC = () => {
   const svgRef = useRef<SVGSVGElement>(null);
   const svgGroupRef = useRef<SVGGElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const glCanvasRef = useRef<HTMLCanvasElement>(null);
+  const webglRendererRef = useRef<WebGLGraphRenderer | null>(null);
+  const sceneDirtyRef = useRef(true);
+  const hoverFrameRef = useRef<number | null>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const zoomBehaviorRef = useRef<d3.ZoomBehavior<Element, unknown> | null>(null);
 
@@ -78,12 +126,23 @@ const CodeVisualizerContent: React.FC = () => {
   const nodesById = useGraphStore(selectNodesById);
   const flowPathNodeIds = useGraphStore(selectFlowPathNodeIds);
   const flowPathLinkIds = useGraphStore(selectFlowPathLinkIds);
+  const impactNodeIds = useGraphStore(selectImpactNodeIds);
+  const impactLinkIds = useGraphStore(selectImpactLinkIds);
+  const cycleNodeIds = useGraphStore(selectCycleNodeIds);
+  const cycleLinkIds = useGraphStore(selectCycleLinkIds);
+  const heatmapStyles = useGraphStore(selectHeatmapStyles);
+  const reviewCommentCounts = useGraphStore(selectReviewCommentCounts);
+  const focusRequest = useGraphStore((state) => state.focusRequest);
+  const clearFocusRequest = useGraphStore((state) => state.clearFocusRequest);
   const ghostNodes = useGraphStore(selectGhostNodes);
   const ghostLinks = useGraphStore(selectGhostLinks);
+  const graphViewMode = useGraphStore(selectGraphViewMode);
+  const layoutAlgorithm = useGraphStore((state) => state.layoutAlgorithms[state.graphViewMode]);
   const selectedNode = useGraphStore(selectSelectedNode);
   const selectedNodeIds = useGraphStore(selectSelectedNodeIds);
   const expandDirectory = useGraphStore((state) => state.expandDirectory);
   const toggleDirectory = useGraphStore((state) => state.toggleDirectory);
+  const toggleFileSymbols = useGraphStore((state) => state.toggleFileSymbols);
   const toggleMultiSelection = useGraphStore((state) => state.toggleMultiSelection);
   const clearMultiSelection = useGraphStore((state) => state.clearMultiSelection);
   const requestExpandNode = useGraphStore(selectRequestExpandNode);
@@ -109,7 +168,13 @@ const CodeVisualizerContent: React.FC = () => {
   const workerRef = useRef<Worker | null>(null);
   const layoutRequestIdRef = useRef(0);
   const [layoutPositions, setLayoutPositions] = useState<Record<string, { x: number; y: number }>>({});
-  const pendingLayoutRef = useRef<{ requestId: number; positions: Record<string, { x: number; y: number }> } | null>(null);
+  const pendingLayoutRef = useRef<LayoutResponse | null>(null);
+  const layoutAnimationRef = useRef<LayoutAnimation | null>(null);
+  // Layout global só quando o usuário pede; o resto é incremental
+  const nextLayoutModeRef = useRef<LayoutMode>('incremental');
+  const [relayoutRequest, setRelayoutRequest] = useState(0);
+  // Trocar de modo ou de algoritmo exige um layout global novo
+  const lastLayoutKeyRef = useRef<string | null>(null);
   const layoutFrameRef = useRef<number | null>(null);
   const canvasRenderFrameRef = useRef<number | null>(null);
   const layoutCacheRef = useRef<Map<string, Record<string, { x: number; y: number }>>>(new Map());
@@ -118,6 +183,14 @@ const CodeVisualizerContent: React.FC = () => {
   const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
   const cursorFrameRef = useRef<number | null>(null);
 
+  // Level of detail: só re-renderiza quando o zoom cruza um nível
+  const [lodLevel, setLodLevel] = useState(() => getLodLevel(zoomTransformRef.current.k));
+  const [pinnedClusterPaths, setPinnedClusterPaths] = useState<Set<string>>(() => new Set());
+  const updateLodLevel = useCallback((zoom: number) => {
+    const nextLevel = getLodLevel(zoom);
+    setLodLevel(prev => (prev === nextLevel ? prev : nextLevel));
+  }, []);
+
   // AI Context Balloon state
   const [showBalloon, setShowBalloon] = useState(false);
   const [balloonPosition, setBalloonPosition] = useState<{ x: number; y: number }>({ x: 0, y: 0 });
@@ -128,6 +201,7 @@ const CodeVisualizerContent: React.FC = () => {
 
   const renderMode = (import.meta.env.VITE_GRAPH_RENDERER ?? 'svg').toLowerCase();
   const useCanvasRenderer = renderMode === 'canvas' || renderMode === 'webgl';
+  const [webglUnavailable, setWebglUnavailable] = useState(false);
 
   const cursorEntries = useMemo(
     () => peerPresences.filter((presence) => presence.cursor),
@@ -213,7 +287,10 @@ const CodeVisualizerContent: React.FC = () => {
       case 'button': return 10;
       case 'input': return 10;
     }
-    if (node.type === 'cluster') return 18;
+    if (node.type === 'cluster') {
+      const childCount = (node.data as ClusterData | undefined)?.childCount ?? 0;
+      return Math.min(40, 14 + Math.sqrt(childCount) * 1.5);
+    }
     if (node.type === 'directory') return 15;
     if (node.type === 'file') return 10;
     if (node.type === 'ghost_table') return 14;
@@ -229,9 +306,19 @@ const CodeVisualizerContent: React.FC = () => {
     return link.kind ? `${link.kind}:${sourceId}-->${targetId}` : `${sourceId}-->${targetId}`;
   }, []);
   const isFlowLink = useCallback((link: Link) => flowPathLinkIds.has(getLinkId(link)), [flowPathLinkIds, getLinkId]);
+  const isImpactNode = useCallback((node: FlatNode) => impactNodeIds.has(node.id), [impactNodeIds]);
+  const isImpactLink = useCallback((link: Link) => impactLinkIds.has(getLinkId(link)), [impactLinkIds, getLinkId]);
+  const isCycleNode = useCallback((node: FlatNode) => cycleNodeIds.has(node.id), [cycleNodeIds]);
+  const isCycleLink = useCallback((link: Link) => cycleLinkIds.has(getLinkId(link)), [cycleLinkIds, getLinkId]);
+  const getReviewBadge = (node: FlatNode) => {
+    const count = node.type === 'file' ? reviewCommentCounts.get(node.id) : undefined;
+    return count ? (count > 9 ? '9+' : String(count)) : undefined;
+  };
 
   const getNodeColor = (node: FlatNode) => {
     if (isFlowNode(node)) return "#f97316";
+    if (isImpactNode(node)) return "#c026d3";
+    if (isCycleNode(node)) return "#dc2626";
     if (node.relevant) return "#facc15";
     switch (node.type) {
       case 'app': return "#8b5cf6";
@@ -249,6 +336,7 @@ const CodeVisualizerContent: React.FC = () => {
       case 'file': return "#64748b";
       case 'function': return "#4ade80";
       case 'class': return "#f472b6";
+      case 'variable': return "#fbbf24";
       case 'api_endpoint': return "#a78bfa";
       default: return "#94a3b8";
     }
@@ -256,9 +344,13 @@ const CodeVisualizerContent: React.FC = () => {
 
   const getNodeFill = (node: FlatNode) => {
     if (isFlowNode(node)) return "#f97316";
+    if (isImpactNode(node)) return "#c026d3";
+    if (isCycleNode(node)) return "#dc2626";
     if (node.diffStatus === 'added') return "rgba(16, 185, 129, 0.3)";
     if (node.diffStatus === 'modified') return "rgba(245, 158, 11, 0.3)";
     if (node.diffStatus === 'removed') return "rgba(244, 63, 94, 0.3)";
+    const heat = node.type === 'file' ? heatmapStyles.get(node.id) : undefined;
+    if (heat) return heat.fill;
     if (isGhostNode(node)) {
       switch (node.type) {
         case 'ghost_table': return "rgba(59, 130, 246, 0.3)";
@@ -284,6 +376,7 @@ const CodeVisualizerContent: React.FC = () => {
       case 'file': return "#64748b";
       case 'function': return "#4ade80";
       case 'class': return "#f472b6";
+      case 'variable': return "#fbbf24";
       case 'api_endpoint': return "#a78bfa";
       default: return "#94a3b8";
     }
@@ -291,9 +384,13 @@ const CodeVisualizerContent: React.FC = () => {
 
   const getNodeStroke = (node: FlatNode) => {
     if (isFlowNode(node)) return "#fdba74";
+    if (isImpactNode(node)) return "#f0abfc";
+    if (isCycleNode(node)) return "#fca5a5";
     if (node.diffStatus === 'added') return "#10b981";
     if (node.diffStatus === 'modified') return "#f59e0b";
     if (node.diffStatus === 'removed') return "#f43f5e";
+    const heat = node.type === 'file' ? heatmapStyles.get(node.id) : undefined;
+    if (heat) return heat.stroke;
     if (isGhostNode(node)) {
       switch (node.type) {
         case 'ghost_table': return "#3b82f6";
@@ -311,8 +408,9 @@ const CodeVisualizerContent: React.FC = () => {
   };
 
   const getNodeStrokeWidth = (node: FlatNode) => {
-    if (isFlowNode(node)) return 3;
+    if (isFlowNode(node) || isImpactNode(node) || isCycleNode(node)) return 3;
     if (node.diffStatus) return 3.5;
+    if (node.type === 'file' && heatmapStyles.has(node.id)) return 2.5;
     if (isGhostNode(node)) return 2;
     if (['app', 'page', 'layout'].includes(node.type)) return 3;
     if (['component', 'form'].includes(node.type)) return 2;
@@ -327,6 +425,8 @@ const CodeVisualizerContent: React.FC = () => {
 
   const getLinkStroke = (link: Link) => {
     if (isFlowLink(link)) return '#f97316';
+    if (isImpactLink(link)) return '#e879f9';
+    if (isCycleLink(link)) return '#f87171';
     switch (link.kind) {
       case 'import': return '#38bdf8';
       case 'call': return '#4ade80';
@@ -342,7 +442,11 @@ const CodeVisualizerContent: React.FC = () => {
     }
   };
 
-  const getLinkOpacity = (link: Link) => (isFlowLink(link) ? 0.9 : (link.kind ? 0.6 : 0.4));
+  const getLinkOpacity = (link: Link) => (isFlowLink(link) || isImpactLink(link) || isCycleLink(link) ? 0.9 : (link.kind ? 0.6 : 0.4));
+  const getLinkWidth = (link: Link, target: FlatNode | undefined) => {
+    if (link.bundleSize && link.bundleSize > 1) return Math.min(6, 1.5 + Math.log2(link.bundleSize));
+    return target && isAggregateNode(target) ? 2 : 1.5;
+  };
   const isNodeLoading = useCallback((d: FlatNode) => {
     if (d.type === 'cluster') {
       const { parentPath } = d.data as ClusterData;
@@ -406,8 +510,10 @@ const CodeVisualizerContent: React.FC = () => {
   useEffect(() => {
     if (!rootNode) return;
     stablePositionsRef.current = new Map();
+    layoutAnimationRef.current = null;
     setLayoutPositions({});
     setHoveredNodeId(null);
+    setPinnedClusterPaths(new Set());
   }, [rootNode]);
 
   // Layout Web Worker initialization
@@ -415,7 +521,7 @@ const CodeVisualizerContent: React.FC = () => {
     const worker = new Worker(new URL('../workers/graphLayout.worker.ts', import.meta.url), { type: 'module' });
     workerRef.current = worker;
 
-    worker.onmessage = (event: MessageEvent<{ requestId: number; positions: Record<string, { x: number; y: number }> }>) => {
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
       if (event.data.requestId !== layoutRequestIdRef.current) return;
       pendingLayoutRef.current = event.data;
       if (layoutFrameRef.current !== null) return;
@@ -424,6 +530,9 @@ const CodeVisualizerContent: React.FC = () => {
         const pending = pendingLayoutRef.current;
         if (!pending) return;
         pendingLayoutRef.current = null;
+        if (pending.origins && Object.keys(pending.origins).length > 0) {
+          layoutAnimationRef.current = { origins: pending.origins, startedAt: performance.now() };
+        }
         setLayoutPositions(pending.positions);
         stablePositionsRef.current = new Map(Object.entries(pending.positions));
       });
@@ -439,7 +548,7 @@ const CodeVisualizerContent: React.FC = () => {
     };
   }, []);
 
-  const { filteredNodes, filteredLinks } = useMemo(() => {
+  const { filteredNodes, filteredLinks, clusterCount } = useMemo(() => {
     const nextNodes = [...graphNodes, ...ghostNodes];
     const filteredNodeIds = new Set(nextNodes.map(node => node.id));
     let nextLinks = graphLinks.filter(link => {
@@ -448,10 +557,26 @@ const CodeVisualizerContent: React.FC = () => {
       return filteredNodeIds.has(s) && filteredNodeIds.has(t);
     });
     nextLinks = [...nextLinks, ...ghostLinks];
-    return { filteredNodes: nextNodes, filteredLinks: nextLinks };
-  }, [graphLinks, graphNodes, ghostNodes, ghostLinks]);
+    // A árvore de UI não segue caminhos de diretório
+    if (graphViewMode === 'ui') {
+      return { filteredNodes: nextNodes, filteredLinks: nextLinks, clusterCount: 0 };
+    }
+    const clustered = clusterGraph(nextNodes, nextLinks, {
+      maxDepth: LOD_LEVELS[lodLevel].maxDepth,
+      nodeBudget: DEFAULT_GRAPH_NODE_BUDGET,
+      pinnedPaths: pinnedClusterPaths
+    });
+    return { filteredNodes: clustered.nodes, filteredLinks: clustered.links, clusterCount: clustered.clusterCount };
+  }, [graphLinks, graphNodes, ghostNodes, ghostLinks, graphViewMode, lodLevel, pinnedClusterPaths]);
 
-  const graphHash = useMemo(() => buildGraphHash(filteredNodes, filteredLinks), [filteredLinks, filteredNodes]);
+  const graphHash = useMemo(
+    () => `${layoutAlgorithm}:${buildGraphHash(filteredNodes, filteredLinks)}`,
+    [filteredLinks, filteredNodes, layoutAlgorithm]
+  );
+
+  // 'webgl' força o backend WebGL; 'canvas' escolhe pelo tamanho do grafo
+  const useWebGLBackend = useCanvasRenderer && !webglUnavailable &&
+    (renderMode === 'webgl' || filteredNodes.length >= WEBGL_NODE_THRESHOLD);
 
   // Read layout cache
   useEffect(() => {
@@ -459,10 +584,16 @@ const CodeVisualizerContent: React.FC = () => {
     layoutHashRef.current = graphHash;
     let isActive = true;
 
+    // O cache só preenche nós sem posição: quem já está na tela não se move
     const applyPositions = (positions: Record<string, { x: number; y: number }>) => {
       if (!isActive || layoutHashRef.current !== graphHash) return;
-      stablePositionsRef.current = new Map(Object.entries(positions));
-      setLayoutPositions(positions);
+      const merged = { ...positions };
+      filteredNodes.forEach(node => {
+        const current = stablePositionsRef.current.get(node.id);
+        if (current) merged[node.id] = current;
+      });
+      stablePositionsRef.current = new Map(Object.entries(merged));
+      setLayoutPositions(merged);
     };
 
     const memoryCache = filterLayoutPositions(layoutCacheRef.current.get(graphHash) ?? null, filteredNodes);
@@ -471,9 +602,6 @@ const CodeVisualizerContent: React.FC = () => {
       return () => { isActive = false; };
     }
 
-    stablePositionsRef.current = new Map();
-    setLayoutPositions({});
-
     readLayoutCache(graphHash).then((cached) => {
       const compatible = filterLayoutPositions(cached, filteredNodes);
       if (!compatible) return;
@@ -503,6 +631,8 @@ const CodeVisualizerContent: React.FC = () => {
   // Write layout cache
   useEffect(() => {
     if (!graphHash || Object.keys(layoutPositions).length === 0) return;
+    // Ainda com posições do grafo anterior: espera o worker posicionar os nós novos
+    if (filteredNodes.some(node => !layoutPositions[node.id])) return;
     if (lastSavedLayoutRef.current?.hash === graphHash &&
       lastSavedLayoutRef.current?.positions === layoutPositions) {
       return;
@@ -511,13 +641,18 @@ const CodeVisualizerContent: React.FC = () => {
     writeLayoutCache(graphHash, layoutPositions);
     lastSavedLayoutRef.current = { hash: graphHash, positions: layoutPositions };
     setLayoutCache(graphHash, layoutPositions);
-  }, [graphHash, layoutPositions, setLayoutCache]);
+  }, [filteredNodes, graphHash, layoutPositions, setLayoutCache]);
 
   // Worker calculation trigger
   useEffect(() => {
     if (!rootNode || !workerRef.current) return;
     const requestId = layoutRequestIdRef.current + 1;
     layoutRequestIdRef.current = requestId;
+    const layoutKey = `${graphViewMode}:${layoutAlgorithm}`;
+    const layoutKeyChanged = lastLayoutKeyRef.current !== null && lastLayoutKeyRef.current !== layoutKey;
+    lastLayoutKeyRef.current = layoutKey;
+    const mode = layoutKeyChanged ? 'full' : nextLayoutModeRef.current;
+    nextLayoutModeRef.current = 'incremental';
     workerRef.current.postMessage({
       requestId,
       nodes: filteredNodes.map(node => ({ id: node.id, type: node.type })),
@@ -527,12 +662,26 @@ const CodeVisualizerContent: React.FC = () => {
       })),
       width: dimensions.width,
       height: dimensions.height,
-      positions: Object.fromEntries(stablePositionsRef.current)
+      positions: Object.fromEntries(stablePositionsRef.current),
+      mode,
+      algorithm: layoutAlgorithm
     });
-  }, [rootNode, filteredNodes, filteredLinks, dimensions]);
+  }, [rootNode, filteredNodes, filteredLinks, dimensions, relayoutRequest, graphViewMode, layoutAlgorithm]);
+
+  const handleRelayout = useCallback(() => {
+    nextLayoutModeRef.current = 'full';
+    setRelayoutRequest(prev => prev + 1);
+  }, []);
+
+  // Na hierarquia top-down as curvas saem na vertical
+  const verticalLinks = layoutAlgorithm === 'hierarchy';
 
   // Helper function to generate curved path between nodes
   const linkPath = (source: { x: number; y: number }, target: { x: number; y: number }) => {
+    if (verticalLinks) {
+      const midY = (source.y + target.y) / 2;
+      return `M ${source.x} ${source.y} C ${source.x} ${midY}, ${target.x} ${midY}, ${target.x} ${target.y}`;
+    }
     const midX = (source.x + target.x) / 2;
     return `M ${source.x} ${source.y} C ${midX} ${source.y}, ${midX} ${target.y}, ${target.x} ${target.y}`;
   };
@@ -543,7 +692,7 @@ const CodeVisualizerContent: React.FC = () => {
     const positions = new Map<string, { x: number; y: number }>();
     filteredNodes.forEach(node => {
       const savedPosition = layoutPositionsRef.current[node.id] ?? stablePositionsRef.current.get(node.id);
-      const nextPosition = savedPosition ?? { x: width / 2, y: height / 2 };
+      const nextPosition = getAnimatedPosition(layoutAnimationRef.current, node.id, savedPosition ?? { x: width / 2, y: height / 2 });
       node.x = nextPosition.x;
       node.y = nextPosition.y;
       positions.set(node.id, nextPosition);
@@ -551,14 +700,68 @@ const CodeVisualizerContent: React.FC = () => {
     return positions;
   }, [dimensions, filteredNodes]);
 
+  // Cena do backend WebGL: mesmas cores do canvas 2D, arestas retas
+  const buildRenderScene = useCallback((): GraphRenderScene => {
+    const positions = updateNodePositions();
+    const nodeById = new Map(filteredNodes.map(node => [node.id, node]));
+    const links: GraphRenderScene['links'] = [];
+    filteredLinks.forEach(link => {
+      const sId = typeof link.source === 'string' ? link.source : (link.source as any).id;
+      const tId = typeof link.target === 'string' ? link.target : (link.target as any).id;
+      const sourcePos = positions.get(sId);
+      const targetPos = positions.get(tId);
+      if (!sourcePos || !targetPos) return;
+      links.push({
+        sourceX: sourcePos.x,
+        sourceY: sourcePos.y,
+        targetX: targetPos.x,
+        targetY: targetPos.y,
+        color: getLinkStroke(link),
+        opacity: getLinkOpacity(link),
+        width: getLinkWidth(link, nodeById.get(tId))
+      });
+    });
+    const nodes: GraphRenderScene['nodes'] = [];
+    filteredNodes.forEach(node => {
+      const pos = positions.get(node.id);
+      if (!pos) return;
+      const isSelected = selectedNode?.id === node.id || selectedNodeIds.has(node.id);
+      nodes.push({
+        id: node.id,
+        x: pos.x,
+        y: pos.y,
+        radius: getNodeRadius(node),
+        fill: getNodeFill(node),
+        stroke: isSelected ? "#f8fafc" : (hoveredNodeId === node.id ? "#bae6fd" : getNodeStroke(node)),
+        strokeWidth: isSelected ? 3 : getNodeStrokeWidth(node),
+        label: node.name,
+        labelOffset: node.type === 'directory' || node.type === 'cluster' ? 25 : 20,
+        labelFont: node.type === 'directory' ? "12px sans-serif" : "10px sans-serif",
+        badge: getReviewBadge(node)
+      });
+    });
+    return { nodes, links };
+  }, [filteredLinks, filteredNodes, heatmapStyles, hoveredNodeId, isCycleLink, isCycleNode, reviewCommentCounts, selectedNode, selectedNodeIds, updateNodePositions]);
+
   // Canvas 2D Renderer Loop (60 FPS, GPU-composited transform, zero React state re-renders)
   const renderCanvas = useCallback(() => {
+    const { width, height } = dimensions;
+    const webglRenderer = webglRendererRef.current;
+    if (webglRenderer) {
+      // Zoom/pan só atualiza uniforms; a cena é reenviada quando os dados mudam
+      if (sceneDirtyRef.current) {
+        webglRenderer.setScene(buildRenderScene());
+        sceneDirtyRef.current = false;
+      }
+      webglRenderer.render({ width, height, transform: zoomTransformRef.current });
+      return;
+    }
+
     if (!canvasRef.current) return;
     const canvas = canvasRef.current;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const { width, height } = dimensions;
     const dpr = window.devicePixelRatio || 1;
     canvas.width = Math.floor(width * dpr);
     canvas.height = Math.floor(height * dpr);
@@ -584,13 +787,18 @@ const CodeVisualizerContent: React.FC = () => {
       if (!sourcePos || !targetPos) return;
 
       ctx.beginPath();
-      const midX = (sourcePos.x + targetPos.x) / 2;
       ctx.moveTo(sourcePos.x, sourcePos.y);
-      ctx.bezierCurveTo(midX, sourcePos.y, midX, targetPos.y, targetPos.x, targetPos.y);
+      if (verticalLinks) {
+        const midY = (sourcePos.y + targetPos.y) / 2;
+        ctx.bezierCurveTo(sourcePos.x, midY, targetPos.x, midY, targetPos.x, targetPos.y);
+      } else {
+        const midX = (sourcePos.x + targetPos.x) / 2;
+        ctx.bezierCurveTo(midX, sourcePos.y, midX, targetPos.y, targetPos.x, targetPos.y);
+      }
 
       ctx.strokeStyle = getLinkStroke(link);
       ctx.globalAlpha = getLinkOpacity(link);
-      ctx.lineWidth = isAggregateNode(nodeById.get(tId) as FlatNode) ? 2 : 1.5;
+      ctx.lineWidth = getLinkWidth(link, nodeById.get(tId));
       const dash = getLinkDash(link);
       ctx.setLineDash(dash);
       ctx.stroke();
@@ -624,10 +832,23 @@ const CodeVisualizerContent: React.FC = () => {
       ctx.textBaseline = "middle";
       const labelOffset = node.type === 'directory' || node.type === 'cluster' ? 25 : 20;
       ctx.fillText(node.name, pos.x, pos.y + labelOffset);
+
+      const badge = getReviewBadge(node);
+      if (badge) {
+        const badgeX = pos.x + radius * 0.75;
+        const badgeY = pos.y - radius * 0.75;
+        ctx.beginPath();
+        ctx.arc(badgeX, badgeY, REVIEW_BADGE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = REVIEW_BADGE_COLOR;
+        ctx.fill();
+        ctx.fillStyle = "#0f172a";
+        ctx.font = "bold 8px sans-serif";
+        ctx.fillText(badge, badgeX, badgeY);
+      }
     });
 
     ctx.restore();
-  }, [dimensions, filteredLinks, filteredNodes, hoveredNodeId, isAggregateNode, selectedNode, selectedNodeIds, updateNodePositions]);
+  }, [buildRenderScene, dimensions, filteredLinks, filteredNodes, heatmapStyles, hoveredNodeId, isAggregateNode, isCycleLink, isCycleNode, reviewCommentCounts, selectedNode, selectedNodeIds, updateNodePositions, verticalLinks]);
 
   const scheduleCanvasRender = useCallback(() => {
     if (canvasRenderFrameRef.current !== null) return;
@@ -653,17 +874,23 @@ const CodeVisualizerContent: React.FC = () => {
       .on("zoom", (event) => {
         zoomTransformRef.current = event.transform;
         g.attr("transform", event.transform);
+        updateLodLevel(event.transform.k);
       });
 
     zoomBehaviorRef.current = zoom as any;
     svg.call(zoom);
     svg.call(zoom.transform, zoomTransformRef.current);
 
+    const layoutTargets = new Map<string, { x: number; y: number }>();
     filteredNodes.forEach(node => {
       const savedPosition = layoutPositionsRef.current[node.id] ?? stablePositionsRef.current.get(node.id);
-      node.x = savedPosition?.x ?? width / 2;
-      node.y = savedPosition?.y ?? height / 2;
+      const target = { x: savedPosition?.x ?? width / 2, y: savedPosition?.y ?? height / 2 };
+      layoutTargets.set(node.id, target);
+      const position = getAnimatedPosition(layoutAnimationRef.current, node.id, target);
+      node.x = position.x;
+      node.y = position.y;
     });
+    const nodeById = new Map(filteredNodes.map(node => [node.id, node]));
 
     const link = g.append("g")
       .attr("fill", "none")
@@ -672,9 +899,13 @@ const CodeVisualizerContent: React.FC = () => {
       .join("path")
       .attr("stroke", (d: any) => getLinkStroke(d))
       .attr("stroke-opacity", (d: any) => getLinkOpacity(d))
-      .attr("stroke-width", (d: any) => isAggregateNode(d.target as FlatNode) ? 2 : 1.5)
+      .attr("stroke-width", (d: any) => getLinkWidth(d, nodeById.get(typeof d.target === 'string' ? d.target : d.target.id)))
       .attr("stroke-dasharray", (d: any) => getLinkDash(d).join(' '));
 
+    link.filter((d: any) => Boolean(d.symbols?.length))
+      .append("title")
+      .text((d: any) => describeSemanticLink(d as SemanticLink));
+
     const node = g.append("g")
       .selectAll("g")
       .data(filteredNodes, (d: any) => d.id)
@@ -689,6 +920,7 @@ const CodeVisualizerContent: React.FC = () => {
         if (d.type === 'cluster') {
           triggerSelectNode(d.id);
           const { parentPath } = d.data as ClusterData;
+          setPinnedClusterPaths(prev => new Set(prev).add(parentPath));
           requestExpandNode?.(parentPath);
           expandDirectory(parentPath);
           return;
@@ -701,7 +933,10 @@ const CodeVisualizerContent: React.FC = () => {
         }
       })
       .on("dblclick", (event, d) => {
-        if (d.type === 'directory') {
+        if (d.type === 'file' && graphViewMode === 'symbols') {
+          event.stopPropagation();
+          toggleFileSymbols(d.path);
+        } else if (d.type === 'directory') {
           event.stopPropagation();
           if (expandedDirectories.has(d.path)) {
             toggleDirectory(d.path);
@@ -747,11 +982,32 @@ const CodeVisualizerContent: React.FC = () => {
         .style("text-shadow", "0 1px 2px rgba(0,0,0,0.8)")
         .text(d.name);
 
-      // Expand/Collapse Button for Directories
-      if (d.type === 'directory') {
-        const hasChildren = (d.data as any)?.children?.length > 0 || (d.data as any)?.hasChildren;
+      // Marcador de comentários de revisão do PR ativo
+      const badge = getReviewBadge(d);
+      if (badge) {
+        const offset = getNodeRadius(d) * 0.75;
+        const badgeGroup = gNode.append("g")
+          .attr("transform", `translate(${offset}, ${-offset})`)
+          .style("pointer-events", "none");
+        badgeGroup.append("title").text(`${badge} comentário(s) de revisão`);
+        badgeGroup.append("circle")
+          .attr("r", REVIEW_BADGE_RADIUS)
+          .attr("fill", REVIEW_BADGE_COLOR);
+        badgeGroup.append("text")
+          .attr("dy", 3)
+          .attr("text-anchor", "middle")
+          .attr("fill", "#0f172a")
+          .attr("font-size", "8px")
+          .attr("font-weight", "bold")
+          .text(badge);
+      }
+
+      // Expand/Collapse Button for Directories (e arquivos na visão de símbolos)
+      const isSymbolFile = d.type === 'file' && graphViewMode === 'symbols';
+      if (d.type === 'directory' || isSymbolFile) {
+        const hasChildren = isSymbolFile || (d.data as any)?.children?.length > 0 || (d.data as any)?.hasChildren;
         if (hasChildren) {
-          const isCollapsed = !!d.collapsed;
+          const isCollapsed = isSymbolFile ? !expandedDirectories.has(d.path) : !!d.collapsed;
           const btnGroup = gNode.append("g")
             .attr("class", "expand-btn")
             .attr("transform", `translate(${getNodeRadius(d) + 6}, 0)`)
@@ -774,7 +1030,9 @@ const CodeVisualizerContent: React.FC = () => {
 
           btnGroup.on("click", (e) => {
             e.stopPropagation();
-            if (isCollapsed) {
+            if (isSymbolFile) {
+              toggleFileSymbols(d.path);
+            } else if (isCollapsed) {
               requestExpandNode?.(d.path);
               expandDirectory(d.path);
             } else {
@@ -826,10 +1084,31 @@ const CodeVisualizerContent: React.FC = () => {
 
     updateLayout();
 
+    // Anima o delta do layout (nós novos saem da posição do pai)
+    const animation = layoutAnimationRef.current;
+    const animationTimer = animation
+      ? d3.timer(() => {
+        const done = getLayoutAnimationProgress(animation) >= 1;
+        filteredNodes.forEach(n => {
+          const target = layoutTargets.get(n.id);
+          if (!target || !animation.origins[n.id] || n.fx != null) return;
+          const position = getAnimatedPosition(animation, n.id, target);
+          n.x = position.x;
+          n.y = position.y;
+        });
+        updateLayout();
+        if (done) {
+          animationTimer?.stop();
+          if (layoutAnimationRef.current === animation) layoutAnimationRef.current = null;
+        }
+      })
+      : null;
+
     return () => {
+      animationTimer?.stop();
       g.remove();
     };
-  }, [rootNode, dimensions, expandedDirectories, loadingPaths, filteredNodes, filteredLinks, layoutPositions, useCanvasRenderer, isNodeLoading, requestExpandNode, expandDirectory, toggleDirectory, triggerSelectNode, flowPathNodeIds, flowPathLinkIds, isFlowLink, isFlowNode, peerPresences, selectedNode, selectedNodeIds, hoveredNodeId]);
+  }, [rootNode, dimensions, expandedDirectories, loadingPaths, filteredNodes, filteredLinks, layoutPositions, useCanvasRenderer, isNodeLoading, requestExpandNode, expandDirectory, toggleDirectory, toggleFileSymbols, graphViewMode, triggerSelectNode, flowPathNodeIds, flowPathLinkIds, isFlowLink, isFlowNode, isImpactLink, isImpactNode, isCycleLink, isCycleNode, heatmapStyles, reviewCommentCounts, peerPresences, selectedNode, selectedNodeIds, hoveredNodeId, updateLodLevel, verticalLinks]);
 
   // Canvas zoom initialization
   useEffect(() => {
@@ -840,6 +1119,7 @@ const CodeVisualizerContent: React.FC = () => {
       .scaleExtent([0.05, 8])
       .on("zoom", (event) => {
         zoomTransformRef.current = event.transform;
+        updateLodLevel(event.transform.k);
         scheduleCanvasRender();
       });
 
@@ -851,13 +1131,108 @@ const CodeVisualizerContent: React.FC = () => {
     return () => {
       selection.on(".zoom", null);
     };
-  }, [useCanvasRenderer, scheduleCanvasRender]);
+  }, [useCanvasRenderer, scheduleCanvasRender, updateLodLevel]);
+
+  // WebGL backend lifecycle (cai para o canvas 2D sem WebGL2 acelerado)
+  useEffect(() => {
+    if (!useWebGLBackend || !glCanvasRef.current) return;
+    const renderer = createWebGLGraphRenderer(glCanvasRef.current, canvasRef.current, () => setWebglUnavailable(true));
+    if (!renderer) {
+      setWebglUnavailable(true);
+      return;
+    }
+    webglRendererRef.current = renderer;
+    sceneDirtyRef.current = true;
+    return () => {
+      renderer.dispose();
+      webglRendererRef.current = null;
+    };
+  }, [useWebGLBackend]);
 
   // Canvas render update
   useEffect(() => {
     if (!useCanvasRenderer) return;
+    sceneDirtyRef.current = true;
     scheduleCanvasRender();
-  }, [useCanvasRenderer, scheduleCanvasRender, dimensions, filteredLinks, filteredNodes, hoveredNodeId, layoutPositions]);
+
+    const animation = layoutAnimationRef.current;
+    if (!animation) return;
+    const animationTimer = d3.timer(() => {
+      const done = getLayoutAnimationProgress(animation) >= 1;
+      sceneDirtyRef.current = true;
+      renderCanvas();
+      if (done) {
+        animationTimer.stop();
+        if (layoutAnimationRef.current === animation) layoutAnimationRef.current = null;
+      }
+    });
+    return () => animationTimer.stop();
+  }, [useCanvasRenderer, useWebGLBackend, renderCanvas, scheduleCanvasRender, dimensions, filteredLinks, filteredNodes, hoveredNodeId, layoutPositions]);
+
+  // Canvas picking: buffer de ids no WebGL, distância ao centro no 2D
+  const pickCanvasNode = useCallback((clientX: number, clientY: number): FlatNode | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const rect = canvas.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const y = clientY - rect.top;
+    const nodeById = new Map(filteredNodes.map(node => [node.id, node]));
+
+    if (webglRendererRef.current) {
+      const id = webglRendererRef.current.pick(x, y);
+      return id ? nodeById.get(id) ?? null : null;
+    }
+
+    const [worldX, worldY] = zoomTransformRef.current.invert([x, y]);
+    for (let index = filteredNodes.length - 1; index >= 0; index -= 1) {
+      const node = filteredNodes[index];
+      const pos = layoutPositionsRef.current[node.id] ?? stablePositionsRef.current.get(node.id);
+      if (!pos) continue;
+      if (Math.hypot(pos.x - worldX, pos.y - worldY) <= getNodeRadius(node)) return node;
+    }
+    return null;
+  }, [filteredNodes]);
+
+  const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    const node = pickCanvasNode(event.clientX, event.clientY);
+    if (!node) return;
+    if (node.type === 'cluster') {
+      triggerSelectNode(node.id);
+      const { parentPath } = node.data as ClusterData;
+      setPinnedClusterPaths(prev => new Set(prev).add(parentPath));
+      requestExpandNode?.(parentPath);
+      expandDirectory(parentPath);
+      return;
+    }
+    if (event.shiftKey) {
+      toggleMultiSelection(node.id);
+    } else {
+      if (selectedNodeIds.size > 0) clearMultiSelection();
+      triggerSelectNode(node.id);
+    }
+  }, [clearMultiSelection, expandDirectory, pickCanvasNode, requestExpandNode, selectedNodeIds, toggleMultiSelection, triggerSelectNode]);
+
+  // Sem botões de expandir no canvas: duplo clique abre diretórios e, na visão de símbolos, arquivos
+  const handleCanvasDoubleClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    const node = pickCanvasNode(event.clientX, event.clientY);
+    if (!node) return;
+    if (node.type === 'file' && graphViewMode === 'symbols') {
+      toggleFileSymbols(node.path);
+    } else if (node.type === 'directory') {
+      if (!expandedDirectories.has(node.path)) requestExpandNode?.(node.path);
+      toggleDirectory(node.path);
+    }
+  }, [expandedDirectories, graphViewMode, pickCanvasNode, requestExpandNode, toggleDirectory, toggleFileSymbols]);
+
+  const handleCanvasPointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (hoverFrameRef.current !== null) return;
+    const { clientX, clientY } = event;
+    hoverFrameRef.current = window.requestAnimationFrame(() => {
+      hoverFrameRef.current = null;
+      const nodeId = pickCanvasNode(clientX, clientY)?.id ?? null;
+      setHoveredNodeId(prev => (prev === nodeId ? prev : nodeId));
+    });
+  }, [pickCanvasNode]);
 
   // Recenter / Reset Viewport Handler
   const handleRecenter = useCallback(() => {
@@ -917,6 +1292,47 @@ const CodeVisualizerContent: React.FC = () => {
     }
   }, [useCanvasRenderer]);
 
+  // Busca: abre os clusters no caminho do nó e centraliza quando ele tiver posição
+  useEffect(() => {
+    if (!focusRequest) return;
+    const filePath = focusRequest.nodeId.split('#')[0];
+    const segments = filePath.split('/');
+    setPinnedClusterPaths(prev => {
+      const next = new Set(prev);
+      for (let depth = 1; depth <= segments.length; depth++) {
+        next.add(segments.slice(0, depth).join('/'));
+      }
+      return next.size === prev.size ? prev : next;
+    });
+  }, [focusRequest]);
+
+  // Filtros da visão podem esconder o nó: sem isso o pedido ficaria pendente e
+  // centralizaria o nó quando ele reaparecesse, muito depois da busca
+  useEffect(() => {
+    if (!focusRequest || filteredNodes.some((node) => node.id === focusRequest.nodeId)) return;
+    const remaining = FOCUS_REQUEST_TIMEOUT_MS - (Date.now() - focusRequest.requestedAt);
+    const timeout = window.setTimeout(clearFocusRequest, Math.max(remaining, 0));
+    return () => window.clearTimeout(timeout);
+  }, [clearFocusRequest, filteredNodes, focusRequest]);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    const position = layoutPositions[focusRequest.nodeId];
+    const targetEl = useCanvasRenderer ? canvasRef.current : svgRef.current;
+    if (!position || !targetEl || !zoomBehaviorRef.current) return;
+    const { width, height } = dimensions;
+    const scale = Math.max(zoomTransformRef.current.k, 1);
+    const nextTransform = d3.zoomIdentity
+      .translate(width / 2 - position.x * scale, height / 2 - position.y * scale)
+      .scale(scale);
+    d3.select(targetEl)
+      .transition()
+      .duration(600)
+      .ease(d3.easeCubicOut)
+      .call(zoomBehaviorRef.current.transform as any, nextTransform);
+    clearFocusRequest();
+  }, [clearFocusRequest, dimensions, focusRequest, layoutPositions, useCanvasRenderer]);
+
   const setImportModalOpen = useGraphStore((state) => state.setImportModalOpen);
   const openLocalDirectory = useGraphStore((state) => state.openLocalDirectory);
 
@@ -979,7 +1395,21 @@ const CodeVisualizerContent: React.FC = () => {
   return (
     <div ref={wrapperRef} className="w-full h-full relative bg-slate-950 overflow-hidden select-none">
       {useCanvasRenderer ? (
-        <canvas ref={canvasRef} className="w-full h-full block" role="img" aria-label="Graph canvas renderer" />
+        <>
+          {useWebGLBackend && (
+            <canvas ref={glCanvasRef} className="absolute inset-0 w-full h-full block pointer-events-none" aria-hidden="true" />
+          )}
+          {/* No backend WebGL este canvas só recebe os rótulos e os eventos */}
+          <canvas
+            ref={canvasRef}
+            className="relative w-full h-full block"
+            role="img"
+            aria-label={useWebGLBackend ? 'Graph WebGL renderer' : 'Graph canvas renderer'}
+            onClick={handleCanvasClick}
+            onDoubleClick={handleCanvasDoubleClick}
+            onPointerMove={handleCanvasPointerMove}
+          />
+        </>
       ) : (
         <svg ref={svgRef} width={dimensions.width} height={dimensions.height} className="w-full h-full block" />
       )}
@@ -1007,6 +1437,13 @@ const CodeVisualizerContent: React.FC = () => {
         >
           <Maximize2 size={14} /> Recenter
         </button>
+        <button
+          onClick={handleRelayout}
+          title="Reorganizar layout (recalcula todas as posições)"
+          className="p-2 text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+        >
+          <Network size={15} />
+        </button>
         <button
           onClick={handleResetZoom}
           title="Reset Viewport 1:1"
@@ -1093,8 +1530,13 @@ const CodeVisualizerContent: React.FC = () => {
           </>
         )}
         <div className="mt-2 text-[11px] text-slate-400">
-          Double-click a directory to collapse/expand. Click a cluster to expand.
+          Double-click a directory to collapse/expand. Zoom in or click a cluster to expand.
         </div>
+        {clusterCount > 0 && (
+          <div className="mt-1 text-[11px] text-sky-300">
+            {clusterCount} clusters · nível de detalhe {lodLevel + 1}/{LOD_LEVELS.length}
+          </div>
+        )}
       </div>
 
       {/* AI Context Balloon */}
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Braces, File, Folder, MessageSquare, Search } from 'lucide-react';
+import { useGraphStore } from '../stores/graphStore';
+import { useBasketStore } from '../stores/basketStore';
+import { selectAllFilePaths, selectRootNode } from '../stores/graphSelectors';
+import { buildSearchEntries, SearchEntryKind, SearchResult } from '../utils/fuzzySearch';
+import { querySearchIndex, setSearchEntries } from '../services/searchIndex';
+import { collectCodeStructures } from '../utils/symbolGraph';
+import { CodeNode } from '../types';
+
+const KIND_ICONS: Record<SearchEntryKind, React.ReactNode> = {
+  file: <File size={14} className="text-slate-400" />,
+  directory: <Folder size={14} className="text-blue-400" />,
+  symbol: <Braces size={14} className="text-emerald-400" />,
+  thread: <MessageSquare size={14} className="text-amber-400" />
+};
+
+const SYMBOL_LABELS: Record<CodeNode['type'], string> = {
+  function: 'função',
+  class: 'classe',
+  variable: 'variável',
+  api_endpoint: 'endpoint'
+};
+
+const highlightLabel = (label: string, matches: number[]) => {
+  if (matches.length === 0) return label;
+  const matched = new Set(matches);
+  return label.split('').map((char, index) => (
+    matched.has(index)
+      ? <span key={index} className="text-indigo-300 font-semibold">{char}</span>
+      : <React.Fragment key={index}>{char}</React.Fragment>
+  ));
+};
+
+/**
+ * Paleta de comandos (Ctrl/Cmd+K): busca fuzzy local em arquivos, símbolos e
+ * threads salvas, com navegação por teclado.
+ */
+const CommandPalette: React.FC = () => {
+  const isOpen = useGraphStore((state) => state.isCommandPaletteOpen);
+  const setOpen = useGraphStore((state) => state.setCommandPaletteOpen);
+  const rootNode = useGraphStore(selectRootNode);
+  const allFilePaths = useGraphStore(selectAllFilePaths);
+  const indexedCodeStructures = useGraphStore((state) => state.indexedCodeStructures);
+  const focusNode = useGraphStore((state) => state.focusNode);
+  const library = useBasketStore((state) => state.library);
+  const loadFromLibrary = useBasketStore((state) => state.loadFromLibrary);
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLUListElement | null>(null);
+  const latestQueryRef = useRef(0);
+
+  const entries = useMemo(() => buildSearchEntries({
+    filePaths: allFilePaths,
+    codeStructures: collectCodeStructures(rootNode, indexedCodeStructures),
+    threads: library.map((thread) => ({
+      id: thread.id,
+      title: thread.title,
+      nodeId: thread.baseElements[0]?.nodeId
+    }))
+  }), [allFilePaths, indexedCodeStructures, library, rootNode]);
+
+  useEffect(() => {
+    setSearchEntries(entries);
+  }, [entries]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen(!useGraphStore.getState().isCommandPaletteOpen);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [setOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setResults([]);
+    setActiveIndex(0);
+    inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const requestId = ++latestQueryRef.current;
+    querySearchIndex(query).then((nextResults) => {
+      if (requestId !== latestQueryRef.current) return;
+      setResults(nextResults);
+      setActiveIndex(0);
+    });
+  }, [entries, isOpen, query]);
+
+  useEffect(() => {
+    const active = listRef.current?.children[activeIndex] as HTMLElement | undefined;
+    active?.scrollIntoView?.({ block: 'nearest' });
+  }, [activeIndex]);
+
+  if (!isOpen) return null;
+
+  const choose = (result: SearchResult | undefined) => {
+    if (!result) return;
+    const { entry } = result;
+    setOpen(false);
+    if (entry.threadId) loadFromLibrary(entry.threadId, 'restore');
+    if (entry.nodeId) focusNode(entry.nodeId);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((prev) => (results.length === 0 ? 0 : (prev + 1) % results.length));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((prev) => (results.length === 0 ? 0 : (prev - 1 + results.length) % results.length));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      choose(results[activeIndex]);
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-slate-950/70 backdrop-blur-sm p-4 pt-[15vh]"
+      onMouseDown={() => setOpen(false)}
+    >
+      <div
+        className="w-full max-w-xl rounded-xl border border-slate-700 bg-slate-900 shadow-2xl overflow-hidden"
+        onMouseDown={(event) => event.stopPropagation()}
+        role="dialog"
+        aria-label="Buscar no projeto"
+      >
+        <div className="relative border-b border-slate-800">
+          <Search className="absolute left-4 top-3.5 text-slate-500" size={16} />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Buscar arquivos, funções, classes, endpoints e threads..."
+            className="w-full bg-transparent pl-11 pr-4 py-3 text-sm text-slate-200 placeholder-slate-500 focus:outline-none"
+            role="combobox"
+            aria-expanded={results.length > 0}
+            aria-controls="command-palette-results"
+            aria-activedescendant={results[activeIndex] ? `command-palette-${activeIndex}` : undefined}
+          />
+        </div>
+
+        {query.trim() && results.length === 0 ? (
+          <p className="px-4 py-6 text-xs text-slate-500 text-center">Nenhum resultado para “{query}”.</p>
+        ) : (
+          <ul id="command-palette-results" ref={listRef} role="listbox" className="max-h-80 overflow-y-auto py-1">
+            {results.map((result, index) => (
+              <li
+                key={result.entry.id}
+                id={`command-palette-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => choose(result)}
+                className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${index === activeIndex ? 'bg-indigo-600/20' : ''}`}
+              >
+                {KIND_ICONS[result.entry.kind]}
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-slate-200 truncate">{highlightLabel(result.entry.label, result.matches)}</p>
+                  <p className="text-[11px] text-slate-500 truncate">
+                    {result.entry.symbolType ? `${SYMBOL_LABELS[result.entry.symbolType]} · ` : ''}
+                    {result.entry.detail}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-3 border-t border-slate-800 px-4 py-2 text-[10px] text-slate-500">
+          <span>↑↓ navegar</span>
+          <span>Enter abrir</span>
+          <span>Esc fechar</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
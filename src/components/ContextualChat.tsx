@@ -9,6 +9,7 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import {
     X,
     Send,
+    Square,
     Loader2,
     Search,
     Sparkles,
@@ -27,10 +28,12 @@ import {
     Bot,
     User,
     GitPullRequest,
+    FileDiff,
 } from 'lucide-react';
 import {
     AIActionMode,
     AI_ACTION_LABELS,
+    AiModelOption,
     ChatMessage,
     FlatNode,
     Thread,
@@ -43,7 +46,10 @@ import {
     getInputPlaceholder,
     ChatContext,
 } from '../services/chatService';
+import { fetchAiModels } from '../api/client';
 import { TokenMonitorCompact } from './TokenMonitor';
+import { getFileIdForNode } from '../utils/impactAnalysis';
+import { ChangesetModal } from './ChangesetModal';
 
 // ============================================
 // Types
@@ -99,9 +105,11 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
     const addMessage = useBasketStore(state => state.addMessage);
     const addPendingAssistantMessage = useBasketStore(state => state.addPendingAssistantMessage);
     const updateAssistantMessage = useBasketStore(state => state.updateAssistantMessage);
+    const reconcileMessageUsage = useBasketStore(state => state.reconcileMessageUsage);
     const updateMessage = useBasketStore(state => state.updateMessage);
     const retryMessage = useBasketStore(state => state.retryMessage);
     const switchMode = useBasketStore(state => state.switchMode);
+    const setThreadModel = useBasketStore(state => state.setThreadModel);
     const addSuggestion = useBasketStore(state => state.addSuggestion);
     const setFollowUpQuestions = useBasketStore(state => state.setFollowUpQuestions);
     const activeThreadId = useBasketStore(state => state.activeThreadId);
@@ -113,6 +121,7 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [showModeSelector, setShowModeSelector] = useState(false);
+    const [aiModels, setAiModels] = useState<AiModelOption[]>([]);
     const [copiedId, setCopiedId] = useState<string | null>(null);
     const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
     const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
@@ -120,10 +129,28 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
     const [libraryTagInput, setLibraryTagInput] = useState('');
     const [libraryTags, setLibraryTags] = useState<string[]>([]);
     const [saveFeedback, setSaveFeedback] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [isChangesetOpen, setIsChangesetOpen] = useState(false);
 
     // Refs
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    // Cancelar streaming pendente ao desmontar
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    // Modelos disponíveis para escolha por thread
+    useEffect(() => {
+        let cancelled = false;
+        fetchAiModels()
+            .then(({ models }) => {
+                if (!cancelled) setAiModels(models);
+            })
+            .catch(() => undefined);
+        return () => {
+            cancelled = true;
+        };
+    }, []);
 
     // Inicializar thread ao montar
     useEffect(() => {
@@ -162,6 +189,9 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
             retryMessage(currentThread.id, messageId, userMessageContent);
         }
         const pendingMessageId = addPendingAssistantMessage(currentThread.id);
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        let partialResponse = '';
 
         try {
             const context: ChatContext = {
@@ -173,6 +203,12 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
             const response = await sendChatMessage({
                 userMessage: userMessageContent,
                 context,
+                model: currentThread.model,
+                signal: abortController.signal,
+                onProgress: (partial) => {
+                    partialResponse = partial;
+                    updateAssistantMessage(currentThread.id, pendingMessageId, { content: partial });
+                },
             });
 
             updateAssistantMessage(currentThread.id, pendingMessageId, {
@@ -193,11 +229,29 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
             if (response.followUpQuestions.length > 0) {
                 setFollowUpQuestions(currentThread.id, response.followUpQuestions);
             }
+
+            // Ajusta a contagem da pergunta e da resposta ao uso real cobrado pelo provedor
+            void reconcileMessageUsage(
+                currentThread.id,
+                pendingMessageId,
+                response.usage,
+                JSON.stringify({
+                    response: response.response,
+                    suggestions: response.suggestions,
+                    followUpQuestions: response.followUpQuestions,
+                }),
+                { messageId: userMessageId, text: JSON.stringify({ userMessage: userMessageContent, context }) }
+            );
         } catch (err) {
-            const message = err instanceof Error ? err.message : 'Erro ao enviar mensagem';
-            setError(message);
+            const isCancelled = abortController.signal.aborted;
+            const message = isCancelled
+                ? 'Resposta cancelada.'
+                : err instanceof Error ? err.message : 'Erro ao enviar mensagem';
+            if (!isCancelled) {
+                setError(message);
+            }
             updateAssistantMessage(currentThread.id, pendingMessageId, {
-                content: message,
+                content: isCancelled && partialResponse ? `${partialResponse}\n\n[${message}]` : message,
                 status: 'failed',
                 error: message,
             });
@@ -206,6 +260,9 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
                 error: message,
             });
         } finally {
+            if (abortControllerRef.current === abortController) {
+                abortControllerRef.current = null;
+            }
             setIsLoading(false);
             setEditingMessageId(null);
         }
@@ -219,6 +276,7 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
         updateMessage,
         addSuggestion,
         setFollowUpQuestions,
+        reconcileMessageUsage,
     ]);
 
     const handleSend = useCallback(async () => {
@@ -230,6 +288,10 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
         await sendMessageWithContent(userMessageContent, targetMessageId);
     }, [currentThread, inputValue, isLoading, editingMessageId, sendMessageWithContent]);
 
+    const handleCancel = useCallback(() => {
+        abortControllerRef.current?.abort();
+    }, []);
+
     // Mudar modo
     const handleModeChange = useCallback((mode: AIActionMode) => {
         if (currentThread) {
@@ -317,7 +379,7 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
         const branchName = window.prompt('Nome da nova branch no GitHub:', defaultBranchName);
         if (!branchName) return;
 
-        const targetPath = suggestion.path || activeNode?.path || 'src/suggested_change.ts';
+        const targetPath = suggestion.path || (activeNode ? getFileIdForNode(activeNode.path) : '') || 'src/suggested_change.ts';
         const prTitle = window.prompt('Título do Pull Request:', `AI Refactoring: ${suggestion.title}`);
         if (!prTitle) return;
 
@@ -397,7 +459,7 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
 
                 {/* Mode selector */}
                 <div className="px-4 py-2 border-t border-slate-700/50">
-                    <div className="relative">
+                    <div className="relative flex items-center gap-2">
                         <button
                             onClick={() => setShowModeSelector(!showModeSelector)}
                             className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm transition-colors ${MODE_COLORS[currentThread.currentMode]}`}
@@ -422,6 +484,23 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
                                 ))}
                             </div>
                         )}
+
+                        {aiModels.length > 0 && (
+                            <select
+                                value={currentThread.model ?? ''}
+                                onChange={(event) => setThreadModel(currentThread.id, event.target.value || null)}
+                                disabled={isLoading}
+                                title="Modelo usado nesta thread"
+                                className="ml-auto max-w-[180px] truncate bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-sky-500/50 disabled:opacity-50"
+                            >
+                                <option value="">Modelo padrão</option>
+                                {aiModels.map(option => (
+                                    <option key={option.id} value={option.id}>
+                                        {option.model} ({option.provider})
+                                    </option>
+                                ))}
+                            </select>
+                        )}
                     </div>
 
                     {/* Modes used badges */}
@@ -441,6 +520,22 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
                 </div>
             </div>
 
+            {/* Base files changed on disk (live reload) */}
+            {currentThread.changedBasePaths && currentThread.changedBasePaths.length > 0 && (
+                <div className="flex-shrink-0 flex items-start gap-2 border-b border-amber-500/30 bg-amber-500/10 px-4 py-2 text-xs text-amber-200">
+                    <span className="flex-1 min-w-0">
+                        Arquivos base alterados no disco desde a conversa:{' '}
+                        <span className="font-mono break-all">{currentThread.changedBasePaths.join(', ')}</span>
+                    </span>
+                    <button
+                        onClick={() => useBasketStore.getState().dismissChangedBasePaths(currentThread.id)}
+                        className="shrink-0 rounded px-1.5 py-0.5 text-amber-300 hover:bg-amber-500/20"
+                    >
+                        Dispensar
+                    </button>
+                </div>
+            )}
+
             {/* Messages */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
                 {currentThread.conversation.length === 0 ? (
@@ -488,6 +583,16 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
                         <span className="text-[10px] text-slate-500">
                             {currentThread.suggestions.length} sugestões
                         </span>
+                        {currentThread.suggestions.some((sug) => sug.included && sug.path && sug.content !== undefined) && (
+                            <button
+                                onClick={() => setIsChangesetOpen(true)}
+                                className="ml-auto flex items-center gap-1 rounded px-2 py-0.5 text-[10px] text-sky-300 hover:bg-sky-500/10"
+                                title="Aplicar as sugestões incluídas e revisar o diff antes de abrir um PR"
+                            >
+                                <FileDiff size={12} />
+                                Changeset
+                            </button>
+                        )}
                     </div>
                     <div className="space-y-2 max-h-[120px] overflow-y-auto">
                         {currentThread.suggestions.map((sug) => (
@@ -515,13 +620,24 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
                         rows={2}
                         className="flex-1 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 resize-none focus:outline-none focus:border-sky-500/50 focus:ring-1 focus:ring-sky-500/20"
                     />
-                    <button
-                        onClick={handleSend}
-                        disabled={!inputValue.trim() || isLoading}
-                        className="self-end p-2.5 bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition-colors"
-                    >
-                        {isLoading ? <Loader2 className="animate-spin" size={18} /> : <Send size={18} />}
-                    </button>
+                    {isLoading ? (
+                        <button
+                            onClick={handleCancel}
+                            className="self-end p-2.5 bg-rose-600 hover:bg-rose-500 text-white rounded-lg transition-colors"
+                            title="Cancelar resposta"
+                            aria-label="Cancelar resposta"
+                        >
+                            <Square size={18} />
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleSend}
+                            disabled={!inputValue.trim()}
+                            className="self-end p-2.5 bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-lg transition-colors"
+                        >
+                            <Send size={18} />
+                        </button>
+                    )}
                 </div>
 
                 {/* Save to library button */}
@@ -548,6 +664,10 @@ const ContextualChat: React.FC<ContextualChatProps> = ({
                 )}
             </div>
 
+            {isChangesetOpen && (
+                <ChangesetModal thread={currentThread} onClose={() => setIsChangesetOpen(false)} />
+            )}
+
             {isSaveModalOpen && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 p-4">
                     <div className="w-full max-w-lg rounded-xl border border-slate-700 bg-slate-900 shadow-2xl">
@@ -703,9 +823,9 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({
 
                 {/* Content */}
                 {isPending ? (
-                    <div className="flex items-center gap-2 text-sm text-slate-300">
-                        <Loader2 className="animate-spin" size={14} />
-                        <span>{message.content || 'Pensando...'}</span>
+                    <div className="flex items-start gap-2 text-sm text-slate-300">
+                        <Loader2 className="animate-spin flex-shrink-0 mt-0.5" size={14} />
+                        <span className="whitespace-pre-wrap">{message.content || 'Pensando...'}</span>
                     </div>
                 ) : (
                     <div
@@ -0,0 +1,100 @@
+import React from 'react';
+import { MessageSquarePlus, Repeat, X } from 'lucide-react';
+import { useGraphStore } from '../stores/graphStore';
+import { selectImportCycles, selectSelectedCycleId } from '../stores/graphSelectors';
+import { describeCycleEdge } from '../utils/cycleDetection';
+
+const CycleExplorerPanel: React.FC = () => {
+  const cycles = useGraphStore(selectImportCycles);
+  const selectedCycleId = useGraphStore(selectSelectedCycleId);
+  const setSelectedCycle = useGraphStore((state) => state.setSelectedCycle);
+  const exportCycleToPrompt = useGraphStore((state) => state.exportCycleToPrompt);
+  const selectNode = useGraphStore((state) => state.selectNode);
+
+  return (
+    <div className="flex flex-col h-full bg-slate-800 border-l border-slate-700">
+      <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-900/50">
+        <h2 className="font-semibold text-slate-100 flex items-center gap-2">
+          <Repeat size={18} className="text-rose-400" />
+          Dependências circulares
+        </h2>
+        <span className="text-xs bg-rose-500/20 text-rose-300 px-2 py-1 rounded-full">
+          {cycles.length} ciclos
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {cycles.length === 0 ? (
+          <p className="text-xs text-slate-400">
+            Nenhum ciclo de imports nas conexões semânticas carregadas. Abra mais arquivos no grafo para ampliar a análise.
+          </p>
+        ) : (
+          cycles.map((cycle) => {
+            const isSelected = cycle.id === selectedCycleId;
+            return (
+              <div
+                key={cycle.id}
+                className={`bg-slate-950 border rounded p-3 space-y-2 ${isSelected ? 'border-rose-500/70' : 'border-slate-800'}`}
+              >
+                <button
+                  onClick={() => setSelectedCycle(isSelected ? null : cycle)}
+                  className="w-full flex items-center justify-between gap-2 text-left"
+                >
+                  <span className="text-xs font-medium text-slate-200">
+                    {cycle.files.length} arquivos · {cycle.edges.length} imports
+                  </span>
+                  <span className="text-[10px] text-rose-300 shrink-0">
+                    {isSelected ? 'Destacado' : 'Destacar no grafo'}
+                  </span>
+                </button>
+
+                <ul className="space-y-0.5">
+                  {cycle.files.map((file) => (
+                    <li key={file}>
+                      <button
+                        onClick={() => selectNode(file)}
+                        className="text-[11px] text-slate-300 hover:text-white truncate max-w-full"
+                      >
+                        {file}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="space-y-0.5">
+                  <h3 className="text-[10px] uppercase tracking-wide text-slate-500">Imports que fecham o ciclo</h3>
+                  {cycle.edges.filter((edge) => edge.closesLoop).map((edge) => (
+                    <p key={edge.linkId} className="text-[10px] font-mono text-rose-200 break-all">
+                      {describeCycleEdge(edge)}
+                    </p>
+                  ))}
+                </div>
+
+                <button
+                  onClick={() => exportCycleToPrompt(cycle)}
+                  className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs py-1.5 rounded"
+                >
+                  <MessageSquarePlus size={14} />
+                  Enviar ao prompt
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="p-4 border-t border-slate-700 bg-slate-900/50">
+        <button
+          onClick={() => setSelectedCycle(null)}
+          disabled={!selectedCycleId}
+          className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 text-xs py-2 rounded"
+        >
+          <X size={14} />
+          Limpar destaque
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CycleExplorerPanel;
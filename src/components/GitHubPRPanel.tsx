@@ -1,30 +1,166 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   GitPullRequest,
   GitCommit,
   ExternalLink,
+  Flame,
+  GitCompare,
+  ArrowLeftRight,
+  MessageSquare,
+  MessageSquarePlus,
+  Loader2,
   Plus,
   Minus,
   User,
   ArrowLeft,
   Search,
+  Sparkles,
   RefreshCw,
   X
 } from 'lucide-react';
 import { useGraphStore } from '../stores/graphStore';
 import {
   selectActivePullRequest,
+  selectAllFilePaths,
+  selectAvailableBranches,
   selectAvailablePullRequests,
+  selectAvailableTags,
+  selectChurnStats,
+  selectChurnWindowDays,
+  selectCurrentBranch,
   selectGithubOwnerRepo,
+  selectHeatmapMode,
   selectRecentCommits,
+  selectReviewCommentCounts,
   selectStatus
 } from '../stores/graphSelectors';
-import { AppStatus } from '../types';
+import { AppStatus, GitHubPullRequestFile, HeatmapMode } from '../types';
+import { ReviewablePatch, ReviewSubmitBar } from './PullRequestReview';
+import { CHURN_WINDOW_OPTIONS, getOwnershipLegend, MAX_CHURN_COMMITS, rankHotspots } from '../utils/churnAnalysis';
+
+const HEATMAP_MODE_LABELS: Record<HeatmapMode, string> = {
+  off: 'Desligado',
+  churn: 'Churn',
+  recency: 'Recência',
+  ownership: 'Autoria'
+};
 
 interface GitHubPRPanelProps {
   onClose?: () => void;
 }
 
+interface DiffFileRowProps {
+  file: GitHubPullRequestFile;
+  isPatchOpen: boolean;
+  onTogglePatch: () => void;
+  onSelect: () => void;
+  /** Arquivo não existe na árvore carregada (ex.: só existe na ref comparada) */
+  missingFromTree?: boolean;
+  /** Comentários de revisão (publicados + pendentes) no arquivo */
+  commentCount?: number;
+  /** Substitui a visualização padrão do patch (ex.: patch revisável) */
+  patchContent?: React.ReactNode;
+}
+
+const RefOptions: React.FC<{ branches: string[]; tags: string[] }> = ({ branches, tags }) => (
+  <>
+    <optgroup label="Branches">
+      {branches.map((name) => (
+        <option key={`branch:${name}`} value={name}>{name}</option>
+      ))}
+    </optgroup>
+    {tags.length > 0 && (
+      <optgroup label="Tags">
+        {tags.map((name) => (
+          <option key={`tag:${name}`} value={name}>{name}</option>
+        ))}
+      </optgroup>
+    )}
+  </>
+);
+
+const DiffFileRow: React.FC<DiffFileRowProps> = ({
+  file,
+  isPatchOpen,
+  onTogglePatch,
+  onSelect,
+  missingFromTree,
+  commentCount,
+  patchContent
+}) => (
+  <div
+    className="bg-slate-800/40 hover:bg-slate-800 border border-slate-700/60 rounded-lg p-2.5 transition-all text-xs cursor-pointer group"
+    onClick={onSelect}
+  >
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2 min-w-0">
+        <span
+          className={`w-2 h-2 rounded-full flex-shrink-0 ${
+            file.status === 'added'
+              ? 'bg-emerald-400'
+              : file.status === 'removed'
+              ? 'bg-rose-400'
+              : 'bg-amber-400'
+          }`}
+        />
+        <span className="font-mono text-slate-200 truncate" title={file.filename}>
+          {file.filename}
+        </span>
+        {missingFromTree && (
+          <span className="text-[10px] text-slate-500 flex-shrink-0" title="Arquivo fora da árvore carregada">
+            fora do grafo
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {!!commentCount && (
+          <span className="flex items-center gap-0.5 text-violet-300 text-[11px]" title="Comentários de revisão">
+            <MessageSquare size={11} />
+            {commentCount}
+          </span>
+        )}
+        <span className="text-emerald-400 font-mono text-[11px]">+{file.additions}</span>
+        <span className="text-rose-400 font-mono text-[11px]">-{file.deletions}</span>
+        {file.patch && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onTogglePatch();
+            }}
+            className="px-1.5 py-0.5 text-[10px] bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+          >
+            Diff
+          </button>
+        )}
+      </div>
+    </div>
+
+    {/* Patch preview */}
+    {isPatchOpen && file.patch && patchContent}
+    {isPatchOpen && file.patch && !patchContent && (
+      <div className="mt-2 p-2 bg-slate-950 rounded border border-slate-800 font-mono text-[10px] overflow-x-auto max-h-48 whitespace-pre leading-relaxed text-slate-300">
+        {file.patch.split('\n').map((line, idx) => (
+          <div
+            key={idx}
+            className={
+              line.startsWith('+')
+                ? 'text-emerald-300 bg-emerald-950/40'
+                : line.startsWith('-')
+                ? 'text-rose-300 bg-rose-950/40'
+                : line.startsWith('@@')
+                ? 'text-cyan-400 bg-cyan-950/30 font-semibold'
+                : 'text-slate-400'
+            }
+          >
+            {line}
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
 export const GitHubPRPanel: React.FC<GitHubPRPanelProps> = ({ onClose }) => {
   const ownerRepo = useGraphStore(selectGithubOwnerRepo);
   const availablePullRequests = useGraphStore(selectAvailablePullRequests);
@@ -34,14 +170,47 @@ export const GitHubPRPanel: React.FC<GitHubPRPanelProps> = ({ onClose }) => {
 
   const loadPullRequest = useGraphStore((state) => state.loadPullRequest);
   const clearPullRequestMode = useGraphStore((state) => state.clearPullRequestMode);
+  const reviewPullRequestWithAi = useGraphStore((state) => state.reviewPullRequestWithAi);
+  const aiReviewStatus = useGraphStore((state) => state.aiReviewStatus);
+  const aiReviewError = useGraphStore((state) => state.aiReviewError);
   const fetchPullRequests = useGraphStore((state) => state.fetchPullRequests);
   const fetchCommits = useGraphStore((state) => state.fetchCommits);
   const selectNode = useGraphStore((state) => state.selectNode);
+  const focusNode = useGraphStore((state) => state.focusNode);
+  const heatmapMode = useGraphStore(selectHeatmapMode);
+  const churnWindowDays = useGraphStore(selectChurnWindowDays);
+  const churnStats = useGraphStore(selectChurnStats);
+  const churnStatus = useGraphStore((state) => state.churnStatus);
+  const churnError = useGraphStore((state) => state.churnError);
+  const churnCommitCount = useGraphStore((state) => state.churnCommitCount);
+  const churnTruncated = useGraphStore((state) => state.churnTruncated);
+  const setHeatmapMode = useGraphStore((state) => state.setHeatmapMode);
+  const setChurnWindowDays = useGraphStore((state) => state.setChurnWindowDays);
+  const fetchChurnStats = useGraphStore((state) => state.fetchChurnStats);
+
+  const availableBranches = useGraphStore(selectAvailableBranches);
+  const availableTags = useGraphStore(selectAvailableTags);
+  const currentBranch = useGraphStore(selectCurrentBranch);
+  const allFilePaths = useGraphStore(selectAllFilePaths);
+  const activeComparison = useGraphStore((state) => state.activeComparison);
+  const comparisonStatus = useGraphStore((state) => state.comparisonStatus);
+  const comparisonError = useGraphStore((state) => state.comparisonError);
+  const compareRefs = useGraphStore((state) => state.compareRefs);
+  const clearComparison = useGraphStore((state) => state.clearComparison);
+  const sendComparisonToThread = useGraphStore((state) => state.sendComparisonToThread);
+
+  const reviewCommentCounts = useGraphStore(selectReviewCommentCounts);
 
-  const [activeTab, setActiveTab] = useState<'prs' | 'commits'>('prs');
+  const hotspots = useMemo(() => rankHotspots(churnStats), [churnStats]);
+  const loadedPaths = useMemo(() => new Set(allFilePaths), [allFilePaths]);
+  const ownershipLegend = useMemo(() => getOwnershipLegend(churnStats), [churnStats]);
+
+  const [activeTab, setActiveTab] = useState<'prs' | 'commits' | 'hotspots' | 'compare'>('prs');
+  const [compareBase, setCompareBase] = useState('');
+  const [compareHead, setCompareHead] = useState('');
   const [filterState, setFilterState] = useState<'all' | 'open' | 'closed'>('open');
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedFilePatch, setSelectedFilePatch] = useState<{ filename: string; patch?: string } | null>(null);
+  const [openPatchFilename, setOpenPatchFilename] = useState<string | null>(null);
 
   if (!ownerRepo) {
     return (
@@ -138,6 +307,28 @@ export const GitHubPRPanel: React.FC<GitHubPRPanelProps> = ({ onClose }) => {
             <GitCommit size={13} />
             Commits ({recentCommits.length})
           </button>
+          <button
+            onClick={() => setActiveTab('hotspots')}
+            className={`flex-1 py-1.5 rounded-md flex items-center justify-center gap-1.5 font-medium transition-colors ${
+              activeTab === 'hotspots'
+                ? 'bg-indigo-600 text-white'
+                : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            <Flame size={13} />
+            Hotspots
+          </button>
+          <button
+            onClick={() => setActiveTab('compare')}
+            className={`flex-1 py-1.5 rounded-md flex items-center justify-center gap-1.5 font-medium transition-colors ${
+              activeTab === 'compare'
+                ? 'bg-indigo-600 text-white'
+                : 'text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            <GitCompare size={13} />
+            Comparar
+          </button>
         </div>
       </div>
 
@@ -187,79 +378,41 @@ export const GitHubPRPanel: React.FC<GitHubPRPanelProps> = ({ onClose }) => {
                 {activePullRequest.head.ref} → {activePullRequest.base.ref}
               </span>
             </div>
+
+            <button
+              onClick={reviewPullRequestWithAi}
+              disabled={aiReviewStatus === 'loading' || activePullRequest.files.length === 0}
+              className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs py-1.5 rounded-lg transition-colors"
+              title="Analisa patches e trilhas de impacto e cria uma thread com riscos, testes ausentes e quebras de contrato"
+            >
+              {aiReviewStatus === 'loading' ? <Loader2 size={13} className="animate-spin" /> : <Sparkles size={13} />}
+              {aiReviewStatus === 'loading' ? 'Revisando PR...' : 'Revisar este PR com IA'}
+            </button>
+            {aiReviewStatus === 'error' && aiReviewError && (
+              <p className="text-[11px] text-rose-400">{aiReviewError}</p>
+            )}
           </div>
 
+          <ReviewSubmitBar />
+
           {/* Files Changed in PR */}
           <div className="space-y-2">
             <div className="flex items-center justify-between text-xs text-slate-400 px-1 font-medium">
               <span>Arquivos Alterados ({activePullRequest.files.length})</span>
-              <span className="text-[11px] text-slate-500">Clique para focar no Grafo</span>
+              <span className="text-[11px] text-slate-500">Abra o Diff e clique nas linhas para comentar</span>
             </div>
 
             <div className="space-y-1.5">
               {activePullRequest.files.map((file) => (
-                <div
+                <DiffFileRow
                   key={file.filename}
-                  className="bg-slate-800/40 hover:bg-slate-800 border border-slate-700/60 rounded-lg p-2.5 transition-all text-xs cursor-pointer group"
-                  onClick={() => selectNode(file.filename)}
-                >
-                  <div className="flex items-center justify-between gap-2">
-                    <div className="flex items-center gap-2 min-w-0">
-                      <span
-                        className={`w-2 h-2 rounded-full flex-shrink-0 ${
-                          file.status === 'added'
-                            ? 'bg-emerald-400'
-                            : file.status === 'removed'
-                            ? 'bg-rose-400'
-                            : 'bg-amber-400'
-                        }`}
-                      />
-                      <span className="font-mono text-slate-200 truncate" title={file.filename}>
-                        {file.filename}
-                      </span>
-                    </div>
-
-                    <div className="flex items-center gap-2 flex-shrink-0">
-                      <span className="text-emerald-400 font-mono text-[11px]">+{file.additions}</span>
-                      <span className="text-rose-400 font-mono text-[11px]">-{file.deletions}</span>
-                      {file.patch && (
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setSelectedFilePatch(
-                              selectedFilePatch?.filename === file.filename ? null : { filename: file.filename, patch: file.patch }
-                            );
-                          }}
-                          className="px-1.5 py-0.5 text-[10px] bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
-                        >
-                          Diff
-                        </button>
-                      )}
-                    </div>
-                  </div>
-
-                  {/* Patch preview */}
-                  {selectedFilePatch?.filename === file.filename && file.patch && (
-                    <div className="mt-2 p-2 bg-slate-950 rounded border border-slate-800 font-mono text-[10px] overflow-x-auto max-h-48 whitespace-pre leading-relaxed text-slate-300">
-                      {file.patch.split('\n').map((line, idx) => (
-                        <div
-                          key={idx}
-                          className={
-                            line.startsWith('+')
-                              ? 'text-emerald-300 bg-emerald-950/40'
-                              : line.startsWith('-')
-                              ? 'text-rose-300 bg-rose-950/40'
-                              : line.startsWith('@@')
-                              ? 'text-cyan-400 bg-cyan-950/30 font-semibold'
-                              : 'text-slate-400'
-                          }
-                        >
-                          {line}
-                        </div>
-                      ))}
-                    </div>
-                  )}
-                </div>
+                  file={file}
+                  isPatchOpen={openPatchFilename === file.filename}
+                  onTogglePatch={() => setOpenPatchFilename(openPatchFilename === file.filename ? null : file.filename)}
+                  onSelect={() => selectNode(file.filename)}
+                  commentCount={reviewCommentCounts.get(file.filename)}
+                  patchContent={<ReviewablePatch file={file} />}
+                />
               ))}
             </div>
           </div>
@@ -355,6 +508,263 @@ export const GitHubPRPanel: React.FC<GitHubPRPanelProps> = ({ onClose }) => {
             </div>
           )}
         </div>
+      ) : activeTab === 'compare' ? (
+        /* Branch / Tag Comparison */
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <select
+                value={compareBase || currentBranch}
+                onChange={(e) => setCompareBase(e.target.value)}
+                aria-label="Ref base"
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+              >
+                <RefOptions branches={availableBranches.map((b) => b.name)} tags={availableTags.map((t) => t.name)} />
+              </select>
+              <button
+                onClick={() => {
+                  setCompareBase(compareHead);
+                  setCompareHead(compareBase || currentBranch);
+                }}
+                disabled={!compareHead}
+                className="p-1.5 text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-50 rounded transition-colors"
+                title="Inverter base e head"
+              >
+                <ArrowLeftRight size={14} />
+              </button>
+              <select
+                value={compareHead}
+                onChange={(e) => setCompareHead(e.target.value)}
+                aria-label="Ref comparada"
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+              >
+                <option value="">Comparar com...</option>
+                <RefOptions branches={availableBranches.map((b) => b.name)} tags={availableTags.map((t) => t.name)} />
+              </select>
+            </div>
+            <button
+              onClick={() => compareRefs(compareBase || currentBranch, compareHead)}
+              disabled={!compareHead || (compareBase || currentBranch) === compareHead || comparisonStatus === 'loading'}
+              className="w-full flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs py-1.5 rounded-lg transition-colors"
+            >
+              {comparisonStatus === 'loading' ? <Loader2 size={13} className="animate-spin" /> : <GitCompare size={13} />}
+              Comparar {compareBase || currentBranch}...{compareHead || '?'}
+            </button>
+            {comparisonStatus === 'error' && comparisonError && (
+              <p className="text-[11px] text-rose-400">{comparisonError}</p>
+            )}
+          </div>
+
+          {activeComparison ? (
+            <>
+              <div className="bg-slate-950/80 border border-slate-800 rounded-xl p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <h3 className="text-sm font-semibold text-slate-100 font-mono break-all">
+                    {activeComparison.base}...{activeComparison.head}
+                  </h3>
+                  <a
+                    href={activeComparison.htmlUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-slate-400 hover:text-slate-200 p-1"
+                    title="Abrir no GitHub"
+                  >
+                    <ExternalLink size={14} />
+                  </a>
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+                  <span>{activeComparison.aheadBy} à frente · {activeComparison.behindBy} atrás</span>
+                  <span>{activeComparison.totalCommits} commits</span>
+                  <span className="flex items-center gap-1 text-emerald-400 font-mono">
+                    <Plus size={11} />
+                    {activeComparison.totalAdditions}
+                  </span>
+                  <span className="flex items-center gap-1 text-rose-400 font-mono">
+                    <Minus size={11} />
+                    {activeComparison.totalDeletions}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={sendComparisonToThread}
+                    disabled={activeComparison.files.length === 0}
+                    className="flex-1 flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 text-xs py-1.5 rounded"
+                  >
+                    <MessageSquarePlus size={14} />
+                    Enviar alterações para thread
+                  </button>
+                  <button
+                    onClick={clearComparison}
+                    className="p-1.5 text-slate-400 hover:text-slate-200 hover:bg-slate-800 rounded transition-colors"
+                    title="Limpar comparação"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-xs text-slate-400 px-1 font-medium">
+                  <span>Arquivos Alterados ({activeComparison.files.length})</span>
+                  <span className="text-[11px] text-slate-500">Clique para focar no Grafo</span>
+                </div>
+                {activeComparison.files.length === 0 && (
+                  <p className="text-[11px] text-slate-500 px-1">As refs são idênticas.</p>
+                )}
+                {activeComparison.filesTruncated && (
+                  <p className="text-[11px] text-amber-400 px-1">
+                    O GitHub devolve no máximo {activeComparison.files.length} arquivos por comparação; arquivos e totais além disso ficaram de fora. Veja o diff completo no GitHub.
+                  </p>
+                )}
+                {activeComparison.files.map((file) => (
+                  <DiffFileRow
+                    key={file.filename}
+                    file={file}
+                    isPatchOpen={openPatchFilename === file.filename}
+                    onTogglePatch={() => setOpenPatchFilename(openPatchFilename === file.filename ? null : file.filename)}
+                    onSelect={() => loadedPaths.has(file.filename) && focusNode(file.filename)}
+                    missingFromTree={!loadedPaths.has(file.filename)}
+                  />
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-8 text-slate-500 text-xs space-y-2">
+              <GitCompare size={28} className="mx-auto opacity-30" />
+              <p>Compare duas branches ou tags para pintar no grafo o que mudou entre elas.</p>
+            </div>
+          )}
+        </div>
+      ) : activeTab === 'hotspots' ? (
+        /* Git History Heatmap */
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-1 text-[11px]">
+              {(Object.keys(HEATMAP_MODE_LABELS) as HeatmapMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setHeatmapMode(mode)}
+                  className={`px-2.5 py-1 rounded-full border transition-colors ${
+                    heatmapMode === mode
+                      ? 'bg-orange-500/10 border-orange-500/40 text-orange-300'
+                      : 'border-slate-800 text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {HEATMAP_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <select
+                value={churnWindowDays}
+                onChange={(e) => setChurnWindowDays(Number(e.target.value))}
+                aria-label="Janela do histórico"
+                className="flex-1 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+              >
+                {CHURN_WINDOW_OPTIONS.map((days) => (
+                  <option key={days} value={days}>
+                    Últimos {days} dias
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => fetchChurnStats()}
+                disabled={churnStatus === 'loading'}
+                className="p-1.5 text-slate-400 hover:text-slate-200 hover:bg-slate-800 disabled:opacity-50 rounded transition-colors"
+                title="Recarregar histórico"
+              >
+                {churnStatus === 'loading' ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+              </button>
+            </div>
+
+            {churnStatus === 'error' && churnError && (
+              <p className="text-[11px] text-rose-400">{churnError}</p>
+            )}
+            {churnCommitCount > 0 && (
+              <p className="text-[11px] text-slate-500">
+                {churnCommitCount} commits analisados
+              </p>
+            )}
+            {churnTruncated && (
+              <p className="text-[11px] text-amber-400">
+                Só os {MAX_CHURN_COMMITS} commits mais recentes entraram; reduza a janela para cobrir o período todo.
+              </p>
+            )}
+            <p className="text-[10px] text-slate-600">
+              Cada consulta faz até {MAX_CHURN_COMMITS + 1} requisições à API do GitHub (uma por commit).
+            </p>
+          </div>
+
+          {/* Legend */}
+          {heatmapMode === 'churn' && (
+            <div className="space-y-1">
+              <div className="h-2 rounded-full bg-gradient-to-r from-amber-200 via-orange-500 to-red-600" />
+              <div className="flex justify-between text-[10px] text-slate-500">
+                <span>Pouco alterado</span>
+                <span>Hotspot</span>
+              </div>
+            </div>
+          )}
+          {heatmapMode === 'recency' && (
+            <div className="space-y-1">
+              <div className="h-2 rounded-full bg-gradient-to-r from-blue-900 via-sky-500 to-cyan-300" />
+              <div className="flex justify-between text-[10px] text-slate-500">
+                <span>Início da janela</span>
+                <span>Alterado agora</span>
+              </div>
+            </div>
+          )}
+          {heatmapMode === 'ownership' && ownershipLegend.length > 0 && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px] text-slate-400">
+              {ownershipLegend.slice(0, 8).map((entry) => (
+                <span key={entry.author} className="flex items-center gap-1.5">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />
+                  {entry.author} ({entry.fileCount})
+                </span>
+              ))}
+              {ownershipLegend.length > 8 && <span>+{ownershipLegend.length - 8} autores</span>}
+            </div>
+          )}
+
+          {/* Hotspots */}
+          {hotspots.length === 0 ? (
+            <div className="text-center py-8 text-slate-500 text-xs space-y-2">
+              <Flame size={28} className="mx-auto opacity-30" />
+              <p>
+                {churnStatus === 'loading'
+                  ? 'Carregando histórico de commits...'
+                  : 'Escolha um modo para colorir o grafo pelo histórico de commits.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs text-slate-400 px-1 font-medium">
+                <span>Arquivos mais alterados</span>
+                <span className="text-[11px] text-slate-500">Clique para focar no Grafo</span>
+              </div>
+              {hotspots.map((entry) => (
+                <div
+                  key={entry.path}
+                  onClick={() => focusNode(entry.path)}
+                  className="bg-slate-800/40 hover:bg-slate-800 border border-slate-700/60 rounded-lg p-2.5 transition-all text-xs cursor-pointer space-y-1"
+                >
+                  <span className="block font-mono text-slate-200 truncate" title={entry.path}>
+                    {entry.path}
+                  </span>
+                  <div className="flex items-center gap-3 text-[11px] text-slate-500">
+                    <span>{entry.commitCount} commits</span>
+                    <span className="text-emerald-400 font-mono">+{entry.additions}</span>
+                    <span className="text-rose-400 font-mono">-{entry.deletions}</span>
+                    <span className="ml-auto truncate" title={`${Math.round(entry.topAuthorShare * 100)}% dos commits`}>
+                      @{entry.topAuthor}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
       ) : (
         /* Commits List View */
         <div className="flex-1 overflow-y-auto p-4 space-y-3">
@@ -0,0 +1,188 @@
+import React, { useMemo } from 'react';
+import { Crosshair, FolderPlus, Radar, X } from 'lucide-react';
+import { useGraphStore } from '../stores/graphStore';
+import {
+  selectImpactEntries,
+  selectImpactQuery,
+  selectModuleInputs,
+  selectNodesById,
+  selectSelectedNode,
+  selectSemanticLinksById
+} from '../stores/graphSelectors';
+import { collectImpactedFiles } from '../utils/impactAnalysis';
+
+const MAX_HOPS_LIMIT = 6;
+
+const KIND_LABELS: Record<string, string> = {
+  import: 'importa',
+  call: 'chama'
+};
+
+const ImpactRadiusPanel: React.FC = () => {
+  const impactQuery = useGraphStore(selectImpactQuery);
+  const impactEntries = useGraphStore(selectImpactEntries);
+  const nodesById = useGraphStore(selectNodesById);
+  const selectedNode = useGraphStore(selectSelectedNode);
+  const semanticLinksById = useGraphStore(selectSemanticLinksById);
+  const moduleInputs = useGraphStore(selectModuleInputs);
+  const setImpactQuery = useGraphStore((state) => state.setImpactQuery);
+  const clearImpactQuery = useGraphStore((state) => state.clearImpactQuery);
+  const addImpactedFilesToModule = useGraphStore((state) => state.addImpactedFilesToModule);
+  const selectNode = useGraphStore((state) => state.selectNode);
+  const setSidebarTab = useGraphStore((state) => state.setSidebarTab);
+
+  const nodeOptions = useMemo(() => {
+    const ids = new Set<string>();
+    Object.values(semanticLinksById).forEach((link) => {
+      ids.add(typeof link.source === 'string' ? link.source : link.source.id);
+      ids.add(typeof link.target === 'string' ? link.target : link.target.id);
+    });
+    return Array.from(ids).sort((a, b) => a.localeCompare(b));
+  }, [semanticLinksById]);
+
+  const impactedFiles = useMemo(
+    () => (impactQuery.nodeId ? collectImpactedFiles(impactQuery.nodeId, impactEntries) : []),
+    [impactEntries, impactQuery.nodeId]
+  );
+
+  const moduleExists = impactQuery.nodeId
+    ? moduleInputs.some((module) => module.id === `impact:${impactQuery.nodeId}`)
+    : false;
+
+  const entriesByDistance = useMemo(() => {
+    const groups = new Map<number, typeof impactEntries>();
+    impactEntries.forEach((entry) => {
+      const bucket = groups.get(entry.distance) ?? [];
+      bucket.push(entry);
+      groups.set(entry.distance, bucket);
+    });
+    return Array.from(groups.entries());
+  }, [impactEntries]);
+
+  const handleAddToModule = () => {
+    addImpactedFilesToModule();
+    setSidebarTab('recommendations');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-800 border-l border-slate-700">
+      <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-900/50">
+        <h2 className="font-semibold text-slate-100 flex items-center gap-2">
+          <Radar size={18} className="text-fuchsia-400" />
+          Raio de impacto
+        </h2>
+        <span className="text-xs bg-fuchsia-500/20 text-fuchsia-300 px-2 py-1 rounded-full">
+          {impactEntries.length} dependentes
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="space-y-2">
+          <label className="text-xs uppercase tracking-wide text-slate-400">Quem depende de</label>
+          <select
+            value={impactQuery.nodeId ?? ''}
+            onChange={(event) => setImpactQuery(event.target.value || null)}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-2 text-xs text-slate-200 focus:outline-none focus:border-indigo-500"
+          >
+            <option value="">Selecione um arquivo ou símbolo</option>
+            {nodeOptions.map((id) => (
+              <option key={id} value={id}>
+                {id}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => selectedNode && setImpactQuery(selectedNode.id)}
+            disabled={!selectedNode}
+            className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 text-xs py-2 rounded"
+          >
+            <Crosshair size={14} />
+            Usar nó selecionado{selectedNode ? ` (${selectedNode.name})` : ''}
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-xs uppercase tracking-wide text-slate-400">Profundidade máxima</label>
+            <span className="text-xs text-slate-300">{impactQuery.maxHops} saltos</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={MAX_HOPS_LIMIT}
+            value={impactQuery.maxHops}
+            onChange={(event) => setImpactQuery(impactQuery.nodeId, Number(event.target.value))}
+            className="w-full accent-fuchsia-500"
+          />
+        </div>
+
+        {nodeOptions.length === 0 && (
+          <div className="text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded p-2">
+            <strong>Dica:</strong> Abra arquivos no grafo para gerar conexões semânticas antes de calcular o impacto.
+          </div>
+        )}
+
+        {impactQuery.nodeId && (
+          <div className="space-y-3">
+            {impactEntries.length === 0 ? (
+              <p className="text-xs text-slate-400">
+                Nenhum importador ou chamador encontrado nas conexões semânticas carregadas.
+              </p>
+            ) : (
+              entriesByDistance.map(([distance, entries]) => (
+                <div key={distance} className="space-y-1">
+                  <h3 className="text-[11px] uppercase tracking-wide text-slate-500">
+                    {distance === 1 ? 'Dependentes diretos' : `${distance} saltos`}
+                  </h3>
+                  <ul className="space-y-1">
+                    {entries.map((entry) => (
+                      <li key={entry.id}>
+                        <button
+                          onClick={() => selectNode(entry.id)}
+                          className="w-full text-left bg-slate-950 border border-slate-800 hover:border-fuchsia-500/50 rounded px-3 py-2"
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-slate-200 truncate">
+                              {nodesById[entry.id]?.name ?? entry.id}
+                            </span>
+                            <span className="text-[10px] text-fuchsia-300 shrink-0">
+                              {entry.referenceCount} ref.
+                            </span>
+                          </div>
+                          <p className="text-[10px] text-slate-500 truncate">
+                            {entry.kinds.map((kind) => KIND_LABELS[kind] ?? kind).join(' + ')} {entry.via}
+                          </p>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-slate-700 bg-slate-900/50 space-y-2">
+        <button
+          onClick={handleAddToModule}
+          disabled={!impactQuery.nodeId}
+          className="w-full flex items-center justify-center gap-2 bg-fuchsia-600 hover:bg-fuchsia-500 disabled:bg-slate-700 disabled:text-slate-400 text-white py-2.5 rounded-lg font-medium transition-colors"
+        >
+          <FolderPlus size={16} />
+          {moduleExists ? 'Atualizar' : 'Adicionar'} {impactedFiles.length} arquivos ao módulo
+        </button>
+        <button
+          onClick={clearImpactQuery}
+          disabled={!impactQuery.nodeId}
+          className="w-full flex items-center justify-center gap-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 text-xs py-2 rounded"
+        >
+          <X size={14} />
+          Limpar
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImpactRadiusPanel;
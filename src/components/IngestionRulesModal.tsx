@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { ListFilter, X } from 'lucide-react';
+import { useGraphStore } from '../stores/graphStore';
+import { IngestionRuleKind, createIngestionFilter, previewIngestion } from '../utils/ingestionRules';
+
+const KIND_LABELS: Record<IngestionRuleKind, { label: string; className: string }> = {
+  builtin: { label: 'padrão', className: 'text-slate-400' },
+  gitignore: { label: '.gitignore', className: 'text-amber-400' },
+  exclude: { label: 'exclude', className: 'text-rose-400' },
+  include: { label: 'include', className: 'text-emerald-400' }
+};
+
+const parseLines = (value: string) =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+interface IngestionRulesModalProps {
+  onClose: () => void;
+}
+
+/**
+ * Edita as regras include/exclude da sessão com prévia de quantos arquivos
+ * cada regra (incluindo os `.gitignore` do projeto) remove antes de aplicar.
+ */
+export const IngestionRulesModal: React.FC<IngestionRulesModalProps> = ({ onClose }) => {
+  const ingestionRules = useGraphStore((state) => state.ingestionRules);
+  const ingestionCandidates = useGraphStore((state) => state.ingestionCandidates);
+  const gitignoreFiles = useGraphStore((state) => state.gitignoreFiles);
+  const applyIngestionRules = useGraphStore((state) => state.applyIngestionRules);
+
+  const [excludeText, setExcludeText] = useState(ingestionRules.exclude.join('\n'));
+  const [includeText, setIncludeText] = useState(ingestionRules.include.join('\n'));
+
+  const draft = useMemo(() => ({ include: parseLines(includeText), exclude: parseLines(excludeText) }), [includeText, excludeText]);
+  const preview = useMemo(
+    () => previewIngestion(ingestionCandidates, createIngestionFilter(gitignoreFiles, draft)),
+    [ingestionCandidates, gitignoreFiles, draft]
+  );
+
+  const handleApply = () => {
+    applyIngestionRules(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-xl border border-slate-700 bg-slate-900 shadow-2xl">
+        <div className="flex items-center justify-between border-b border-slate-700 px-4 py-3">
+          <div>
+            <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-100">
+              <ListFilter size={16} className="text-indigo-400" />
+              Regras de ingestão
+            </h3>
+            <p className="text-xs text-slate-500">
+              {preview.kept} de {preview.total} arquivos serão carregados · {gitignoreFiles.size} .gitignore
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1.5 text-slate-400 hover:bg-slate-800 hover:text-slate-100"
+            aria-label="Fechar regras de ingestão"
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid min-h-0 flex-1 grid-cols-2 gap-4 overflow-y-auto p-4">
+          <div className="space-y-3">
+            <label className="block text-xs text-slate-300">
+              Excluir (um glob por linha)
+              <textarea
+                value={excludeText}
+                onChange={(event) => setExcludeText(event.target.value)}
+                placeholder={'**/*.test.ts\ndocs/'}
+                rows={6}
+                className="mt-1 w-full resize-none rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 font-mono text-xs text-slate-200 focus:border-indigo-500 focus:outline-none"
+              />
+            </label>
+            <label className="block text-xs text-slate-300">
+              Incluir mesmo se ignorado
+              <textarea
+                value={includeText}
+                onChange={(event) => setIncludeText(event.target.value)}
+                placeholder={'dist/types/**'}
+                rows={4}
+                className="mt-1 w-full resize-none rounded-lg border border-slate-700 bg-slate-950 px-2 py-1.5 font-mono text-xs text-slate-200 focus:border-indigo-500 focus:outline-none"
+              />
+            </label>
+            <p className="text-[11px] text-slate-500">
+              Sintaxe do .gitignore. Exclude sempre vence; include resgata arquivos escondidos pelo .gitignore ou pelas pastas padrão.
+            </p>
+          </div>
+
+          <div className="min-w-0">
+            <p className="mb-1 text-xs text-slate-300">Prévia por regra</p>
+            {preview.entries.length === 0 ? (
+              <p className="text-xs text-slate-500">Nenhuma regra afeta os arquivos atuais.</p>
+            ) : (
+              <ul className="space-y-1">
+                {preview.entries.map((entry) => (
+                  <li
+                    key={`${entry.kind}:${entry.source}:${entry.pattern}`}
+                    className="flex items-center gap-2 rounded border border-slate-800 px-2 py-1 text-xs"
+                    title={entry.source}
+                  >
+                    <span className={`w-16 shrink-0 ${KIND_LABELS[entry.kind].className}`}>{KIND_LABELS[entry.kind].label}</span>
+                    <span className="min-w-0 flex-1 truncate font-mono text-slate-200">{entry.pattern}</span>
+                    {entry.kind === 'gitignore' && entry.source !== '.gitignore' && (
+                      <span className="max-w-[8rem] truncate text-slate-500">{entry.source}</span>
+                    )}
+                    <span className={entry.kind === 'include' ? 'text-emerald-400' : 'text-rose-400'}>
+                      {entry.kind === 'include' ? '+' : '−'}{entry.count}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 border-t border-slate-700 px-4 py-3">
+          <button onClick={onClose} className="rounded-lg px-3 py-1.5 text-xs text-slate-300 hover:bg-slate-800">
+            Cancelar
+          </button>
+          <button
+            onClick={handleApply}
+            className="rounded-lg bg-indigo-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-indigo-500"
+          >
+            Aplicar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -23,6 +23,8 @@ import {
 } from '../stores/graphSelectors';
 import PromptBuilder from './PromptBuilder';
 import ModuleRecommendations from './ModuleRecommendations';
+import ImpactRadiusPanel from './ImpactRadiusPanel';
+import CycleExplorerPanel from './CycleExplorerPanel';
 import ThreadLibrary from './ThreadLibrary';
 import GitHubPRPanel from './GitHubPRPanel';
 import { Link } from '../types';
@@ -238,7 +240,7 @@ const PromptSidebarPanel: React.FC = () => {
                 Consulta de fluxo
               </h2>
               <span className="text-xs bg-amber-500/20 text-amber-300 px-2 py-1 rounded-full">
-                {graphViewMode === 'semantic' ? 'Semântico' : 'Estrutural'}
+                {graphViewMode === 'semantic' ? 'Semântico' : graphViewMode === 'symbols' ? 'Símbolos' : 'Estrutural'}
               </span>
             </div>
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
@@ -311,6 +313,10 @@ const PromptSidebarPanel: React.FC = () => {
               </div>
             </div>
           </div>
+        ) : sidebarTab === 'impact' ? (
+          <ImpactRadiusPanel />
+        ) : sidebarTab === 'cycles' ? (
+          <CycleExplorerPanel />
         ) : sidebarTab === 'metrics' ? (
           <div className="flex flex-col h-full bg-slate-800 border-l border-slate-700">
             <div className="p-4 border-b border-slate-700 flex justify-between items-center bg-slate-900/50">
@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { CheckCircle2, Loader2, MessageSquare, Send, Sparkles, Trash2, XCircle } from 'lucide-react';
+import { useGraphStore } from '../stores/graphStore';
+import { useBasketStore } from '../stores/basketStore';
+import { selectActivePullRequest, selectPendingReviewComments, selectReviewComments } from '../stores/graphSelectors';
+import { sendChatMessage } from '../services/chatService';
+import { GitHubPullRequestFile, ReviewEvent } from '../types';
+import { buildReviewAnchor, isCommentOnLine, parsePatchLines } from '../utils/patchReview';
+
+const LINE_CLASS: Record<string, string> = {
+  add: 'text-emerald-300 bg-emerald-950/40',
+  del: 'text-rose-300 bg-rose-950/40',
+  hunk: 'text-cyan-400 bg-cyan-950/30 font-semibold',
+  context: 'text-slate-400'
+};
+
+interface ReviewablePatchProps {
+  file: GitHubPullRequestFile;
+}
+
+/**
+ * Patch do PR com seleção de linhas (clique, Shift+clique para intervalo)
+ * e comentários de revisão publicados/pendentes embaixo de cada linha.
+ */
+export const ReviewablePatch: React.FC<ReviewablePatchProps> = ({ file }) => {
+  const activePullRequest = useGraphStore(selectActivePullRequest);
+  const reviewComments = useGraphStore(selectReviewComments);
+  const pendingReviewComments = useGraphStore(selectPendingReviewComments);
+  const addPendingReviewComment = useGraphStore((state) => state.addPendingReviewComment);
+  const removePendingReviewComment = useGraphStore((state) => state.removePendingReviewComment);
+  const activeThread = useBasketStore((state) => state.threads.find((t) => t.id === state.activeThreadId) ?? null);
+
+  const [selection, setSelection] = useState<{ from: number; to: number } | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const lines = useMemo(() => parsePatchLines(file.patch ?? ''), [file.patch]);
+  const fileComments = useMemo(
+    () => reviewComments.filter((comment) => comment.path === file.filename && comment.line !== null),
+    [file.filename, reviewComments]
+  );
+  const filePending = useMemo(
+    () => pendingReviewComments.filter((comment) => comment.path === file.filename),
+    [file.filename, pendingReviewComments]
+  );
+  const anchor = selection ? buildReviewAnchor(lines, selection.from, selection.to) : null;
+  const selectionEnd = selection ? Math.max(selection.from, selection.to) : -1;
+  const isSelected = (index: number) =>
+    !!selection && index >= Math.min(selection.from, selection.to) && index <= selectionEnd;
+
+  const handleLineClick = (event: React.MouseEvent, index: number) => {
+    if (lines[index].kind === 'hunk') return;
+    if (event.shiftKey && selection) {
+      setSelection({ from: selection.from, to: index });
+    } else {
+      setSelection({ from: index, to: index });
+    }
+    setDraftError(null);
+  };
+
+  const closeForm = () => {
+    setSelection(null);
+    setDraft('');
+    setDraftError(null);
+  };
+
+  const handleAddComment = () => {
+    if (!anchor || !draft.trim()) return;
+    addPendingReviewComment({ path: file.filename, ...anchor, body: draft.trim() });
+    closeForm();
+  };
+
+  const handleDraftWithAi = async () => {
+    if (!selection) return;
+    const selectedCode = lines
+      .slice(Math.min(selection.from, selection.to), selectionEnd + 1)
+      .map((line) => line.content)
+      .join('\n');
+    setIsDrafting(true);
+    setDraftError(null);
+    try {
+      const response = await sendChatMessage({
+        userMessage: [
+          `Escreva um comentário de code review curto e objetivo (markdown, sem saudação) para o trecho abaixo do arquivo ${file.filename}.`,
+          'Responda apenas com o texto do comentário.',
+          '```diff',
+          selectedCode,
+          '```'
+        ].join('\n'),
+        context: {
+          mode: 'ask',
+          elements: activeThread?.baseElements ?? [],
+          conversationHistory: activeThread?.conversation ?? [],
+          projectContext: activePullRequest ? `Pull Request #${activePullRequest.number}: ${activePullRequest.title}` : undefined
+        },
+        model: activeThread?.model
+      });
+      setDraft(response.response.trim());
+    } catch (error) {
+      setDraftError(error instanceof Error ? error.message : 'Falha ao gerar o rascunho.');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  return (
+    <div
+      className="mt-2 bg-slate-950 rounded border border-slate-800 font-mono text-[10px] overflow-x-auto max-h-96 leading-relaxed cursor-default"
+      onClick={(e) => e.stopPropagation()}
+    >
+      {lines.map((line) => {
+        const published = fileComments.filter((comment) => isCommentOnLine(comment, line));
+        const pending = filePending.filter((comment) => isCommentOnLine(comment, line));
+        return (
+          <React.Fragment key={line.index}>
+            <div
+              onClick={(e) => handleLineClick(e, line.index)}
+              className={`flex whitespace-pre ${LINE_CLASS[line.kind]} ${
+                line.kind !== 'hunk' ? 'hover:bg-indigo-900/40 cursor-pointer' : ''
+              } ${isSelected(line.index) ? 'outline outline-1 outline-indigo-400 bg-indigo-900/50' : ''}`}
+            >
+              <span className="w-8 flex-shrink-0 text-right pr-1 text-slate-600 select-none">{line.oldLine ?? ''}</span>
+              <span className="w-8 flex-shrink-0 text-right pr-2 text-slate-600 select-none">{line.newLine ?? ''}</span>
+              <span>{line.content}</span>
+            </div>
+
+            {published.map((comment) => (
+              <div key={comment.id} className="mx-2 my-1 p-2 rounded border border-violet-800/60 bg-violet-950/30 font-sans whitespace-normal">
+                <div className="flex items-center gap-1.5 text-[10px] text-violet-300 mb-1">
+                  <MessageSquare size={10} />
+                  <a href={comment.html_url} target="_blank" rel="noreferrer" className="font-semibold hover:underline">
+                    {comment.user.login}
+                  </a>
+                  <span className="text-slate-500">{new Date(comment.created_at).toLocaleDateString()}</span>
+                </div>
+                <p className="text-[11px] text-slate-300 whitespace-pre-wrap">{comment.body}</p>
+              </div>
+            ))}
+
+            {pending.map((comment) => (
+              <div key={comment.id} className="mx-2 my-1 p-2 rounded border border-dashed border-amber-700/60 bg-amber-950/20 font-sans whitespace-normal">
+                <div className="flex items-center justify-between text-[10px] text-amber-300 mb-1">
+                  <span>Pendente{comment.start_line ? ` · linhas ${comment.start_line}-${comment.line}` : ''}</span>
+                  <button
+                    onClick={() => removePendingReviewComment(comment.id)}
+                    className="text-slate-500 hover:text-rose-400"
+                    title="Remover comentário pendente"
+                  >
+                    <Trash2 size={11} />
+                  </button>
+                </div>
+                <p className="text-[11px] text-slate-300 whitespace-pre-wrap">{comment.body}</p>
+              </div>
+            ))}
+
+            {line.index === selectionEnd && (
+              <div className="m-2 p-2 rounded border border-indigo-700 bg-slate-900 font-sans space-y-2 whitespace-normal">
+                {anchor ? (
+                  <>
+                    <textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      rows={3}
+                      autoFocus
+                      placeholder="Comentário de revisão..."
+                      className="w-full bg-slate-950 border border-slate-700 rounded p-1.5 text-[11px] text-slate-200 focus:outline-none focus:border-indigo-500 resize-y"
+                    />
+                    {draftError && <p className="text-[10px] text-rose-400">{draftError}</p>}
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        onClick={handleDraftWithAi}
+                        disabled={isDrafting}
+                        className="flex items-center gap-1 px-2 py-1 text-[10px] bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-slate-200 rounded"
+                        title={activeThread ? `Usa o contexto da thread "${activeThread.title}"` : 'Sem thread ativa: usa só o trecho selecionado'}
+                      >
+                        {isDrafting ? <Loader2 size={11} className="animate-spin" /> : <Sparkles size={11} />}
+                        Rascunhar com IA
+                      </button>
+                      <div className="flex-1" />
+                      <button onClick={closeForm} className="px-2 py-1 text-[10px] text-slate-400 hover:text-slate-200">
+                        Cancelar
+                      </button>
+                      <button
+                        onClick={handleAddComment}
+                        disabled={!draft.trim()}
+                        className="px-2 py-1 text-[10px] bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded"
+                      >
+                        Adicionar à revisão
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-[10px] text-slate-400">
+                    A seleção cruza hunks diferentes; selecione linhas de um único hunk.
+                  </p>
+                )}
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+const REVIEW_EVENTS: { event: ReviewEvent; label: string; className: string; icon: React.ReactNode }[] = [
+  { event: 'COMMENT', label: 'Comentar', className: 'bg-slate-700 hover:bg-slate-600', icon: <Send size={12} /> },
+  { event: 'APPROVE', label: 'Aprovar', className: 'bg-emerald-700 hover:bg-emerald-600', icon: <CheckCircle2 size={12} /> },
+  { event: 'REQUEST_CHANGES', label: 'Pedir alterações', className: 'bg-rose-700 hover:bg-rose-600', icon: <XCircle size={12} /> }
+];
+
+/**
+ * Resumo da revisão pendente e envio como comentário, aprovação ou pedido de alterações.
+ */
+export const ReviewSubmitBar: React.FC = () => {
+  const pendingReviewComments = useGraphStore(selectPendingReviewComments);
+  const reviewStatus = useGraphStore((state) => state.reviewStatus);
+  const reviewError = useGraphStore((state) => state.reviewError);
+  const submitReview = useGraphStore((state) => state.submitReview);
+  const pendingReviewId = useGraphStore((state) => state.pendingReviewId);
+  const discardPendingReview = useGraphStore((state) => state.discardPendingReview);
+  const [body, setBody] = useState('');
+  const [submittedEvent, setSubmittedEvent] = useState<ReviewEvent | null>(null);
+
+  const handleSubmit = async (event: ReviewEvent) => {
+    setSubmittedEvent(event);
+    if (await submitReview(event, body)) setBody('');
+  };
+
+  return (
+    <div className="bg-slate-950/80 border border-slate-800 rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-slate-300">Revisão</span>
+        <span className="text-[11px] text-amber-300">
+          {pendingReviewComments.length} comentário(s) pendente(s)
+        </span>
+      </div>
+      {pendingReviewId !== null && (
+        <div className="flex items-center justify-between gap-2 text-[11px] text-amber-300">
+          <span>Há uma revisão pendente sua no GitHub; enviar vai concluí-la com os comentários dela.</span>
+          <button
+            onClick={discardPendingReview}
+            disabled={reviewStatus === 'submitting'}
+            className="flex items-center gap-1 text-slate-400 hover:text-rose-400 disabled:opacity-50"
+            title="Descartar revisão pendente"
+          >
+            <Trash2 size={12} />
+          </button>
+        </div>
+      )}
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={2}
+        placeholder="Comentário geral (opcional para aprovar)"
+        className="w-full bg-slate-900 border border-slate-800 rounded-lg p-2 text-xs text-slate-200 focus:outline-none focus:border-indigo-500 resize-y"
+      />
+      {reviewError && <p className="text-[11px] text-rose-400">{reviewError}</p>}
+      <div className="flex items-center gap-1.5">
+        {REVIEW_EVENTS.map(({ event, label, className, icon }) => (
+          <button
+            key={event}
+            onClick={() => handleSubmit(event)}
+            disabled={reviewStatus === 'submitting'}
+            className={`flex-1 flex items-center justify-center gap-1 py-1.5 text-[11px] text-white rounded disabled:opacity-50 transition-colors ${className}`}
+          >
+            {reviewStatus === 'submitting' && submittedEvent === event ? <Loader2 size={12} className="animate-spin" /> : icon}
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -8,6 +8,7 @@
 import React, { useId, useState } from 'react';
 import { Zap, AlertTriangle, AlertOctagon, Sparkles } from 'lucide-react';
 import { useBasketStore } from '../stores/basketStore';
+import { resolveTokenizerFamily } from '../utils/tokenizers';
 
 // ============================================
 // Types
@@ -70,6 +71,7 @@ const TokenMonitor: React.FC<TokenMonitorProps> = ({ compact = false, className
     const threads = useBasketStore(state => state.threads);
     const activeThreadId = useBasketStore(state => state.activeThreadId);
     const compactThread = useBasketStore(state => state.compactThread);
+    const lastCompaction = useBasketStore(state => state.lastCompaction);
     const [isCompacting, setIsCompacting] = useState(false);
 
     // Derived values
@@ -98,22 +100,39 @@ const TokenMonitor: React.FC<TokenMonitorProps> = ({ compact = false, className
         }).format(n);
 
     const tooltipId = useId();
-    const tooltipText = `${formatFullTokens(totalTokens)} / ${formatFullTokens(maxTokens)} tokens (${formatPercent(percent)}%)`;
+    const activeThread = threads.find(t => t.id === activeThreadId);
+    const tokenizerLabel = activeThread ? ` · tokenizer ${resolveTokenizerFamily(activeThread.model)}` : '';
+    const tooltipText = `${formatFullTokens(totalTokens)} / ${formatFullTokens(maxTokens)} tokens (${formatPercent(percent)}%)${tokenizerLabel}`;
 
     // Active threads count
     const activeThreads = threads.filter(t => t.status === 'active').length;
     const canCompact = Boolean(activeThreadId) && !isCompacting;
 
-    const handleCompact = () => {
+    const handleCompact = async () => {
         if (!activeThreadId || isCompacting) return;
         setIsCompacting(true);
         try {
-            compactThread(activeThreadId);
+            await compactThread(activeThreadId);
         } finally {
-            window.setTimeout(() => setIsCompacting(false), 300);
+            setIsCompacting(false);
         }
     };
 
+    // Economia da última compactação da thread ativa
+    const compaction = lastCompaction?.threadId === activeThreadId ? lastCompaction : null;
+    const compactionSaved = compaction ? compaction.tokensBefore - compaction.tokensAfter : 0;
+    const compactionTitle = compaction
+        ? `${formatFullTokens(compaction.tokensBefore)} → ${formatFullTokens(compaction.tokensAfter)} tokens (${compaction.source === 'ai' ? 'resumo da IA' : 'resumo local'})`
+        : '';
+    const compactionBadge = compaction && (
+        <span
+            className={`text-[10px] font-medium ${compactionSaved > 0 ? 'text-emerald-400' : 'text-slate-500'}`}
+            title={compactionTitle}
+        >
+            {compactionSaved > 0 ? `−${formatTokens(compactionSaved)}` : '±0'}
+        </span>
+    );
+
     if (compact) {
         return (
             <div
@@ -136,6 +155,17 @@ const TokenMonitor: React.FC<TokenMonitorProps> = ({ compact = false, className
                 <span className={`text-xs ${colors.text} font-medium`}>
                     {formatTokens(totalTokens)}
                 </span>
+                {compactionBadge}
+                {activeThreadId && (
+                    <button
+                        onClick={handleCompact}
+                        disabled={!canCompact}
+                        title={isCompacting ? 'Compactando...' : 'Compactar thread'}
+                        className="p-1 rounded text-sky-400 hover:text-sky-300 hover:bg-slate-700/50 transition-colors disabled:cursor-not-allowed disabled:text-sky-300/50"
+                    >
+                        <Sparkles size={12} className={isCompacting ? 'animate-pulse' : ''} />
+                    </button>
+                )}
                 <span id={tooltipId} className="sr-only">
                     {tooltipText}
                 </span>
@@ -188,6 +218,11 @@ const TokenMonitor: React.FC<TokenMonitorProps> = ({ compact = false, className
                     <span className="text-slate-500">
                         {activeThreads} thread{activeThreads !== 1 ? 's' : ''} ativa{activeThreads !== 1 ? 's' : ''}
                     </span>
+                    {compaction && (
+                        <span className="text-slate-500" title={compactionTitle}>
+                            {formatTokens(compaction.tokensBefore)} → {formatTokens(compaction.tokensAfter)} {compactionBadge}
+                        </span>
+                    )}
                     <button
                         onClick={handleCompact}
                         disabled={!canCompact}
@@ -29,6 +29,17 @@ export const clearGitHubPat = (): void => {
   }
 };
 
+/**
+ * Error response from the GitHub REST API. `status` lets callers tell a missing
+ * resource (404) apart from auth, rate limit or server failures.
+ */
+export class GitHubApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
 export const fetchGitHubJson = async <T>(url: string): Promise<T> => {
   const cachedResponse = await getCachedHttpResponse(url);
   const pat = getGitHubPat();
@@ -49,7 +60,7 @@ export const fetchGitHubJson = async <T>(url: string): Promise<T> => {
 
   let response: Response;
   try {
-    response = await requestResponse(url, { headers }, { allowedStatuses: [304], credentials: 'omit' });
+    response = await requestResponse(url, { headers }, { allowedStatuses: [304, 401, 403, 404], credentials: 'omit' });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Request failed.';
     throw new Error(`GitHub request failed for ${url}. ${message}`);
@@ -64,15 +75,15 @@ export const fetchGitHubJson = async <T>(url: string): Promise<T> => {
 
   if (!response.ok) {
     if (response.status === 401) {
-      throw new Error(`GitHub Unauthorized (401). Please verify your GitHub Personal Access Token (PAT).`);
+      throw new GitHubApiError(401, `GitHub Unauthorized (401). Please verify your GitHub Personal Access Token (PAT).`);
     }
     if (response.status === 403) {
-      throw new Error(`GitHub Rate Limit Exceeded or Forbidden (403). Configure a GitHub PAT in the top bar to analyze private repos and increase API limits.`);
+      throw new GitHubApiError(403, `GitHub Rate Limit Exceeded or Forbidden (403). Configure a GitHub PAT in the top bar to analyze private repos and increase API limits.`);
     }
     if (response.status === 404) {
-      throw new Error(`GitHub Resource Not Found (404). If this is a private repository, please configure a GitHub PAT with 'repo' scope.`);
+      throw new GitHubApiError(404, `GitHub Resource Not Found (404). If this is a private repository, please configure a GitHub PAT with 'repo' scope.`);
     }
-    throw new Error(`GitHub API error (${response.status}): ${response.statusText}`);
+    throw new GitHubApiError(response.status, `GitHub API error (${response.status}): ${response.statusText}`);
   }
 
   const data = (await response.json()) as T;
@@ -214,6 +225,113 @@ export const getPullRequestFiles = async (
   );
 };
 
+// Pages of 100 items; the cap keeps huge pull requests from paging forever
+const MAX_LIST_PAGES = 10;
+
+/**
+ * Fetch every page of a list endpoint that accepts `per_page=100` (up to MAX_LIST_PAGES).
+ */
+const fetchGitHubPages = async <T>(url: string): Promise<T[]> => {
+  const items: T[] = [];
+  for (let page = 1; page <= MAX_LIST_PAGES; page++) {
+    const pageItems = await fetchGitHubJson<T[]>(`${url}&page=${page}`);
+    items.push(...pageItems);
+    if (pageItems.length < 100) break;
+  }
+  return items;
+};
+
+/**
+ * List inline review comments of a pull request.
+ */
+export const listPullRequestReviewComments = async (
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<import('./types').GitHubReviewComment[]> => {
+  return fetchGitHubPages<import('./types').GitHubReviewComment>(
+    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/comments?per_page=100`
+  );
+};
+
+/**
+ * List reviews of a pull request. A `PENDING` review is only visible to its author.
+ */
+export const listPullRequestReviews = async (
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<import('./types').GitHubReview[]> => {
+  return fetchGitHubPages<import('./types').GitHubReview>(
+    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/reviews?per_page=100`
+  );
+};
+
+/**
+ * Create a pending review (no event) holding the inline comments. It stays on GitHub
+ * until submitted with `submitPendingReview` or deleted.
+ */
+export const createPendingReview = async (
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  payload: {
+    commitId: string;
+    comments: import('./types').PendingReviewComment[];
+  }
+): Promise<import('./types').GitHubReview> => {
+  return sendGitHubMutation<import('./types').GitHubReview>(
+    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`,
+    'POST',
+    {
+      commit_id: payload.commitId || undefined,
+      comments: payload.comments.map(({ path, line, side, start_line, start_side, body }) => ({
+        path,
+        line,
+        side,
+        start_line,
+        start_side,
+        body,
+      })),
+    }
+  );
+};
+
+/**
+ * Submit a pending review as a comment, approval or change request.
+ */
+export const submitPendingReview = async (
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  reviewId: number,
+  payload: { event: import('./types').ReviewEvent; body?: string }
+): Promise<import('./types').GitHubReview> => {
+  return sendGitHubMutation<import('./types').GitHubReview>(
+    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${reviewId}/events`,
+    'POST',
+    {
+      event: payload.event,
+      body: payload.body || undefined,
+    }
+  );
+};
+
+/**
+ * Delete a pending review and its inline comments.
+ */
+export const deletePendingReview = async (
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  reviewId: number
+): Promise<void> => {
+  await sendGitHubMutation<import('./types').GitHubReview>(
+    `https://api.github.com/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${reviewId}`,
+    'DELETE'
+  );
+};
+
 /**
  * List recent commits for a repository / branch.
  */
@@ -221,11 +339,40 @@ export const listRepoCommits = async (
   owner: string,
   repo: string,
   branch?: string,
-  perPage: number = 20
+  perPage: number = 20,
+  since?: string
 ): Promise<import('./types').GitHubCommitItem[]> => {
   const branchParam = branch ? `&sha=${encodeURIComponent(branch)}` : '';
+  const sinceParam = since ? `&since=${encodeURIComponent(since)}` : '';
   return fetchGitHubJson<import('./types').GitHubCommitItem[]>(
-    `https://api.github.com/repos/${owner}/${repo}/commits?per_page=${perPage}${branchParam}`
+    `https://api.github.com/repos/${owner}/${repo}/commits?per_page=${perPage}${branchParam}${sinceParam}`
+  );
+};
+
+/**
+ * Get a single commit with its changed files and line stats.
+ */
+export const getCommitDetail = async (
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<import('./types').GitHubCommitDetail> => {
+  return fetchGitHubJson<import('./types').GitHubCommitDetail>(
+    `https://api.github.com/repos/${owner}/${repo}/commits/${sha}`
+  );
+};
+
+/**
+ * Compare two refs (branches, tags or SHAs) with per-file diff stats.
+ */
+export const compareRepoRefs = async (
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<import('./types').GitHubCompareResult> => {
+  return fetchGitHubJson<import('./types').GitHubCompareResult>(
+    `https://api.github.com/repos/${owner}/${repo}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`
   );
 };
 
@@ -240,7 +387,37 @@ export const getRateLimitStatus = async (): Promise<import('./types').GitHubRate
 };
 
 /**
- * Creates a new branch from a base branch, commits one or more files, and opens a Pull Request.
+ * Error raised by createBranchAndOpenPr, tagged with the step that failed.
+ */
+export class GitHubCommitError extends Error {
+  constructor(
+    public readonly step: import('./types').PrCommitStep,
+    message: string,
+    public readonly rolledBack: boolean = false
+  ) {
+    super(message);
+    this.name = 'GitHubCommitError';
+  }
+}
+
+const encodeRepoPath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+const toBase64 = (content: string) => {
+  const utf8Bytes = new TextEncoder().encode(content);
+  let binary = '';
+  for (let i = 0; i < utf8Bytes.length; i++) {
+    binary += String.fromCharCode(utf8Bytes[i]);
+  }
+  return btoa(binary);
+};
+
+type GitTreeMode = '100644' | '100755' | '120000';
+type GitTreeEntry = { path: string; mode: GitTreeMode; type: 'blob'; sha: string | null };
+
+/**
+ * Creates (or advances) a branch with a single commit containing every file change, then opens a Pull Request.
+ * Blobs, tree and commit are built first through the Git Data API; the ref only moves at the end,
+ * so a failure never leaves a half-written branch. If opening the PR fails the ref is rolled back.
  */
 export const createBranchAndOpenPr = async (
   owner: string,
@@ -249,68 +426,179 @@ export const createBranchAndOpenPr = async (
   payload: import('./types').CreatePrPayload
 ): Promise<import('./types').GitHubPullRequest> => {
   const { branchName, commitMessage, prTitle, prBody, files } = payload;
+  const apiBase = `https://api.github.com/repos/${owner}/${repo}`;
 
-  // 1. Get base branch latest commit SHA
-  const refData = await fetchGitHubJson<{ object: { sha: string } }>(
-    `https://api.github.com/repos/${owner}/${repo}/git/ref/heads/${baseBranch}`
-  );
-  const baseSha = refData.object.sha;
-
-  // 2. Create the new branch reference
-  await sendGitHubMutation(
-    `https://api.github.com/repos/${owner}/${repo}/git/refs`,
-    'POST',
-    {
-      ref: `refs/heads/${branchName}`,
-      sha: baseSha,
+  const runStep = async <T>(step: import('./types').PrCommitStep, action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error) {
+      if (error instanceof GitHubCommitError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new GitHubCommitError(step, `Failed to create PR at step "${step}": ${message}`);
     }
-  );
+  };
 
-  // 3. Commit files (via content API or sequential commits)
-  for (const file of files) {
-    // Check if file already exists on the new branch to get its sha
-    let existingSha: string | undefined;
+  // Only a 404 means "no such branch"; auth, rate limit and network errors propagate
+  const readBranchSha = async (): Promise<string | undefined> => {
     try {
-      const existing = await fetchGitHubJson<{ sha: string }>(
-        `https://api.github.com/repos/${owner}/${repo}/contents/${file.path}?ref=${branchName}`
+      const ref = await fetchGitHubJson<{ object: { sha: string } }>(
+        `${apiBase}/git/ref/heads/${encodeRepoPath(branchName)}`
       );
-      existingSha = existing.sha;
-    } catch {
-      // File does not exist yet (creating new)
+      return ref.object.sha;
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) return undefined;
+      throw error;
     }
+  };
 
-    const utf8Bytes = new TextEncoder().encode(file.content);
-    let binary = '';
-    for (let i = 0; i < utf8Bytes.length; i++) {
-      binary += String.fromCharCode(utf8Bytes[i]);
+  // 1. Resolve the parent commit: the branch itself when it already exists, otherwise the base branch
+  const { parentSha, baseTreeSha, branchExists } = await runStep('read-base', async () => {
+    const existingSha = await readBranchSha();
+    const headSha = existingSha ?? (await fetchGitHubJson<{ object: { sha: string } }>(
+      `${apiBase}/git/ref/heads/${encodeRepoPath(baseBranch)}`
+    )).object.sha;
+    const commit = await fetchGitHubJson<{ tree: { sha: string } }>(`${apiBase}/git/commits/${headSha}`);
+    return { parentSha: headSha, baseTreeSha: commit.tree.sha, branchExists: Boolean(existingSha) };
+  });
+
+  // Base tree entries by directory, read lazily to find the blob and mode of existing files
+  const treeEntriesBySha = new Map<string, Array<{ path: string; mode: string; type: string; sha: string }>>();
+  const findBaseTreeEntry = async (path: string) => {
+    const segments = path.split('/');
+    let treeSha = baseTreeSha;
+    for (let index = 0; index < segments.length; index += 1) {
+      let entries = treeEntriesBySha.get(treeSha);
+      if (!entries) {
+        try {
+          entries = (await fetchGitHubJson<{ tree: Array<{ path: string; mode: string; type: string; sha: string }> }>(
+            `${apiBase}/git/trees/${treeSha}`
+          )).tree;
+        } catch (error) {
+          if (error instanceof GitHubApiError && error.status === 404) return undefined;
+          throw error;
+        }
+        treeEntriesBySha.set(treeSha, entries);
+      }
+      const entry = entries.find((candidate) => candidate.path === segments[index]);
+      if (!entry) return undefined;
+      if (index === segments.length - 1) return entry;
+      treeSha = entry.sha;
     }
-    const base64Content = btoa(binary);
-
-    await sendGitHubMutation(
-      `https://api.github.com/repos/${owner}/${repo}/contents/${file.path}`,
-      'PUT',
-      {
-        message: commitMessage,
-        content: base64Content,
-        branch: branchName,
-        sha: existingSha,
+    return undefined;
+  };
+  const readBaseTreeEntry = async (path: string) => {
+    const entry = await findBaseTreeEntry(path);
+    if (!entry) throw new Error(`${path} was not found on ${parentSha.slice(0, 7)}.`);
+    return entry;
+  };
+
+  // 2. Upload blobs (renames without new content reuse the original blob and mode)
+  const tree = await runStep('create-blobs', async () => {
+    const entries: GitTreeEntry[] = [];
+    for (const file of files) {
+      if (file.previousPath && file.previousPath !== file.path) {
+        entries.push({ path: file.previousPath, mode: '100644', type: 'blob', sha: null });
       }
-    );
-  }
+      if (file.delete) {
+        entries.push({ path: file.path, mode: '100644', type: 'blob', sha: null });
+        continue;
+      }
+      if (file.content === undefined) {
+        if (!file.previousPath) {
+          throw new Error(`No content provided for ${file.path}.`);
+        }
+        // Executables and symlinks keep their mode when only the path changes
+        const original = await readBaseTreeEntry(file.previousPath);
+        entries.push({ path: file.path, mode: original.mode as GitTreeMode, type: 'blob', sha: original.sha });
+        continue;
+      }
+      const blob = await sendGitHubMutation<{ sha: string }>(`${apiBase}/git/blobs`, 'POST', {
+        content: file.encoding === 'base64' ? file.content : toBase64(file.content),
+        encoding: 'base64',
+      });
+      // Edited files keep their mode (e.g. the +x bit); new files are regular blobs
+      const existing = await findBaseTreeEntry(file.previousPath ?? file.path);
+      const mode = existing?.type === 'blob' ? (existing.mode as GitTreeMode) : '100644';
+      entries.push({ path: file.path, mode, type: 'blob', sha: blob.sha });
+    }
+    return entries;
+  });
 
-  // 4. Create Pull Request
-  const pr = await sendGitHubMutation<import('./types').GitHubPullRequest>(
-    `https://api.github.com/repos/${owner}/${repo}/pulls`,
-    'POST',
-    {
+  // 3. Build the tree on top of the parent tree
+  const treeSha = await runStep('create-tree', async () => {
+    const created = await sendGitHubMutation<{ sha: string }>(`${apiBase}/git/trees`, 'POST', {
+      base_tree: baseTreeSha,
+      tree,
+    });
+    return created.sha;
+  });
+
+  // 4. Single commit with every change
+  const commitSha = await runStep('create-commit', async () => {
+    const created = await sendGitHubMutation<{ sha: string }>(`${apiBase}/git/commits`, 'POST', {
+      message: commitMessage,
+      tree: treeSha,
+      parents: [parentSha],
+    });
+    return created.sha;
+  });
+
+  // 5. Move the ref in one call (fast-forward only when the branch already exists)
+  await runStep('update-ref', async () => {
+    if (branchExists) {
+      await sendGitHubMutation(`${apiBase}/git/refs/heads/${encodeRepoPath(branchName)}`, 'PATCH', {
+        sha: commitSha,
+        force: false,
+      });
+    } else {
+      await sendGitHubMutation(`${apiBase}/git/refs`, 'POST', {
+        ref: `refs/heads/${branchName}`,
+        sha: commitSha,
+      });
+    }
+  });
+
+  // 6. Create Pull Request, rolling the ref back if it fails
+  try {
+    return await sendGitHubMutation<import('./types').GitHubPullRequest>(`${apiBase}/pulls`, 'POST', {
       title: prTitle,
       body: prBody || `Automated refactoring / code suggestion generated by **Code Palandir AI**.`,
       head: branchName,
       base: baseBranch,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    let rolledBack = false;
+    let untouchedReason: string | null = null;
+    try {
+      // Someone may have pushed in the meantime: only undo our own commit
+      const currentSha = await readBranchSha();
+      if (currentSha !== commitSha) {
+        untouchedReason = currentSha ? `it moved to ${currentSha.slice(0, 7)}` : 'it was deleted';
+      } else {
+        if (branchExists) {
+          await sendGitHubMutation(`${apiBase}/git/refs/heads/${encodeRepoPath(branchName)}`, 'PATCH', {
+            sha: parentSha,
+            force: true,
+          });
+        } else {
+          await sendGitHubMutation(`${apiBase}/git/refs/heads/${encodeRepoPath(branchName)}`, 'DELETE');
+        }
+        rolledBack = true;
+      }
+    } catch (rollbackError) {
+      console.warn(`Failed to roll back ${branchName}:`, rollbackError);
     }
-  );
-
-  return pr;
+    throw new GitHubCommitError(
+      'open-pr',
+      `Failed to create PR at step "open-pr": ${message}. ${rolledBack
+        ? `Branch ${branchName} was rolled back.`
+        : untouchedReason
+          ? `Branch ${branchName} was left untouched because ${untouchedReason} in the meantime.`
+          : `Branch ${branchName} could not be rolled back and now points to ${commitSha.slice(0, 7)}.`}`,
+      rolledBack
+    );
+  }
 };
 
 /**
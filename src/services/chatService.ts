@@ -13,6 +13,7 @@ import {
     ThreadSuggestion,
 } from '../types';
 import { isChatResponse, isThreadSuggestion } from '../utils/typeGuards';
+import { IS_AI_MOCK_MODE, mockChatResponse } from './mockAi';
 
 // ============================================
 // Types
@@ -47,8 +48,12 @@ export interface SendMessageOptions {
     userMessage: string;
     /** Contexto da conversa */
     context: ChatContext;
-    /** Callback para progresso (streaming futuro) */
+    /** Modelo da thread (`provedor:modelo`); ausente usa o padrão do servidor */
+    model?: string;
+    /** Recebe o texto acumulado da resposta enquanto ela é transmitida */
     onProgress?: (partial: string) => void;
+    /** Cancela a requisição (inclusive no meio do streaming) */
+    signal?: AbortSignal;
 }
 
 // ============================================
@@ -61,62 +66,6 @@ const EMPTY_USAGE: AiUsageTokens = {
     outputTokens: null,
     totalTokens: null,
 };
-const IS_MOCK_MODE =
-    import.meta.env.VITE_AI_MODE === 'mock' ||
-    import.meta.env.VITE_OFFLINE_MODE === 'true' ||
-    import.meta.env.VITE_OFFLINE_MODE === '1';
-
-function buildMockResponse(options: SendMessageOptions): ChatResponse {
-    const { userMessage, context } = options;
-    const elements = context.elements || [];
-    const mainElement = elements[0];
-
-    const elementNames = elements.map(e => e.name).join(', ');
-    const countLabel = elements.length > 1 ? ` (${elements.length} itens)` : '';
-
-    const elementName = mainElement?.name ?? 'elementos selecionados';
-    const elementPath = mainElement?.path ? ` (${mainElement.path}${elements.length > 1 ? ' + outros' : ''})` : '';
-    const modeDescription = getModeDescription(context.mode);
-    const now = Date.now();
-
-    return {
-        response: [
-            `Modo mock ativo: analisando ${elementNames}${countLabel} em modo "${modeDescription}".`,
-            `Resumo rápido: ${elementName} parece central para a conversa atual e a última mensagem foi "${userMessage}".`,
-            'Sugestões abaixo são simuladas para ajudar no fluxo enquanto o backend não está disponível.',
-        ].join(' '),
-        suggestions: [
-            {
-                id: `mock-sug-${now}-1`,
-                type: 'snippet',
-                title: `Checklist rápido para ${elementName}`,
-                description: 'Passos sugeridos para revisar os elementos em modo offline.',
-                content: [
-                    `- Identifique responsabilidades de ${elementNames}.`,
-                    '- Verifique dependências cruzadas entre eles.',
-                    '- Anote pontos de melhoria para compartilhar com a equipe.',
-                ].join('\n'),
-                included: true,
-            },
-            {
-                id: `mock-sug-${now}-2`,
-                type: 'file',
-                title: 'Rascunho de documentação',
-                description: 'Arquivo sugerido para registrar decisões enquanto a IA real não responde.',
-                path: `docs/mock-notes/${context.mode}-${elementName.replace(/\s+/g, '-').toLowerCase()}.md`,
-                content: `# Notas (${modeDescription})\n\n- Contexto: ${elementName}${elementPath}\n- Próximos passos:\n  - [ ] Validar hipóteses\n  - [ ] Refatorar se necessário\n`,
-                included: false,
-            },
-        ],
-        followUpQuestions: [
-            `Qual é o objetivo principal para ${elementNames} neste fluxo?`,
-            `Como esses ${elements.length} elementos se relacionam?`,
-            'Há dependências críticas que devemos mapear agora?',
-        ],
-        usage: EMPTY_USAGE,
-        latencyMs: 0,
-    };
-}
 
 function normalizeUsage(usage: unknown): AiUsageTokens | undefined {
     if (usage === null) {
@@ -136,15 +85,101 @@ function normalizeUsage(usage: unknown): AiUsageTokens | undefined {
     };
 }
 
+/**
+ * Normaliza o payload final do chat (resposta JSON ou evento `done` do stream).
+ */
+function normalizeChatResponse(data: any): ChatResponse {
+    if (isChatResponse(data)) {
+        return {
+            response: data.response,
+            suggestions: data.suggestions,
+            followUpQuestions: data.followUpQuestions,
+            usage: data.usage === null ? EMPTY_USAGE : data.usage,
+            latencyMs: data.latencyMs,
+        };
+    }
+
+    // Normalizar sugestões
+    const suggestions: ThreadSuggestion[] = (Array.isArray(data?.suggestions) ? data.suggestions : [])
+        .filter((sug: unknown): sug is ThreadSuggestion => isThreadSuggestion(sug))
+        .map((sug: ThreadSuggestion, index: number) => ({
+            ...sug,
+            id: sug.id || `sug-${Date.now()}-${index}`,
+            type: sug.type || 'snippet',
+            title: sug.title || 'Sugestão',
+            description: sug.description || '',
+            included: sug.included ?? true,
+        }));
+
+    return {
+        response: typeof data?.response === 'string' ? data.response : '',
+        suggestions,
+        followUpQuestions: Array.isArray(data?.followUpQuestions) ? data.followUpQuestions.filter((q: unknown) => typeof q === 'string') : [],
+        usage: normalizeUsage(data?.usage),
+        latencyMs: typeof data?.latencyMs === 'number' ? data.latencyMs : undefined,
+    };
+}
+
+/**
+ * Lê a resposta em server-sent events: `delta` alimenta `onProgress`,
+ * `done` traz sugestões e follow-ups e `error` encerra com falha.
+ */
+async function readChatStream(
+    body: ReadableStream<Uint8Array>,
+    onProgress: (partial: string) => void
+): Promise<ChatResponse> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let separatorIndex = buffer.indexOf('\n\n');
+        while (separatorIndex !== -1) {
+            const frame = buffer.slice(0, separatorIndex);
+            buffer = buffer.slice(separatorIndex + 2);
+            separatorIndex = buffer.indexOf('\n\n');
+
+            const event = frame.match(/^event: (.*)$/m)?.[1] ?? 'message';
+            const dataLine = frame.match(/^data: (.*)$/m)?.[1];
+            if (!dataLine) continue;
+            const data = JSON.parse(dataLine);
+
+            if (event === 'delta' && typeof data?.text === 'string') {
+                text += data.text;
+                onProgress(text);
+            } else if (event === 'done') {
+                await reader.cancel();
+                return normalizeChatResponse(data);
+            } else if (event === 'error') {
+                throw new Error(data?.error || 'Erro no streaming da resposta');
+            }
+        }
+    }
+
+    throw new Error('Conexão encerrada antes do fim da resposta');
+}
+
 /**
  * Envia uma mensagem para o chat contextual da IA.
+ * Com `onProgress`, a resposta é pedida em streaming.
  */
 export async function sendChatMessage(options: SendMessageOptions): Promise<ChatResponse> {
-    if (IS_MOCK_MODE) {
-        return buildMockResponse(options);
+    if (IS_AI_MOCK_MODE) {
+        const mock = normalizeChatResponse(mockChatResponse({
+            userMessage: options.userMessage,
+            mode: options.context.mode,
+            elements: options.context.elements,
+        }));
+        options.onProgress?.(mock.response);
+        return mock;
     }
 
-    const { userMessage, context } = options;
+    const { userMessage, context, model, onProgress, signal } = options;
 
     const payload = {
         mode: context.mode,
@@ -156,15 +191,19 @@ export async function sendChatMessage(options: SendMessageOptions): Promise<Chat
             mode: msg.mode,
         })),
         projectContext: context.projectContext,
+        model,
+        stream: Boolean(onProgress),
     };
 
     const response = await fetch(`${API_BASE}/ai/chat`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
+            ...(onProgress ? { Accept: 'text/event-stream' } : {}),
         },
         credentials: 'include',
         body: JSON.stringify(payload),
+        signal,
     });
 
     if (!response.ok) {
@@ -172,37 +211,12 @@ export async function sendChatMessage(options: SendMessageOptions): Promise<Chat
         throw new Error(error.error || `HTTP ${response.status}`);
     }
 
-    const data = await response.json();
-
-    if (isChatResponse(data)) {
-        return {
-            response: data.response,
-            suggestions: data.suggestions,
-            followUpQuestions: data.followUpQuestions,
-            usage: data.usage === null ? EMPTY_USAGE : data.usage,
-            latencyMs: data.latencyMs,
-        };
+    const isStream = response.headers.get('Content-Type')?.includes('text/event-stream');
+    if (onProgress && isStream && response.body) {
+        return readChatStream(response.body, onProgress);
     }
 
-    // Normalizar sugestões
-    const suggestions: ThreadSuggestion[] = (Array.isArray(data?.suggestions) ? data.suggestions : [])
-        .filter((sug: unknown): sug is ThreadSuggestion => isThreadSuggestion(sug))
-        .map((sug: ThreadSuggestion, index: number) => ({
-            ...sug,
-            id: sug.id || `sug-${Date.now()}-${index}`,
-            type: sug.type || 'snippet',
-            title: sug.title || 'Sugestão',
-            description: sug.description || '',
-            included: sug.included ?? true,
-        }));
-
-    return {
-        response: typeof data?.response === 'string' ? data.response : '',
-        suggestions,
-        followUpQuestions: Array.isArray(data?.followUpQuestions) ? data.followUpQuestions.filter((q: unknown) => typeof q === 'string') : [],
-        usage: normalizeUsage(data?.usage),
-        latencyMs: typeof data?.latencyMs === 'number' ? data.latencyMs : undefined,
-    };
+    return normalizeChatResponse(await response.json());
 }
 
 /**
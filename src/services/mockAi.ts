@@ -0,0 +1,863 @@
+/**
+ * Mock AI - respostas offline e determinísticas para todas as rotas de IA.
+ *
+ * Ativado com `VITE_AI_MODE=mock` ou `VITE_OFFLINE_MODE`. As respostas são
+ * derivadas do conteúdo enviado (código, caminhos, schema de UI), seguem o
+ * mesmo formato do servidor e não dependem de rede nem de relógio, permitindo
+ * demos e testes end-to-end reproduzíveis.
+ */
+
+import {
+    AIActionMode,
+    BackendRequirements,
+    CodeNode,
+    ColumnDefinition,
+    DetectedFramework,
+    EndpointRequirement,
+    FrameworkName,
+    MissingDependency,
+    ProjectGraphInput,
+    PromptOptimizerPayload,
+    PullRequestReviewFileInput,
+    PullRequestReviewFinding,
+    ServiceRequirement,
+    ThreadBaseElement,
+    ThreadSuggestion,
+    UIField,
+    UIIntentSchema,
+    UINode,
+} from '../types';
+
+export const IS_AI_MOCK_MODE =
+    import.meta.env.VITE_AI_MODE === 'mock' ||
+    import.meta.env.VITE_OFFLINE_MODE === 'true' ||
+    import.meta.env.VITE_OFFLINE_MODE === '1';
+
+// ============================================
+// Fixtures
+// ============================================
+
+const MODE_FIXTURES: Record<AIActionMode, { label: string; focus: string; nextStep: string }> = {
+    explore: {
+        label: 'Explorar e entender o elemento',
+        focus: 'responsabilidades e dependências',
+        nextStep: 'Mapear quem consome este elemento e quais efeitos colaterais ele produz.',
+    },
+    create: {
+        label: 'Criar algo novo relacionado',
+        focus: 'pontos de extensão e convenções existentes',
+        nextStep: 'Esboçar a nova peça reaproveitando os tipos e utilitários já existentes.',
+    },
+    alter: {
+        label: 'Modificar o elemento existente',
+        focus: 'contratos públicos e chamadores afetados',
+        nextStep: 'Listar chamadores antes de alterar assinaturas.',
+    },
+    fix: {
+        label: 'Corrigir bugs ou problemas',
+        focus: 'caminhos de erro e entradas inválidas',
+        nextStep: 'Reproduzir o problema com um teste antes de corrigir.',
+    },
+    connect: {
+        label: 'Conectar a outros elementos',
+        focus: 'fronteiras de integração e formatos de dados',
+        nextStep: 'Definir o contrato entre os elementos antes de implementar a integração.',
+    },
+    ask: {
+        label: 'Fazer uma pergunta livre',
+        focus: 'o contexto selecionado',
+        nextStep: 'Detalhar a pergunta com o trecho de código relevante.',
+    },
+};
+
+const PROMPT_TECHNIQUES = ['Role prompting', 'Clear instructions', 'Chain of thought', 'Output validation'];
+
+const FIELD_COLUMN_TYPES: Record<UIField['type'], string> = {
+    string: 'text',
+    number: 'numeric',
+    email: 'text',
+    password: 'text',
+    date: 'timestamptz',
+    select: 'text',
+    checkbox: 'boolean',
+    textarea: 'text',
+};
+
+const MAX_ANALYZED_NODES = 40;
+const MAX_RELEVANT_FILES = 10;
+const MAX_SUMMARY_MODULES = 8;
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Hash FNV-1a em base 36: ids estáveis para o mesmo conteúdo. */
+const stableHash = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < value.length; index += 1) {
+        hash ^= value.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+};
+
+const normalizeWord = (value: string) =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const splitWords = (value: string): string[] =>
+    value
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .split(/[^A-Za-z0-9\u00C0-\u017F]+/)
+        .map(normalizeWord)
+        .filter(word => word.length >= 3);
+
+const toSnakeCase = (value: string) =>
+    value
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .replace(/[^A-Za-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '')
+        .toLowerCase();
+
+const pluralize = (value: string) => (value.endsWith('s') ? value : `${value}s`);
+
+const getModuleName = (filePath: string) => {
+    const segments = filePath.split('/').filter(Boolean);
+    if (segments.length <= 1) return '(raiz)';
+    return segments.slice(0, Math.min(2, segments.length - 1)).join('/');
+};
+
+const countBy = <T>(items: T[], keyOf: (item: T) => string) => {
+    const counts = new Map<string, number>();
+    items.forEach(item => {
+        const key = keyOf(item);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+};
+
+// ============================================
+// analyze-file
+// ============================================
+
+const DECLARATION_PATTERNS: Array<{ pattern: RegExp; type: CodeNode['type']; label: string }> = [
+    { pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\s*\*?\s*([A-Za-z_$][\w$]*)\s*\(/, type: 'function', label: 'Função' },
+    { pattern: /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([A-Za-z_$][\w$]*)/, type: 'class', label: 'Classe' },
+    { pattern: /^\s*(?:export\s+)?(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/, type: 'function', label: 'Função' },
+    { pattern: /^\s*export\s+(?:const|let|var)\s+([A-Za-z_$][\w$]*)/, type: 'variable', label: 'Variável exportada' },
+    { pattern: /^\s*(?:async\s+)?def\s+([A-Za-z_]\w*)\s*\(/, type: 'function', label: 'Função' },
+];
+
+const ENDPOINT_PATTERN = /\b(?:app|router|server|api|fastify)\.(get|post|put|patch|delete)\(\s*['"`]([^'"`]+)['"`]/;
+
+export function mockAnalyzeFile(code: string, filename: string): { nodes: CodeNode[] } {
+    const nodes: CodeNode[] = [];
+    const seen = new Set<string>();
+
+    code.split('\n').forEach((line, index) => {
+        if (nodes.length >= MAX_ANALYZED_NODES) return;
+        const lineNumber = index + 1;
+
+        const endpoint = ENDPOINT_PATTERN.exec(line);
+        if (endpoint) {
+            const name = `${endpoint[1].toUpperCase()} ${endpoint[2]}`;
+            if (!seen.has(name)) {
+                seen.add(name);
+                nodes.push({
+                    id: `${filename}#${name}`,
+                    name,
+                    type: 'api_endpoint',
+                    codeSnippet: line.trim(),
+                    description: `Endpoint ${name} registrado na linha ${lineNumber}.`,
+                });
+            }
+            return;
+        }
+
+        for (const { pattern, type, label } of DECLARATION_PATTERNS) {
+            const match = pattern.exec(line);
+            if (!match) continue;
+            const name = match[1];
+            if (!seen.has(name)) {
+                seen.add(name);
+                nodes.push({
+                    id: `${filename}#${name}`,
+                    name,
+                    type,
+                    codeSnippet: line.trim(),
+                    description: `${label} \`${name}\` declarada na linha ${lineNumber} de ${filename}.`,
+                });
+            }
+            return;
+        }
+    });
+
+    return { nodes };
+}
+
+// ============================================
+// relevant-files
+// ============================================
+
+export function mockRelevantFiles(query: string, filePaths: string[]): { relevantFiles: string[] } {
+    const terms = Array.from(new Set(splitWords(query)));
+    if (terms.length === 0) return { relevantFiles: [] };
+
+    const scored = filePaths
+        .map(filePath => {
+            const words = splitWords(filePath);
+            const score = terms.reduce(
+                (total, term) =>
+                    total + words.filter(word => word.startsWith(term) || term.startsWith(word)).length,
+                0
+            );
+            return { filePath, score };
+        })
+        .filter(entry => entry.score > 0)
+        .sort((a, b) => b.score - a.score || a.filePath.localeCompare(b.filePath));
+
+    return { relevantFiles: scored.slice(0, MAX_RELEVANT_FILES).map(entry => entry.filePath) };
+}
+
+// ============================================
+// project-summary
+// ============================================
+
+export function mockProjectSummary(input: {
+    filePaths: string[];
+    graph: ProjectGraphInput;
+    context?: string[];
+}): { summary: string; diagram: string } {
+    const { filePaths, graph } = input;
+    const modules = countBy(filePaths, getModuleName).slice(0, MAX_SUMMARY_MODULES);
+    const extensions = countBy(
+        filePaths.filter(filePath => filePath.includes('.')),
+        filePath => filePath.slice(filePath.lastIndexOf('.'))
+    ).slice(0, 3);
+
+    const pathById = new Map(graph.nodes.map(node => [node.id, node.path ?? node.id]));
+    const degree = new Map<string, number>();
+    graph.edges.forEach(edge => {
+        degree.set(edge.source, (degree.get(edge.source) ?? 0) + 1);
+        degree.set(edge.target, (degree.get(edge.target) ?? 0) + 1);
+    });
+    const hubs = Array.from(degree.entries())
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, 3)
+        .map(([id]) => graph.nodes.find(node => node.id === id)?.label ?? id);
+
+    const sentences = [
+        `Modo mock: resumo derivado de ${filePaths.length} arquivos e ${graph.nodes.length} nós do grafo.`,
+        extensions.length > 0
+            ? `Predominam arquivos ${extensions.map(([ext, count]) => `${ext} (${count})`).join(', ')}.`
+            : 'Não há extensões de arquivo predominantes.',
+        modules.length > 0
+            ? `Módulos principais: ${modules.map(([name, count]) => `${name} (${count})`).join(', ')}.`
+            : 'Nenhum módulo identificado.',
+        hubs.length > 0
+            ? `Os elementos mais conectados são ${hubs.join(', ')}, prováveis pontos críticos de fluxo.`
+            : 'O grafo ainda não possui conexões entre os elementos.',
+    ];
+    if (input.context && input.context.length > 0) {
+        sentences.push(`Contexto informado: ${input.context.slice(0, 2).join('; ')}.`);
+    }
+
+    const moduleIds = new Map(modules.map(([name], index) => [name, `M${index}`]));
+    const moduleEdges = new Set<string>();
+    graph.edges.forEach(edge => {
+        const source = moduleIds.get(getModuleName(pathById.get(edge.source) ?? edge.source));
+        const target = moduleIds.get(getModuleName(pathById.get(edge.target) ?? edge.target));
+        if (source && target && source !== target) {
+            moduleEdges.add(`    ${source} --> ${target}`);
+        }
+    });
+    const diagram = [
+        'flowchart TD',
+        ...modules.map(([name], index) => `    M${index}["${name}"]`),
+        ...Array.from(moduleEdges).sort(),
+    ].join('\n');
+
+    return { summary: sentences.join(' '), diagram };
+}
+
+// ============================================
+// analyze (intenção de UI → backend)
+// ============================================
+
+const guessEntityName = (uiSchema: UIIntentSchema) => {
+    const fromFlow = uiSchema.dataFlow?.entityGuess?.trim();
+    const base = fromFlow || uiSchema.component.replace(/(Form|Page|List|View|Modal|Component|Screen)$/, '');
+    return pluralize(toSnakeCase(base) || 'record');
+};
+
+const parseApiCall = (apiCall: string, fallback: EndpointRequirement['method']) => {
+    const match = /^(GET|POST|PUT|PATCH|DELETE)\s+(\S+)/i.exec(apiCall.trim());
+    if (match) {
+        return { method: match[1].toUpperCase() as EndpointRequirement['method'], path: match[2] };
+    }
+    return { method: fallback, path: apiCall.trim() };
+};
+
+export function mockAnalyzeIntent(payload: {
+    uiSchema: UIIntentSchema;
+    existingInfrastructure?: string[];
+}): BackendRequirements {
+    const { uiSchema } = payload;
+    const existing = new Set((payload.existingInfrastructure ?? []).map(item => item.toLowerCase()));
+    const entity = guessEntityName(uiSchema);
+    const dataFields = uiSchema.fields.filter(field => field.type !== 'password');
+
+    const columns: ColumnDefinition[] = [
+        { name: 'id', type: 'uuid', constraints: ['PRIMARY KEY'] },
+        ...dataFields.map(field => ({
+            name: toSnakeCase(field.name),
+            type: FIELD_COLUMN_TYPES[field.type] ?? 'text',
+            constraints: [
+                ...(field.required ? ['NOT NULL'] : []),
+                ...(field.type === 'email' ? ['UNIQUE'] : []),
+            ],
+        })),
+    ];
+    const tables = dataFields.length > 0 && !existing.has(entity) ? [{ name: entity, columns }] : [];
+
+    const endpoints: EndpointRequirement[] = [];
+    const addEndpoint = (endpoint: EndpointRequirement) => {
+        const key = `${endpoint.method} ${endpoint.path}`;
+        if (existing.has(key.toLowerCase()) || existing.has(endpoint.path.toLowerCase())) return;
+        if (endpoints.some(item => `${item.method} ${item.path}` === key)) return;
+        endpoints.push(endpoint);
+    };
+    uiSchema.actions.forEach(action => {
+        if (!action.apiCall) return;
+        const { method, path } = parseApiCall(action.apiCall, action.type === 'submit' ? 'POST' : 'GET');
+        addEndpoint({ method, path, description: `Chamado por ${action.handler}${action.label ? ` (${action.label})` : ''}.` });
+    });
+    if (endpoints.length === 0 && tables.length > 0) {
+        const direction = uiSchema.dataFlow?.direction ?? 'mixed';
+        if (direction === 'read' || direction === 'mixed') {
+            addEndpoint({ method: 'GET', path: `/api/${entity}`, description: `Lista ${entity}.` });
+        }
+        if (direction === 'create' || direction === 'mixed' || uiSchema.actions.some(action => action.type === 'submit')) {
+            addEndpoint({ method: 'POST', path: `/api/${entity}`, description: `Cria registro em ${entity}.` });
+        }
+    }
+
+    const services: ServiceRequirement[] = [];
+    if (uiSchema.fields.some(field => field.type === 'password') && !existing.has('auth')) {
+        services.push({ name: 'Auth', type: 'auth', description: `Autenticação exigida pelos campos de senha de ${uiSchema.component}.` });
+    }
+    if (uiSchema.fields.some(field => field.type === 'email') && uiSchema.actions.some(action => action.type === 'submit') && !existing.has('email')) {
+        services.push({ name: 'Email', type: 'email', description: `Confirmação por e-mail após o envio de ${uiSchema.component}.` });
+    }
+
+    return { tables, endpoints, services };
+}
+
+// ============================================
+// optimize
+// ============================================
+
+export function mockOptimizePrompt(payload: PromptOptimizerPayload): { prompt: string } {
+    const { backendRequirements: requirements, selectedNode } = payload;
+    const stack = payload.preferredStack ?? 'supabase';
+    const lines = [
+        `# Implementar backend para ${payload.uiIntentSchema.component}`,
+        '',
+        `Objetivo: ${payload.userIntent || 'tornar o componente funcional'}.`,
+        `Arquivo: ${selectedNode.path}`,
+        `Stack: ${stack}`,
+        '',
+        '## Tabelas',
+        ...(requirements.tables.length > 0
+            ? requirements.tables.map(table => `- ${table.name}: ${table.columns.map(column => `${column.name} ${column.type}`).join(', ')}`)
+            : ['- Nenhuma']),
+        '',
+        '## Endpoints',
+        ...(requirements.endpoints.length > 0
+            ? requirements.endpoints.map(endpoint => `- ${endpoint.method} ${endpoint.path}${endpoint.description ? `: ${endpoint.description}` : ''}`)
+            : ['- Nenhum']),
+        '',
+        '## Serviços',
+        ...(requirements.services.length > 0
+            ? requirements.services.map(service => `- ${service.name} (${service.type}): ${service.description}`)
+            : ['- Nenhum']),
+        '',
+        '## Passos',
+        '1. Crie as tabelas e migrations listadas.',
+        '2. Implemente os endpoints validando os payloads.',
+        `3. Conecte ${payload.uiIntentSchema.component} aos endpoints e trate estados de carregamento e erro.`,
+        '4. Escreva testes para os fluxos principais.',
+    ];
+    return { prompt: lines.join('\n') };
+}
+
+/** Prompt do botão de otimização: intenção livre sobre o nó selecionado, sem esquema de UI */
+export function mockOptimizeIntent(input: {
+    userIntent: string;
+    selectedNode: { name?: string; path?: string; type?: string };
+    fileContent?: string;
+}): { prompt: string } {
+    const name = input.selectedNode?.name || 'nó selecionado';
+    const path = input.selectedNode?.path || name;
+    const content = input.fileContent ?? '';
+    const symbols = content ? mockAnalyzeFile(content, path).nodes.map(node => node.name) : [];
+    const lines = [
+        `# ${input.userIntent.trim() || `Implementar funcionalidade para ${name}`}`,
+        '',
+        `Contexto: ${input.selectedNode?.type ?? 'file'} \`${path}\`${content ? ` (${content.split('\n').length} linhas)` : ''}.`,
+        ...(symbols.length > 0 ? [`Símbolos relevantes: ${symbols.join(', ')}.`] : []),
+        '',
+        '## Passos',
+        `1. Leia \`${path}\` e identifique onde a mudança deve entrar.`,
+        '2. Implemente a alteração mantendo a API pública existente.',
+        '3. Atualize ou adicione testes cobrindo o novo comportamento.',
+    ];
+    return { prompt: lines.join('\n') };
+}
+
+// ============================================
+// generate-prompt
+// ============================================
+
+export function mockGeneratePrompt(input: { task: string; context?: string; files?: string[] }) {
+    const files = input.files ?? [];
+    const sections = {
+        context: [
+            'Você é um engenheiro de software sênior trabalhando neste repositório.',
+            input.context ? `Contexto: ${input.context}` : '',
+        ].filter(Boolean).join('\n'),
+        tasks: `Tarefa: ${input.task}`,
+        instructions: files.length > 0
+            ? `Limite as alterações aos arquivos:\n${files.map(file => `- ${file}`).join('\n')}`
+            : 'Identifique os arquivos afetados antes de alterar o código.',
+        validation: 'Explique o raciocínio passo a passo e valide o resultado com testes automatizados.',
+    };
+    const content = [
+        '## Contexto', sections.context,
+        '', '## Tarefa', sections.tasks,
+        '', '## Instruções', sections.instructions,
+        '', '## Validação', sections.validation,
+    ].join('\n');
+
+    return {
+        prompt: content,
+        metadata: { techniques: PROMPT_TECHNIQUES, sections },
+        usage: null,
+    };
+}
+
+// ============================================
+// summarize-thread
+// ============================================
+
+const DECISION_PATTERN = /\b(vamos|decidimos|decidido|usaremos|fica definido|ficou definido|combinado)\b/i;
+
+const splitSentences = (value: string) =>
+    value
+        .split(/(?<=[.!?])\s+|\n+/)
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+
+export function mockSummarizeThread(input: {
+    mode: string;
+    messages: Array<{ role: string; content: string }>;
+    suggestions: Array<{ title: string; description: string }>;
+}) {
+    const { messages } = input;
+    const userCount = messages.filter(message => message.role === 'user').length;
+    const decisions = Array.from(new Set(
+        messages.flatMap(message => splitSentences(message.content).filter(sentence => DECISION_PATTERN.test(sentence)))
+    ));
+    const openQuestions = Array.from(new Set(
+        messages.slice(-2).flatMap(message => splitSentences(message.content).filter(sentence => sentence.endsWith('?')))
+    ));
+    const firstRequest = messages.find(message => message.role === 'user')?.content.replace(/\s+/g, ' ').trim() ?? '';
+
+    return {
+        summary: [
+            `Modo mock: ${messages.length} mensagens (${userCount} do usuário) no modo "${input.mode}".`,
+            firstRequest ? `Pedido inicial: "${firstRequest.length > 120 ? `${firstRequest.slice(0, 120)}…` : firstRequest}".` : '',
+            input.suggestions.length > 0 ? `${input.suggestions.length} sugestões incluídas no prompt.` : '',
+        ].filter(Boolean).join(' '),
+        decisions,
+        openQuestions,
+    };
+}
+
+// ============================================
+// review-pr
+// ============================================
+
+const TEST_FILE_PATTERN = /(\.|\/)(test|spec)\.|__tests__\//;
+const RISKY_ADDITION_PATTERN = /\b(TODO|FIXME|console\.log|any)\b|catch\s*(\(\w*\))?\s*\{\s*\}/;
+
+/**
+ * Primeiro intervalo de linhas alterado no arquivo novo (cabeçalho @@ do patch).
+ */
+const getFirstHunkRange = (patch: string): { startLine: number; endLine: number } | null => {
+    const match = /@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(patch);
+    if (!match) return null;
+    const startLine = Number(match[1]);
+    const length = match[2] === undefined ? 1 : Number(match[2]);
+    return { startLine, endLine: startLine + Math.max(length, 1) - 1 };
+};
+
+export function mockReviewPullRequest(input: {
+    pullRequest: { number: number; title: string };
+    files: PullRequestReviewFileInput[];
+}) {
+    const { pullRequest, files } = input;
+    const hasTests = files.some(file => TEST_FILE_PATTERN.test(file.path));
+    const findings: PullRequestReviewFinding[] = [];
+
+    files.forEach(file => {
+        const patch = file.patch ?? '';
+        const range = getFirstHunkRange(patch) ?? {};
+        const lines = patch.split('\n');
+        const removedExport = lines.find(line => /^-\s*export\s/.test(line));
+        if (removedExport) {
+            findings.push({
+                category: 'contract_break',
+                severity: 'high',
+                title: `Export removido ou alterado em ${file.path}`,
+                description: `A linha "${removedExport.slice(1).trim()}" saiu do arquivo; confira quem a consome${file.trail ? ` (${file.trail})` : ''}.`,
+                path: file.path,
+                ...range,
+            });
+        }
+        const risky = lines.find(line => line.startsWith('+') && RISKY_ADDITION_PATTERN.test(line));
+        if (risky) {
+            findings.push({
+                category: 'risk',
+                severity: 'medium',
+                title: `Trecho suspeito em ${file.path}`,
+                description: `A adição "${risky.slice(1).trim()}" costuma esconder erros ou dívida técnica.`,
+                path: file.path,
+                ...range,
+            });
+        }
+        if (!hasTests && file.status !== 'removed' && !TEST_FILE_PATTERN.test(file.path) && patch) {
+            findings.push({
+                category: 'missing_test',
+                severity: 'low',
+                title: `Sem testes para ${file.path}`,
+                description: 'O PR altera este arquivo mas não inclui nenhum arquivo de teste.',
+                path: file.path,
+                ...range,
+            });
+        }
+    });
+
+    return {
+        summary: `Modo mock: PR #${pullRequest.number} ("${pullRequest.title}") altera ${files.length} arquivo(s); ${findings.length} ponto(s) de atenção encontrados por heurística.`,
+        findings,
+        usage: null,
+    };
+}
+
+// ============================================
+// chat
+// ============================================
+
+export function mockChatResponse(options: {
+    userMessage: string;
+    mode: AIActionMode;
+    elements: ThreadBaseElement[];
+}) {
+    const { userMessage, mode, elements } = options;
+    const fixture = MODE_FIXTURES[mode];
+    const mainElement = elements[0];
+    const elementName = mainElement?.name ?? 'elementos selecionados';
+    const elementNames = elements.length > 0 ? elements.map(element => element.name).join(', ') : elementName;
+    const countLabel = elements.length > 1 ? ` (${elements.length} itens)` : '';
+    const elementPath = mainElement?.path ? ` (${mainElement.path}${elements.length > 1 ? ' + outros' : ''})` : '';
+    const seed = stableHash(`${mode}:${elementNames}:${userMessage}`);
+
+    const suggestions: ThreadSuggestion[] = [
+        {
+            id: `mock-sug-${seed}-1`,
+            type: 'snippet',
+            title: `Checklist rápido para ${elementName}`,
+            description: `Passos sugeridos com foco em ${fixture.focus}.`,
+            content: [
+                `- Identifique responsabilidades de ${elementNames}.`,
+                '- Verifique dependências cruzadas entre eles.',
+                `- ${fixture.nextStep}`,
+            ].join('\n'),
+            included: true,
+        },
+        {
+            id: `mock-sug-${seed}-2`,
+            type: 'file',
+            title: 'Rascunho de documentação',
+            description: 'Arquivo sugerido para registrar decisões enquanto a IA real não responde.',
+            path: `docs/mock-notes/${mode}-${elementName.replace(/\s+/g, '-').toLowerCase()}.md`,
+            content: `# Notas (${fixture.label})\n\n- Contexto: ${elementName}${elementPath}\n- Próximos passos:\n  - [ ] Validar hipóteses\n  - [ ] Refatorar se necessário\n`,
+            included: false,
+        },
+    ];
+
+    return {
+        response: [
+            `Modo mock ativo: analisando ${elementNames}${countLabel} em modo "${fixture.label}".`,
+            `Resumo rápido: ${elementName} parece central para a conversa atual e a última mensagem foi "${userMessage}".`,
+            'Sugestões abaixo são simuladas para ajudar no fluxo enquanto o backend não está disponível.',
+        ].join(' '),
+        suggestions,
+        followUpQuestions: [
+            `Qual é o objetivo principal para ${elementNames} neste fluxo?`,
+            `Como esses ${elements.length} elementos se relacionam?`,
+            'Há dependências críticas que devemos mapear agora?',
+        ],
+        usage: null,
+        latencyMs: 0,
+    };
+}
+
+// ============================================
+// analyze/detect-framework
+// ============================================
+
+const FRAMEWORK_DEPENDENCIES: Array<{ dependency: string; name: FrameworkName }> = [
+    { dependency: 'next', name: 'nextjs' },
+    { dependency: 'nuxt', name: 'nuxt' },
+    { dependency: '@angular/core', name: 'angular' },
+    { dependency: 'svelte', name: 'svelte' },
+    { dependency: 'vue', name: 'vue' },
+    { dependency: 'react', name: 'react' },
+];
+
+const ROUTER_DEPENDENCIES = ['react-router-dom', 'react-router', 'vue-router', '@angular/router', '@tanstack/react-router'];
+const STATE_DEPENDENCIES = ['zustand', '@reduxjs/toolkit', 'redux', 'mobx', 'jotai', 'recoil', 'pinia', 'vuex', '@ngrx/store'];
+
+const readDependencies = (packageJson: string): Set<string> => {
+    try {
+        const parsed = JSON.parse(packageJson) as Record<string, unknown>;
+        const names = ['dependencies', 'devDependencies', 'peerDependencies'].flatMap(field => {
+            const value = parsed?.[field];
+            return value && typeof value === 'object' ? Object.keys(value) : [];
+        });
+        return new Set(names);
+    } catch {
+        return new Set();
+    }
+};
+
+const frameworkFromExtension = (path: string): FrameworkName | null => {
+    if (path.endsWith('.vue')) return 'vue';
+    if (path.endsWith('.svelte')) return 'svelte';
+    if (/\.(tsx|jsx)$/.test(path)) return 'react';
+    return null;
+};
+
+export function mockDetectFramework(input: {
+    packageJson: string;
+    entryFiles: Array<{ path: string; content: string }>;
+}) {
+    const dependencies = readDependencies(input.packageJson);
+    const byDependency = FRAMEWORK_DEPENDENCIES.find(entry => dependencies.has(entry.dependency));
+    const byExtension = input.entryFiles.map(file => frameworkFromExtension(file.path)).find(Boolean) ?? null;
+    const entryPoint = input.entryFiles.find(file => /(^|\/)(main|index)\.\w+$/.test(file.path))?.path
+        ?? input.entryFiles[0]?.path
+        ?? '';
+
+    const framework: DetectedFramework = {
+        name: byDependency?.name ?? byExtension ?? 'other',
+        confidence: byDependency ? 0.9 : byExtension ? 0.6 : 0.3,
+        entryPoint,
+    };
+    const router = ROUTER_DEPENDENCIES.find(name => dependencies.has(name));
+    if (router) framework.routerType = router;
+    else if (framework.name === 'nextjs' || framework.name === 'nuxt') framework.routerType = 'file-based';
+    const state = STATE_DEPENDENCIES.find(name => dependencies.has(name));
+    if (state) framework.stateManagement = state;
+
+    return { framework };
+}
+
+// ============================================
+// analyze/ui-hierarchy
+// ============================================
+
+const UI_COMPONENT_PATTERN = /\.(tsx|jsx|vue|svelte)$/;
+const UI_ELEMENT_TAGS: Array<{ pattern: RegExp; type: UINode['type'] }> = [
+    { pattern: /<form\b/i, type: 'form' },
+    { pattern: /<(input|textarea|select)\b/i, type: 'input' },
+    { pattern: /<button\b/i, type: 'button' },
+    { pattern: /<(ul|ol)\b/i, type: 'list' },
+];
+const MAX_UI_ELEMENTS_PER_FILE = 8;
+
+const classifyComponentFile = (path: string): UINode['type'] => {
+    if (/(^|\/)(pages?|routes?|views?|screens?)\/|(^|\/)page\.\w+$/i.test(path)) return 'page';
+    if (/layout/i.test(path)) return 'layout';
+    if (/modal|dialog/i.test(path)) return 'modal';
+    if (/form/i.test(path)) return 'form';
+    return 'component';
+};
+
+const getBaseName = (path: string) => (path.split('/').pop() ?? path).replace(/\.\w+$/, '');
+
+export function mockUIHierarchy(input: {
+    framework: FrameworkName;
+    files: Array<{ path: string; content: string }>;
+    entryPoint?: string;
+}) {
+    const components = input.files.filter(file => UI_COMPONENT_PATTERN.test(file.path) && file.path !== input.entryPoint);
+    const children: UINode[] = components.map(file => {
+        const elements: UINode[] = [];
+        file.content.split('\n').forEach((line, index) => {
+            const tag = UI_ELEMENT_TAGS.find(entry => entry.pattern.test(line));
+            if (!tag || elements.length >= MAX_UI_ELEMENTS_PER_FILE) return;
+            const lineNumber = index + 1;
+            elements.push({
+                id: `ui:${file.path}:${tag.type}:${lineNumber}`,
+                name: `${tag.type}-${lineNumber}`,
+                label: `${tag.type} (L${lineNumber})`,
+                type: tag.type,
+                children: [],
+                sourceFile: file.path,
+                lineRange: [lineNumber, lineNumber],
+            });
+        });
+        const name = getBaseName(file.path);
+        return {
+            id: `ui:${file.path}`,
+            name,
+            label: name,
+            type: classifyComponentFile(file.path),
+            children: elements,
+            sourceFile: file.path,
+        };
+    });
+
+    const root: UINode = {
+        id: 'ui:app',
+        name: 'App',
+        label: 'App',
+        type: 'app',
+        children,
+        sourceFile: input.entryPoint ?? '',
+    };
+    const totalNodes = 1 + children.reduce((sum, child) => sum + 1 + child.children.length, 0);
+
+    return { graph: { root, totalNodes, framework: input.framework } };
+}
+
+// ============================================
+// analyze/dependencies
+// ============================================
+
+const API_CALL_PATTERN = /\b(?:fetch|axios(?:\.(get|post|put|patch|delete))?|api\.(get|post|put|patch|delete))\(\s*['"`]((?:https?:\/\/[^/'"`]+)?\/api\/[^'"`?$]*)/g;
+const TABLE_CALL_PATTERN = /\.from\(\s*['"`]([A-Za-z_][\w]*)['"`]\s*\)/g;
+
+export function mockDependencyAnalysis(input: {
+    frontendFiles: Array<{ path: string; content: string }>;
+    backendFiles: Array<{ path: string; content: string }>;
+}) {
+    const backendSource = input.backendFiles.map(file => file.content).join('\n');
+    const missing = new Map<string, MissingDependency>();
+    const addRequirement = (key: string, create: () => MissingDependency, path: string) => {
+        const entry = missing.get(key) ?? create();
+        if (!entry.requiredBy.includes(path)) entry.requiredBy.push(path);
+        missing.set(key, entry);
+    };
+
+    input.frontendFiles.forEach(file => {
+        for (const match of file.content.matchAll(API_CALL_PATTERN)) {
+            const method = (match[1] ?? match[2] ?? 'get').toUpperCase();
+            const route = match[3].replace(/^https?:\/\/[^/]+/, '').replace(/\/+$/, '') || '/api';
+            if (backendSource.includes(`'${route}'`) || backendSource.includes(`"${route}"`) || backendSource.includes(`\`${route}\``)) continue;
+            addRequirement(`endpoint:${method} ${route}`, () => ({
+                id: `mock-dep-${stableHash(`${method} ${route}`)}`,
+                name: `${method} ${route}`,
+                type: 'endpoint',
+                description: `Chamado pelo frontend, mas nenhum arquivo de backend declara a rota ${route}.`,
+                requiredBy: [],
+                suggestedStack: 'custom',
+            }), file.path);
+        }
+        for (const match of file.content.matchAll(TABLE_CALL_PATTERN)) {
+            const table = match[1];
+            addRequirement(`table:${table}`, () => ({
+                id: `mock-dep-${stableHash(`table:${table}`)}`,
+                name: table,
+                type: 'table',
+                description: `Tabela "${table}" consultada diretamente pelo frontend.`,
+                requiredBy: [],
+                suggestedStack: 'supabase',
+            }), file.path);
+        }
+    });
+
+    return { analysis: Array.from(missing.values()) };
+}
+
+// ============================================
+// Roteamento
+// ============================================
+
+/**
+ * Resolve a resposta mock de uma rota de IA no mesmo formato do servidor.
+ * Retorna `undefined` para rotas sem mock.
+ */
+export function resolveMockAiResponse(path: string, payload: Record<string, any>): unknown {
+    switch (path) {
+        case '/api/ai/analyze-file':
+            return mockAnalyzeFile(String(payload.code ?? ''), String(payload.filename ?? ''));
+        case '/api/ai/relevant-files':
+            return mockRelevantFiles(String(payload.query ?? ''), Array.isArray(payload.filePaths) ? payload.filePaths : []);
+        case '/api/ai/project-summary':
+            return mockProjectSummary({
+                filePaths: Array.isArray(payload.filePaths) ? payload.filePaths : [],
+                graph: payload.graph ?? { nodes: [], edges: [] },
+                context: payload.context,
+            });
+        case '/api/ai/generate-prompt':
+            return mockGeneratePrompt({ task: String(payload.task ?? ''), context: payload.context, files: payload.files });
+        case '/api/ai/summarize-thread':
+            return mockSummarizeThread({
+                mode: String(payload.mode ?? 'ask'),
+                messages: Array.isArray(payload.messages) ? payload.messages : [],
+                suggestions: Array.isArray(payload.suggestions) ? payload.suggestions : [],
+            });
+        case '/api/ai/review-pr':
+            return mockReviewPullRequest({
+                pullRequest: payload.pullRequest ?? { number: 0, title: '' },
+                files: Array.isArray(payload.files) ? payload.files : [],
+            });
+        case '/api/ai/chat':
+            return mockChatResponse({
+                userMessage: String(payload.userMessage ?? ''),
+                mode: payload.mode ?? 'ask',
+                elements: Array.isArray(payload.elements) ? payload.elements : [],
+            });
+        case '/api/analyze/detect-framework':
+            return mockDetectFramework({
+                packageJson: typeof payload.packageJson === 'string' ? payload.packageJson : '',
+                entryFiles: Array.isArray(payload.entryFiles) ? payload.entryFiles : [],
+            });
+        case '/api/analyze/ui-hierarchy':
+            return mockUIHierarchy({
+                framework: payload.framework ?? 'other',
+                files: Array.isArray(payload.files) ? payload.files : [],
+                entryPoint: typeof payload.entryPoint === 'string' ? payload.entryPoint : undefined,
+            });
+        case '/api/analyze/dependencies':
+            return mockDependencyAnalysis({
+                frontendFiles: Array.isArray(payload.frontendFiles) ? payload.frontendFiles : [],
+                backendFiles: Array.isArray(payload.backendFiles) ? payload.backendFiles : [],
+            });
+        case '/api/analyze':
+            return mockAnalyzeIntent({ uiSchema: payload.uiSchema, existingInfrastructure: payload.existingInfrastructure });
+        case '/api/optimize':
+            return mockOptimizePrompt(payload as PromptOptimizerPayload);
+        case '/api/optimize-prompt':
+            return mockOptimizeIntent({
+                userIntent: String(payload.userIntent ?? ''),
+                selectedNode: payload.selectedNode ?? {},
+                fileContent: typeof payload.fileContent === 'string' ? payload.fileContent : '',
+            });
+        default:
+            return undefined;
+    }
+}
@@ -0,0 +1,83 @@
+/**
+ * Search Index - Busca local da paleta de comandos.
+ *
+ * O índice fuzzy é montado e consultado no `searchIndex.worker`; sem suporte a
+ * Worker (testes, SSR) ele fica na thread principal. Nenhuma consulta passa
+ * pela IA.
+ */
+
+import { createSearchIndex, searchIndex, SearchEntry, SearchIndex, SearchResult } from '../utils/fuzzySearch';
+import type { SearchWorkerRequest, SearchWorkerResponse } from '../workers/searchIndex.worker';
+
+const DEFAULT_LIMIT = 30;
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (results: SearchResult[] | null) => void>();
+
+// Cópia local das entradas: fallback se o worker falhar no meio do caminho
+let currentEntries: SearchEntry[] = [];
+let localIndex: SearchIndex | null = null;
+
+function getLocalIndex(): SearchIndex {
+    if (!localIndex) localIndex = createSearchIndex(currentEntries);
+    return localIndex;
+}
+
+function getWorker(): Worker | null {
+    if (worker || workerUnavailable) return worker;
+    if (typeof Worker === 'undefined') {
+        workerUnavailable = true;
+        return null;
+    }
+    try {
+        worker = new Worker(new URL('../workers/searchIndex.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+            const resolve = pendingRequests.get(event.data.requestId);
+            pendingRequests.delete(event.data.requestId);
+            resolve?.(event.data.results);
+        };
+        worker.onerror = (event) => {
+            console.warn('Search worker failed, searching on the main thread:', event.message);
+            workerUnavailable = true;
+            worker?.terminate();
+            worker = null;
+            pendingRequests.forEach(resolve => resolve(null));
+            pendingRequests.clear();
+        };
+    } catch (error) {
+        console.warn('Search worker unavailable:', error);
+        workerUnavailable = true;
+        worker = null;
+    }
+    return worker;
+}
+
+/**
+ * Substitui o conteúdo pesquisável (arquivos, símbolos, threads).
+ */
+export function setSearchEntries(entries: SearchEntry[]): void {
+    currentEntries = entries;
+    localIndex = null;
+    const instance = getWorker();
+    if (!instance) return;
+    const request: SearchWorkerRequest = { type: 'index', entries };
+    instance.postMessage(request);
+}
+
+/**
+ * Busca fuzzy no índice atual.
+ */
+export async function querySearchIndex(query: string, limit = DEFAULT_LIMIT): Promise<SearchResult[]> {
+    const instance = getWorker();
+    if (!instance) return searchIndex(getLocalIndex(), query, limit);
+
+    const requestId = ++nextRequestId;
+    const results = await new Promise<SearchResult[] | null>(resolve => {
+        pendingRequests.set(requestId, resolve);
+        const request: SearchWorkerRequest = { type: 'query', requestId, query, limit };
+        instance.postMessage(request);
+    });
+    return results ?? searchIndex(getLocalIndex(), query, limit);
+}
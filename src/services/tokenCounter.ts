@@ -0,0 +1,161 @@
+/**
+ * Token Counter - Contagem de tokens fora da thread principal.
+ *
+ * Os textos são tokenizados no `tokenizer.worker` conforme a família do modelo
+ * da thread; sem suporte a Worker (testes, SSR) a contagem roda aqui mesmo.
+ * As contagens brutas ficam em cache; famílias sem tokenizer exato recebem o
+ * fator de calibração, ajustado pelos tokens de saída reportados pelo servidor.
+ */
+
+import {
+    countTokensWith,
+    getTokenizer,
+    hasExactTokenizer,
+    reconcileCalibration,
+    resolveTokenizerFamily,
+    TokenizerFamily,
+} from '../utils/tokenizers';
+import type { TokenizeRequest, TokenizeResponse } from '../workers/tokenizer.worker';
+
+const CALIBRATION_STORAGE_KEY = 'codemind-token-calibration';
+const MAX_CACHE_ENTRIES = 2000;
+
+// ============================================
+// Calibration
+// ============================================
+
+function loadCalibration(): Partial<Record<TokenizerFamily, number>> {
+    try {
+        const stored = localStorage.getItem(CALIBRATION_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch {
+        return {};
+    }
+}
+
+let calibration: Partial<Record<TokenizerFamily, number>> = loadCalibration();
+
+function getCalibration(family: TokenizerFamily): number {
+    if (hasExactTokenizer(family)) return 1;
+    const factor = calibration[family];
+    return typeof factor === 'number' && Number.isFinite(factor) ? factor : 1;
+}
+
+// ============================================
+// Cache
+// ============================================
+
+const rawCountCache = new Map<string, number>();
+
+const cacheKey = (family: TokenizerFamily, text: string) => `${family}\u0000${text}`;
+
+function rememberCount(key: string, count: number): void {
+    if (rawCountCache.size >= MAX_CACHE_ENTRIES) {
+        const oldestKey = rawCountCache.keys().next().value;
+        if (oldestKey !== undefined) rawCountCache.delete(oldestKey);
+    }
+    rawCountCache.set(key, count);
+}
+
+const applyCalibration = (raw: number, family: TokenizerFamily) =>
+    raw === 0 ? 0 : Math.max(1, Math.round(raw * getCalibration(family)));
+
+// ============================================
+// Worker
+// ============================================
+
+let worker: Worker | null = null;
+let workerUnavailable = false;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (counts: number[] | null) => void>();
+
+function getWorker(): Worker | null {
+    if (worker || workerUnavailable) return worker;
+    if (typeof Worker === 'undefined') {
+        workerUnavailable = true;
+        return null;
+    }
+    try {
+        worker = new Worker(new URL('../workers/tokenizer.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<TokenizeResponse>) => {
+            const resolve = pendingRequests.get(event.data.requestId);
+            pendingRequests.delete(event.data.requestId);
+            resolve?.(event.data.counts);
+        };
+        worker.onerror = (event) => {
+            console.warn('Tokenizer worker failed, counting on the main thread:', event.message);
+            workerUnavailable = true;
+            worker?.terminate();
+            worker = null;
+            pendingRequests.forEach(resolve => resolve(null));
+            pendingRequests.clear();
+        };
+    } catch (error) {
+        console.warn('Tokenizer worker unavailable:', error);
+        workerUnavailable = true;
+        worker = null;
+    }
+    return worker;
+}
+
+async function countRaw(family: TokenizerFamily, texts: string[]): Promise<number[]> {
+    const instance = getWorker();
+    if (!instance) return countTokensWith(family, texts);
+
+    const requestId = ++nextRequestId;
+    const counts = await new Promise<number[] | null>(resolve => {
+        pendingRequests.set(requestId, resolve);
+        const request: TokenizeRequest = { requestId, family, texts };
+        instance.postMessage(request);
+    });
+    return counts ?? countTokensWith(family, texts);
+}
+
+// ============================================
+// Public API
+// ============================================
+
+/**
+ * Contagem calibrada já conhecida para o texto, sem acionar o worker.
+ */
+export function getCachedTokenCount(text: string, model?: string | null): number | null {
+    const family = resolveTokenizerFamily(model);
+    const raw = rawCountCache.get(cacheKey(family, text));
+    return raw === undefined ? null : applyCalibration(raw, family);
+}
+
+/**
+ * Conta tokens de vários textos com o tokenizer do modelo informado.
+ */
+export async function countTokens(texts: string[], model?: string | null): Promise<number[]> {
+    const family = resolveTokenizerFamily(model);
+    const missing = Array.from(new Set(texts.filter(text => !rawCountCache.has(cacheKey(family, text)))));
+
+    if (missing.length > 0) {
+        const counts = await countRaw(family, missing);
+        missing.forEach((text, index) => rememberCount(cacheKey(family, text), counts[index] ?? 0));
+    }
+
+    return texts.map(text => applyCalibration(rawCountCache.get(cacheKey(family, text)) ?? 0, family));
+}
+
+/**
+ * Registra quantos tokens o provedor cobrou por um texto e ajusta a
+ * calibração da família do modelo. `text` precisa ser exatamente o que foi
+ * cobrado; famílias com tokenizer exato não são calibradas.
+ */
+export function recordTokenUsage(model: string | null | undefined, text: string, reportedTokens: number): void {
+    const family = resolveTokenizerFamily(model);
+    if (hasExactTokenizer(family)) return;
+    const key = cacheKey(family, text);
+    const raw = rawCountCache.get(key) ?? getTokenizer(family).countTokens(text);
+    rememberCount(key, raw);
+
+    const next = reconcileCalibration(getCalibration(family), raw, reportedTokens);
+    calibration = { ...calibration, [family]: next };
+    try {
+        localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(calibration));
+    } catch {
+        // Calibração é só uma otimização; segue em memória
+    }
+}
@@ -1,8 +1,14 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import type { FlatNode } from '../../types';
+import { summarizeThread } from '../../api/client';
+import { getTokenizer, reconcileCalibration } from '../../utils/tokenizers';
 import { useBasketStore } from '../basketStore';
 
+vi.mock('../../api/client', () => ({
+    summarizeThread: vi.fn(),
+}));
+
 const makeNode = (overrides: Partial<FlatNode> = {}): FlatNode => ({
     id: 'node-1',
     name: 'File.ts',
@@ -19,9 +25,21 @@ describe('basketStore', () => {
             activeThreadId: null,
             totalTokens: 0,
             library: [],
+            lastCompaction: null,
         });
+        vi.mocked(summarizeThread).mockReset();
     });
 
+    const seedLongThread = () => {
+        const thread = useBasketStore.getState().createThread(makeNode(), 'alter');
+        for (let index = 0; index < 10; index += 1) {
+            useBasketStore
+                .getState()
+                .addMessage(thread.id, index % 2 === 0 ? 'user' : 'assistant', `Mensagem ${index} `.repeat(40));
+        }
+        return thread.id;
+    };
+
     it('creates a thread and updates totals', () => {
         const thread = useBasketStore.getState().createThread(makeNode(), 'ask');
         const state = useBasketStore.getState();
@@ -61,4 +79,116 @@ describe('basketStore', () => {
             JSON.stringify(state.library)
         );
     });
+
+    it('compacts a thread with the AI summary and records the token delta', async () => {
+        const threadId = seedLongThread();
+        vi.mocked(summarizeThread).mockResolvedValue({
+            summary: 'Refatoração do parser discutida.',
+            decisions: ['Vamos manter a API pública.'],
+            openQuestions: ['Quem migra os testes?'],
+        });
+
+        const compaction = await useBasketStore.getState().compactThread(threadId);
+
+        const thread = useBasketStore.getState().threads[0];
+        expect(thread.conversation).toHaveLength(7);
+        expect(thread.conversation[0].content).toContain('Decisões:\n- Vamos manter a API pública.');
+        expect(thread.conversation[0].content).toContain('Perguntas em aberto:\n- Quem migra os testes?');
+        expect(compaction).toMatchObject({ threadId, source: 'ai', tokensAfter: thread.tokenCount });
+        expect(compaction!.tokensBefore).toBeGreaterThan(compaction!.tokensAfter);
+        expect(useBasketStore.getState().lastCompaction).toEqual(compaction);
+        expect(vi.mocked(summarizeThread).mock.calls[0][0].messages).toHaveLength(4);
+    });
+
+    it('falls back to the local summary when the AI request fails', async () => {
+        const threadId = seedLongThread();
+        vi.mocked(summarizeThread).mockRejectedValue(new Error('offline'));
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+        const compaction = await useBasketStore.getState().compactThread(threadId);
+
+        const thread = useBasketStore.getState().threads[0];
+        expect(compaction?.source).toBe('local');
+        expect(thread.conversation[0].content).toMatch(/^Resumo de mensagens anteriores \(4\):\n- \(Usuário\)/);
+    });
+
+    it('recounts with the model tokenizer and reconciles with the reported usage', async () => {
+        const thread = useBasketStore.getState().createThread(makeNode(), 'ask');
+        useBasketStore.getState().setThreadModel(thread.id, 'openai:gpt-4o-mini');
+        const userId = useBasketStore.getState().addMessage(thread.id, 'user', 'Quanto custa 1234567890?');
+        const answerId = useBasketStore.getState().addMessage(thread.id, 'assistant', 'Resposta detalhada.');
+
+        await useBasketStore.getState().recountThreadTokens(thread.id);
+        const recounted = useBasketStore.getState().threads[0].conversation;
+        expect(recounted.every(msg => msg.tokenSource === 'tokenizer')).toBe(true);
+
+        const output = JSON.stringify({ response: 'Resposta detalhada.', suggestions: [] });
+        await useBasketStore
+            .getState()
+            .reconcileMessageUsage(thread.id, answerId, { promptTokens: 120, outputTokens: 40, totalTokens: 160 }, output, {
+                messageId: userId,
+                text: JSON.stringify({ userMessage: 'Quanto custa 1234567890?', context: { mode: 'ask', elements: [] } }),
+            });
+
+        const state = useBasketStore.getState();
+        const answer = state.threads[0].conversation.find(msg => msg.id === answerId)!;
+        expect(answer.tokenSource).toBe('usage');
+        expect(answer.tokenEstimate).toBeGreaterThan(0);
+        expect(answer.tokenEstimate).toBeLessThan(40);
+        const question = state.threads[0].conversation.find(msg => msg.id === userId)!;
+        expect(question.tokenSource).toBe('usage');
+        expect(question.tokenEstimate).toBeGreaterThan(0);
+        expect(question.tokenEstimate).toBeLessThan(120);
+        expect(state.totalTokens).toBe(state.threads[0].tokenCount);
+    });
+
+    it('calibrates only approximate tokenizers and only from the output usage', async () => {
+        localStorage.removeItem('codemind-token-calibration');
+        const output = JSON.stringify({ response: 'Resposta detalhada.', suggestions: [] });
+        const seed = (model: string) => {
+            const thread = useBasketStore.getState().createThread(makeNode(), 'ask');
+            useBasketStore.getState().setThreadModel(thread.id, model);
+            const userId = useBasketStore.getState().addMessage(thread.id, 'user', 'Pergunta');
+            const answerId = useBasketStore.getState().addMessage(thread.id, 'assistant', 'Resposta detalhada.');
+            return useBasketStore
+                .getState()
+                .reconcileMessageUsage(thread.id, answerId, { promptTokens: 5000, outputTokens: 20, totalTokens: 5020 }, output, {
+                    messageId: userId,
+                    text: JSON.stringify({ userMessage: 'Pergunta', context: { mode: 'ask', elements: [] } }),
+                });
+        };
+
+        await seed('openai:gpt-4o-mini');
+        await seed('gemini-2.5-flash');
+
+        const stored = JSON.parse(localStorage.getItem('codemind-token-calibration') ?? '{}');
+        expect(stored.gpt).toBeUndefined();
+        const raw = getTokenizer('gemini').countTokens(output);
+        expect(stored.gemini).toBeCloseTo(reconcileCalibration(1, raw, 20));
+    });
+
+    it('flags threads whose base files changed on disk until dismissed', () => {
+        const fileThread = useBasketStore.getState().createThread(makeNode({ path: 'src/a.ts' }), 'ask');
+        const symbolThread = useBasketStore.getState().createThread(
+            makeNode({ id: 'src/b.ts#load', name: 'load', type: 'function', path: 'src/b.ts#load' }),
+            'alter'
+        );
+        const dirThread = useBasketStore.getState().createThread(
+            makeNode({ id: 'src/lib', name: 'lib', type: 'directory', path: 'src/lib' }),
+            'ask'
+        );
+
+        useBasketStore.getState().flagChangedBasePaths(['src/b.ts', 'src/lib/util.ts', 'src/other.ts']);
+
+        const byId = (id: string) => useBasketStore.getState().threads.find(t => t.id === id)!;
+        expect(byId(fileThread.id).changedBasePaths).toBeUndefined();
+        expect(byId(symbolThread.id).changedBasePaths).toEqual(['src/b.ts']);
+        expect(byId(dirThread.id).changedBasePaths).toEqual(['src/lib/util.ts']);
+
+        useBasketStore.getState().flagChangedBasePaths(['src/b.ts']);
+        expect(byId(symbolThread.id).changedBasePaths).toEqual(['src/b.ts']);
+
+        useBasketStore.getState().dismissChangedBasePaths(symbolThread.id);
+        expect(byId(symbolThread.id).changedBasePaths).toBeUndefined();
+    });
 });
@@ -1,5 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { useGraphStore } from '../graphStore';
+import { useBasketStore } from '../basketStore';
+import { clearGitHubPat, setGitHubPat } from '../../githubClient';
 
 describe('GitHub Advanced Integration in GraphStore', () => {
   beforeEach(() => {
@@ -141,4 +143,223 @@ describe('GitHub Advanced Integration in GraphStore', () => {
     const clearedNode = clearedState.nodes.find((n) => n.path === 'src/index.ts');
     expect(clearedNode?.diffStatus).toBeUndefined();
   });
+
+  it('should read only root module configs until the user authenticates with GitHub', async () => {
+    const originalEnsureFileContent = useGraphStore.getState().ensureFileContent;
+    const ensureFileContent = vi.fn(async (path: string) =>
+      path === 'tsconfig.json' ? '{ "compilerOptions": { "baseUrl": "." } }' : '{}'
+    );
+    useGraphStore.setState({
+      allFilePaths: ['tsconfig.json', 'package.json', 'packages/ui/package.json', 'packages/ui/tsconfig.json', 'src/index.ts'],
+      isAuthenticated: false,
+      githubPat: null,
+      projectSignature: 'sig',
+      ensureFileContent,
+    });
+
+    try {
+      await useGraphStore.getState().loadModuleResolution();
+      expect(ensureFileContent.mock.calls.map(([path]) => path).sort()).toEqual(['package.json', 'tsconfig.json']);
+      expect(useGraphStore.getState().moduleResolution?.aliasConfigsByDirectory.size).toBe(1);
+
+      ensureFileContent.mockClear();
+      useGraphStore.setState({ isAuthenticated: true });
+      await useGraphStore.getState().loadModuleResolution();
+      expect(ensureFileContent).toHaveBeenCalledTimes(4);
+    } finally {
+      useGraphStore.setState({ ensureFileContent: originalEnsureFileContent, isAuthenticated: false });
+    }
+  });
+
+  it('should require GitHub auth for churn and flag windows cut at the commit limit', async () => {
+    const fetchMock = vi.fn(async (url: any) => {
+      const urlStr = String(url);
+      const commitMatch = urlStr.match(/\/commits\/(c\d+)$/);
+      const body = urlStr.includes('/rate_limit')
+        ? { resources: { core: { limit: 5000, remaining: 4800, reset: 0, used: 200 } } }
+        : commitMatch
+          ? {
+            sha: commitMatch[1],
+            commit: { message: 'change', author: { name: 'Ana', date: '2026-08-01T00:00:00Z' } },
+            author: { login: 'ana' },
+            files: [{ filename: 'src/index.ts', status: 'modified', additions: 1, deletions: 0, changes: 1 }],
+          }
+          : Array.from({ length: 101 }, (_, index) => ({
+            sha: `c${index}`,
+            commit: { message: 'change', author: { name: 'Ana', date: '2026-08-01T00:00:00Z' } },
+          }));
+      return { ok: true, status: 200, headers: new Headers(), json: async () => body } as any;
+    });
+    globalThis.fetch = fetchMock;
+    window.fetch = fetchMock;
+
+    useGraphStore.setState({ isAuthenticated: false, githubPat: null, churnTruncated: false });
+    await useGraphStore.getState().fetchChurnStats();
+    expect(useGraphStore.getState().churnStatus).toBe('error');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    useGraphStore.setState({ githubPat: 'ghp_test' });
+    try {
+      await useGraphStore.getState().fetchChurnStats();
+      const state = useGraphStore.getState();
+      expect(state.churnStatus).toBe('idle');
+      expect(state.churnCommitCount).toBe(100);
+      expect(state.churnTruncated).toBe(true);
+      expect(state.churnStats['src/index.ts'].commitCount).toBe(100);
+    } finally {
+      useGraphStore.setState({ githubPat: null });
+    }
+  });
+
+  const compareResponse = (files: unknown[]) => ({
+    status: 'ahead',
+    ahead_by: 2,
+    behind_by: 0,
+    total_commits: 2,
+    html_url: 'https://github.com/testowner/testrepo/compare/main...feat',
+    commits: [],
+    files,
+  });
+
+  const mockCompareFetch = (resolveBody: (url: string) => unknown | Promise<unknown>) => {
+    const fetchMock = vi.fn(async (url: any) => {
+      const urlStr = String(url);
+      const body = urlStr.includes('/rate_limit')
+        ? { resources: { core: { limit: 5000, remaining: 4800, reset: 0, used: 200 } } }
+        : await resolveBody(urlStr);
+      return { ok: true, status: 200, headers: new Headers(), json: async () => body } as any;
+    });
+    globalThis.fetch = fetchMock;
+    window.fetch = fetchMock;
+    return fetchMock;
+  };
+
+  const loadedRoot = {
+    id: '',
+    name: 'testrepo',
+    type: 'directory' as const,
+    path: '',
+    children: [
+      {
+        id: 'src',
+        name: 'src',
+        type: 'directory' as const,
+        path: 'src',
+        children: [
+          { id: 'src/index.ts', name: 'index.ts', type: 'file' as const, path: 'src/index.ts' },
+          { id: 'src/App.tsx', name: 'App.tsx', type: 'file' as const, path: 'src/App.tsx' },
+        ],
+      },
+    ],
+  };
+
+  it('should paint compared files, including ones added in head, and send the patches to a thread', async () => {
+    useGraphStore.setState({ rootNode: loadedRoot });
+    mockCompareFetch(() => compareResponse([
+      { sha: '1', filename: 'src/index.ts', status: 'modified', additions: 4, deletions: 1, changes: 5, patch: '@@ -1 +1 @@' },
+      { sha: '2', filename: 'src/feature/New.tsx', status: 'added', additions: 10, deletions: 0, changes: 10, patch: '@@ +1,10 @@' },
+    ]));
+
+    await useGraphStore.getState().compareRefs('main', 'feat');
+
+    const state = useGraphStore.getState();
+    expect(state.comparisonStatus).toBe('idle');
+    expect(state.activeComparison?.filesTruncated).toBe(false);
+    expect(state.activeComparison?.totalAdditions).toBe(14);
+    expect(state.nodesById['src/index.ts'].diffStatus).toBe('modified');
+    const addedNode = state.nodesById['src/feature/New.tsx'];
+    expect(addedNode.diffStatus).toBe('added');
+    expect(addedNode.diffAdditions).toBe(10);
+    expect(state.linksById['src-->src/feature/New.tsx']).toBeDefined();
+
+    state.sendComparisonToThread();
+    const basket = useBasketStore.getState();
+    const thread = basket.threads.find((t) => t.id === basket.activeThreadId);
+    expect(thread?.baseElements.map((element) => element.codeSnippet)).toEqual(['@@ -1 +1 @@', '@@ +1,10 @@']);
+
+    useGraphStore.getState().clearComparison();
+    expect(useGraphStore.getState().nodesById['src/feature/New.tsx']).toBeUndefined();
+  });
+
+  it('should flag comparisons cut at the 300-file limit', async () => {
+    useGraphStore.setState({ rootNode: loadedRoot });
+    mockCompareFetch(() => compareResponse(Array.from({ length: 300 }, (_, index) => ({
+      sha: String(index),
+      filename: `src/generated/file${index}.ts`,
+      status: 'modified',
+      additions: 1,
+      deletions: 0,
+      changes: 1,
+    }))));
+
+    await useGraphStore.getState().compareRefs('main', 'feat');
+
+    expect(useGraphStore.getState().activeComparison?.filesTruncated).toBe(true);
+  });
+
+  it('should ignore a comparison that resolves after a newer one', async () => {
+    useGraphStore.setState({ rootNode: loadedRoot });
+    let resolveSlow: (body: unknown) => void = () => undefined;
+    mockCompareFetch((url) => url.includes('...slow')
+      ? new Promise((resolve) => { resolveSlow = resolve; })
+      : compareResponse([{ sha: '1', filename: 'src/App.tsx', status: 'modified', additions: 1, deletions: 1, changes: 2 }]));
+
+    const slow = useGraphStore.getState().compareRefs('main', 'slow');
+    await useGraphStore.getState().compareRefs('main', 'fast');
+    resolveSlow(compareResponse([{ sha: '2', filename: 'src/index.ts', status: 'removed', additions: 0, deletions: 9, changes: 9 }]));
+    await slow;
+
+    const state = useGraphStore.getState();
+    expect(state.activeComparison?.head).toBe('fast');
+    expect(state.diffStatusByPath.has('src/index.ts')).toBe(false);
+    expect(state.nodesById['src/App.tsx'].diffStatus).toBe('modified');
+  });
+
+  it('should submit a review as a pending review and resume it when the event fails', async () => {
+    const calls: string[] = [];
+    let failEvent = true;
+    const fetchMock = vi.fn(async (url: any, init?: RequestInit) => {
+      const urlStr = String(url);
+      const method = init?.method ?? 'GET';
+      calls.push(`${method} ${urlStr.replace('https://api.github.com/repos/testowner/testrepo', '')}`);
+      if (method === 'POST' && urlStr.endsWith('/pulls/42/reviews')) {
+        expect(JSON.parse(String(init?.body)).event).toBeUndefined();
+        return { ok: true, status: 200, headers: new Headers(), json: async () => ({ id: 7, state: 'PENDING' }) } as any;
+      }
+      if (urlStr.endsWith('/reviews/7/events')) {
+        if (failEvent) return { ok: false, status: 502, statusText: 'Bad Gateway', headers: new Headers(), json: async () => ({}) } as any;
+        return { ok: true, status: 200, headers: new Headers(), json: async () => ({ id: 7, state: 'APPROVED' }) } as any;
+      }
+      const body = urlStr.includes('/rate_limit')
+        ? { resources: { core: { limit: 5000, remaining: 4800, reset: 0, used: 200 } } }
+        : [];
+      return { ok: true, status: 200, headers: new Headers(), json: async () => body } as any;
+    });
+    globalThis.fetch = fetchMock;
+    window.fetch = fetchMock;
+    setGitHubPat('ghp_test');
+
+    const pr = useGraphStore.getState().availablePullRequests[0];
+    useGraphStore.setState({
+      activePullRequest: { ...pr, files: [], totalAdditions: 0, totalDeletions: 0 },
+      pendingReviewComments: [],
+      pendingReviewId: null,
+    });
+    useGraphStore.getState().addPendingReviewComment({ path: 'src/index.ts', line: 3, side: 'RIGHT', body: 'Nome confuso' });
+
+    try {
+      expect(await useGraphStore.getState().submitReview('APPROVE')).toBe(false);
+      expect(useGraphStore.getState().pendingReviewId).toBe(7);
+      expect(useGraphStore.getState().pendingReviewComments).toEqual([]);
+
+      failEvent = false;
+      calls.length = 0;
+      expect(await useGraphStore.getState().submitReview('APPROVE')).toBe(true);
+      expect(calls.filter((call) => call.startsWith('POST'))).toEqual(['POST /pulls/42/reviews/7/events']);
+      expect(useGraphStore.getState().pendingReviewId).toBeNull();
+    } finally {
+      clearGitHubPat();
+      useGraphStore.setState({ activePullRequest: null });
+    }
+  });
 });
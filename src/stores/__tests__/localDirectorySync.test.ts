@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { invalidateFileAnalysis } from '../../api/client';
+import { LocalDirectoryHandle, LocalFileHandle, readDirectoryFiles } from '../../utils/localFileSystem';
+import { useBasketStore } from '../basketStore';
+import { useGraphStore } from '../graphStore';
+
+vi.mock('../../api/client', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/client')>()),
+  invalidateFileAnalysis: vi.fn(async () => undefined),
+}));
+
+type FakeFile = { content: string; lastModified: number };
+
+/** Pasta em memória: cada leitura reflete o estado atual de `files` */
+const createFakeDirectory = (files: Map<string, FakeFile>, onScan?: () => void): LocalDirectoryHandle => {
+  const wrapFile = (path: string): LocalFileHandle => ({
+    kind: 'file',
+    name: path.split('/').pop()!,
+    getFile: async () => {
+      const { content, lastModified } = files.get(path)!;
+      // O File do jsdom não tem text(); o dos navegadores tem
+      return Object.assign(new File([content], path.split('/').pop()!, { lastModified }), { text: async () => content });
+    },
+    createWritable: async () => {
+      throw new Error('read-only');
+    },
+  });
+  const wrapDirectory = (prefix: string): LocalDirectoryHandle => ({
+    kind: 'directory',
+    name: prefix.split('/').pop() || 'project',
+    getDirectoryHandle: async (child) => wrapDirectory(prefix ? `${prefix}/${child}` : child),
+    getFileHandle: async (child) => wrapFile(prefix ? `${prefix}/${child}` : child),
+    values: async function* () {
+      if (!prefix) onScan?.();
+      const children = new Set<string>();
+      for (const path of files.keys()) {
+        if (prefix && !path.startsWith(`${prefix}/`)) continue;
+        children.add((prefix ? path.slice(prefix.length + 1) : path).split('/')[0]);
+      }
+      for (const child of children) {
+        const childPath = prefix ? `${prefix}/${child}` : child;
+        yield files.has(childPath) ? wrapFile(childPath) : wrapDirectory(childPath);
+      }
+    },
+  });
+  return wrapDirectory('');
+};
+
+const link = (source: string, target: string) => ({ source, target, kind: 'import' as const });
+
+describe('syncLocalDirectory', () => {
+  const originalUpdateSemanticEdges = useGraphStore.getState().updateSemanticEdgesForFiles;
+  const originalFlagChangedBasePaths = useBasketStore.getState().flagChangedBasePaths;
+  const updateSemanticEdgesForFiles = vi.fn(async () => undefined);
+  const flagChangedBasePaths = vi.fn();
+  let files: Map<string, FakeFile>;
+
+  const openProject = async (handle: LocalDirectoryHandle) => {
+    const scanned = await readDirectoryFiles(handle);
+    const paths = scanned.map((file) => file.webkitRelativePath);
+    useGraphStore.setState({
+      localDirectoryHandle: handle,
+      localFileHandles: new Map(scanned.map((file) => [file.webkitRelativePath, file])),
+      fileMap: new Map(paths.map((path) => [path, files.get(path)!.content])),
+      projectFileContents: new Map(),
+      gitignoreFiles: new Map([['.gitignore', files.get('.gitignore')!.content]]),
+      ingestionCandidates: paths,
+      indexedCodeStructures: new Map(paths.map((path) => [path, []])),
+      semanticLinksById: {
+        'import:src/a.ts-->src/b.ts': link('src/a.ts', 'src/b.ts'),
+        'import:src/b.ts-->src/c.ts': link('src/b.ts', 'src/c.ts'),
+      },
+      rootNode: null,
+      selectedNode: null,
+      updateSemanticEdgesForFiles,
+    });
+    useGraphStore.getState().applyIngestionRules();
+  };
+
+  beforeEach(() => {
+    files = new Map([
+      ['.gitignore', { content: '', lastModified: 1 }],
+      ['src/a.ts', { content: 'export const a = 1;', lastModified: 1 }],
+      ['src/b.ts', { content: 'export const b = 1;', lastModified: 1 }],
+      ['src/c.ts', { content: 'export const c = 1;', lastModified: 1 }],
+      ['logs/debug.ts', { content: 'export const debug = 1;', lastModified: 1 }],
+    ]);
+    useBasketStore.setState({ flagChangedBasePaths });
+  });
+
+  afterEach(() => {
+    useGraphStore.setState({ localDirectoryHandle: null, updateSemanticEdgesForFiles: originalUpdateSemanticEdges });
+    useBasketStore.setState({ flagChangedBasePaths: originalFlagChangedBasePaths });
+    vi.mocked(invalidateFileAnalysis).mockClear();
+    updateSemanticEdgesForFiles.mockClear();
+    flagChangedBasePaths.mockClear();
+  });
+
+  it('should apply edits, additions, deletions and .gitignore changes from disk', async () => {
+    await openProject(createFakeDirectory(files));
+    expect(useGraphStore.getState().allFilePaths).toContain('logs/debug.ts');
+
+    files.set('src/a.ts', { content: 'export const a = 2;', lastModified: 2 });
+    // Só o mtime mudou: não conta como alteração
+    files.set('src/b.ts', { content: 'export const b = 1;', lastModified: 2 });
+    files.set('src/d.ts', { content: 'export const d = 1;', lastModified: 2 });
+    files.delete('src/c.ts');
+    files.set('.gitignore', { content: 'logs/\n', lastModified: 2 });
+
+    const changes = await useGraphStore.getState().syncLocalDirectory();
+
+    expect(changes).toEqual({
+      added: ['src/d.ts'],
+      modified: ['.gitignore', 'src/a.ts', 'src/b.ts'],
+      deleted: ['src/c.ts'],
+    });
+    const state = useGraphStore.getState();
+    expect(state.gitignoreFiles.get('.gitignore')).toBe('logs/\n');
+    expect([...state.allFilePaths].sort()).toEqual(['.gitignore', 'src/a.ts', 'src/b.ts', 'src/d.ts']);
+    expect(state.fileMap.get('src/a.ts')).toBe('export const a = 2;');
+    expect(state.fileMap.has('src/c.ts')).toBe(false);
+    expect(state.indexedCodeStructures.has('src/a.ts')).toBe(false);
+    expect(state.indexedCodeStructures.has('src/b.ts')).toBe(true);
+    expect(Object.keys(state.semanticLinksById)).toEqual(['import:src/a.ts-->src/b.ts']);
+    expect(vi.mocked(invalidateFileAnalysis).mock.calls).toEqual([
+      ['', '.gitignore'],
+      ['export const a = 1;', 'a.ts'],
+      ['export const c = 1;', 'c.ts'],
+    ]);
+    expect(updateSemanticEdgesForFiles).toHaveBeenCalledWith([
+      { path: '.gitignore', content: 'logs/\n' },
+      { path: 'src/a.ts', content: 'export const a = 2;' },
+    ]);
+    expect(flagChangedBasePaths).toHaveBeenCalledWith(['.gitignore', 'src/a.ts', 'src/c.ts']);
+  });
+
+  it('should drop a scan when another project is opened while it reads the disk', async () => {
+    let swapDuringScan = false;
+    const handle = createFakeDirectory(files, () => {
+      if (swapDuringScan) useGraphStore.setState({ localDirectoryHandle: createFakeDirectory(new Map()) });
+    });
+    await openProject(handle);
+    const handlesBefore = useGraphStore.getState().localFileHandles;
+
+    files.set('src/a.ts', { content: 'export const a = 2;', lastModified: 2 });
+    swapDuringScan = true;
+
+    expect(await useGraphStore.getState().syncLocalDirectory()).toBeNull();
+    expect(useGraphStore.getState().localFileHandles).toBe(handlesBefore);
+    expect(useGraphStore.getState().fileMap.get('src/a.ts')).toBe('export const a = 1;');
+    expect(invalidateFileAnalysis).not.toHaveBeenCalled();
+  });
+});
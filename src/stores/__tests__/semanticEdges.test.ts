@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { useGraphStore } from '../graphStore';
+
+describe('semantic edges in GraphStore', () => {
+  it('should update the edges of a batch of files with a single write', async () => {
+    const originalSetSemanticLinks = useGraphStore.getState().setSemanticLinks;
+    const setSemanticLinks = vi.fn(originalSetSemanticLinks);
+    useGraphStore.setState({
+      allFilePaths: ['src/a.ts', 'src/b.ts'],
+      rootNode: null,
+      indexedCodeStructures: new Map(),
+      moduleResolution: null,
+      semanticLinksById: {},
+      setSemanticLinks,
+    });
+
+    try {
+      await useGraphStore.getState().updateSemanticEdgesForFiles([
+        { path: 'src/a.ts', content: "import { b } from './b';\nexport const a = () => b();\n" },
+        { path: 'src/b.ts', content: "import { a } from './a';\nexport const b = () => a();\n" },
+      ]);
+
+      expect(setSemanticLinks).toHaveBeenCalledTimes(1);
+      const [links, sourceIds] = setSemanticLinks.mock.calls[0];
+      expect(links.filter((link) => link.kind === 'import').map((link) => `${link.source}->${link.target}`).sort())
+        .toEqual(['src/a.ts->src/b.ts', 'src/b.ts->src/a.ts']);
+      expect(sourceIds?.has('src/a.ts')).toBe(true);
+      expect(sourceIds?.has('src/b.ts')).toBe(true);
+    } finally {
+      useGraphStore.setState({ setSemanticLinks: originalSetSemanticLinks });
+    }
+  });
+
+  it('should drop indexed files and edges that the ingestion filter left out', () => {
+    useGraphStore.setState({
+      allFilePaths: ['src/a.ts', 'src/b.ts'],
+      rootNode: null,
+      indexedCodeStructures: new Map(),
+      indexedFileHashes: new Map(),
+      semanticLinksById: {},
+    });
+    const structure = [{ id: 'src/a.ts#a', name: 'a', type: 'function' as const }];
+
+    useGraphStore.getState().hydrateFromIndex({
+      jobId: 'job-1',
+      source: { source: 'github', owner: 'acme', repo: 'app', branch: 'main' },
+      indexedAt: '2026-01-01T00:00:00.000Z',
+      files: [
+        { path: 'src/a.ts', hash: 'ha', size: 10, codeStructure: structure },
+        { path: 'src/b.ts', hash: 'hb', size: 10, codeStructure: null },
+        { path: 'dist/bundle.js', hash: 'hd', size: 10, codeStructure: structure },
+      ],
+      semanticLinks: [
+        { source: 'src/a.ts', target: 'src/b.ts', kind: 'import' },
+        { source: 'src/a.ts', target: 'dist/bundle.js', kind: 'import' },
+        { source: 'dist/bundle.js#a', target: 'src/a.ts#a', kind: 'call' },
+      ],
+      stats: { fileCount: 3, indexedFileCount: 3, symbolCount: 2, linkCount: 3 },
+    });
+
+    const state = useGraphStore.getState();
+    expect([...state.indexedFileHashes.keys()]).toEqual(['src/a.ts', 'src/b.ts']);
+    expect([...state.indexedCodeStructures.keys()]).toEqual(['src/a.ts']);
+    expect(Object.values(state.semanticLinksById).map((link) => `${link.source}->${link.target}`))
+      .toEqual(['src/a.ts->src/b.ts']);
+  });
+});
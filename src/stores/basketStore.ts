@@ -8,14 +8,19 @@
 import { create } from './zustand';
 import {
     AIActionMode,
+    AiUsageTokens,
     BasketState,
     ChatMessage,
     FlatNode,
     SavedThread,
     Thread,
     ThreadBaseElement,
+    ThreadCompaction,
     ThreadSuggestion,
+    ThreadSummary,
 } from '../types';
+import { summarizeThread } from '../api/client';
+import { countTokens, getCachedTokenCount, recordTokenUsage } from '../services/tokenCounter';
 
 // ============================================
 // Token Estimation Utils
@@ -23,44 +28,70 @@ import {
 
 /**
  * Estima número de tokens em um texto.
- * Aproximação: ~4 caracteres = 1 token para inglês/português.
+ * Aproximação: ~4 caracteres = 1 token para inglês/português. Vale só até o
+ * tokenizer do modelo (no worker) responder; ver `recountThreadTokens`.
  */
 function estimateTokens(text: string): number {
     return Math.ceil(text.length / 4);
 }
 
+function countThreadText(text: string, model?: string): number {
+    return getCachedTokenCount(text, model) ?? estimateTokens(text);
+}
+
 /**
- * Calcula tokens totais de uma thread.
- */
-/**
- * Calcula tokens totais de uma thread.
+ * Textos da thread que entram no contexto enviado à IA, exceto mensagens.
  */
-function calculateThreadTokens(thread: Thread): number {
-    let tokens = 0;
-
-    // Tokens dos elementos base
+function collectContextTexts(thread: Thread): string[] {
+    const texts: string[] = [];
     for (const element of thread.baseElements) {
-        tokens += estimateTokens(element.name + element.path);
+        texts.push(element.name + element.path);
         if (element.codeSnippet) {
-            tokens += estimateTokens(element.codeSnippet);
+            texts.push(element.codeSnippet);
         }
     }
-
-    // Tokens das mensagens
-    for (const msg of thread.conversation) {
-        tokens += msg.tokenEstimate ?? estimateTokens(msg.content);
-    }
-
-    // Tokens das sugestões incluídas
     for (const sug of thread.suggestions) {
         if (sug.included) {
-            tokens += estimateTokens(sug.title + sug.description + (sug.content ?? ''));
+            texts.push(sug.title + sug.description + (sug.content ?? ''));
         }
     }
+    return texts;
+}
+
+/**
+ * Calcula tokens totais de uma thread.
+ */
+function calculateThreadTokens(thread: Thread): number {
+    // Tokens dos elementos base e das sugestões incluídas
+    let tokens = collectContextTexts(thread).reduce((sum, text) => sum + countThreadText(text, thread.model), 0);
+
+    // Tokens das mensagens
+    for (const msg of thread.conversation) {
+        tokens += msg.tokenEstimate ?? countThreadText(msg.content, thread.model);
+    }
 
     return tokens;
 }
 
+const TOKEN_RECOUNT_DELAY_MS = 250;
+const recountTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/**
+ * Agenda a recontagem da thread com o tokenizer do modelo. O debounce evita
+ * tokenizar a cada delta durante o streaming.
+ */
+function scheduleTokenRecount(threadId: string): void {
+    const pending = recountTimers.get(threadId);
+    if (pending) clearTimeout(pending);
+    recountTimers.set(
+        threadId,
+        setTimeout(() => {
+            recountTimers.delete(threadId);
+            void useBasketStore.getState().recountThreadTokens(threadId);
+        }, TOKEN_RECOUNT_DELAY_MS)
+    );
+}
+
 const COMPACT_RECENT_MESSAGES = 6;
 
 function formatSummaryLine(message: ChatMessage): string {
@@ -75,6 +106,24 @@ function buildConversationSummary(messages: ChatMessage[]): string {
     return `Resumo de mensagens anteriores (${messages.length}):\n${lines.join('\n')}`;
 }
 
+function formatThreadSummary(
+    summary: ThreadSummary,
+    messageCount: number,
+    includedSuggestions: ThreadSuggestion[]
+): string {
+    const sections = [`Resumo de mensagens anteriores (${messageCount}):\n${summary.summary.trim()}`];
+    if (summary.decisions.length > 0) {
+        sections.push(`Decisões:\n${summary.decisions.map(item => `- ${item}`).join('\n')}`);
+    }
+    if (summary.openQuestions.length > 0) {
+        sections.push(`Perguntas em aberto:\n${summary.openQuestions.map(item => `- ${item}`).join('\n')}`);
+    }
+    if (includedSuggestions.length > 0) {
+        sections.push(`Sugestões incluídas:\n${includedSuggestions.map(sug => `- ${sug.title}`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
+
 // ============================================
 // Library Storage (LocalStorage)
 // ============================================
@@ -180,6 +229,10 @@ function asChatMessages(value: unknown, fallbackMode: AIActionMode, now: number)
                 mode: VALID_MODES.includes(item.mode as AIActionMode) ? (item.mode as AIActionMode) : fallbackMode,
                 timestamp: asNumber(item.timestamp, now),
                 tokenEstimate: typeof item.tokenEstimate === 'number' ? item.tokenEstimate : estimateTokens(content),
+                tokenSource:
+                    item.tokenSource === 'tokenizer' || item.tokenSource === 'usage'
+                        ? item.tokenSource
+                        : 'estimate',
                 status,
                 error: typeof item.error === 'string' ? item.error : undefined,
             };
@@ -280,6 +333,10 @@ function sanitizeThread(input: unknown, now: number): Thread | null {
         followUpQuestions,
         tokenCount: 0,
         status,
+        ...(typeof input.model === 'string' && input.model ? { model: input.model } : {}),
+        ...(Array.isArray(input.changedBasePaths) && input.changedBasePaths.length > 0
+            ? { changedBasePaths: asStringArray(input.changedBasePaths) }
+            : {}),
         createdAt: asNumber(input.createdAt, now),
         updatedAt: asNumber(input.updatedAt, now),
     };
@@ -294,7 +351,8 @@ function sanitizeThread(input: unknown, now: number): Thread | null {
 
 interface BasketStore extends BasketState {
     // Thread management
-    createThread: (nodes: FlatNode | FlatNode[], mode: AIActionMode) => Thread;
+    /** `title` substitui o título derivado do modo e do primeiro nó */
+    createThread: (nodes: FlatNode | FlatNode[], mode: AIActionMode, title?: string) => Thread;
     deleteThread: (threadId: string) => void;
     setActiveThread: (threadId: string | null) => void;
     getActiveThread: () => Thread | null;
@@ -302,7 +360,9 @@ interface BasketStore extends BasketState {
     // Conversation
     addMessage: (threadId: string, role: 'user' | 'assistant', content: string) => string;
     addPendingAssistantMessage: (threadId: string, content?: string) => string;
-    compactThread: (threadId: string) => void;
+    /** Resume mensagens antigas via IA, com o resumo local como fallback */
+    compactThread: (threadId: string) => Promise<ThreadCompaction | null>;
+    lastCompaction: ThreadCompaction | null;
     updateAssistantMessage: (
         threadId: string,
         messageId: string,
@@ -315,16 +375,28 @@ interface BasketStore extends BasketState {
     ) => void;
     retryMessage: (threadId: string, messageId: string, content?: string) => void;
     switchMode: (threadId: string, newMode: AIActionMode) => void;
+    setThreadModel: (threadId: string, model: string | null) => void;
 
     // Suggestions
     addSuggestion: (threadId: string, suggestion: Omit<ThreadSuggestion, 'id' | 'included'>) => void;
     toggleSuggestionIncluded: (threadId: string, suggestionId: string) => void;
     setFollowUpQuestions: (threadId: string, questions: string[]) => void;
+    /** Marca as threads cujos elementos base estão entre os arquivos alterados */
+    flagChangedBasePaths: (paths: string[]) => void;
+    dismissChangedBasePaths: (threadId: string) => void;
 
     // Token management
     recalculateTokens: () => void;
     getTokenUsagePercent: () => number;
     getTokenStatus: () => 'safe' | 'warning' | 'critical';
+    recountThreadTokens: (threadId: string) => Promise<void>;
+    reconcileMessageUsage: (
+        threadId: string,
+        messageId: string,
+        usage: AiUsageTokens | null | undefined,
+        outputText?: string,
+        prompt?: { messageId: string; text: string }
+    ) => Promise<void>;
 
     // Library
     library: SavedThread[];
@@ -363,26 +435,31 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
     warningThreshold: DEFAULT_WARNING_THRESHOLD,
     dangerThreshold: DEFAULT_DANGER_THRESHOLD,
     library: loadLibraryFromStorage(),
+    lastCompaction: null,
 
     // ==========================================
     // Thread Management
     // ==========================================
 
-    createThread: (nodes: FlatNode | FlatNode[], mode: AIActionMode) => {
+    createThread: (nodes: FlatNode | FlatNode[], mode: AIActionMode, title?: string) => {
         const nodeList = Array.isArray(nodes) ? nodes : [nodes];
 
+        // Nós de símbolo levam o próprio trecho: a thread fica com a função, não o arquivo
         const baseElements: ThreadBaseElement[] = nodeList.map(node => ({
             nodeId: node.id,
             name: node.name,
             path: node.path,
             type: node.type,
+            ...(node.data && 'codeSnippet' in node.data && node.data.codeSnippet
+                ? { codeSnippet: node.data.codeSnippet }
+                : {}),
         }));
 
         const mainNode = nodeList[0];
         const now = Date.now();
         const newThread: Thread = {
             id: `thread-${now}-${Math.random().toString(36).substr(2, 9)}`,
-            title: `${mode}: ${mainNode.name}${nodeList.length > 1 ? ` +${nodeList.length - 1}` : ''}`,
+            title: title ?? `${mode}: ${mainNode.name}${nodeList.length > 1 ? ` +${nodeList.length - 1}` : ''}`,
             baseElements,
             modesUsed: [mode],
             currentMode: mode,
@@ -402,6 +479,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
             activeThreadId: newThread.id,
             totalTokens: state.totalTokens + newThread.tokenCount,
         }));
+        scheduleTokenRecount(newThread.id);
 
         return newThread;
     },
@@ -480,6 +558,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                 totalTokens: threads.reduce((sum, t) => sum + t.tokenCount, 0),
             };
         });
+        scheduleTokenRecount(threadId);
 
         return message.id;
     },
@@ -518,50 +597,88 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
         return message.id;
     },
 
-    compactThread: (threadId: string) => {
+    compactThread: async (threadId: string) => {
+        const thread = get().threads.find(t => t.id === threadId);
+        if (!thread || thread.conversation.length <= COMPACT_RECENT_MESSAGES + 1) {
+            return null;
+        }
+
+        const cutoffIndex = thread.conversation.length - COMPACT_RECENT_MESSAGES;
+        const messagesToSummarize = thread.conversation.slice(0, cutoffIndex);
+        const includedSuggestions = thread.suggestions.filter(sug => sug.included);
+        const summarizedTokens = messagesToSummarize.reduce(
+            (sum, msg) => sum + (msg.tokenEstimate ?? estimateTokens(msg.content)),
+            0
+        );
+
+        let summaryContent = buildConversationSummary(messagesToSummarize);
+        let source: ThreadCompaction['source'] = 'local';
+        try {
+            const summary = await summarizeThread({
+                mode: thread.currentMode,
+                messages: messagesToSummarize.map(msg => ({ role: msg.role, content: msg.content })),
+                suggestions: includedSuggestions.map(sug => ({ title: sug.title, description: sug.description })),
+                model: thread.model,
+            });
+            const aiSummary = formatThreadSummary(summary, messagesToSummarize.length, includedSuggestions);
+            // Um resumo maior que as mensagens originais não compacta nada
+            const [aiSummaryTokens] = await countTokens([aiSummary], thread.model);
+            if (aiSummaryTokens < summarizedTokens) {
+                summaryContent = aiSummary;
+                source = 'ai';
+            }
+        } catch (error) {
+            console.warn('AI thread summary failed, using local summary:', error);
+        }
+
+        // Mensagens enviadas durante o resumo continuam na thread
+        const summarizedIds = new Set(messagesToSummarize.map(msg => msg.id));
+        let compaction: ThreadCompaction | null = null;
+
         set(state => {
             let totalTokens = 0;
-            const threads = state.threads.map(thread => {
-                if (thread.id !== threadId) {
-                    totalTokens += thread.tokenCount;
-                    return thread;
-                }
-
-                if (thread.conversation.length <= COMPACT_RECENT_MESSAGES + 1) {
-                    totalTokens += thread.tokenCount;
-                    return thread;
+            const threads = state.threads.map(t => {
+                if (t.id !== threadId) {
+                    totalTokens += t.tokenCount;
+                    return t;
                 }
 
-                const cutoffIndex = thread.conversation.length - COMPACT_RECENT_MESSAGES;
-                const messagesToSummarize = thread.conversation.slice(0, cutoffIndex);
-                const recentMessages = thread.conversation.slice(cutoffIndex);
-                const summaryContent = buildConversationSummary(messagesToSummarize);
-
                 const summaryMessage: ChatMessage = {
                     id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
                     role: 'assistant',
                     content: summaryContent,
-                    mode: thread.currentMode,
+                    mode: t.currentMode,
                     timestamp: Date.now(),
                     tokenEstimate: estimateTokens(summaryContent),
                     status: 'sent',
                 };
 
                 const updated: Thread = {
-                    ...thread,
-                    conversation: [summaryMessage, ...recentMessages],
+                    ...t,
+                    conversation: [summaryMessage, ...t.conversation.filter(msg => !summarizedIds.has(msg.id))],
                     updatedAt: Date.now(),
                 };
                 updated.tokenCount = calculateThreadTokens(updated);
                 totalTokens += updated.tokenCount;
+                compaction = {
+                    threadId,
+                    tokensBefore: t.tokenCount,
+                    tokensAfter: updated.tokenCount,
+                    source,
+                    compactedAt: Date.now(),
+                };
                 return updated;
             });
 
-            return {
-                threads,
-                totalTokens,
-            };
+            return compaction
+                ? { threads, totalTokens, lastCompaction: compaction }
+                : {};
         });
+        if (compaction) {
+            scheduleTokenRecount(threadId);
+        }
+
+        return compaction;
     },
 
     updateAssistantMessage: (
@@ -588,6 +705,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                             updates.content !== undefined
                                 ? estimateTokens(content)
                                 : msg.tokenEstimate,
+                        tokenSource: updates.content !== undefined ? 'estimate' : msg.tokenSource,
                     };
                 });
 
@@ -605,6 +723,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                 totalTokens: threads.reduce((sum, t) => sum + t.tokenCount, 0),
             };
         });
+        scheduleTokenRecount(threadId);
     },
 
     updateMessage: (
@@ -626,6 +745,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                         error: updates.error === null ? undefined : updates.error ?? msg.error,
                         tokenEstimate:
                             updates.content !== undefined ? estimateTokens(content) : msg.tokenEstimate,
+                        tokenSource: updates.content !== undefined ? 'estimate' : msg.tokenSource,
                     };
                 });
 
@@ -643,6 +763,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                 totalTokens: threads.reduce((sum, t) => sum + t.tokenCount, 0),
             };
         });
+        scheduleTokenRecount(threadId);
     },
 
     retryMessage: (threadId: string, messageId: string, content?: string) => {
@@ -672,6 +793,17 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
         }));
     },
 
+    setThreadModel: (threadId: string, model: string | null) => {
+        set(state => ({
+            threads: state.threads.map(t => {
+                if (t.id !== threadId) return t;
+                return { ...t, model: model || undefined, updatedAt: Date.now() };
+            }),
+        }));
+        // Outro modelo pode ter outro tokenizer
+        scheduleTokenRecount(threadId);
+    },
+
     // ==========================================
     // Suggestions
     // ==========================================
@@ -701,6 +833,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                 totalTokens: threads.reduce((sum, t) => sum + t.tokenCount, 0),
             };
         });
+        scheduleTokenRecount(threadId);
     },
 
     toggleSuggestionIncluded: (threadId: string, suggestionId: string) => {
@@ -724,6 +857,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                 totalTokens: threads.reduce((sum, t) => sum + t.tokenCount, 0),
             };
         });
+        scheduleTokenRecount(threadId);
     },
 
     setFollowUpQuestions: (threadId: string, questions: string[]) => {
@@ -747,6 +881,34 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
         });
     },
 
+    flagChangedBasePaths: (paths: string[]) => {
+        if (paths.length === 0) return;
+        set(state => ({
+            threads: state.threads.map(t => {
+                // Elementos de símbolo apontam para `arquivo#nome`; diretórios cobrem os descendentes
+                const touched = paths.filter(path => t.baseElements.some(el => {
+                    const filePath = el.path.split('#')[0];
+                    return filePath === path || (el.type === 'directory' && path.startsWith(`${filePath}/`));
+                }));
+                if (touched.length === 0) return t;
+                return {
+                    ...t,
+                    changedBasePaths: Array.from(new Set([...(t.changedBasePaths ?? []), ...touched])),
+                };
+            }),
+        }));
+    },
+
+    dismissChangedBasePaths: (threadId: string) => {
+        set(state => ({
+            threads: state.threads.map(t => {
+                if (t.id !== threadId || !t.changedBasePaths) return t;
+                const { changedBasePaths: _changed, ...rest } = t;
+                return rest;
+            }),
+        }));
+    },
+
     // ==========================================
     // Token Management
     // ==========================================
@@ -771,6 +933,112 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
         return 'safe';
     },
 
+    recountThreadTokens: async (threadId: string) => {
+        const thread = get().threads.find(t => t.id === threadId);
+        if (!thread) return;
+
+        // Mensagens já reconciliadas com o uso real não são recontadas
+        const messages = thread.conversation.filter(msg => msg.tokenSource !== 'usage');
+        const contextTexts = collectContextTexts(thread);
+        const counts = await countTokens(
+            [...contextTexts, ...messages.map(msg => msg.content)],
+            thread.model
+        );
+        const messageCounts = new Map(
+            messages.map((msg, index) => [msg.id, { content: msg.content, tokens: counts[contextTexts.length + index] }])
+        );
+
+        set(state => {
+            const threads = state.threads.map(t => {
+                // Modelo trocado durante a contagem: a próxima recontagem resolve
+                if (t.id !== threadId || t.model !== thread.model) return t;
+
+                const conversation = t.conversation.map(msg => {
+                    const counted = messageCounts.get(msg.id);
+                    if (!counted || counted.content !== msg.content || msg.tokenSource === 'usage') return msg;
+                    return { ...msg, tokenEstimate: counted.tokens, tokenSource: 'tokenizer' as const };
+                });
+
+                const updated = { ...t, conversation };
+                updated.tokenCount = calculateThreadTokens(updated);
+                return updated;
+            });
+
+            return {
+                threads,
+                totalTokens: threads.reduce((sum, t) => sum + t.tokenCount, 0),
+            };
+        });
+    },
+
+    reconcileMessageUsage: async (
+        threadId: string,
+        messageId: string,
+        usage: AiUsageTokens | null | undefined,
+        outputText?: string,
+        prompt?: { messageId: string; text: string }
+    ) => {
+        const thread = get().threads.find(t => t.id === threadId);
+        if (!thread || !usage) return;
+
+        // Cada mensagem recebe a fração do uso cobrado que corresponde ao
+        // próprio texto dentro do que foi enviado/recebido.
+        // Só a saída calibra o tokenizer: o prompt real tem instruções e histórico
+        // montados no servidor, então a pergunta serve apenas para ratear o uso.
+        const shares: Array<{ message: ChatMessage; reported: number; text: string; calibrates: boolean }> = [];
+        const answer = thread.conversation.find(msg => msg.id === messageId);
+        if (answer && typeof usage.outputTokens === 'number' && usage.outputTokens > 0) {
+            // A saída da IA também traz sugestões e perguntas
+            shares.push({ message: answer, reported: usage.outputTokens, text: outputText ?? answer.content, calibrates: true });
+        }
+        const question = prompt && thread.conversation.find(msg => msg.id === prompt.messageId);
+        if (prompt && question && typeof usage.promptTokens === 'number' && usage.promptTokens > 0) {
+            // O prompt inclui elementos de contexto e o histórico da conversa
+            shares.push({ message: question, reported: usage.promptTokens, text: prompt.text, calibrates: false });
+        }
+        if (shares.length === 0) return;
+
+        const counts = await countTokens(
+            shares.flatMap(share => [share.message.content, share.text]),
+            thread.model
+        );
+        const estimates = new Map<string, { content: string; tokenEstimate: number }>();
+        shares.forEach((share, index) => {
+            const contentTokens = counts[index * 2];
+            const textTokens = counts[index * 2 + 1];
+            if (share.calibrates) recordTokenUsage(thread.model, share.text, share.reported);
+            const fraction = textTokens > 0 ? Math.min(1, contentTokens / textTokens) : 1;
+            estimates.set(share.message.id, {
+                content: share.message.content,
+                tokenEstimate: Math.max(1, Math.round(share.reported * fraction)),
+            });
+        });
+
+        set(state => {
+            const threads = state.threads.map(t => {
+                if (t.id !== threadId) return t;
+
+                const conversation = t.conversation.map(msg => {
+                    const estimate = estimates.get(msg.id);
+                    return estimate && msg.content === estimate.content
+                        ? { ...msg, tokenEstimate: estimate.tokenEstimate, tokenSource: 'usage' as const }
+                        : msg;
+                });
+
+                const updated = { ...t, conversation };
+                updated.tokenCount = calculateThreadTokens(updated);
+                return updated;
+            });
+
+            return {
+                threads,
+                totalTokens: threads.reduce((sum, t) => sum + t.tokenCount, 0),
+            };
+        });
+        // Calibração nova vale para o restante da thread
+        scheduleTokenRecount(threadId);
+    },
+
     // ==========================================
     // Library
     // ==========================================
@@ -831,6 +1099,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
                 totalTokens: threads.reduce((sum, thread) => sum + thread.tokenCount, 0),
             };
         });
+        scheduleTokenRecount(newThread.id);
     },
 
     deleteFromLibrary: (savedThreadId: string) => {
@@ -908,6 +1177,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
             warningThreshold,
             dangerThreshold,
         });
+        threads.forEach(thread => scheduleTokenRecount(thread.id));
 
         return { ok: true, importedThreads: threads.length };
     },
@@ -937,6 +1207,7 @@ export const useBasketStore = create<BasketStore>((set, get) => ({
             threads: [],
             activeThreadId: null,
             totalTokens: 0,
+            lastCompaction: null,
         });
     },
 }));
@@ -1,6 +1,10 @@
 import { createSelector } from 'reselect';
 import { GraphState } from './graphStore';
 import { FlatNode, Link, SemanticLink, GraphViewMode } from '../types';
+import { findImportCycles } from '../utils/cycleDetection';
+import { liftSemanticLinks } from '../utils/symbolGraph';
+import { buildHeatmapStyles } from '../utils/churnAnalysis';
+import { countReviewCommentsByPath } from '../utils/patchReview';
 
 export const selectRootNode = (state: GraphState) => state.rootNode;
 export const selectLoadingPaths = (state: GraphState) => state.loadingPaths;
@@ -15,6 +19,13 @@ export const selectGraphViewMode = (state: GraphState) => state.graphViewMode;
 export const selectFlowQuery = (state: GraphState) => state.flowQuery;
 export const selectFlowPathNodeIds = (state: GraphState) => state.flowPathNodeIds;
 export const selectFlowPathLinkIds = (state: GraphState) => state.flowPathLinkIds;
+export const selectImpactQuery = (state: GraphState) => state.impactQuery;
+export const selectImpactEntries = (state: GraphState) => state.impactEntries;
+export const selectImpactNodeIds = (state: GraphState) => state.impactNodeIds;
+export const selectImpactLinkIds = (state: GraphState) => state.impactLinkIds;
+export const selectSelectedCycleId = (state: GraphState) => state.selectedCycleId;
+export const selectCycleNodeIds = (state: GraphState) => state.cycleNodeIds;
+export const selectCycleLinkIds = (state: GraphState) => state.cycleLinkIds;
 export const selectStatus = (state: GraphState) => state.status;
 export const selectIsAuthenticated = (state: GraphState) => state.isAuthenticated;
 export const selectAuthNotice = (state: GraphState) => state.authNotice;
@@ -43,7 +54,12 @@ export const selectCurrentBranch = (state: GraphState) => state.currentBranch;
 export const selectAvailableTags = (state: GraphState) => state.availableTags;
 export const selectAvailablePullRequests = (state: GraphState) => state.availablePullRequests;
 export const selectActivePullRequest = (state: GraphState) => state.activePullRequest;
+export const selectReviewComments = (state: GraphState) => state.reviewComments;
+export const selectPendingReviewComments = (state: GraphState) => state.pendingReviewComments;
 export const selectRecentCommits = (state: GraphState) => state.recentCommits;
+export const selectHeatmapMode = (state: GraphState) => state.heatmapMode;
+export const selectChurnWindowDays = (state: GraphState) => state.churnWindowDays;
+export const selectChurnStats = (state: GraphState) => state.churnStats;
 export const selectGithubRateLimit = (state: GraphState) => state.githubRateLimit;
 export const selectGithubOwnerRepo = (state: GraphState) => state.githubOwnerRepo;
 export const selectUserProfile = (state: GraphState) => state.userProfile;
@@ -64,16 +80,16 @@ import { convertUIGraphToFlatNodes } from '../utils/uiGraphTransformer';
 import { UINode } from '../types';
 
 export const selectGraphNodes = createSelector(
-  [selectNodes, selectSemanticLinksById, selectGraphViewMode, (state: GraphState) => state.uiGraph, selectMissingDependencies],
-  (nodes: FlatNode[], semanticLinksById: Record<string, SemanticLink>, graphViewMode: GraphViewMode, uiGraph: UINode | null, missingDependencies: any[]) => {
+  [selectNodes, selectNodesById, selectSemanticLinksById, selectGraphViewMode, (state: GraphState) => state.uiGraph, selectMissingDependencies],
+  (nodes: FlatNode[], nodesById: Record<string, FlatNode>, semanticLinksById: Record<string, SemanticLink>, graphViewMode: GraphViewMode, uiGraph: UINode | null, missingDependencies: any[]) => {
     if (graphViewMode === 'ui' && uiGraph) {
       return convertUIGraphToFlatNodes(uiGraph, missingDependencies).nodes;
     }
-    if (graphViewMode === 'structural') {
+    if (graphViewMode === 'structural' || graphViewMode === 'symbols') {
       return nodes;
     }
     const nodeIds = new Set<string>();
-    Object.values(semanticLinksById).forEach((link) => {
+    liftSemanticLinks(Object.values(semanticLinksById), nodesById).forEach((link) => {
       const sourceId = typeof link.source === 'string' ? link.source : link.source.id;
       const targetId = typeof link.target === 'string' ? link.target : link.target.id;
       nodeIds.add(sourceId);
@@ -84,11 +100,32 @@ export const selectGraphNodes = createSelector(
 );
 
 export const selectGraphLinks = createSelector(
-  [selectLinks, selectSemanticLinksById, selectGraphViewMode, (state: GraphState) => state.uiGraph, selectMissingDependencies],
-  (links: Link[], semanticLinksById: Record<string, SemanticLink>, graphViewMode: GraphViewMode, uiGraph: UINode | null, missingDependencies: any[]) => {
+  [selectLinks, selectNodesById, selectSemanticLinksById, selectGraphViewMode, (state: GraphState) => state.uiGraph, selectMissingDependencies],
+  (links: Link[], nodesById: Record<string, FlatNode>, semanticLinksById: Record<string, SemanticLink>, graphViewMode: GraphViewMode, uiGraph: UINode | null, missingDependencies: any[]) => {
     if (graphViewMode === 'ui' && uiGraph) {
       return convertUIGraphToFlatNodes(uiGraph, missingDependencies).links;
     }
-    return graphViewMode === 'structural' ? links : Object.values(semanticLinksById);
+    if (graphViewMode === 'structural') return links;
+    const semanticLinks = liftSemanticLinks(Object.values(semanticLinksById), nodesById);
+    // Símbolos: a árvore arquivo → símbolo mais as chamadas entre símbolos
+    if (graphViewMode === 'symbols') {
+      return [...links, ...semanticLinks.filter((link) => link.kind === 'call')];
+    }
+    return semanticLinks;
   }
 );
+
+export const selectImportCycles = createSelector(
+  [selectSemanticLinksById],
+  (semanticLinksById: Record<string, SemanticLink>) => findImportCycles(Object.values(semanticLinksById))
+);
+
+export const selectHeatmapStyles = createSelector(
+  [selectChurnStats, selectHeatmapMode, selectChurnWindowDays],
+  (churnStats, heatmapMode, churnWindowDays) => buildHeatmapStyles(churnStats, heatmapMode, churnWindowDays)
+);
+
+export const selectReviewCommentCounts = createSelector(
+  [selectReviewComments, selectPendingReviewComments],
+  (reviewComments, pendingReviewComments) => countReviewCommentsByPath(reviewComments, pendingReviewComments)
+);
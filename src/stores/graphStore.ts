@@ -1,7 +1,12 @@
 import { create } from './zustand';
 import {
   analyzeFile,
+  createIndexJob,
+  invalidateFileAnalysis,
   fetchAiMetrics,
+  fetchIndexJob,
+  fetchRepositoryIndex,
+  IndexJobRequest,
   fetchSessionAccessToken,
   fetchUserProfile as apiFetchUserProfile,
   fetchUserRepos,
@@ -9,10 +14,15 @@ import {
   logoutSession,
   openSession,
   optimizePrompt,
+  optimizeIntentPrompt,
   projectSummary,
   relevantFiles,
   saveSession,
   PROJECT_SUMMARY_PROMPT_BASE,
+  reviewPullRequest,
+  detectFramework as requestFrameworkDetection,
+  analyzeUIHierarchy,
+  analyzeDependencies as requestDependencyAnalysis,
 } from '../api/client';
 import { clearSessionAccessToken } from '../authClient';
 import { getCachedFileContent, hashContent, setCachedFileContent } from '../cacheRepository';
@@ -26,41 +36,87 @@ import {
   listRepoTags,
   listRepoPullRequests,
   getPullRequestFiles,
+  listPullRequestReviewComments,
+  createPendingReview,
+  deletePendingReview,
+  listPullRequestReviews,
+  submitPendingReview,
   listRepoCommits,
+  getCommitDetail,
+  compareRepoRefs,
   getRateLimitStatus,
   createBranchAndOpenPr,
   fetchAuthenticatedUser,
   fetchUserRepositories,
 } from '../githubClient';
-import { openDirectoryPicker, extractZipFile } from '../utils/localFileSystem';
-import { buildSemanticLinksForFile, SymbolIndex } from '../dependencyParser';
+import {
+  openDirectoryPicker,
+  extractZipFile,
+  ensureWritePermission,
+  writeLocalFiles,
+  readDirectoryFiles,
+  diffLocalFiles,
+  isNeverIngestedPath,
+  shouldIgnorePath,
+  LocalDirectoryChanges,
+  LocalDirectoryHandle,
+  LocalFileWrite,
+  LocalWriteResult
+} from '../utils/localFileSystem';
+import {
+  buildCodeNodeId,
+  buildModuleResolutionContext,
+  buildSymbolIndex,
+  isModuleConfigPath,
+  loadModuleParser,
+  ModuleResolutionContext,
+} from '../dependencyParser';
 import { convertUIGraphToFlatNodes } from '../utils/uiGraphTransformer';
 import { extractComponentTrail, discoverRoutesAndPages } from '../utils/trailExtractor';
+import { collectImpactedFiles, computeImpactRadius, DEFAULT_IMPACT_MAX_HOPS, getFileIdForNode, ImpactEntry } from '../utils/impactAnalysis';
+import { buildCyclePromptItem, findImportCycles, getCycleHighlight, ImportCycle } from '../utils/cycleDetection';
+import { collectCodeStructures } from '../utils/symbolGraph';
+import { createIngestionFilter, DEFAULT_INGESTION_RULES, isGitignorePath } from '../utils/ingestionRules';
+import { computeFileChurn, DEFAULT_CHURN_WINDOW_DAYS, MAX_CHURN_COMMITS } from '../utils/churnAnalysis';
+import { buildReviewFileInputs, findingsToSuggestions, MAX_REVIEW_FILES } from '../utils/pullRequestReview';
 import { useBasketStore } from './basketStore';
 import type { BackendTemplate } from '../components/TemplateSidebar';
 import {
+  IngestionRules,
   AiMetricsResponse,
   AppStatus,
   CodeNode,
   ComponentTrail,
   CreatePrPayload,
+  DEFAULT_LAYOUT_ALGORITHMS,
   DetectedFramework,
+  FileChurnStats,
   FileSystemNode,
   FlatNode,
   GitHubBranch,
+  GitHubCommitDetail,
   GitHubCommitItem,
   GitHubPullRequest,
   GitHubPullRequestDetail,
+  GitHubPullRequestFile,
   GitHubRateLimit,
+  GitHubReviewComment,
   GitHubTag,
   GitHubUserProfile,
+  IndexJob,
   Link,
+  PendingReviewComment,
+  ReviewEvent,
+  GraphLayoutAlgorithm,
   GraphViewMode,
+  HeatmapMode,
   MissingDependency,
   ModuleInput,
   PromptItem,
   ProjectGraphInput,
   ProjectSummary,
+  RefComparison,
+  RepositoryIndex,
   RoutePageInfo,
   SemanticLink,
   SESSION_SCHEMA_VERSION,
@@ -88,7 +144,8 @@ export type GraphState = {
   searchQuery: string;
   githubUrl: string;
   isPromptOpen: boolean;
-  sidebarTab: 'prompt' | 'summary' | 'recommendations' | 'flow' | 'metrics' | 'library' | 'github-pr';
+  isCommandPaletteOpen: boolean;
+  sidebarTab: 'prompt' | 'summary' | 'recommendations' | 'flow' | 'impact' | 'cycles' | 'metrics' | 'library' | 'github-pr';
   sessionId: string | null;
   projectSignature: string | null;
 
@@ -117,6 +174,18 @@ export type GraphState = {
   ghostLinks: Link[];
   allFilePaths: string[];
   localFileHandles: Map<string, File>;
+  /** Pasta aberta via File System Access API; permite gravar sugestões no disco */
+  localDirectoryHandle: LocalDirectoryHandle | null;
+  /** Polling da pasta local para refletir edições feitas fora do app */
+  liveReloadEnabled: boolean;
+  liveReloadError: string | null;
+  lastLiveReloadAt: number | null;
+  /** Regras include/exclude do projeto (salvas na sessão) */
+  ingestionRules: IngestionRules;
+  /** Todos os caminhos lidos antes de `.gitignore` e regras; permite reaplicá-los */
+  ingestionCandidates: string[];
+  /** Conteúdo de cada `.gitignore` do projeto, pelo caminho */
+  gitignoreFiles: Map<string, string>;
   childrenIndex: Map<string, { path: string; name: string; type: 'directory' | 'file' }[]>;
   descendantCount: Map<string, number>;
   autoRestoreSignature: string | null;
@@ -126,6 +195,12 @@ export type GraphState = {
   detectedFramework: DetectedFramework | null;
   frameworkStatus: 'idle' | 'detecting' | 'done' | 'error';
   githubOwnerRepo: { owner: string; repo: string; branch: string } | null;
+  moduleResolution: ModuleResolutionContext | null;
+  // Índice do servidor (/api/indexer/jobs)
+  indexJob: IndexJob | null;
+  indexError: string | null;
+  indexedCodeStructures: Map<string, CodeNode[]>;
+  indexedFileHashes: Map<string, string>;
 
   // GitHub Advanced Integration State
   availableBranches: GitHubBranch[];
@@ -133,15 +208,42 @@ export type GraphState = {
   availableTags: GitHubTag[];
   availablePullRequests: GitHubPullRequest[];
   activePullRequest: GitHubPullRequestDetail | null;
+  /** Comentários de revisão já publicados no PR ativo */
+  reviewComments: GitHubReviewComment[];
+  /** Comentários em rascunho do PR ativo; viram uma revisão pendente no GitHub em submitReview */
+  pendingReviewComments: PendingReviewComment[];
+  /** Revisão pendente do usuário no GitHub (de um envio interrompido ou criada no site) */
+  pendingReviewId: number | null;
+  reviewStatus: 'idle' | 'loading' | 'submitting' | 'error';
+  reviewError: string | null;
+  /** Revisão do PR ativo pela IA (gera uma thread dedicada) */
+  aiReviewStatus: 'idle' | 'loading' | 'error';
+  aiReviewError: string | null;
+  /** Comparação base...head ativa; exclusiva com o modo PR */
+  activeComparison: RefComparison | null;
+  comparisonStatus: 'idle' | 'loading' | 'error';
+  comparisonError: string | null;
   recentCommits: GitHubCommitItem[];
   githubRateLimit: GitHubRateLimit | null;
   diffStatusByPath: Map<string, { status: 'added' | 'modified' | 'removed'; additions: number; deletions: number; patch?: string }>;
+  heatmapMode: HeatmapMode;
+  churnWindowDays: number;
+  churnStats: Record<string, FileChurnStats>;
+  churnStatus: 'idle' | 'loading' | 'error';
+  churnError: string | null;
+  /** Commits analisados na última consulta (limitado a MAX_CHURN_COMMITS) */
+  churnCommitCount: number;
+  /** A janela tinha mais commits que MAX_CHURN_COMMITS; os mais antigos ficaram de fora */
+  churnTruncated: boolean;
 
   // Phase 1 + 2 + 4 Actions
   downloadProjectFiles: (paths: string[]) => Promise<void>;
   detectFramework: () => Promise<void>;
   buildUIGraph: () => Promise<void>;
   analyzeDependencies: () => Promise<void>;
+  loadModuleResolution: () => Promise<void>;
+  startRepositoryIndex: () => Promise<void>;
+  hydrateFromIndex: (index: RepositoryIndex) => void;
   // Phase 5 Actions
   toggleMultiSelection: (nodeId: string) => void;
   clearMultiSelection: () => void;
@@ -154,9 +256,10 @@ export type GraphState = {
 
   // UI actions
   setSearchQuery: (query: string) => void;
+  setCommandPaletteOpen: (open: boolean) => void;
   setGithubUrl: (url: string) => void;
   setPromptOpen: (open: boolean) => void;
-  setSidebarTab: (tab: 'prompt' | 'summary' | 'recommendations' | 'flow' | 'metrics' | 'library' | 'github-pr') => void;
+  setSidebarTab: (tab: 'prompt' | 'summary' | 'recommendations' | 'flow' | 'impact' | 'cycles' | 'metrics' | 'library' | 'github-pr') => void;
   setSummaryPromptBase: (base: string) => void;
   setPromptItems: (items: PromptItem[]) => void;
   addPromptItem: (item: PromptItem) => void;
@@ -181,9 +284,25 @@ export type GraphState = {
   fetchPullRequests: () => Promise<void>;
   loadPullRequest: (prNumber: number) => Promise<void>;
   clearPullRequestMode: () => void;
+  fetchReviewComments: () => Promise<void>;
+  addPendingReviewComment: (comment: Omit<PendingReviewComment, 'id'>) => void;
+  removePendingReviewComment: (id: string) => void;
+  submitReview: (event: ReviewEvent, body?: string) => Promise<boolean>;
+  discardPendingReview: () => Promise<void>;
+  reviewPullRequestWithAi: () => Promise<void>;
+  compareRefs: (base: string, head: string) => Promise<void>;
+  clearComparison: () => void;
+  sendComparisonToThread: () => void;
   fetchCommits: () => Promise<void>;
+  setHeatmapMode: (mode: HeatmapMode) => void;
+  setChurnWindowDays: (days: number) => void;
+  fetchChurnStats: () => Promise<void>;
   fetchRateLimit: () => Promise<void>;
   createPrFromSuggestion: (payload: CreatePrPayload) => Promise<GitHubPullRequest>;
+  writeSuggestionsToDisk: (changes: LocalFileWrite[], options?: { dryRun?: boolean }) => Promise<LocalWriteResult[]>;
+  setLiveReloadEnabled: (enabled: boolean) => void;
+  syncLocalDirectory: () => Promise<LocalDirectoryChanges | null>;
+  applyIngestionRules: (rules?: IngestionRules) => void;
   // Data actions
   processFiles: (files: FileList | File[]) => Promise<void>;
   openLocalDirectory: () => Promise<void>;
@@ -200,7 +319,9 @@ export type GraphState = {
   tryRestoreSavedSession: (signature: string) => Promise<void>;
   buildProjectGraphInput: () => ProjectGraphInput;
   buildSessionPayload: () => SessionPayload;
-  updateSemanticEdgesForFile: (path: string, content: string, codeStructure?: CodeNode[]) => void;
+  updateSemanticEdgesForFile: (path: string, content: string, codeStructure?: CodeNode[]) => Promise<void>;
+  /** Mesmo que updateSemanticEdgesForFile para vários arquivos, montando o índice de símbolos uma vez */
+  updateSemanticEdgesForFiles: (files: Array<{ path: string; content: string; codeStructure?: CodeNode[] }>) => Promise<void>;
   findCodeStructureForPath: (path: string) => CodeNode[] | undefined;
   rootNode: FileSystemNode | null;
   highlightedPaths: string[];
@@ -217,9 +338,20 @@ export type GraphState = {
   linksById: Record<string, Link>;
   semanticLinksById: Record<string, SemanticLink>;
   graphViewMode: GraphViewMode;
+  /** Algoritmo de layout escolhido para cada modo de visualização */
+  layoutAlgorithms: Record<GraphViewMode, GraphLayoutAlgorithm>;
   flowQuery: { sourceId: string | null; targetId: string | null };
   flowPathNodeIds: Set<string>;
   flowPathLinkIds: Set<string>;
+  impactQuery: { nodeId: string | null; maxHops: number };
+  impactEntries: ImpactEntry[];
+  impactNodeIds: Set<string>;
+  impactLinkIds: Set<string>;
+  selectedCycleId: string | null;
+  cycleNodeIds: Set<string>;
+  cycleLinkIds: Set<string>;
+  /** Nó a centralizar no grafo (resultado escolhido na busca) */
+  focusRequest: { nodeId: string; requestedAt: number } | null;
   requestExpandNode: ((path: string) => void) | null;
   optimizedPrompt: string | null;
   isOptimizing: boolean;
@@ -233,15 +365,24 @@ export type GraphState = {
   fetchAiOptimization: (nodeId: string, userIntent: string) => Promise<void>;
   expandDirectory: (path: string) => void;
   toggleDirectory: (path: string) => void;
+  toggleFileSymbols: (path: string) => void;
   setRequestExpandNode: (handler: ((path: string) => void) | null) => void;
   restoreSession: (graph: SessionGraphState, selection: SessionSelectionState) => void;
   setLayoutCache: (hash: string, positions: Record<string, { x: number; y: number }>) => void;
   setSessionLayout: (layout: { hash: string; positions: Record<string, { x: number; y: number }> } | null) => void;
   setSemanticLinks: (links: SemanticLink[], sourceIds?: Set<string>) => void;
   setGraphViewMode: (mode: GraphViewMode) => void;
+  setLayoutAlgorithm: (mode: GraphViewMode, algorithm: GraphLayoutAlgorithm) => void;
   setFlowQuery: (sourceId: string | null, targetId: string | null) => void;
   setFlowHighlight: (nodeIds: string[], linkIds: string[]) => void;
   clearFlowHighlight: () => void;
+  setImpactQuery: (nodeId: string | null, maxHops?: number) => void;
+  clearImpactQuery: () => void;
+  addImpactedFilesToModule: () => void;
+  setSelectedCycle: (cycle: ImportCycle | null) => void;
+  exportCycleToPrompt: (cycle: ImportCycle) => void;
+  focusNode: (nodeId: string) => void;
+  clearFocusRequest: () => void;
   expandNode: (path: string) => void;
   optimizeIntent: (userIntent: string) => Promise<void>;
   clearOptimizedPrompt: () => void;
@@ -257,6 +398,22 @@ const relevantCacheTtlMs = Number.isFinite(relevantCacheTtlEnv) && relevantCache
   ? relevantCacheTtlEnv
   : undefined;
 const AUTH_NOTICE_MESSAGE = 'Conecte-se com GitHub para habilitar recursos de IA.';
+// Limite de tsconfig/package.json lidos por projeto (monorepos grandes / rate limit do GitHub)
+const MAX_MODULE_CONFIG_FILES = 40;
+const INDEX_POLL_INTERVAL_MS = 1000;
+const LIVE_RELOAD_INTERVAL_MS = 2000;
+// Monorepos podem ter muitos .gitignore; cada um custa uma requisição ao GitHub
+const MAX_GITHUB_GITIGNORE_FILES = 30;
+// Cada ativação do live reload invalida os ciclos de polling anteriores
+let liveReloadGeneration = 0;
+// Uma nova comparação (ou limpar a atual) descarta respostas ainda pendentes
+let comparisonGeneration = 0;
+// Limite de arquivos por resposta da API de compare do GitHub
+const MAX_COMPARE_FILES = 300;
+const CHURN_DETAIL_BATCH_SIZE = 4;
+const REVIEW_CONTENT_BATCH_SIZE = 4;
+// Arquivos enviados ao indexador quando o projeto é local
+const INDEXABLE_FILE_PATTERN = /(\.(m|c)?[jt]sx?|\.vue|\.svelte)$/;
 
 const loadStoredSessionMeta = () => {
   if (typeof window === 'undefined') return null;
@@ -349,6 +506,51 @@ const buildChildNodes = (
   }));
 };
 
+// .gitignore de dependências e build (node_modules/*/.gitignore) não valem para o projeto
+const isProjectGitignore = (path: string) => isGitignorePath(path) && !shouldIgnorePath(path);
+
+const loadGitHubGitignores = async (owner: string, repo: string, ref: string, paths: string[]) => {
+  const gitignoreFiles = new Map<string, string>();
+  await Promise.all(paths.filter(isProjectGitignore).slice(0, MAX_GITHUB_GITIGNORE_FILES).map(async (path) => {
+    try {
+      gitignoreFiles.set(path, await fetchGitHubFileContent(owner, repo, ref, path));
+    } catch (error) {
+      console.warn(`Failed to read ${path}:`, error);
+    }
+  }));
+  return gitignoreFiles;
+};
+
+/**
+ * Reaplica o índice de filhos numa árvore já materializada: mantém os nós
+ * expandidos (e seus símbolos), cria os novos e descarta os removidos.
+ * Arquivos em `changedPaths` perdem a estrutura analisada, que ficou velha.
+ */
+const syncTreeNode = (
+  node: FileSystemNode,
+  index: Map<string, { path: string; name: string; type: 'directory' | 'file' }[]>,
+  descendantCount: Map<string, number>,
+  changedPaths: Set<string>
+): FileSystemNode => {
+  if (node.type === 'file') {
+    return changedPaths.has(node.path) && node.codeStructure ? { ...node, codeStructure: undefined } : node;
+  }
+  const next: FileSystemNode = {
+    ...node,
+    hasChildren: (index.get(node.path)?.length ?? 0) > 0,
+    descendantCount: descendantCount.get(node.path) ?? 0
+  };
+  if (!node.children) return next;
+  const existing = new Map(node.children.map((child) => [child.path, child]));
+  next.children = buildChildNodes(node.path, index, descendantCount).map((child) => {
+    const current = existing.get(child.path);
+    return current && current.type === child.type
+      ? syncTreeNode(current, index, descendantCount, changedPaths)
+      : child;
+  });
+  return next;
+};
+
 const buildGraphHashData = (
   rootNode: FileSystemNode | null,
   highlightedPaths: string[],
@@ -389,8 +591,11 @@ const buildGraphHashData = (
       group: depth,
       relevant: highlightedPaths.some(p => node.path.includes(p)),
       data: node,
-      collapsed: !isExpanded && hasChildren && node.type === 'directory',
-      childCount: hasChildren ? countDescendants(node) : 0,
+      collapsed: !isExpanded && (
+        (hasChildren && node.type === 'directory') ||
+        (node.type === 'file' && Boolean(node.codeStructure?.length))
+      ),
+      childCount: hasChildren ? countDescendants(node) : node.codeStructure?.length ?? 0,
       x: 0,
       y: 0
     };
@@ -407,22 +612,27 @@ const buildGraphHashData = (
     }
 
     if (node.codeStructure && isExpanded) {
-      node.codeStructure.forEach((codeNode) => {
-        const codeId = `${node.path}#${codeNode.name}`;
+      // Símbolos aninhados (métodos de classe) ficam sob o símbolo que os contém
+      const addCodeNode = (codeNode: CodeNode, parentCodeId: string, codeDepth: number) => {
+        const codeId = buildCodeNodeId(node.path, codeNode);
+        // Homônimos no mesmo arquivo compartilham o id (como nas arestas semânticas)
+        if (nodesById[codeId]) return;
         const flatCodeNode: FlatNode = {
           id: codeId,
           name: codeNode.name,
           type: codeNode.type,
           path: codeId,
-          group: depth + 1,
+          group: codeDepth,
           relevant: false,
           data: codeNode,
           x: 0,
           y: 0
         };
         registerNode(flatCodeNode);
-        registerLink(node.path, codeId);
-      });
+        registerLink(parentCodeId, codeId);
+        codeNode.children?.forEach((child) => addCodeNode(child, codeId, codeDepth + 1));
+      };
+      node.codeStructure.forEach((codeNode) => addCodeNode(codeNode, node.path, depth + 1));
     }
   };
 
@@ -435,14 +645,16 @@ const buildGraphHashData = (
   };
 };
 
+type DiffStatusEntry = { status: 'added' | 'modified' | 'removed'; additions: number; deletions: number; patch?: string };
+
 const computeGraph = (
   rootNode: FileSystemNode | null,
   highlightedPaths: string[],
   expandedDirectories: Set<string>,
-  diffStatusByPath?: Map<string, { status: 'added' | 'modified' | 'removed'; additions: number; deletions: number; patch?: string }>
+  diffStatusByPath?: Map<string, DiffStatusEntry>
 ) => {
   const result = buildGraphHashData(rootNode, highlightedPaths, expandedDirectories);
-  if (diffStatusByPath && diffStatusByPath.size > 0) {
+  if (rootNode && diffStatusByPath && diffStatusByPath.size > 0) {
     const nodes = result.nodes.map((node) => {
       const pathKey = node.path || node.id;
       const diff = pathKey ? diffStatusByPath.get(pathKey) : undefined;
@@ -458,11 +670,109 @@ const computeGraph = (
     nodes.forEach((n) => {
       nodesById[n.id] = n;
     });
-    return { ...result, nodes, nodesById };
+    const links = [...result.links];
+    const linksById = { ...result.linksById };
+
+    // Arquivos criados no head ainda não existem na árvore carregada: entram
+    // sob o diretório carregado mais próximo, se ele estiver expandido
+    diffStatusByPath.forEach((diff, path) => {
+      if (diff.status !== 'added' || nodesById[path]) return;
+      let parentPath = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : rootNode.path;
+      while (!nodesById[parentPath] && parentPath !== rootNode.path) {
+        parentPath = parentPath.includes('/') ? parentPath.slice(0, parentPath.lastIndexOf('/')) : rootNode.path;
+      }
+      const parent = nodesById[parentPath];
+      if (!parent || (parentPath !== rootNode.path && !expandedDirectories.has(parentPath))) return;
+
+      const name = path.slice(path.lastIndexOf('/') + 1);
+      const data: FileSystemNode = { id: path, name, type: 'file', path };
+      const node: FlatNode = {
+        id: path,
+        name,
+        type: 'file',
+        path,
+        group: parent.group + 1,
+        relevant: highlightedPaths.some(p => path.includes(p)),
+        data,
+        childCount: 0,
+        diffStatus: diff.status,
+        diffAdditions: diff.additions,
+        diffDeletions: diff.deletions,
+        x: 0,
+        y: 0
+      };
+      nodes.push(node);
+      nodesById[path] = node;
+      const link: Link = { source: parentPath, target: path, kind: 'structural' };
+      links.push(link);
+      linksById[`${parentPath}-->${path}`] = link;
+    });
+    return { nodes, links, nodesById, linksById };
   }
   return result;
 };
 
+/**
+ * Nós de thread para arquivos de um diff. O patch vai como trecho de código:
+ * a thread trata da mudança, não do arquivo inteiro.
+ */
+const buildDiffThreadNodes = (files: GitHubPullRequestFile[], nodesById: Record<string, FlatNode>): FlatNode[] =>
+  files.map((file) => {
+    const existing = nodesById[file.filename];
+    const name = existing?.name ?? file.filename.slice(file.filename.lastIndexOf('/') + 1);
+    const data: FileSystemNode = {
+      id: file.filename,
+      name,
+      type: 'file',
+      path: file.filename,
+      codeSnippet: file.patch
+    };
+    return {
+      id: file.filename,
+      name,
+      type: 'file',
+      path: file.filename,
+      group: existing?.group ?? 1,
+      data,
+      x: existing?.x ?? 0,
+      y: existing?.y ?? 0
+    };
+  });
+
+/**
+ * Status de diff por arquivo (PR ou comparação de refs) e os diretórios a
+ * expandir para mostrá-los no grafo.
+ */
+const buildDiffStatus = (files: GitHubPullRequestFile[]) => {
+  const diffStatusByPath = new Map<string, DiffStatusEntry>();
+  const directoriesToExpand = new Set<string>();
+  let totalAdditions = 0;
+  let totalDeletions = 0;
+
+  files.forEach(file => {
+    const normStatus: 'added' | 'modified' | 'removed' = file.status === 'removed' ? 'removed' : file.status === 'added' ? 'added' : 'modified';
+    diffStatusByPath.set(file.filename, {
+      status: normStatus,
+      additions: file.additions,
+      deletions: file.deletions,
+      patch: file.patch
+    });
+    totalAdditions += file.additions;
+    totalDeletions += file.deletions;
+
+    // Auto-expand directory chain
+    const parts = file.filename.split('/');
+    parts.pop();
+    let currentPath = '';
+    for (const part of parts) {
+      currentPath = currentPath ? `${currentPath}/${part}` : part;
+      directoriesToExpand.add(currentPath);
+    }
+  });
+
+  return { diffStatusByPath, directoriesToExpand, totalAdditions, totalDeletions };
+};
+
 export const useGraphStore = create<GraphState>((set, get) => ({
   fileMap: new Map(),
   status: AppStatus.IDLE,
@@ -473,12 +783,14 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   setImportModalOpen: (open) => set({ isImportModalOpen: open }),
   githubPat: getGitHubPat(),
   setGithubPat: (pat) => {
+    const hadGitHubAuth = get().isAuthenticated || Boolean(get().githubPat);
     setStoredPat(pat);
     set({ githubPat: pat });
     if (pat) {
       get().fetchUserProfile();
       get().fetchUserRepos();
       get().fetchRateLimit();
+      if (!hadGitHubAuth && get().githubOwnerRepo) void get().loadModuleResolution();
     }
   },
   clearGithubPat: () => {
@@ -489,6 +801,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   searchQuery: '',
   githubUrl: '',
   isPromptOpen: false,
+  isCommandPaletteOpen: false,
   sidebarTab: 'prompt',
   sessionId: null,
   projectSignature: null,
@@ -506,6 +819,13 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   selectedNodeIds: new Set(),
   allFilePaths: [],
   localFileHandles: new Map(),
+  localDirectoryHandle: null,
+  liveReloadEnabled: false,
+  liveReloadError: null,
+  lastLiveReloadAt: null,
+  ingestionRules: DEFAULT_INGESTION_RULES,
+  ingestionCandidates: [],
+  gitignoreFiles: new Map(),
   childrenIndex: new Map(),
   descendantCount: new Map(),
   autoRestoreSignature: null,
@@ -515,6 +835,11 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   detectedFramework: null,
   frameworkStatus: 'idle',
   githubOwnerRepo: null,
+  moduleResolution: null,
+  indexJob: null,
+  indexError: null,
+  indexedCodeStructures: new Map(),
+  indexedFileHashes: new Map(),
 
   // GitHub Advanced Integration Initial State
   availableBranches: [],
@@ -522,9 +847,26 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   availableTags: [],
   availablePullRequests: [],
   activePullRequest: null,
+  reviewComments: [],
+  pendingReviewComments: [],
+  pendingReviewId: null,
+  reviewStatus: 'idle',
+  reviewError: null,
+  aiReviewStatus: 'idle',
+  aiReviewError: null,
+  activeComparison: null,
+  comparisonStatus: 'idle',
+  comparisonError: null,
   recentCommits: [],
   githubRateLimit: null,
   diffStatusByPath: new Map(),
+  heatmapMode: 'off',
+  churnWindowDays: DEFAULT_CHURN_WINDOW_DAYS,
+  churnStats: {},
+  churnStatus: 'idle',
+  churnError: null,
+  churnCommitCount: 0,
+  churnTruncated: false,
 
   // Visual Context Inspector & Execution Trail Initial State
   activeTrail: null,
@@ -534,13 +876,14 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   routesAndPages: [],
 
   inspectComponentTrail: async (path: string) => {
-    const { allFilePaths, fileMap, projectFileContents } = get();
     await get().ensureFileContent(path);
+    const { allFilePaths, fileMap, projectFileContents, moduleResolution } = get();
     const trail = extractComponentTrail({
       targetPath: path,
       allFilePaths,
       fileMap,
-      projectFileContents
+      projectFileContents,
+      resolutionContext: moduleResolution
     });
     set({ activeTrail: trail, selectedUiElementId: `ui:${path}` });
     return trail;
@@ -593,8 +936,8 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   },
 
   refreshRoutesAndPages: () => {
-    const { allFilePaths, fileMap, projectFileContents, activeTrail } = get();
-    const routes = discoverRoutesAndPages(allFilePaths, fileMap, projectFileContents);
+    const { allFilePaths, fileMap, projectFileContents, activeTrail, moduleResolution } = get();
+    const routes = discoverRoutesAndPages(allFilePaths, fileMap, projectFileContents, moduleResolution);
     set({ routesAndPages: routes });
 
     // Auto-inspect the first discovered route/component if none is active
@@ -613,6 +956,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   userRepos: [],
   userReposStatus: 'idle',
   setSearchQuery: (query) => set({ searchQuery: query }),
+  setCommandPaletteOpen: (open) => set({ isCommandPaletteOpen: open }),
   setGithubUrl: (url) => set({ githubUrl: url }),
   setPromptOpen: (open) => set({ isPromptOpen: open }),
   setSidebarTab: (tab) => set({ sidebarTab: tab }),
@@ -637,6 +981,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     try {
       const accessToken = await fetchSessionAccessToken();
       const isAuthenticated = Boolean(accessToken);
+      const hadGitHubAuth = get().isAuthenticated || Boolean(get().githubPat);
       set({
         isAuthenticated,
         authNotice: isAuthenticated ? null : AUTH_NOTICE_MESSAGE
@@ -645,6 +990,8 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         get().fetchUserProfile();
         get().fetchUserRepos();
         get().fetchRateLimit();
+        // Projeto aberto antes do login: completa os tsconfig/package.json aninhados
+        if (!hadGitHubAuth && get().githubOwnerRepo) void get().loadModuleResolution();
       }
     } catch (error) {
       console.error(error);
@@ -754,21 +1101,9 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         }
       }
 
-      const baseUrl = import.meta.env.VITE_SERVER_URL || '';
-      const response = await fetch(`${baseUrl}/api/analyze/detect-framework`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ packageJson: packageJsonContent, entryFiles })
-      });
-
-      if (!response.ok) {
-        throw new Error('Framework detection failed');
-      }
-
-      const data = await response.json();
+      const framework = await requestFrameworkDetection({ packageJson: packageJsonContent, entryFiles });
       set({
-        detectedFramework: data.framework,
+        detectedFramework: framework,
         frameworkStatus: 'done',
         status: AppStatus.IDLE
       });
@@ -811,24 +1146,12 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         }
       }
 
-      const baseUrl = import.meta.env.VITE_SERVER_URL || '';
-      const response = await fetch(`${baseUrl}/api/analyze/ui-hierarchy`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          framework: detectedFramework.name,
-          files,
-          entryPoint: detectedFramework.entryPoint
-        })
+      const graph = await analyzeUIHierarchy({
+        framework: detectedFramework.name,
+        files,
+        entryPoint: detectedFramework.entryPoint
       });
-
-      if (!response.ok) {
-        throw new Error('UI Graph build failed');
-      }
-
-      const data = await response.json();
-      const { nodes, links } = convertUIGraphToFlatNodes(data.graph.root, get().missingDependencies);
+      const { nodes, links } = convertUIGraphToFlatNodes(graph.root, get().missingDependencies);
       const nodesById: Record<string, FlatNode> = {};
       for (const node of nodes) {
         nodesById[node.id] = node;
@@ -842,7 +1165,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       }
 
       set({
-        uiGraph: data.graph.root,
+        uiGraph: graph.root,
         uiGraphStatus: 'done',
         nodes,
         links,
@@ -850,7 +1173,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         linksById,
         graphViewMode: 'ui'
       });
-      console.log('UI Graph built:', data.graph);
+      console.log('UI Graph built:', graph);
 
       // Auto-trigger dependency analysis after UI graph is built
       get().analyzeDependencies();
@@ -904,49 +1227,147 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         }
       }
 
-      const baseUrl = import.meta.env.VITE_SERVER_URL || '';
-      const response = await fetch(`${baseUrl}/api/analyze/dependencies`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          framework: detectedFramework.name,
-          frontendFiles,
-          backendFiles
-        })
+      const analysis = await requestDependencyAnalysis({
+        framework: detectedFramework.name,
+        frontendFiles,
+        backendFiles
       });
-
-      if (!response.ok) {
-        throw new Error('Dependency analysis failed');
-      }
-
-      const data = await response.json();
-      // Map analysis to MissingDependency format
-      // Ideally we should update a new state store for dependencies
-      console.log('Dependency Analysis Result:', data.analysis);
+      console.log('Dependency Analysis Result:', analysis);
 
       set({
-        missingDependencies: data.analysis || []
+        missingDependencies: analysis
       });
 
     } catch (error) {
       console.error('Dependency analysis error:', error);
     }
   },
+  loadModuleResolution: async () => {
+    const { allFilePaths, githubOwnerRepo, isAuthenticated, githubPat, projectSignature } = get();
+    // Sem token o GitHub libera 60 requisições/hora: até o login só os configs
+    // da raiz são lidos (recarregado por refreshAuthSession/setGithubPat)
+    const rootOnly = Boolean(githubOwnerRepo) && !isAuthenticated && !githubPat;
+    const configPaths = allFilePaths
+      .filter((path) => isModuleConfigPath(path) && (!rootOnly || !path.includes('/')))
+      .sort((a, b) => a.split('/').length - b.split('/').length)
+      .slice(0, MAX_MODULE_CONFIG_FILES);
+    if (configPaths.length === 0) {
+      set({ moduleResolution: null });
+      return;
+    }
+
+    const contents = new Map<string, string>();
+    await Promise.all(configPaths.map(async (path) => {
+      try {
+        const content = await get().ensureFileContent(path);
+        if (content) contents.set(path, content);
+      } catch (error) {
+        console.warn(`Failed to read module config ${path}:`, error);
+      }
+    }));
+
+    // Outro projeto carregado durante a leitura
+    if (get().projectSignature !== projectSignature) return;
+    set({ moduleResolution: buildModuleResolutionContext(allFilePaths, (path) => contents.get(path)) });
+  },
+  startRepositoryIndex: async () => {
+    const { githubOwnerRepo, localFileHandles, allFilePaths } = get();
+    if (allFilePaths.length === 0) return;
+
+    set({ indexJob: null, indexError: null });
+    try {
+      let request: IndexJobRequest;
+      if (githubOwnerRepo) {
+        request = { repository: githubOwnerRepo };
+      } else {
+        const paths = allFilePaths.filter(
+          (path) => (INDEXABLE_FILE_PATTERN.test(path) && !path.endsWith('.d.ts')) || isModuleConfigPath(path)
+        );
+        const files = await Promise.all(paths.map(async (path) => {
+          const handle = localFileHandles.get(path);
+          return handle ? { path, content: await handle.text() } : null;
+        }));
+        request = { files: files.filter((file): file is { path: string; content: string } => file !== null) };
+      }
+
+      let job = await createIndexJob(request);
+      set({ indexJob: job });
+      while (job.status === 'pending' || job.status === 'in_progress') {
+        await new Promise((resolve) => setTimeout(resolve, INDEX_POLL_INTERVAL_MS));
+        // Projeto trocado ou nova indexação iniciada durante o polling
+        if (get().indexJob?.id !== job.id) return;
+        job = await fetchIndexJob(job.id);
+        set({ indexJob: job });
+      }
+
+      if (job.status === 'error') {
+        set({ indexError: job.error ?? 'Falha na indexação.' });
+        return;
+      }
+
+      const index = await fetchRepositoryIndex(job.id);
+      if (get().indexJob?.id !== job.id) return;
+      get().hydrateFromIndex(index);
+    } catch (error) {
+      console.error('Failed to index repository', error);
+      set({ indexError: error instanceof Error ? error.message : 'Falha na indexação.' });
+    }
+  },
+  hydrateFromIndex: (index) => {
+    // O indexador do GitHub lê o tarball inteiro: fica só o que passou por
+    // .gitignore e regras de ingestão, sem arestas para arquivos fora do grafo
+    const filePaths = new Set(get().allFilePaths);
+    const indexedCodeStructures = new Map<string, CodeNode[]>();
+    const indexedFileHashes = new Map<string, string>();
+    index.files.filter((file) => filePaths.has(file.path)).forEach((file) => {
+      indexedFileHashes.set(file.path, file.hash);
+      if (file.codeStructure && file.codeStructure.length > 0) {
+        indexedCodeStructures.set(file.path, file.codeStructure);
+      }
+    });
+    set({ indexedCodeStructures, indexedFileHashes });
+
+    // Nós já materializados recebem a estrutura; os demais recebem em expandNode
+    const applyStructures = (node: FileSystemNode): FileSystemNode => {
+      if (node.type === 'file') {
+        const structure = indexedCodeStructures.get(node.path);
+        return structure ? { ...node, codeStructure: structure } : node;
+      }
+      if (!node.children) return node;
+      return { ...node, children: node.children.map(applyStructures) };
+    };
+    get().updateRootNode((prev) => (prev ? applyStructures(prev) : prev));
+
+    const semanticLinks = index.semanticLinks.filter((link) =>
+      filePaths.has(getFileIdForNode(link.source)) && filePaths.has(getFileIdForNode(link.target))
+    );
+    const sourceIds = new Set<string>(indexedFileHashes.keys());
+    semanticLinks.forEach((link) => sourceIds.add(link.source));
+    get().setSemanticLinks(semanticLinks, sourceIds);
+  },
   processFiles: async (files: FileList | File[]) => {
+    get().setLiveReloadEnabled(false);
     set({ status: AppStatus.LOADING_FILES });
     const newFileHandles = new Map<string, File>();
-    const allPaths: string[] = [];
+    const candidatePaths: string[] = [];
     const fileArray = Array.isArray(files) ? files : Array.from(files);
 
     for (let i = 0; i < fileArray.length; i++) {
       const file = fileArray[i];
       const relPath = file.webkitRelativePath || file.name;
-      if (relPath.includes('/.') || relPath.startsWith('.')) continue;
+      // Build e dependências continuam candidatos: regras `include` podem resgatá-los
+      if (isNeverIngestedPath(relPath)) continue;
       newFileHandles.set(relPath, file);
-      allPaths.push(relPath);
+      candidatePaths.push(relPath);
     }
 
+    const gitignoreFiles = new Map<string, string>();
+    await Promise.all(candidatePaths.filter(isProjectGitignore).map(async (path) => {
+      gitignoreFiles.set(path, await newFileHandles.get(path)!.text());
+    }));
+    const ingestionFilter = createIngestionFilter(gitignoreFiles, DEFAULT_INGESTION_RULES);
+    const allPaths = candidatePaths.filter((path) => !ingestionFilter(path).ignored);
+
     if (allPaths.length === 0) {
       set({ status: AppStatus.IDLE });
       return;
@@ -972,6 +1393,11 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       detectedFramework: null,
       frameworkStatus: 'idle',
       githubOwnerRepo: null,
+      moduleResolution: null,
+      indexJob: null,
+      indexError: null,
+      indexedCodeStructures: new Map(),
+      indexedFileHashes: new Map(),
       uiGraph: null,
       uiGraphStatus: 'idle',
       missingDependencies: [],
@@ -989,12 +1415,17 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       childrenIndex,
       descendantCount,
       localFileHandles: newFileHandles,
+      localDirectoryHandle: null,
+      ingestionRules: DEFAULT_INGESTION_RULES,
+      ingestionCandidates: candidatePaths,
+      gitignoreFiles,
       allFilePaths: allPaths
     });
 
     const signature = await computeProjectSignature(allPaths, 'local');
     set({ projectSignature: signature });
     await get().tryRestoreSavedSession(signature);
+    await get().loadModuleResolution();
 
     // Auto-analyze key entry files to build semantic links
     const keyFilePatterns = [
@@ -1023,9 +1454,10 @@ export const useGraphStore = create<GraphState>((set, get) => ({
 
   openLocalDirectory: async () => {
     try {
-      const files = await openDirectoryPicker();
+      const { files, handle } = await openDirectoryPicker();
       if (files && files.length > 0) {
         await get().processFiles(files);
+        set({ localDirectoryHandle: handle });
       }
     } catch (err: any) {
       if (err.name !== 'AbortError') {
@@ -1079,6 +1511,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     }
     const githubUrl = get().githubUrl;
     if (!githubUrl) return;
+    get().setLiveReloadEnabled(false);
     set({ status: AppStatus.LOADING_FILES });
     try {
       const match = githubUrl.match(/github\.com\/([^\/]+)\/([^\/]+)/);
@@ -1102,7 +1535,10 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         `https://api.github.com/repos/${owner}/${repo}/git/trees/${defaultBranch}?recursive=1`
       );
 
-      const paths = treeData.tree.filter((item: { type: string }) => item.type === 'blob').map((item: { path: string }) => item.path);
+      const candidatePaths = treeData.tree.filter((item: { type: string }) => item.type === 'blob').map((item: { path: string }) => item.path);
+      const gitignoreFiles = await loadGitHubGitignores(owner, repo, defaultBranch, candidatePaths);
+      const ingestionFilter = createIngestionFilter(gitignoreFiles, DEFAULT_INGESTION_RULES);
+      const paths = candidatePaths.filter((path) => !ingestionFilter(path).ignored);
       const childrenIndex = buildChildrenIndex(paths);
       const descendantCount = computeDescendantCounts(childrenIndex);
 
@@ -1126,8 +1562,24 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         childrenIndex,
         descendantCount,
         localFileHandles: new Map(),
+        localDirectoryHandle: null,
+        ingestionRules: DEFAULT_INGESTION_RULES,
+        ingestionCandidates: candidatePaths,
+        gitignoreFiles,
         allFilePaths: paths,
         githubOwnerRepo: { owner, repo, branch: defaultBranch },
+        activeComparison: null,
+        reviewComments: [],
+        pendingReviewComments: [],
+        pendingReviewId: null,
+        churnStats: {},
+        churnCommitCount: 0,
+        churnTruncated: false,
+        moduleResolution: null,
+        indexJob: null,
+        indexError: null,
+        indexedCodeStructures: new Map(),
+        indexedFileHashes: new Map(),
         projectFileContents: new Map(),
         detectedFramework: null,
         frameworkStatus: 'idle'
@@ -1136,6 +1588,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       const signature = await computeProjectSignature(paths, `github:${owner}/${repo}`);
       set({ projectSignature: signature });
       await get().tryRestoreSavedSession(signature);
+      await get().loadModuleResolution();
 
       // Phase 1: Download key files and detect framework
       if (get().isAuthenticated || get().githubPat) {
@@ -1206,7 +1659,11 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         `https://api.github.com/repos/${owner}/${repo}/git/trees/${encodeURIComponent(branchName)}?recursive=1`
       );
 
-      const paths = treeData.tree.filter((item: { type: string }) => item.type === 'blob').map((item: { path: string }) => item.path);
+      const candidatePaths = treeData.tree.filter((item: { type: string }) => item.type === 'blob').map((item: { path: string }) => item.path);
+      const gitignoreFiles = await loadGitHubGitignores(owner, repo, branchName, candidatePaths);
+      // Mesmo projeto: as regras da sessão continuam valendo na outra branch
+      const ingestionFilter = createIngestionFilter(gitignoreFiles, get().ingestionRules);
+      const paths = candidatePaths.filter((path) => !ingestionFilter(path).ignored);
       const childrenIndex = buildChildrenIndex(paths);
       const descendantCount = computeDescendantCounts(childrenIndex);
 
@@ -1228,15 +1685,30 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         sessionLayout: null,
         childrenIndex,
         descendantCount,
+        ingestionCandidates: candidatePaths,
+        gitignoreFiles,
         allFilePaths: paths,
         githubOwnerRepo: { owner, repo, branch: branchName },
+        activeComparison: null,
+        churnStats: {},
+        churnCommitCount: 0,
+        churnTruncated: false,
+        moduleResolution: null,
+        indexJob: null,
+        indexError: null,
+        indexedCodeStructures: new Map(),
+        indexedFileHashes: new Map(),
         projectFileContents: new Map(),
         activePullRequest: null,
+        reviewComments: [],
+        pendingReviewComments: [],
+        pendingReviewId: null,
         diffStatusByPath: new Map()
       });
 
       const signature = await computeProjectSignature(paths, `github:${owner}/${repo}@${branchName}`);
       set({ projectSignature: signature });
+      await get().loadModuleResolution();
       get().fetchCommits();
       get().fetchRateLimit();
     } catch (error: any) {
@@ -1278,31 +1750,11 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         base: { ref: 'base', sha: '' }
       };
 
-      const diffStatusByPath = new Map<string, { status: 'added' | 'modified' | 'removed'; additions: number; deletions: number; patch?: string }>();
-      let totalAdditions = 0;
-      let totalDeletions = 0;
-      const directoriesToExpand = new Set<string>();
-
-      prFiles.forEach(file => {
-        const normStatus: 'added' | 'modified' | 'removed' = file.status === 'removed' ? 'removed' : file.status === 'added' ? 'added' : 'modified';
-        diffStatusByPath.set(file.filename, {
-          status: normStatus,
-          additions: file.additions,
-          deletions: file.deletions,
-          patch: file.patch
-        });
-        totalAdditions += file.additions;
-        totalDeletions += file.deletions;
-
-        // Auto-expand directory chain
-        const parts = file.filename.split('/');
-        parts.pop();
-        let currentPath = '';
-        for (const part of parts) {
-          currentPath = currentPath ? `${currentPath}/${part}` : part;
-          directoriesToExpand.add(currentPath);
-        }
-      });
+      const { diffStatusByPath, directoriesToExpand, totalAdditions, totalDeletions } = buildDiffStatus(prFiles);
+      // Rascunhos de revisão só sobrevivem ao recarregar o mesmo PR
+      const reviewState = get().activePullRequest?.number === prNumber
+        ? {}
+        : { reviewComments: [], pendingReviewComments: [], pendingReviewId: null, reviewError: null, aiReviewStatus: 'idle' as const, aiReviewError: null };
 
       const detail: GitHubPullRequestDetail = {
         ...basePr,
@@ -1310,13 +1762,18 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         totalAdditions,
         totalDeletions
       };
+      // O PR substitui a comparação, inclusive uma que ainda esteja carregando
+      comparisonGeneration++;
 
       if (get().rootNode) {
         const nextExpanded = new Set([...get().expandedDirectories, ...directoriesToExpand]);
         const { nodes, links, nodesById, linksById } = computeGraph(get().rootNode, get().highlightedPaths, nextExpanded, diffStatusByPath);
         set({
           expandedDirectories: nextExpanded,
+          ...reviewState,
           activePullRequest: detail,
+          activeComparison: null,
+          comparisonStatus: 'idle',
           diffStatusByPath,
           nodes,
           links,
@@ -1348,7 +1805,10 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         });
 
         set({
+          ...reviewState,
           activePullRequest: detail,
+          activeComparison: null,
+          comparisonStatus: 'idle',
           diffStatusByPath,
           nodes: updatedNodes,
           status: AppStatus.IDLE,
@@ -1356,6 +1816,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
           isPromptOpen: true
         });
       }
+      get().fetchReviewComments();
     } catch (error: any) {
       console.error('[loadPullRequest] Error:', error);
       alert(error.message || `Failed to load PR #${prNumber}`);
@@ -1373,11 +1834,233 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     }));
     set({
       activePullRequest: null,
+      reviewComments: [],
+      pendingReviewComments: [],
+      pendingReviewId: null,
+      reviewError: null,
       diffStatusByPath: new Map(),
       nodes: updatedNodes
     });
   },
 
+  fetchReviewComments: async () => {
+    const ownerRepo = get().githubOwnerRepo;
+    const pr = get().activePullRequest;
+    if (!ownerRepo || !pr) return;
+    set({ reviewStatus: 'loading', reviewError: null });
+    try {
+      const [comments, reviews] = await Promise.all([
+        listPullRequestReviewComments(ownerRepo.owner, ownerRepo.repo, pr.number),
+        listPullRequestReviews(ownerRepo.owner, ownerRepo.repo, pr.number)
+      ]);
+      // Descarta a resposta se o usuário já trocou de PR
+      if (get().activePullRequest?.number !== pr.number) return;
+      set({
+        reviewComments: comments,
+        pendingReviewId: reviews.find((review) => review.state === 'PENDING')?.id ?? null,
+        reviewStatus: 'idle'
+      });
+    } catch (error) {
+      console.warn('Error fetching review comments:', error);
+      set({
+        reviewStatus: 'error',
+        reviewError: error instanceof Error ? error.message : 'Falha ao carregar comentários de revisão.'
+      });
+    }
+  },
+
+  addPendingReviewComment: (comment) => {
+    const pending: PendingReviewComment = {
+      ...comment,
+      id: `review-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+    };
+    set({ pendingReviewComments: [...get().pendingReviewComments, pending] });
+  },
+
+  removePendingReviewComment: (id) => {
+    set({ pendingReviewComments: get().pendingReviewComments.filter((comment) => comment.id !== id) });
+  },
+
+  submitReview: async (event, body) => {
+    const ownerRepo = get().githubOwnerRepo;
+    const pr = get().activePullRequest;
+    const comments = get().pendingReviewComments;
+    if (!ownerRepo || !pr) return false;
+    const existingReviewId = get().pendingReviewId;
+    // Comentário geral é obrigatório para "Solicitar alterações" e "Comentar" sem comentários de linha
+    if (event !== 'APPROVE' && existingReviewId === null && comments.length === 0 && !body?.trim()) {
+      set({ reviewError: 'Escreva um comentário geral ou adicione comentários de linha.' });
+      return false;
+    }
+    // O GitHub aceita uma revisão pendente por usuário e a API REST não acrescenta comentários a ela
+    if (existingReviewId !== null && comments.length > 0) {
+      set({ reviewError: 'Já existe uma revisão pendente sua neste PR. Envie-a sem os novos comentários ou descarte-a.' });
+      return false;
+    }
+    set({ reviewStatus: 'submitting', reviewError: null });
+    try {
+      // Dois passos: os comentários ficam salvos no GitHub mesmo se o envio do evento falhar
+      let reviewId = existingReviewId;
+      if (reviewId === null) {
+        const review = await createPendingReview(ownerRepo.owner, ownerRepo.repo, pr.number, {
+          commitId: pr.head.sha,
+          comments
+        });
+        reviewId = review.id;
+        set({ pendingReviewId: reviewId, pendingReviewComments: [] });
+      }
+      await submitPendingReview(ownerRepo.owner, ownerRepo.repo, pr.number, reviewId, {
+        event,
+        body: body?.trim()
+      });
+      set({ pendingReviewId: null, reviewStatus: 'idle' });
+      await get().fetchReviewComments();
+      get().fetchRateLimit();
+      return true;
+    } catch (error) {
+      console.error('[submitReview] Error:', error);
+      set({
+        reviewStatus: 'error',
+        reviewError: error instanceof Error ? error.message : 'Falha ao enviar a revisão.'
+      });
+      return false;
+    }
+  },
+
+  discardPendingReview: async () => {
+    const ownerRepo = get().githubOwnerRepo;
+    const pr = get().activePullRequest;
+    const reviewId = get().pendingReviewId;
+    if (!ownerRepo || !pr || reviewId === null) return;
+    set({ reviewStatus: 'submitting', reviewError: null });
+    try {
+      await deletePendingReview(ownerRepo.owner, ownerRepo.repo, pr.number, reviewId);
+      set({ pendingReviewId: null, reviewStatus: 'idle' });
+    } catch (error) {
+      console.error('[discardPendingReview] Error:', error);
+      set({
+        reviewStatus: 'error',
+        reviewError: error instanceof Error ? error.message : 'Falha ao descartar a revisão pendente.'
+      });
+    }
+  },
+
+  reviewPullRequestWithAi: async () => {
+    const pr = get().activePullRequest;
+    if (!pr || pr.files.length === 0 || get().aiReviewStatus === 'loading') return;
+    set({ aiReviewStatus: 'loading', aiReviewError: null });
+    try {
+      const files = pr.files.slice(0, MAX_REVIEW_FILES);
+      // A trilha precisa do conteúdo do arquivo; poucas requisições por vez
+      const readable = files.filter((file) => file.status !== 'removed' && get().allFilePaths.includes(file.filename));
+      for (let index = 0; index < readable.length; index += REVIEW_CONTENT_BATCH_SIZE) {
+        await Promise.all(readable.slice(index, index + REVIEW_CONTENT_BATCH_SIZE).map((file) => get().ensureFileContent(file.filename)));
+      }
+
+      const { allFilePaths, fileMap, projectFileContents, moduleResolution } = get();
+      const readablePaths = new Set(readable.map((file) => file.filename));
+      const review = await reviewPullRequest({
+        pullRequest: { number: pr.number, title: pr.title, body: pr.body, head: pr.head.ref, base: pr.base.ref },
+        files: buildReviewFileInputs(files, (path) => readablePaths.has(path)
+          ? extractComponentTrail({ targetPath: path, allFilePaths, fileMap, projectFileContents, resolutionContext: moduleResolution })
+          : null)
+      });
+      if (get().activePullRequest?.number !== pr.number) return;
+
+      const basketStore = useBasketStore.getState();
+      const thread = basketStore.createThread(buildDiffThreadNodes(files, get().nodesById), 'fix', `Revisão PR #${pr.number}: ${pr.title}`);
+      basketStore.addMessage(
+        thread.id,
+        'assistant',
+        review.findings.length > 0
+          ? `${review.summary}\n\n${review.findings.length} ponto(s) de atenção viraram sugestões desta thread.`
+          : `${review.summary}\n\nNenhum problema encontrado.`
+      );
+      findingsToSuggestions(review.findings).forEach((suggestion) => basketStore.addSuggestion(thread.id, suggestion));
+      set({ aiReviewStatus: 'idle', sidebarTab: 'prompt', isPromptOpen: true });
+    } catch (error) {
+      console.error('[reviewPullRequestWithAi] Error:', error);
+      set({
+        aiReviewStatus: 'error',
+        aiReviewError: error instanceof Error ? error.message : `Falha ao revisar o PR #${pr.number}.`
+      });
+    }
+  },
+
+  compareRefs: async (base, head) => {
+    const ownerRepo = get().githubOwnerRepo;
+    if (!ownerRepo || !base || !head) return;
+    const generation = ++comparisonGeneration;
+    set({ comparisonStatus: 'loading', comparisonError: null });
+    try {
+      const result = await compareRepoRefs(ownerRepo.owner, ownerRepo.repo, base, head);
+      if (generation !== comparisonGeneration || get().githubOwnerRepo !== ownerRepo) return;
+      const files = result.files ?? [];
+      const { diffStatusByPath, directoriesToExpand, totalAdditions, totalDeletions } = buildDiffStatus(files);
+      const comparison: RefComparison = {
+        base,
+        head,
+        status: result.status,
+        aheadBy: result.ahead_by,
+        behindBy: result.behind_by,
+        totalCommits: result.total_commits,
+        htmlUrl: result.html_url,
+        commits: result.commits,
+        files,
+        filesTruncated: files.length >= MAX_COMPARE_FILES,
+        totalAdditions,
+        totalDeletions
+      };
+      const nextExpanded = new Set([...get().expandedDirectories, ...directoriesToExpand]);
+      const { nodes, links, nodesById, linksById } = computeGraph(get().rootNode, get().highlightedPaths, nextExpanded, diffStatusByPath);
+      set({
+        expandedDirectories: nextExpanded,
+        activeComparison: comparison,
+        activePullRequest: null,
+        reviewComments: [],
+        pendingReviewComments: [],
+        pendingReviewId: null,
+        diffStatusByPath,
+        nodes,
+        links,
+        nodesById,
+        linksById,
+        comparisonStatus: 'idle'
+      });
+      get().fetchRateLimit();
+    } catch (error) {
+      console.error('[compareRefs] Error:', error);
+      if (generation !== comparisonGeneration) return;
+      set({
+        comparisonStatus: 'error',
+        comparisonError: error instanceof Error ? error.message : `Falha ao comparar ${base}...${head}.`
+      });
+    }
+  },
+
+  clearComparison: () => {
+    comparisonGeneration++;
+    const { rootNode, highlightedPaths, expandedDirectories } = get();
+    const { nodes, links, nodesById, linksById } = computeGraph(rootNode, highlightedPaths, expandedDirectories);
+    set({
+      activeComparison: null,
+      comparisonStatus: 'idle',
+      comparisonError: null,
+      diffStatusByPath: new Map(),
+      nodes,
+      links,
+      nodesById,
+      linksById
+    });
+  },
+
+  sendComparisonToThread: () => {
+    const comparison = get().activeComparison;
+    if (!comparison || comparison.files.length === 0) return;
+    useBasketStore.getState().createThread(buildDiffThreadNodes(comparison.files, get().nodesById), 'explore');
+    set({ sidebarTab: 'prompt', isPromptOpen: true });
+  },
+
   fetchCommits: async () => {
     const ownerRepo = get().githubOwnerRepo;
     if (!ownerRepo) return;
@@ -1389,6 +2072,62 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     }
   },
 
+  setHeatmapMode: (mode) => {
+    set({ heatmapMode: mode });
+    const { churnStatus, churnCommitCount } = get();
+    if (mode !== 'off' && churnStatus !== 'loading' && churnCommitCount === 0) {
+      get().fetchChurnStats();
+    }
+  },
+
+  setChurnWindowDays: (days) => {
+    set({ churnWindowDays: days });
+    if (get().heatmapMode !== 'off') get().fetchChurnStats();
+  },
+
+  fetchChurnStats: async () => {
+    const { githubOwnerRepo: ownerRepo, isAuthenticated, githubPat } = get();
+    if (!ownerRepo) return;
+    // Até MAX_CHURN_COMMITS + 1 requisições: sem token esgotaria o limite de 60/hora
+    if (!isAuthenticated && !githubPat) {
+      set({
+        churnStatus: 'error',
+        churnError: 'Conecte-se com GitHub ou configure um PAT: o histórico custa uma requisição por commit.'
+      });
+      return;
+    }
+    const windowDays = get().churnWindowDays;
+    set({ churnStatus: 'loading', churnError: null });
+    try {
+      const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000).toISOString();
+      // Um commit a mais só para saber se a janela foi cortada
+      const commits = await listRepoCommits(ownerRepo.owner, ownerRepo.repo, ownerRepo.branch, MAX_CHURN_COMMITS + 1, since);
+      const analyzed = commits.slice(0, MAX_CHURN_COMMITS);
+      // A listagem não traz arquivos: cada commit exige uma requisição de detalhe.
+      // Os lotes limitam as requisições simultâneas, não o total.
+      const details: GitHubCommitDetail[] = [];
+      for (let index = 0; index < analyzed.length; index += CHURN_DETAIL_BATCH_SIZE) {
+        const batch = analyzed.slice(index, index + CHURN_DETAIL_BATCH_SIZE);
+        details.push(...await Promise.all(batch.map((commit) => getCommitDetail(ownerRepo.owner, ownerRepo.repo, commit.sha))));
+      }
+      // Resposta de outra janela ou repositório chegou tarde
+      if (get().churnWindowDays !== windowDays || get().githubOwnerRepo !== ownerRepo) return;
+      set({
+        churnStats: computeFileChurn(details),
+        churnCommitCount: details.length,
+        churnTruncated: commits.length > MAX_CHURN_COMMITS,
+        churnStatus: 'idle'
+      });
+      get().fetchRateLimit();
+    } catch (error) {
+      console.warn('Error fetching commit history:', error);
+      set({
+        churnStatus: 'error',
+        churnError: error instanceof Error ? error.message : 'Falha ao carregar o histórico de commits.'
+      });
+    }
+  },
+
   createPrFromSuggestion: async (payload: CreatePrPayload) => {
     const ownerRepo = get().githubOwnerRepo;
     if (!ownerRepo) {
@@ -1406,6 +2145,182 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     return pr;
   },
 
+  writeSuggestionsToDisk: async (changes, options = {}) => {
+    const handle = get().localDirectoryHandle;
+    if (!handle) {
+      throw new Error('Nenhuma pasta local aberta. Use "Abrir pasta" para gravar no disco.');
+    }
+    if (options.dryRun) {
+      return writeLocalFiles(handle, changes, { dryRun: true });
+    }
+    if (!(await ensureWritePermission(handle))) {
+      throw new Error('Permissão de escrita negada para a pasta local.');
+    }
+
+    const results = await writeLocalFiles(handle, changes);
+    const written = results.filter((result) => result.status === 'created' || result.status === 'updated');
+    if (written.length > 0) {
+      const contentByPath = new Map(changes.map((change) => [change.path, change.content]));
+      set((state) => {
+        const fileMap = new Map(state.fileMap);
+        written.forEach((result) => fileMap.set(result.path, contentByPath.get(result.path)!));
+        return { fileMap };
+      });
+      void get().updateSemanticEdgesForFiles(written.map((result) => ({
+        path: result.path,
+        content: contentByPath.get(result.path)!,
+        codeStructure: get().findCodeStructureForPath(result.path)
+      })));
+    }
+    return results;
+  },
+
+  setLiveReloadEnabled: (enabled) => {
+    const generation = ++liveReloadGeneration;
+    const active = enabled && !!get().localDirectoryHandle;
+    set({ liveReloadEnabled: active, liveReloadError: null });
+    if (!active) return;
+
+    const poll = async () => {
+      if (generation !== liveReloadGeneration) return;
+      await get().syncLocalDirectory();
+      if (generation === liveReloadGeneration && get().liveReloadEnabled) {
+        setTimeout(poll, LIVE_RELOAD_INTERVAL_MS);
+      }
+    };
+    setTimeout(poll, LIVE_RELOAD_INTERVAL_MS);
+  },
+
+  syncLocalDirectory: async () => {
+    const handle = get().localDirectoryHandle;
+    if (!handle) return null;
+
+    let scanned: File[];
+    try {
+      scanned = await readDirectoryFiles(handle);
+    } catch (error) {
+      console.warn('Failed to scan local directory', error);
+      set({ liveReloadError: error instanceof Error ? error.message : 'Falha ao ler a pasta local.' });
+      return null;
+    }
+    // Outro projeto aberto durante a leitura
+    if (get().localDirectoryHandle !== handle) return null;
+
+    const nextHandles = new Map(scanned.map((file) => [file.webkitRelativePath, file]));
+    const changes = diffLocalFiles(get().localFileHandles, nextHandles);
+    set({ lastLiveReloadAt: Date.now(), liveReloadError: null });
+    if (changes.added.length === 0 && changes.modified.length === 0 && changes.deleted.length === 0) {
+      return changes;
+    }
+
+    // .gitignore novos ou alterados mudam o filtro usado para o restante da leitura
+    const gitignoreChanged = [...changes.added, ...changes.modified, ...changes.deleted].some(isProjectGitignore);
+    let { gitignoreFiles } = get();
+    if (gitignoreChanged) {
+      gitignoreFiles = new Map(gitignoreFiles);
+      for (const path of [...changes.added, ...changes.modified].filter(isProjectGitignore)) {
+        gitignoreFiles.set(path, await nextHandles.get(path)!.text());
+      }
+      changes.deleted.filter(isProjectGitignore).forEach((path) => gitignoreFiles.delete(path));
+    }
+    const ingestionFilter = createIngestionFilter(gitignoreFiles, get().ingestionRules);
+
+    // Só mtime/tamanho mudaram? Compara com o conteúdo já carregado
+    const { fileMap, projectFileContents } = get();
+    const reloaded = new Map<string, string>();
+    const changedPaths = new Set<string>();
+    for (const path of changes.modified) {
+      // Arquivos fora da ingestão (build, segredos, regras da sessão) nem são lidos
+      if (ingestionFilter(path).ignored) continue;
+      const previous = fileMap.get(path) ?? projectFileContents.get(path);
+      const content = await nextHandles.get(path)!.text();
+      if (content === previous) continue;
+      changedPaths.add(path);
+      reloaded.set(path, content);
+      if (previous !== undefined) await invalidateFileAnalysis(previous, path.split('/').pop() ?? path);
+    }
+    for (const path of changes.deleted) {
+      const previous = fileMap.get(path) ?? projectFileContents.get(path);
+      if (previous !== undefined) await invalidateFileAnalysis(previous, path.split('/').pop() ?? path);
+    }
+    if (get().localDirectoryHandle !== handle) return null;
+
+    const deleted = new Set(changes.deleted);
+    set((state) => {
+      const nextFileMap = new Map(state.fileMap);
+      const nextProjectContents = new Map(state.projectFileContents);
+      const nextIndexed = new Map(state.indexedCodeStructures);
+      deleted.forEach((path) => {
+        nextFileMap.delete(path);
+        nextProjectContents.delete(path);
+        nextIndexed.delete(path);
+      });
+      changedPaths.forEach((path) => {
+        nextIndexed.delete(path);
+        const content = reloaded.get(path)!;
+        if (nextFileMap.has(path)) nextFileMap.set(path, content);
+        if (nextProjectContents.has(path)) nextProjectContents.set(path, content);
+      });
+      const semanticLinksById = deleted.size > 0
+        ? Object.fromEntries(Object.entries(state.semanticLinksById).filter(([, link]) =>
+          !deleted.has(getFileIdForNode(link.source as string)) && !deleted.has(getFileIdForNode(link.target as string))))
+        : state.semanticLinksById;
+      return {
+        fileMap: nextFileMap,
+        projectFileContents: nextProjectContents,
+        indexedCodeStructures: nextIndexed,
+        semanticLinksById,
+        localFileHandles: nextHandles
+      };
+    });
+
+    if (gitignoreChanged) set({ gitignoreFiles });
+    if (changes.added.length > 0 || deleted.size > 0 || gitignoreChanged) {
+      // Candidatos guardam todos os caminhos; applyIngestionRules decide quais entram no grafo
+      set((state) => ({
+        ingestionCandidates: [...state.ingestionCandidates.filter((path) => !deleted.has(path)), ...changes.added]
+      }));
+      get().applyIngestionRules();
+    }
+    const { childrenIndex, descendantCount } = get();
+    get().updateRootNode((prev) => (prev ? syncTreeNode(prev, childrenIndex, descendantCount, changedPaths) : prev));
+
+    void get().updateSemanticEdgesForFiles(Array.from(reloaded, ([path, content]) => ({ path, content })));
+    const selectedPath = get().selectedNode?.path;
+    if (selectedPath && deleted.has(getFileIdForNode(selectedPath))) {
+      get().selectNode(null);
+    }
+
+    useBasketStore.getState().flagChangedBasePaths([...changedPaths, ...changes.deleted]);
+    return changes;
+  },
+
+  applyIngestionRules: (rules) => {
+    const ingestionRules = rules ?? get().ingestionRules;
+    const { ingestionCandidates, gitignoreFiles } = get();
+    // Sessão aberta sem projeto carregado: só guarda as regras
+    if (ingestionCandidates.length === 0) {
+      set({ ingestionRules });
+      return;
+    }
+    const ingestionFilter = createIngestionFilter(gitignoreFiles, ingestionRules);
+    const allFilePaths = ingestionCandidates.filter((path) => !ingestionFilter(path).ignored);
+    const kept = new Set(allFilePaths);
+    const childrenIndex = buildChildrenIndex(allFilePaths);
+    const descendantCount = computeDescendantCounts(childrenIndex);
+
+    set((state) => ({
+      ingestionRules,
+      allFilePaths,
+      childrenIndex,
+      descendantCount,
+      // Arestas para arquivos que saíram do projeto ficariam penduradas no grafo
+      semanticLinksById: Object.fromEntries(Object.entries(state.semanticLinksById).filter(([, link]) =>
+        kept.has(getFileIdForNode(link.source as string)) && kept.has(getFileIdForNode(link.target as string))))
+    }));
+    get().updateRootNode((prev) => (prev ? syncTreeNode(prev, childrenIndex, descendantCount, new Set()) : prev));
+  },
+
   searchRelevantFiles: async () => {
     const { searchQuery, rootNode, allFilePaths } = get();
     if (!searchQuery.trim() || !rootNode) return;
@@ -1473,7 +2388,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
 
     if (content) {
       const existingStructure = get().findCodeStructureForPath(path);
-      get().updateSemanticEdgesForFile(path, content, existingStructure);
+      void get().updateSemanticEdgesForFile(path, content, existingStructure);
     }
     return content;
   },
@@ -1498,7 +2413,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
           analyzeFile(content, selectedName, { ttlMs: analysisCacheTtlMs }).then((structure) => {
             node.codeStructure = structure;
             get().updateRootNode(prev => (prev ? { ...prev } : null));
-            get().updateSemanticEdgesForFile(selectedPath, content, structure);
+            void get().updateSemanticEdgesForFile(selectedPath, content, structure);
             set({ status: AppStatus.IDLE });
           });
         }
@@ -1582,12 +2497,16 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     set({
       promptItems: response.session.prompts,
       sessionId: response.sessionId,
-      sessionLayout: response.session.layout
+      sessionLayout: response.session.layout?.graphHash
         ? { hash: response.session.layout.graphHash, positions: response.session.layout.positions }
         : null,
+      layoutAlgorithms: { ...DEFAULT_LAYOUT_ALGORITHMS, ...response.session.layout?.algorithms },
       fileMap: new Map(),
       status: AppStatus.IDLE
     });
+    if (response.session.ingestionRules) {
+      get().applyIngestionRules(response.session.ingestionRules);
+    }
     get().storeSessionMeta(response.sessionId, signatureOverride ?? get().projectSignature);
   },
   storeSessionMeta: (nextSessionId, signature) => {
@@ -1634,7 +2553,9 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         semanticLinks: Object.values(graphState.semanticLinksById).map((link) => ({
           source: typeof link.source === 'string' ? link.source : link.source.id,
           target: typeof link.target === 'string' ? link.target : link.target.id,
-          kind: link.kind
+          kind: link.kind,
+          symbols: link.symbols,
+          lineRanges: link.lineRanges
         })),
         graphViewMode: graphState.graphViewMode
       },
@@ -1642,38 +2563,44 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         selectedNodeId: graphState.selectedNode?.id ?? null
       },
       prompts: graphState.promptItems,
-      layout: layoutCache
-        ? {
-          graphHash: layoutCache.hash,
-          positions: layoutCache.positions
-        }
-        : null
+      ingestionRules: graphState.ingestionRules,
+      // Sem cache de posições ainda vale salvar os algoritmos escolhidos
+      layout: {
+        graphHash: layoutCache?.hash ?? '',
+        positions: layoutCache?.positions ?? {},
+        algorithms: graphState.layoutAlgorithms
+      }
     };
   },
-  updateSemanticEdgesForFile: (path, content, codeStructure) => {
+  updateSemanticEdgesForFile: (path, content, codeStructure) =>
+    get().updateSemanticEdgesForFiles([{ path, content, codeStructure }]),
+  updateSemanticEdgesForFiles: async (files) => {
+    if (files.length === 0) return;
+    const { buildSemanticLinksForFile } = await loadModuleParser();
     const filePaths = new Set(get().allFilePaths);
     if (filePaths.size === 0) return;
-    const index: SymbolIndex = new Map();
-    Object.values(get().nodesById).forEach((node) => {
-      if (node.type === 'function' || node.type === 'class' || node.type === 'variable' || node.type === 'api_endpoint') {
-        const existing = index.get(node.name) ?? [];
-        existing.push(node.id);
-        index.set(node.name, existing);
-      }
+    // Todos os símbolos conhecidos, não só os visíveis: a visão de símbolos liga
+    // chamadas a arquivos ainda não expandidos
+    const structures = collectCodeStructures(get().rootNode, get().indexedCodeStructures);
+    files.forEach(({ path, codeStructure }) => {
+      if (codeStructure) structures.set(path, codeStructure);
     });
-    const { links, sourceIds } = buildSemanticLinksForFile({
-      sourcePath: path,
-      content,
-      codeStructure,
-      filePaths,
-      symbolIndex: index
+    const index = buildSymbolIndex(structures);
+    const links: SemanticLink[] = [];
+    const sourceIds = new Set<string>();
+    files.forEach(({ path, content, codeStructure }) => {
+      const result = buildSemanticLinksForFile({
+        sourcePath: path,
+        content,
+        codeStructure,
+        filePaths,
+        symbolIndex: index,
+        resolutionContext: get().moduleResolution
+      });
+      links.push(...result.links);
+      result.sourceIds.forEach((id) => sourceIds.add(id));
     });
-    const normalizedLinks: SemanticLink[] = links.map((link) => ({
-      ...link,
-      source: typeof link.source === 'string' ? link.source : link.source.id,
-      target: typeof link.target === 'string' ? link.target : link.target.id
-    }));
-    get().setSemanticLinks(normalizedLinks, sourceIds);
+    get().setSemanticLinks(links, sourceIds);
   },
   findCodeStructureForPath: (path) => {
     const root = get().rootNode;
@@ -1687,7 +2614,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       }
       return undefined;
     };
-    return walk(root);
+    return walk(root) ?? get().indexedCodeStructures.get(path);
   },
   rootNode: null,
   highlightedPaths: [],
@@ -1704,9 +2631,18 @@ export const useGraphStore = create<GraphState>((set, get) => ({
   linksById: {},
   semanticLinksById: {},
   graphViewMode: 'structural',
+  layoutAlgorithms: { ...DEFAULT_LAYOUT_ALGORITHMS },
   flowQuery: { sourceId: null, targetId: null },
   flowPathNodeIds: new Set(),
   flowPathLinkIds: new Set(),
+  impactQuery: { nodeId: null, maxHops: DEFAULT_IMPACT_MAX_HOPS },
+  impactEntries: [],
+  impactNodeIds: new Set(),
+  impactLinkIds: new Set(),
+  selectedCycleId: null,
+  cycleNodeIds: new Set(),
+  cycleLinkIds: new Set(),
+  focusRequest: null,
   requestExpandNode: (path) => get().expandNode(path),
   optimizedPrompt: null,
   isOptimizing: false,
@@ -1747,7 +2683,14 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       graphViewMode: 'structural',
       flowQuery: { sourceId: null, targetId: null },
       flowPathNodeIds: new Set(),
-      flowPathLinkIds: new Set()
+      flowPathLinkIds: new Set(),
+      impactQuery: { nodeId: null, maxHops: get().impactQuery.maxHops },
+      impactEntries: [],
+      impactNodeIds: new Set(),
+      impactLinkIds: new Set(),
+      selectedCycleId: null,
+      cycleNodeIds: new Set(),
+      cycleLinkIds: new Set()
     });
   },
   updateRootNode: (updater) => {
@@ -1756,7 +2699,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       const expandedDirectories = nextRoot
         ? (state.expandedDirectories.size ? state.expandedDirectories : new Set<string>([nextRoot.path]))
         : new Set<string>();
-      const { nodes, links, nodesById, linksById } = computeGraph(nextRoot, state.highlightedPaths, expandedDirectories);
+      const { nodes, links, nodesById, linksById } = computeGraph(nextRoot, state.highlightedPaths, expandedDirectories, state.diffStatusByPath);
       return {
         rootNode: nextRoot,
         expandedDirectories,
@@ -1769,8 +2712,8 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     });
   },
   setHighlightedPaths: (paths) => {
-    const { rootNode, expandedDirectories } = get();
-    const { nodes, links, nodesById, linksById } = computeGraph(rootNode, paths, expandedDirectories);
+    const { rootNode, expandedDirectories, diffStatusByPath } = get();
+    const { nodes, links, nodesById, linksById } = computeGraph(rootNode, paths, expandedDirectories, diffStatusByPath);
     set({ highlightedPaths: paths, nodes, links, nodesById, linksById });
   },
   setLoadingPaths: (paths) => set({ loadingPaths: paths }),
@@ -1848,7 +2791,7 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       }
       const expandedDirectories = new Set(state.expandedDirectories);
       expandedDirectories.add(path);
-      const { nodes, links, nodesById, linksById } = computeGraph(state.rootNode, state.highlightedPaths, expandedDirectories);
+      const { nodes, links, nodesById, linksById } = computeGraph(state.rootNode, state.highlightedPaths, expandedDirectories, state.diffStatusByPath);
       return { expandedDirectories, nodes, links, nodesById, linksById };
     });
   },
@@ -1861,11 +2804,21 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       } else {
         expandedDirectories.add(path);
       }
-      const { nodes, links, nodesById, linksById } = computeGraph(state.rootNode, state.highlightedPaths, expandedDirectories);
+      const { nodes, links, nodesById, linksById } = computeGraph(state.rootNode, state.highlightedPaths, expandedDirectories, state.diffStatusByPath);
       return { expandedDirectories, nodes, links, nodesById, linksById };
     });
   },
 
+  toggleFileSymbols: (path) => {
+    const fileNode = get().nodesById[path];
+    if (!fileNode || fileNode.type !== 'file') return;
+    get().toggleDirectory(path);
+    // Sem estrutura ainda: a análise do arquivo cria os nós de símbolo ao terminar
+    if (get().expandedDirectories.has(path) && !get().findCodeStructureForPath(path)) {
+      get().analyzeSelectedFile(fileNode);
+    }
+  },
+
   setRequestExpandNode: (handler) => set({ requestExpandNode: handler }),
 
   restoreSession: (graph, selection) => {
@@ -1898,6 +2851,13 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       flowQuery: { sourceId: null, targetId: null },
       flowPathNodeIds: new Set(),
       flowPathLinkIds: new Set(),
+      impactQuery: { nodeId: null, maxHops: get().impactQuery.maxHops },
+      impactEntries: [],
+      impactNodeIds: new Set(),
+      impactLinkIds: new Set(),
+      selectedCycleId: null,
+      cycleNodeIds: new Set(),
+      cycleLinkIds: new Set(),
       // Phase 5 restore logic could go here
       missingDependencies: [],
       selectedNodeIds: new Set()
@@ -1928,10 +2888,25 @@ export const useGraphStore = create<GraphState>((set, get) => ({
       });
       return { semanticLinksById: nextLinks };
     });
+    // Novas arestas podem ampliar o raio de impacto em análise
+    const { impactQuery } = get();
+    if (impactQuery.nodeId) {
+      get().setImpactQuery(impactQuery.nodeId, impactQuery.maxHops);
+    }
+    // O ciclo destacado pode ter mudado ou deixado de existir
+    const { selectedCycleId } = get();
+    if (selectedCycleId) {
+      const cycle = findImportCycles(Object.values(get().semanticLinksById)).find((item) => item.id === selectedCycleId);
+      get().setSelectedCycle(cycle ?? null);
+    }
   },
 
   setGraphViewMode: (mode) => set({ graphViewMode: mode }),
 
+  setLayoutAlgorithm: (mode, algorithm) => set((state) => ({
+    layoutAlgorithms: { ...state.layoutAlgorithms, [mode]: algorithm }
+  })),
+
   setFlowQuery: (sourceId, targetId) => set({ flowQuery: { sourceId, targetId } }),
 
   setFlowHighlight: (nodeIds, linkIds) => set({
@@ -1944,6 +2919,79 @@ export const useGraphStore = create<GraphState>((set, get) => ({
     flowPathLinkIds: new Set()
   }),
 
+  setImpactQuery: (nodeId, maxHops) => {
+    const hops = maxHops ?? get().impactQuery.maxHops;
+    if (!nodeId) {
+      set({
+        impactQuery: { nodeId: null, maxHops: hops },
+        impactEntries: [],
+        impactNodeIds: new Set(),
+        impactLinkIds: new Set()
+      });
+      return;
+    }
+    const result = computeImpactRadius(nodeId, Object.values(get().semanticLinksById), hops);
+    set({
+      impactQuery: { nodeId, maxHops: hops },
+      impactEntries: result.entries,
+      impactNodeIds: new Set(result.nodeIds),
+      impactLinkIds: new Set(result.linkIds)
+    });
+  },
+
+  clearImpactQuery: () => get().setImpactQuery(null),
+
+  addImpactedFilesToModule: () => {
+    const { impactQuery, impactEntries, moduleInputs, nodesById } = get();
+    if (!impactQuery.nodeId) return;
+    const moduleId = `impact:${impactQuery.nodeId}`;
+    const targetName = nodesById[impactQuery.nodeId]?.name ?? impactQuery.nodeId;
+    const impactModule: ModuleInput = {
+      id: moduleId,
+      name: `Impacto de ${targetName}`,
+      files: collectImpactedFiles(impactQuery.nodeId, impactEntries),
+      dependencies: []
+    };
+    const exists = moduleInputs.some((module) => module.id === moduleId);
+    set({
+      moduleInputs: exists
+        ? moduleInputs.map((module) => (module.id === moduleId ? impactModule : module))
+        : [...moduleInputs, impactModule]
+    });
+  },
+
+  setSelectedCycle: (cycle) => {
+    if (!cycle) {
+      set({ selectedCycleId: null, cycleNodeIds: new Set(), cycleLinkIds: new Set() });
+      return;
+    }
+    const { nodeIds, linkIds } = getCycleHighlight(cycle);
+    set({ selectedCycleId: cycle.id, cycleNodeIds: new Set(nodeIds), cycleLinkIds: new Set(linkIds) });
+  },
+
+  exportCycleToPrompt: (cycle) => {
+    get().addPromptItem(buildCyclePromptItem(cycle));
+    set({ sidebarTab: 'prompt', isPromptOpen: true });
+  },
+
+  focusNode: (nodeId) => {
+    const filePath = getFileIdForNode(nodeId);
+    // Materializa e abre cada diretório ancestral; símbolos exigem o arquivo aberto
+    const segments = filePath.split('/');
+    for (let depth = 1; depth < segments.length; depth++) {
+      const dir = segments.slice(0, depth).join('/');
+      get().expandNode(dir);
+      get().expandDirectory(dir);
+    }
+    if (filePath !== nodeId) {
+      get().expandDirectory(filePath);
+    }
+    get().selectNode(nodeId);
+    set({ focusRequest: { nodeId, requestedAt: Date.now() } });
+  },
+
+  clearFocusRequest: () => set({ focusRequest: null }),
+
   expandNode: (path) => {
     const { rootNode, loadingPaths, childrenIndex, descendantCount } = get();
     if (!rootNode) return;
@@ -1955,7 +3003,11 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         if (node.children && node.children.length > 0) {
           return node;
         }
-        const nextChildren = buildChildNodes(path, childrenIndex, descendantCount);
+        const { indexedCodeStructures } = get();
+        const nextChildren = buildChildNodes(path, childrenIndex, descendantCount).map((child) => {
+          const structure = indexedCodeStructures.get(child.path);
+          return structure ? { ...child, codeStructure: structure } : child;
+        });
         return { ...node, children: nextChildren };
       }
       if (!node.children) return node;
@@ -1991,29 +3043,17 @@ export const useGraphStore = create<GraphState>((set, get) => ({
         fileContent = await ensureFileContent(selectedNode.path) || '';
       }
 
-      const response = await fetch('/api/optimize-prompt', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({
-          userIntent,
-          selectedNode: {
-            id: selectedNode.id,
-            name: selectedNode.name,
-            path: selectedNode.path,
-            type: selectedNode.type,
-          },
-          fileContent,
-        }),
+      const prompt = await optimizeIntentPrompt({
+        userIntent,
+        selectedNode: {
+          id: selectedNode.id,
+          name: selectedNode.name,
+          path: selectedNode.path,
+          type: selectedNode.type,
+        },
+        fileContent,
       });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || `Request failed with status ${response.status}`);
-      }
-
-      const data = await response.json() as { prompt?: string };
-      set({ optimizedPrompt: data.prompt || '', isOptimizing: false });
+      set({ optimizedPrompt: prompt, isOptimizing: false });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Falha ao otimizar o prompt.';
       set({ optimizedPrompt: message, isOptimizing: false });
@@ -7,6 +7,8 @@ export interface FileSystemNode {
   children?: FileSystemNode[];
   hasChildren?: boolean;
   descendantCount?: number;
+  /** Trecho que representa o arquivo numa thread (ex.: o patch de um diff) */
+  codeSnippet?: string;
   // Extended structure from analysis
   codeStructure?: CodeNode[];
 }
@@ -62,15 +64,32 @@ export interface Link extends d3.SimulationLinkDatum<FlatNode> {
   // Edge styling for dependency visualization
   edgeStyle?: 'solid' | 'dashed';
   dependencyType?: DependencyStatus;
+  /** Quantidade de arestas agregadas quando os extremos estão em clusters */
+  bundleSize?: number;
 }
 
 export type SemanticEdgeType = 'import' | 'call';
 
 export interface SemanticLink extends Link {
   kind: SemanticEdgeType;
+  /** Símbolos importados ou chamados que originam a aresta */
+  symbols?: string[];
+  /** Intervalos de linhas [início, fim] (1-based) no arquivo de origem */
+  lineRanges?: Array<[number, number]>;
 }
 
-export type GraphViewMode = 'structural' | 'semantic' | 'ui';
+/** `symbols` expande arquivos em funções, classes, variáveis e endpoints ligados por chamadas. */
+export type GraphViewMode = 'structural' | 'semantic' | 'symbols' | 'ui';
+
+/** `layered` é o DAG em camadas original; os demais são escolhidos por modo. */
+export type GraphLayoutAlgorithm = 'layered' | 'radial' | 'force' | 'hierarchy';
+
+export const DEFAULT_LAYOUT_ALGORITHMS: Record<GraphViewMode, GraphLayoutAlgorithm> = {
+  structural: 'radial',
+  semantic: 'force',
+  symbols: 'force',
+  ui: 'hierarchy'
+};
 
 export interface PromptItem {
   id: string;
@@ -114,6 +133,8 @@ export type SessionGraphState = {
     source: string;
     target: string;
     kind: SemanticEdgeType;
+    symbols?: string[];
+    lineRanges?: Array<[number, number]>;
   }>;
   graphViewMode?: GraphViewMode;
 };
@@ -125,6 +146,13 @@ export type SessionSelectionState = {
 export type SessionLayoutState = {
   graphHash: string;
   positions: Record<string, { x: number; y: number }>;
+  algorithms?: Partial<Record<GraphViewMode, GraphLayoutAlgorithm>>;
+};
+
+/** Globs por projeto aplicados na ingestão, além dos `.gitignore` */
+export type IngestionRules = {
+  include: string[];
+  exclude: string[];
 };
 
 export type SessionPayload = {
@@ -133,6 +161,7 @@ export type SessionPayload = {
   selection: SessionSelectionState;
   prompts: PromptItem[];
   layout?: SessionLayoutState | null;
+  ingestionRules?: IngestionRules;
 };
 
 export type PresenceCursor = {
@@ -299,6 +328,71 @@ export interface ProjectStructure {
   existingEndpoints: string[];
 }
 
+// ============================================
+// Repository Indexer Types
+// ============================================
+
+export type IndexJobStatus = 'pending' | 'in_progress' | 'ok' | 'error';
+
+export type IndexJobPhase = 'snapshot' | 'parsing' | 'linking' | 'persisting' | 'done';
+
+export type IndexJobProgress = {
+  phase: IndexJobPhase;
+  filesDone: number;
+  /** null enquanto o total é desconhecido (download do snapshot do GitHub) */
+  filesTotal: number | null;
+};
+
+export type IndexSnapshotSource =
+  | { source: 'upload'; fileCount: number }
+  | { source: 'github'; owner: string; repo: string; branch: string };
+
+export type RepositoryIndexStats = {
+  fileCount: number;
+  indexedFileCount: number;
+  symbolCount: number;
+  linkCount: number;
+  /** Arquivos indexáveis descartados por exceder o limite do servidor */
+  skippedFileCount?: number;
+};
+
+export type IndexJob = {
+  id: string;
+  status: IndexJobStatus;
+  payload: IndexSnapshotSource | null;
+  progress?: IndexJobProgress | null;
+  result?: RepositoryIndexStats | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+export type RepositoryIndexFile = {
+  path: string;
+  /** SHA-256 do conteúdo indexado */
+  hash: string;
+  size: number;
+  /** null para arquivos que não são código (ex.: tsconfig.json) */
+  codeStructure: CodeNode[] | null;
+  error?: string;
+};
+
+export type RepositoryIndex = {
+  jobId: string;
+  source: IndexSnapshotSource;
+  indexedAt: string;
+  files: RepositoryIndexFile[];
+  semanticLinks: Array<{
+    source: string;
+    target: string;
+    kind: SemanticEdgeType;
+    symbols?: string[];
+    lineRanges?: Array<[number, number]>;
+  }>;
+  stats: RepositoryIndexStats;
+};
+
 export type AiUsageTokens = {
   promptTokens: number | null;
   outputTokens: number | null;
@@ -318,6 +412,20 @@ export type AiAuditEntry = {
   costUsd?: number | null;
 };
 
+/**
+ * Modelo que o servidor aceita por requisição, identificado por `provedor:modelo`.
+ */
+export type AiModelOption = {
+  id: string;
+  provider: string;
+  model: string;
+};
+
+export type AiModelsResponse = {
+  defaultProvider: string;
+  models: AiModelOption[];
+};
+
 export type AiMetricsSummary = {
   totalRequests: number;
   successCount: number;
@@ -398,6 +506,11 @@ export interface ChatMessage {
   timestamp: number;
   /** Tokens estimados desta mensagem */
   tokenEstimate?: number;
+  /**
+   * Origem de `tokenEstimate`: heurística imediata, tokenizer do modelo ou
+   * uso real reportado pelo provedor.
+   */
+  tokenSource?: 'estimate' | 'tokenizer' | 'usage';
   status: 'pending' | 'sent' | 'failed';
   error?: string;
 }
@@ -457,6 +570,10 @@ export interface Thread {
   tokenCount: number;
   /** Status da thread */
   status: 'active' | 'paused' | 'completed';
+  /** Modelo escolhido (`provedor:modelo`); ausente usa o padrão do servidor */
+  model?: string;
+  /** Arquivos base alterados no disco depois da conversa (live reload) */
+  changedBasePaths?: string[];
   /** Timestamps */
   createdAt: number;
   updatedAt: number;
@@ -475,6 +592,59 @@ export interface SavedThread extends Thread {
   savedAt: number;
 }
 
+/**
+ * Resumo de mensagens antigas gerado pela IA ao compactar uma thread.
+ */
+export interface ThreadSummary {
+  summary: string;
+  /** Decisões acordadas na conversa */
+  decisions: string[];
+  /** Perguntas que ficaram sem resposta */
+  openQuestions: string[];
+}
+
+export type PullRequestFindingCategory = 'risk' | 'missing_test' | 'contract_break';
+
+/**
+ * Problema apontado pela revisão de PR com IA, ancorado em arquivo e linhas.
+ */
+export interface PullRequestReviewFinding {
+  category: PullRequestFindingCategory;
+  severity: 'low' | 'medium' | 'high';
+  title: string;
+  description: string;
+  path: string;
+  startLine?: number;
+  endLine?: number;
+  /** Código ou teste sugerido */
+  suggestion?: string;
+}
+
+export interface PullRequestAiReview {
+  summary: string;
+  findings: PullRequestReviewFinding[];
+}
+
+/** Arquivo do PR enviado para revisão: patch + trilha de impacto resumida */
+export interface PullRequestReviewFileInput {
+  path: string;
+  status: string;
+  patch?: string;
+  trail?: string;
+}
+
+/**
+ * Resultado da última compactação, exibido no TokenMonitor.
+ */
+export interface ThreadCompaction {
+  threadId: string;
+  tokensBefore: number;
+  tokensAfter: number;
+  /** `ai` quando o resumo veio da IA, `local` quando usou o resumo local */
+  source: 'ai' | 'local';
+  compactedAt: number;
+}
+
 /**
  * Estado do Basket (cesta de threads).
  * Armazena threads ativas e monitora uso de tokens.
@@ -518,6 +688,8 @@ export interface PromptAgentInput {
   task: string;
   context?: string;
   files?: string[];
+  /** Modelo (`provedor:modelo`); ausente usa a rota configurada no servidor */
+  model?: string;
 }
 
 /**
@@ -602,6 +774,44 @@ export interface GitHubPullRequestDetail extends GitHubPullRequest {
   totalDeletions: number;
 }
 
+export type ReviewCommentSide = 'LEFT' | 'RIGHT';
+
+export interface GitHubReviewComment {
+  id: number;
+  path: string;
+  /** Ausente quando o trecho comentado não existe mais no diff atual */
+  line: number | null;
+  start_line?: number | null;
+  side?: ReviewCommentSide;
+  body: string;
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  created_at: string;
+  html_url: string;
+  in_reply_to_id?: number;
+}
+
+export interface GitHubReview {
+  id: number;
+  state: 'PENDING' | 'COMMENTED' | 'APPROVED' | 'CHANGES_REQUESTED' | 'DISMISSED';
+  html_url: string;
+}
+
+export type ReviewEvent = 'COMMENT' | 'APPROVE' | 'REQUEST_CHANGES';
+
+/** Comentário ainda não enviado; vai junto na submissão da revisão */
+export interface PendingReviewComment {
+  id: string;
+  path: string;
+  line: number;
+  side: ReviewCommentSide;
+  start_line?: number;
+  start_side?: ReviewCommentSide;
+  body: string;
+}
+
 export interface GitHubCommitItem {
   sha: string;
   commit: {
@@ -618,6 +828,70 @@ export interface GitHubCommitItem {
   html_url: string;
 }
 
+export interface GitHubCompareResult {
+  status: 'diverged' | 'ahead' | 'behind' | 'identical';
+  ahead_by: number;
+  behind_by: number;
+  total_commits: number;
+  html_url: string;
+  commits: GitHubCommitItem[];
+  /** A API devolve no máximo 300 arquivos */
+  files?: GitHubPullRequestFile[];
+}
+
+/**
+ * Comparação entre duas refs (`base...head`) pintada no grafo.
+ */
+export interface RefComparison {
+  base: string;
+  head: string;
+  status: GitHubCompareResult['status'];
+  aheadBy: number;
+  behindBy: number;
+  totalCommits: number;
+  htmlUrl: string;
+  commits: GitHubCommitItem[];
+  files: GitHubPullRequestFile[];
+  /** A API de compare devolve no máximo 300 arquivos; os demais ficam de fora */
+  filesTruncated: boolean;
+  totalAdditions: number;
+  totalDeletions: number;
+}
+
+export interface GitHubCommitFile {
+  filename: string;
+  status: 'added' | 'modified' | 'removed' | 'renamed' | 'copied' | 'changed';
+  additions: number;
+  deletions: number;
+  changes: number;
+  previous_filename?: string;
+}
+
+export interface GitHubCommitDetail extends GitHubCommitItem {
+  files?: GitHubCommitFile[];
+}
+
+/** Como o overlay de histórico colore os arquivos do grafo. */
+export type HeatmapMode = 'off' | 'churn' | 'recency' | 'ownership';
+
+/**
+ * Histórico de um arquivo na janela analisada (renomeações já seguidas até o
+ * caminho atual).
+ */
+export interface FileChurnStats {
+  path: string;
+  commitCount: number;
+  additions: number;
+  deletions: number;
+  /** ISO do commit mais recente que tocou o arquivo */
+  lastCommitAt: string;
+  /** Commits por autor (login no GitHub ou nome do autor do commit) */
+  commitsByAuthor: Record<string, number>;
+  topAuthor: string;
+  /** Fração dos commits feitos pelo autor principal (0..1) */
+  topAuthorShare: number;
+}
+
 export interface GitHubRateLimit {
   limit: number;
   remaining: number;
@@ -653,17 +927,32 @@ export interface GitHubRepoItem {
   fork?: boolean;
 }
 
+/**
+ * Alteração de um arquivo no commit do PR. Sem `content` e com `previousPath`,
+ * é uma renomeação pura (o blob é reaproveitado).
+ */
+export interface PrFileChange {
+  path: string;
+  content?: string;
+  /** `base64` para conteúdo binário já codificado */
+  encoding?: 'utf-8' | 'base64';
+  /** Remove `path` do tree */
+  delete?: boolean;
+  /** Caminho de origem em renomeações */
+  previousPath?: string;
+}
+
 export interface CreatePrPayload {
   branchName: string;
   commitMessage: string;
   prTitle: string;
   prBody?: string;
-  files: Array<{
-    path: string;
-    content: string;
-  }>;
+  files: PrFileChange[];
 }
 
+/** Etapas de createBranchAndOpenPr, na ordem em que rodam */
+export type PrCommitStep = 'read-base' | 'create-blobs' | 'create-tree' | 'create-commit' | 'update-ref' | 'open-pr';
+
 // ==============================================================================
 // Visual Context Inspector & Execution Trail Types
 // ==============================================================================
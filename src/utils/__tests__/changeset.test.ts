@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { buildChangeset, buildSideBySideHunks, buildUnifiedPatch, diffLines } from '../changeset';
+import { ThreadSuggestion } from '../../types';
+
+const suggestion = (id: string, overrides: Partial<ThreadSuggestion>): ThreadSuggestion => ({
+  id,
+  type: 'snippet',
+  title: `Sugestão ${id}`,
+  description: '',
+  included: true,
+  ...overrides
+});
+
+const source = ['import a from "a";', '', 'export const one = 1;', 'export const two = 2;', 'export const three = 3;', ''].join('\n');
+
+describe('changeset', () => {
+  it('applies line-range replacements bottom-up and keeps the trailing newline', () => {
+    const [file] = buildChangeset(
+      [
+        suggestion('s1', { path: 'src/a.ts', lines: [3, 3], content: 'export const one = 10;' }),
+        suggestion('s2', { path: 'src/a.ts', lines: [5, 5], content: 'export const three = 30;\nexport const four = 4;' })
+      ],
+      () => source
+    );
+
+    expect(file.status).toBe('modified');
+    expect(file.conflicts).toEqual([]);
+    expect(file.updated).toBe(
+      ['import a from "a";', '', 'export const one = 10;', 'export const two = 2;', 'export const three = 30;', 'export const four = 4;', ''].join('\n')
+    );
+  });
+
+  it('reports overlapping ranges as conflicts and keeps the first suggestion', () => {
+    const [file] = buildChangeset(
+      [
+        suggestion('s1', { path: 'src/a.ts', lines: [3, 4], content: 'export const pair = [1, 2];' }),
+        suggestion('s2', { path: 'src/a.ts', lines: [4, 5], content: 'export const rest = [2, 3];' }),
+        suggestion('s3', { path: 'src/a.ts', type: 'file', content: 'whole file' })
+      ],
+      () => source
+    );
+
+    expect(file.applied.map((edit) => edit.suggestionId)).toEqual(['s1']);
+    expect(file.conflicts.map((conflict) => [conflict.suggestionId, conflict.conflictsWith])).toEqual([
+      ['s2', 'Sugestão s1'],
+      ['s3', 'Sugestão s1']
+    ]);
+    expect(file.updated).toContain('export const pair = [1, 2];\nexport const three = 3;');
+  });
+
+  it('does not apply snippets without a valid line range to an existing file', () => {
+    const [file] = buildChangeset(
+      [
+        suggestion('s1', { path: 'src/a.ts', content: 'export const one = 10;' }),
+        suggestion('s2', { path: 'src/a.ts', lines: [4, 2], content: 'reversed' }),
+        suggestion('s3', { path: 'src/a.ts', lines: [0, 0], content: 'zero' })
+      ],
+      () => source
+    );
+
+    expect(file.applied).toEqual([]);
+    expect(file.updated).toBe(source);
+    expect(file.unappliable).toEqual([
+      { suggestionId: 's1', title: 'Sugestão s1' },
+      { suggestionId: 's2', title: 'Sugestão s2', lines: [4, 2] },
+      { suggestionId: 's3', title: 'Sugestão s3', lines: [0, 0] }
+    ]);
+  });
+
+  it('treats unknown paths as new files and ignores suggestions without content', () => {
+    const files = buildChangeset(
+      [
+        suggestion('s1', { path: 'src/new.ts', lines: [4, 8], content: 'export {};' }),
+        suggestion('s2', { path: 'src/a.ts' }),
+        suggestion('s3', { content: 'sem caminho' })
+      ],
+      (path) => (path === 'src/a.ts' ? source : undefined)
+    );
+
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatchObject({ path: 'src/new.ts', status: 'added', original: '', updated: 'export {};\n' });
+  });
+
+  it('diffs lines with the longest common subsequence', () => {
+    const ops = diffLines('a\nb\nc\nd\n', 'a\nc\nx\nd\n');
+    expect(ops.map((op) => `${op.type}:${op.text}`)).toEqual(['equal:a', 'delete:b', 'equal:c', 'insert:x', 'equal:d']);
+  });
+
+  it('pairs removals and insertions in side-by-side rows', () => {
+    const [hunk] = buildSideBySideHunks(source, source.replace('two = 2', 'two = 22'));
+    const changed = hunk.find((row) => row.kind === 'changed');
+    expect(changed).toEqual({
+      kind: 'changed',
+      left: { line: 4, text: 'export const two = 2;' },
+      right: { line: 4, text: 'export const two = 22;' }
+    });
+    expect(hunk.filter((row) => row.kind === 'context')).toHaveLength(4);
+  });
+
+  it('exports a git-style unified patch', () => {
+    const files = buildChangeset(
+      [
+        suggestion('s1', { path: 'src/a.ts', lines: [4, 4], content: 'export const two = 22;' }),
+        suggestion('s2', { path: 'src/b.ts', content: 'export const b = true;' })
+      ],
+      (path) => (path === 'src/a.ts' ? source : undefined)
+    );
+
+    expect(buildUnifiedPatch(files)).toBe(
+      [
+        'diff --git a/src/a.ts b/src/a.ts',
+        '--- a/src/a.ts',
+        '+++ b/src/a.ts',
+        '@@ -1,5 +1,5 @@',
+        ' import a from "a";',
+        ' ',
+        ' export const one = 1;',
+        '-export const two = 2;',
+        '+export const two = 22;',
+        ' export const three = 3;',
+        'diff --git a/src/b.ts b/src/b.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/src/b.ts',
+        '@@ -0,0 +1 @@',
+        '+export const b = true;',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('marks a missing newline at end of file', () => {
+    const [file] = buildChangeset([suggestion('s1', { path: 'x.txt', lines: [1, 1], content: 'novo' })], () => 'velho');
+    expect(buildUnifiedPatch([file])).toBe(
+      ['diff --git a/x.txt b/x.txt', '--- a/x.txt', '+++ b/x.txt', '@@ -1 +1 @@', '-velho', '\\ No newline at end of file', '+novo', '\\ No newline at end of file', ''].join('\n')
+    );
+  });
+});
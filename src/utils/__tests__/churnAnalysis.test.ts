@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { buildHeatmapStyles, computeFileChurn, getOwnershipLegend, rankHotspots } from '../churnAnalysis';
+import { GitHubCommitDetail, GitHubCommitFile } from '../../types';
+
+const commit = (sha: string, login: string, date: string, files: GitHubCommitFile[]): GitHubCommitDetail => ({
+  sha,
+  commit: { message: sha, author: { name: login, date } },
+  author: { login, avatar_url: '' },
+  html_url: '',
+  files
+});
+
+const modified = (filename: string, additions: number, deletions: number): GitHubCommitFile => ({
+  filename,
+  status: 'modified',
+  additions,
+  deletions,
+  changes: additions + deletions
+});
+
+describe('churnAnalysis', () => {
+  const commits = [
+    commit('c1', 'ana', '2026-10-01T10:00:00Z', [modified('src/api.ts', 40, 10)]),
+    commit('c3', 'ana', '2026-10-15T10:00:00Z', [
+      modified('src/api.ts', 5, 5),
+      { filename: 'src/client.ts', previous_filename: 'src/http.ts', status: 'renamed', additions: 1, deletions: 1, changes: 2 }
+    ]),
+    commit('c2', 'bia', '2026-10-10T10:00:00Z', [modified('src/api.ts', 2, 0), modified('src/http.ts', 20, 0)]),
+    commit('c0', 'bia', '2026-09-01T10:00:00Z', [modified('src/http.ts', 3, 3)])
+  ];
+
+  it('should aggregate commits, lines and authors and follow renames', () => {
+    const stats = computeFileChurn(commits);
+
+    expect(Object.keys(stats).sort()).toEqual(['src/api.ts', 'src/client.ts']);
+    expect(stats['src/api.ts']).toMatchObject({
+      commitCount: 3,
+      additions: 47,
+      deletions: 15,
+      lastCommitAt: '2026-10-15T10:00:00Z',
+      topAuthor: 'ana'
+    });
+    expect(stats['src/api.ts'].topAuthorShare).toBeCloseTo(2 / 3);
+    expect(stats['src/client.ts']).toMatchObject({ commitCount: 3, additions: 24, topAuthor: 'bia' });
+  });
+
+  it('should rank hotspots and colour files per mode', () => {
+    const stats = computeFileChurn(commits);
+    const now = Date.parse('2026-10-16T10:00:00Z');
+
+    expect(rankHotspots(stats).map((entry) => entry.path)).toEqual(['src/api.ts', 'src/client.ts']);
+
+    const churn = buildHeatmapStyles(stats, 'churn', 30, now);
+    expect(churn.get('src/api.ts')!.intensity).toBeGreaterThan(churn.get('src/client.ts')!.intensity);
+    expect(churn.get('src/api.ts')!.fill).toMatch(/^#[0-9a-f]{6}$/);
+
+    const recency = buildHeatmapStyles(stats, 'recency', 30, now);
+    expect(recency.get('src/client.ts')!.intensity).toBeCloseTo(1 - 1 / 30);
+
+    expect(getOwnershipLegend(stats).map((entry) => entry.author)).toEqual(['ana', 'bia']);
+    expect(buildHeatmapStyles(stats, 'off', 30, now).size).toBe(0);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { buildCyclePromptItem, findImportCycles, getCycleHighlight } from '../cycleDetection';
+import { SemanticLink } from '../../types';
+
+const importLink = (source: string, target: string, line: number, symbols: string[] = []): SemanticLink => ({
+  source,
+  target,
+  kind: 'import',
+  symbols,
+  lineRanges: [[line, line]]
+});
+
+describe('cycleDetection', () => {
+  const links: SemanticLink[] = [
+    importLink('src/a.ts', 'src/b.ts', 1, ['b']),
+    importLink('src/b.ts', 'src/c.ts', 2, ['c']),
+    importLink('src/c.ts', 'src/a.ts', 3, ['a']),
+    importLink('src/c.ts', 'src/d.ts', 4),
+    importLink('src/x.ts', 'src/y.ts', 1),
+    importLink('src/y.ts', 'src/x.ts', 7),
+    { source: 'src/d.ts#run', target: 'src/a.ts#a', kind: 'call' }
+  ];
+
+  it('should list each strongly connected component with its files', () => {
+    const cycles = findImportCycles(links);
+
+    expect(cycles.map((cycle) => cycle.files)).toEqual([
+      ['src/a.ts', 'src/b.ts', 'src/c.ts'],
+      ['src/x.ts', 'src/y.ts']
+    ]);
+    // Arestas para fora do componente e chamadas não entram no ciclo
+    expect(cycles[0].edges.map((edge) => edge.target).sort()).toEqual(['src/a.ts', 'src/b.ts', 'src/c.ts']);
+  });
+
+  it('should mark the imports that close the loop', () => {
+    const [cycle] = findImportCycles(links);
+    const closing = cycle.edges.filter((edge) => edge.closesLoop);
+
+    expect(closing).toHaveLength(1);
+    expect(closing[0]).toMatchObject({ source: 'src/c.ts', target: 'src/a.ts', lineRanges: [[3, 3]] });
+    expect(getCycleHighlight(cycle).linkIds).toContain('import:src/c.ts-->src/a.ts');
+  });
+
+  it('should walk long cycles without recursion', () => {
+    const size = 50000;
+    const file = (index: number) => `src/chain/f${String(index).padStart(5, '0')}.ts`;
+    const chain = Array.from({ length: size }, (_, index) => importLink(file(index), file((index + 1) % size), 1));
+
+    const [cycle] = findImportCycles(chain);
+
+    expect(cycle.files).toHaveLength(size);
+    expect(cycle.edges.filter((edge) => edge.closesLoop)).toEqual([
+      expect.objectContaining({ source: file(size - 1), target: file(0) })
+    ]);
+  });
+
+  it('should export a cycle as a prompt item', () => {
+    const [, cycle] = findImportCycles(links);
+    const item = buildCyclePromptItem(cycle);
+
+    expect(item.type).toBe('context');
+    expect(item.content).toContain('src/y.ts:L7 → src/x.ts');
+    expect(item.content).toContain('- src/x.ts');
+  });
+});
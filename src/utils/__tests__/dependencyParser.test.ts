@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { buildSemanticLinksForFile, resolveImportTarget, normalizePath } from '../../dependencyParser';
+import {
+  buildModuleResolutionContext,
+  loadModuleParser,
+  resolveImportTarget,
+  normalizePath
+} from '../../dependencyParser';
+
+const { buildSemanticLinksForFile, extractModuleReferences } = await loadModuleParser();
 
 describe('dependencyParser', () => {
   describe('normalizePath', () => {
@@ -32,6 +39,90 @@ describe('dependencyParser', () => {
     });
   });
 
+  describe('resolveImportTarget with module resolution context', () => {
+    const files = new Map<string, string>([
+      ['tsconfig.json', '{ "files": [], "references": [{ "path": "./tsconfig.app.json" }] }'],
+      ['tsconfig.app.json', `{
+        // comentários são permitidos em tsconfig
+        "compilerOptions": { "baseUrl": ".", "paths": { "@app/*": ["apps/web/src/*"], "#config": ["config/index.ts"] } },
+      }`],
+      ['apps/web/src/pages/Home.tsx', ''],
+      ['apps/web/src/lib/date.ts', ''],
+      ['config/index.ts', ''],
+      ['shared/format.ts', ''],
+      ['packages/ui/package.json', JSON.stringify({
+        name: '@acme/ui',
+        exports: {
+          '.': { types: './dist/index.d.ts', import: './dist/index.js' },
+          './icons/*': './src/icons/*.tsx'
+        }
+      })],
+      ['packages/ui/src/index.ts', ''],
+      ['packages/ui/src/icons/Star.tsx', ''],
+      ['packages/utils/package.json', JSON.stringify({ name: 'utils', main: 'lib/main.js' })],
+      ['packages/utils/lib/main.js', ''],
+      ['packages/utils/src/strings.ts', '']
+    ]);
+    const filePaths = new Set(files.keys());
+    const context = buildModuleResolutionContext(filePaths, (path) => files.get(path));
+
+    it('should resolve tsconfig paths from referenced configs', () => {
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', '@app/lib/date', filePaths, context)).toBe('apps/web/src/lib/date.ts');
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', '#config', filePaths, context)).toBe('config/index.ts');
+    });
+
+    it('should fall back to baseUrl for bare specifiers', () => {
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', 'shared/format', filePaths, context)).toBe('shared/format.ts');
+    });
+
+    it('should resolve workspace packages through exports, main and subpaths', () => {
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', '@acme/ui', filePaths, context)).toBe('packages/ui/src/index.ts');
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', '@acme/ui/icons/Star', filePaths, context)).toBe('packages/ui/src/icons/Star.tsx');
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', 'utils', filePaths, context)).toBe('packages/utils/lib/main.js');
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', 'utils/strings', filePaths, context)).toBe('packages/utils/src/strings.ts');
+    });
+
+    it('should map emitted .js extensions back to TypeScript sources', () => {
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', '../lib/date.js', filePaths, context)).toBe('apps/web/src/lib/date.ts');
+    });
+
+    it('should return null for external packages', () => {
+      expect(resolveImportTarget('apps/web/src/pages/Home.tsx', 'react', filePaths, context)).toBeNull();
+    });
+  });
+
+  describe('resolveImportTarget with inherited tsconfig options', () => {
+    const files = new Map<string, string>([
+      ['tsconfig.paths.json', '{ "compilerOptions": { "paths": { "@lib/*": ["lib/*"] } } }'],
+      ['tsconfig.base.json', '{ "compilerOptions": { "baseUrl": "./src" } }'],
+      // Herda só os paths e define o próprio baseUrl
+      ['apps/api/tsconfig.json', '{ "extends": "../../tsconfig.paths.json", "compilerOptions": { "baseUrl": "." } }'],
+      ['apps/api/main.ts', ''],
+      ['apps/api/lib/db.ts', ''],
+      // Declara paths e herda o baseUrl
+      ['tools/tsconfig.json', '{ "extends": "../tsconfig.base.json", "compilerOptions": { "paths": { "~/*": ["shared/*"] } } }'],
+      ['tools/build.ts', ''],
+      ['src/shared/log.ts', '']
+    ]);
+    const filePaths = new Set(files.keys());
+    const context = buildModuleResolutionContext(filePaths, (path) => files.get(path));
+
+    it('should resolve inherited paths against the child baseUrl', () => {
+      expect(resolveImportTarget('apps/api/main.ts', '@lib/db', filePaths, context)).toBe('apps/api/lib/db.ts');
+    });
+
+    it('should resolve local paths against the inherited baseUrl', () => {
+      expect(resolveImportTarget('tools/build.ts', '~/log', filePaths, context)).toBe('src/shared/log.ts');
+    });
+
+    it('should keep a root config whose only option is baseUrl "."', () => {
+      const rootFiles = new Map([['tsconfig.json', '{ "compilerOptions": { "baseUrl": "." } }'], ['lib/db.ts', '']]);
+      const rootPaths = new Set(rootFiles.keys());
+      const rootContext = buildModuleResolutionContext(rootPaths, (path) => rootFiles.get(path));
+      expect(resolveImportTarget('src/main.ts', 'lib/db', rootPaths, rootContext)).toBe('lib/db.ts');
+    });
+  });
+
   describe('buildSemanticLinksForFile', () => {
     const filePaths = new Set([
       'src/App.tsx',
@@ -58,5 +149,120 @@ describe('dependencyParser', () => {
       expect(links[0].target).toBe('src/components/Button.tsx');
       expect(links[0].kind).toBe('import');
     });
+
+    it('should ignore imports inside comments and strings', () => {
+      const content = `
+        // import { Button } from './components/Button';
+        const example = "import './components/Button'";
+        /* require('./components/Button') */
+      `;
+
+      const { links } = buildSemanticLinksForFile({
+        sourcePath: 'src/App.tsx',
+        content,
+        filePaths,
+        symbolIndex
+      });
+
+      expect(links).toHaveLength(0);
+    });
+
+    it('should record re-exports with symbols and line ranges', () => {
+      const content = [
+        "import { Button as PrimaryButton } from './components/Button';",
+        "export { Button, type ButtonProps } from './components/Button';"
+      ].join('\n');
+
+      const { links } = buildSemanticLinksForFile({
+        sourcePath: 'src/App.tsx',
+        content,
+        filePaths,
+        symbolIndex
+      });
+
+      expect(links).toHaveLength(1);
+      expect(links[0].symbols).toEqual(['Button', 'ButtonProps']);
+      expect(links[0].lineRanges).toEqual([[1, 1], [2, 2]]);
+    });
+
+    it('should only link calls that resolve to imported or module symbols', () => {
+      const content = [
+        "import { formatDate } from './utils/format';",
+        'export function render(helper) {',
+        '  const parse = () => null;',
+        '  parse();',
+        '  helper();',
+        '  return formatDate(new Date());',
+        '}'
+      ].join('\n');
+      const callIndex: Map<string, string[]> = new Map([
+        ['formatDate', ['src/utils/format.ts#formatDate', 'src/legacy/dates.ts#formatDate']],
+        ['parse', ['src/parser.ts#parse']],
+        ['helper', ['src/helpers.ts#helper']]
+      ]);
+
+      const { links } = buildSemanticLinksForFile({
+        sourcePath: 'src/App.tsx',
+        content,
+        codeStructure: [{ id: 'render', name: 'render', type: 'function' }],
+        filePaths: new Set(['src/App.tsx', 'src/utils/format.ts']),
+        symbolIndex: callIndex
+      });
+
+      const callLinks = links.filter((link) => link.kind === 'call');
+      expect(callLinks).toHaveLength(1);
+      expect(callLinks[0].source).toBe('src/App.tsx#render');
+      expect(callLinks[0].target).toBe('src/utils/format.ts#formatDate');
+      expect(callLinks[0].lineRanges).toEqual([[6, 6]]);
+    });
+  });
+
+  describe('extractModuleReferences', () => {
+    it('should resolve namespace member calls and require bindings', () => {
+      const content = [
+        "import * as api from './api';",
+        "const legacy = require('./legacy');",
+        'api.fetchUser();',
+        'legacy();'
+      ].join('\n');
+
+      const { imports, calls } = extractModuleReferences('src/index.js', content);
+
+      expect(imports.map((reference) => reference.specifier)).toEqual(['./api', './legacy']);
+      expect(calls).toEqual([
+        expect.objectContaining({ callee: 'api', member: 'fetchUser', binding: 'import' }),
+        expect.objectContaining({ callee: 'legacy', binding: 'import' })
+      ]);
+    });
+
+    it('should map destructured require aliases to the exported name', () => {
+      const content = [
+        "const { fetchUser: loadUser, save } = require('./api');",
+        'loadUser();'
+      ].join('\n');
+
+      const { imports, calls } = extractModuleReferences('src/index.js', content);
+
+      expect(imports[0].symbols).toEqual(['fetchUser', 'save']);
+      expect(imports[0].bindings).toEqual([
+        { localName: 'loadUser', importedName: 'fetchUser' },
+        { localName: 'save', importedName: 'save' }
+      ]);
+      expect(calls).toEqual([expect.objectContaining({ callee: 'loadUser', binding: 'import' })]);
+    });
+
+    it('should read script blocks from single-file components', () => {
+      const content = [
+        '<template><div /></template>',
+        '<script lang="ts">',
+        "import Card from './Card.vue';",
+        '</script>'
+      ].join('\n');
+
+      const { imports } = extractModuleReferences('src/App.vue', content);
+
+      expect(imports).toHaveLength(1);
+      expect(imports[0].lineRange).toEqual([3, 3]);
+    });
   });
 });
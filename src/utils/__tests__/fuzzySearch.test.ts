@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchEntries, createSearchIndex, fuzzyMatch, searchIndex } from '../fuzzySearch';
+import { CodeNode } from '../../types';
+
+describe('fuzzySearch', () => {
+  const codeStructures = new Map<string, CodeNode[]>([
+    ['src/services/auth.ts', [
+      {
+        id: 'auth-service',
+        name: 'AuthService',
+        type: 'class',
+        children: [{ id: 'login', name: 'loginWithGithub', type: 'function' }]
+      },
+      { id: 'token', name: 'TOKEN_TTL', type: 'variable' }
+    ]],
+    ['server/routes.js', [{ id: 'route', name: 'GET /api/sessions', type: 'api_endpoint' }]]
+  ]);
+
+  const entries = buildSearchEntries({
+    filePaths: ['src/services/auth.ts', 'src/services/api.ts', 'server/routes.js'],
+    codeStructures,
+    threads: [{ id: 'thread-1', title: 'Refatorar autenticação', nodeId: 'src/services/auth.ts' }]
+  });
+
+  it('should rank word-boundary matches above scattered ones', () => {
+    const boundary = fuzzyMatch('lwg', 'loginWithGithub');
+    const scattered = fuzzyMatch('lwg', 'allowlisting');
+
+    expect(boundary).not.toBeNull();
+    expect(scattered).not.toBeNull();
+    expect(boundary!.score).toBeGreaterThan(scattered!.score);
+    expect(boundary!.matches).toEqual([0, 5, 9]);
+    expect(fuzzyMatch('xyz', 'loginWithGithub')).toBeNull();
+  });
+
+  it('should skip a word-boundary jump that leaves no room for the rest of the query', () => {
+    expect(fuzzyMatch('abz', 'axbzB')?.matches).toEqual([0, 2, 3]);
+  });
+
+  it('should derive directories and index nested symbols', () => {
+    expect(entries.filter((entry) => entry.kind === 'directory').map((entry) => entry.nodeId).sort())
+      .toEqual(['server', 'src', 'src/services']);
+
+    const nested = entries.find((entry) => entry.label === 'loginWithGithub');
+    expect(nested).toMatchObject({ kind: 'symbol', nodeId: 'src/services/auth.ts#loginWithGithub', symbolType: 'function' });
+    expect(entries.find((entry) => entry.label === 'GET /api/sessions')?.nodeId).toBe('server/routes.js#GET /api/sessions');
+    expect(entries.some((entry) => entry.label === 'TOKEN_TTL')).toBe(false);
+  });
+
+  it('should search files, symbols and saved threads together', () => {
+    const index = createSearchIndex(entries);
+
+    expect(searchIndex(index, 'auth')[0].entry.id).toBe('file:src/services/auth.ts');
+    expect(searchIndex(index, 'authserv')[0].entry.label).toBe('AuthService');
+
+    const thread = searchIndex(index, 'refatorar').find((result) => result.entry.kind === 'thread');
+    expect(thread?.entry).toMatchObject({ threadId: 'thread-1', nodeId: 'src/services/auth.ts' });
+    expect(searchIndex(index, '   ')).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { clusterGraph, getClusterId, getLodLevel } from '../graphClustering';
+import { ClusterData, FlatNode, Link } from '../../types';
+
+const dirNode = (path: string): FlatNode => ({
+  id: path,
+  name: path.split('/').pop() || 'root',
+  type: 'directory',
+  path,
+  group: path ? path.split('/').length + 1 : 1
+});
+
+const fileNode = (path: string): FlatNode => ({
+  id: path,
+  name: path.split('/').pop() as string,
+  type: 'file',
+  path,
+  group: path.split('/').length + 1
+});
+
+const structural = (source: string, target: string): Link => ({ source, target, kind: 'structural' });
+
+describe('graphClustering', () => {
+  const nodes = [
+    dirNode(''),
+    dirNode('src'),
+    dirNode('src/components'),
+    fileNode('src/components/Button.tsx'),
+    fileNode('src/components/Modal.tsx'),
+    dirNode('src/stores'),
+    fileNode('src/stores/cart.ts'),
+    fileNode('README.md')
+  ];
+  const links: Link[] = [
+    structural('', 'src'),
+    structural('', 'README.md'),
+    structural('src', 'src/components'),
+    structural('src/components', 'src/components/Button.tsx'),
+    structural('src/components', 'src/components/Modal.tsx'),
+    structural('src', 'src/stores'),
+    structural('src/stores', 'src/stores/cart.ts'),
+    { source: 'src/components/Button.tsx', target: 'src/stores/cart.ts', kind: 'import' },
+    { source: 'src/components/Modal.tsx', target: 'src/stores/cart.ts', kind: 'import' }
+  ];
+
+  it('should map zoom to detail levels', () => {
+    expect(getLodLevel(0.1)).toBe(0);
+    expect(getLodLevel(0.6)).toBe(2);
+    expect(getLodLevel(1.5)).toBe(3);
+  });
+
+  it('should collapse directories below the zoom depth and bundle their edges', () => {
+    const result = clusterGraph(nodes, links, { maxDepth: 2 });
+
+    expect(result.nodes.map((node) => node.id).sort()).toEqual(['', 'README.md', 'src', 'src/components', 'src/stores']);
+    const components = result.nodes.find((node) => node.id === 'src/components') as FlatNode;
+    expect(components.type).toBe('cluster');
+    expect(components.data as ClusterData).toEqual({ parentPath: 'src/components', childCount: 2 });
+
+    const bundle = result.links.find((link) => link.kind === 'import');
+    expect(bundle).toMatchObject({ source: 'src/components', target: 'src/stores', bundleSize: 2 });
+    // Arestas internas ao cluster somem; as originais não são alteradas
+    expect(result.links.some((link) => link.target === 'src/components/Button.tsx')).toBe(false);
+    expect(links[7]).not.toHaveProperty('bundleSize');
+  });
+
+  it('should reveal one more level under directories opened by the user', () => {
+    const result = clusterGraph(nodes, links, { maxDepth: 1, pinnedPaths: new Set(['src']) });
+
+    const types = Object.fromEntries(result.nodes.map((node) => [node.id, node.type]));
+    expect(types['src']).toBe('directory');
+    expect(types['src/components']).toBe('cluster');
+    expect(types['src/stores']).toBe('cluster');
+  });
+
+  it('should keep a large monorepo under the node budget', () => {
+    const bigNodes: FlatNode[] = [dirNode(''), dirNode('packages')];
+    for (let pkg = 0; pkg < 100; pkg += 1) {
+      bigNodes.push(dirNode(`packages/p${pkg}`), dirNode(`packages/p${pkg}/src`));
+      for (let file = 0; file < 200; file += 1) {
+        bigNodes.push(fileNode(`packages/p${pkg}/src/f${file}.ts`));
+      }
+    }
+
+    const result = clusterGraph(bigNodes, [], { maxDepth: Infinity, nodeBudget: 1500 });
+
+    expect(result.nodes.length).toBeLessThanOrEqual(1500);
+    expect(result.nodes.some((node) => node.id === 'packages/p0')).toBe(true);
+    expect(result.clusterCount).toBeGreaterThan(0);
+    expect(result.nodes.find((node) => node.id === getClusterId('packages'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { collectImpactedFiles, computeImpactRadius } from '../impactAnalysis';
+import { SemanticLink } from '../../types';
+
+const importLink = (source: string, target: string): SemanticLink => ({ source, target, kind: 'import' });
+const callLink = (source: string, target: string): SemanticLink => ({ source, target, kind: 'call' });
+
+describe('impactAnalysis', () => {
+  describe('computeImpactRadius', () => {
+    it('should collect transitive importers with their distance', () => {
+      const links = [
+        importLink('src/b.ts', 'src/a.ts'),
+        importLink('src/c.ts', 'src/b.ts'),
+        importLink('src/d.ts', 'src/c.ts')
+      ];
+      const result = computeImpactRadius('src/a.ts', links, 3);
+
+      expect(result.entries.map((entry) => [entry.id, entry.distance])).toEqual([
+        ['src/b.ts', 1],
+        ['src/c.ts', 2],
+        ['src/d.ts', 3]
+      ]);
+      expect(result.linkIds).toContain('import:src/c.ts-->src/b.ts');
+    });
+
+    it('should stop at the hop limit', () => {
+      const links = [
+        importLink('src/b.ts', 'src/a.ts'),
+        importLink('src/c.ts', 'src/b.ts')
+      ];
+      const result = computeImpactRadius('src/a.ts', links, 1);
+
+      expect(result.entries.map((entry) => entry.id)).toEqual(['src/b.ts']);
+      expect(result.nodeIds).not.toContain('src/c.ts');
+    });
+
+    it('should propagate from a symbol to importers of its file', () => {
+      const links = [
+        callLink('src/page.ts#render', 'src/utils.ts#format'),
+        importLink('src/app.ts', 'src/page.ts')
+      ];
+      const result = computeImpactRadius('src/utils.ts#format', links, 2);
+
+      expect(result.entries.map((entry) => entry.id)).toEqual(['src/page.ts#render', 'src/app.ts']);
+      expect(result.nodeIds).toContain('src/page.ts');
+      expect(collectImpactedFiles('src/utils.ts#format', result.entries)).toEqual([
+        'src/utils.ts',
+        'src/page.ts',
+        'src/app.ts'
+      ]);
+    });
+
+    it('should rank dependents at the same distance by reference count', () => {
+      const links = [
+        importLink('src/light.ts', 'src/core.ts'),
+        importLink('src/heavy.ts', 'src/core.ts'),
+        callLink('src/heavy.ts', 'src/core.ts#run'),
+        callLink('src/heavy.ts', 'src/core.ts#stop')
+      ];
+      const result = computeImpactRadius('src/core.ts', links);
+
+      expect(result.entries.map((entry) => [entry.id, entry.referenceCount])).toEqual([
+        ['src/heavy.ts', 3],
+        ['src/light.ts', 1]
+      ]);
+      expect(result.entries[0].kinds).toEqual(['import', 'call']);
+    });
+
+    it('should ignore links inside the analysed file', () => {
+      const links = [callLink('src/core.ts#a', 'src/core.ts#b')];
+      const result = computeImpactRadius('src/core.ts#b', links);
+
+      expect(result.entries).toEqual([]);
+    });
+  });
+});
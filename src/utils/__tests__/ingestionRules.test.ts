@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createIngestionFilter, isGitignorePath, previewIngestion } from '../ingestionRules';
+
+const gitignores = new Map([
+  ['.gitignore', '# build\n*.log\n/reports/\nlogs/\n!logs/keep.log\n'],
+  ['packages/api/.gitignore', 'generated/\n!important.log\n']
+]);
+
+describe('ingestionRules', () => {
+  it('keeps dot-paths that are not ignored by default', () => {
+    const filter = createIngestionFilter(new Map());
+    expect(filter('.github/workflows/ci.yml').ignored).toBe(false);
+    expect(filter('.eslintrc.json').ignored).toBe(false);
+    expect(filter('node_modules/react/index.js')).toMatchObject({ ignored: true, rule: { kind: 'builtin' } });
+  });
+
+  it('honours root and nested .gitignore files with negations', () => {
+    const filter = createIngestionFilter(gitignores);
+    expect(filter('src/debug.log')).toMatchObject({ ignored: true, rule: { source: '.gitignore', pattern: '*.log' } });
+    expect(filter('reports/index.html').ignored).toBe(true);
+    expect(filter('src/reports/index.html').ignored).toBe(false);
+    expect(filter('packages/api/generated/client.ts')).toMatchObject({ ignored: true, rule: { source: 'packages/api/.gitignore' } });
+    expect(filter('generated/client.ts').ignored).toBe(false);
+    expect(filter('packages/api/important.log').ignored).toBe(false);
+    expect(filter('packages/web/important.log').ignored).toBe(true);
+  });
+
+  it('does not re-include files inside an ignored directory', () => {
+    const filter = createIngestionFilter(gitignores);
+    expect(filter('logs/keep.log')).toMatchObject({ ignored: true, rule: { pattern: 'logs/' } });
+  });
+
+  it('lets include rescue hidden paths while exclude always wins', () => {
+    const filter = createIngestionFilter(gitignores, { include: ['reports/**', 'dist/types/**'], exclude: ['**/*.test.ts', 'reports/tmp/'] });
+    expect(filter('reports/index.html')).toMatchObject({ ignored: false, rule: { kind: 'include' } });
+    expect(filter('dist/types/index.d.ts')).toMatchObject({ ignored: false, rule: { kind: 'include' } });
+    expect(filter('reports/tmp/raw.json')).toMatchObject({ ignored: true, rule: { kind: 'exclude', pattern: 'reports/tmp/' } });
+    expect(filter('src/a.test.ts')).toMatchObject({ ignored: true, rule: { kind: 'exclude' } });
+    expect(filter('src/a.ts')).toEqual({ ignored: false });
+  });
+
+  it('never lets include rescue credentials or VCS metadata', () => {
+    const filter = createIngestionFilter(new Map([['.gitignore', 'secrets/\n']]), { include: ['**', '.env', 'secrets/**'], exclude: [] });
+    expect(filter('.env')).toMatchObject({ ignored: true, rule: { source: 'credentials' } });
+    expect(filter('apps/web/.env.local')).toMatchObject({ ignored: true, rule: { source: 'credentials' } });
+    expect(filter('deploy/.ssh/id_rsa').ignored).toBe(true);
+    expect(filter('certs/server.pem').ignored).toBe(true);
+    expect(filter('.aws/credentials').ignored).toBe(true);
+    expect(filter('.git/config')).toMatchObject({ ignored: true, rule: { source: 'builtin' } });
+    expect(filter('node_modules/react/index.js')).toMatchObject({ ignored: false, rule: { kind: 'include' } });
+    expect(filter('secrets/README.md')).toMatchObject({ ignored: false, rule: { kind: 'include' } });
+  });
+
+  it('counts the files each rule removes in the preview', () => {
+    const filter = createIngestionFilter(gitignores, { include: [], exclude: ['docs/'] });
+    const preview = previewIngestion(['src/a.ts', 'src/a.log', 'src/b.log', 'docs/intro.md', 'node_modules/x/index.js'], filter);
+    expect(preview).toMatchObject({ total: 5, kept: 1 });
+    expect(preview.entries.map((entry) => [entry.kind, entry.pattern, entry.count])).toEqual([
+      ['gitignore', '*.log', 2],
+      ['exclude', 'docs/', 1],
+      ['builtin', 'node_modules, dist, build...', 1]
+    ]);
+  });
+
+  it('recognises .gitignore paths', () => {
+    expect(isGitignorePath('.gitignore')).toBe(true);
+    expect(isGitignorePath('packages/api/.gitignore')).toBe(true);
+    expect(isGitignorePath('src/gitignore.ts')).toBe(false);
+  });
+});
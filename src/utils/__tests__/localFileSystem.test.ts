@@ -1,6 +1,87 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import JSZip from 'jszip';
-import { shouldIgnorePath, extractZipFile } from '../localFileSystem';
+import {
+  shouldIgnorePath,
+  isCredentialPath,
+  isNeverIngestedPath,
+  extractZipFile,
+  writeLocalFiles,
+  ensureWritePermission,
+  readDirectoryFiles,
+  diffLocalFiles,
+  LocalDirectoryHandle,
+  LocalFileHandle
+} from '../localFileSystem';
+
+type FakeEntry = FakeDirectory | { kind: 'file'; content: string };
+type FakeDirectory = { kind: 'directory'; entries: Map<string, FakeEntry> };
+
+const notFound = () => Object.assign(new Error('not found'), { name: 'NotFoundError' });
+
+/** In-memory stand-in for a FileSystemDirectoryHandle */
+const createFakeDirectory = (files: Record<string, string>, permission: 'granted' | 'prompt' = 'granted') => {
+  const root: FakeDirectory = { kind: 'directory', entries: new Map() };
+  const wrapFile = (name: string, entry: { kind: 'file'; content: string }): LocalFileHandle => ({
+    kind: 'file',
+    name,
+    // jsdom's File has no text(); browsers do
+    getFile: async () => Object.assign(new File([entry.content], name), { text: async () => entry.content }),
+    createWritable: async () => {
+      let buffer = '';
+      return {
+        write: async (data: string) => { buffer += data; },
+        close: async () => { entry.content = buffer; }
+      };
+    }
+  });
+  const wrapDirectory = (name: string, dir: FakeDirectory): LocalDirectoryHandle => ({
+    kind: 'directory',
+    name,
+    getDirectoryHandle: async (child, options) => {
+      let entry = dir.entries.get(child);
+      if (!entry && options?.create) {
+        entry = { kind: 'directory', entries: new Map() };
+        dir.entries.set(child, entry);
+      }
+      if (!entry || entry.kind !== 'directory') throw notFound();
+      return wrapDirectory(child, entry);
+    },
+    getFileHandle: async (child, options) => {
+      let entry = dir.entries.get(child);
+      if (!entry && options?.create) {
+        entry = { kind: 'file', content: '' };
+        dir.entries.set(child, entry);
+      }
+      if (!entry || entry.kind !== 'file') throw notFound();
+      return wrapFile(child, entry);
+    },
+    values: async function* () {
+      for (const [child, entry] of dir.entries) {
+        yield entry.kind === 'directory' ? wrapDirectory(child, entry) : wrapFile(child, entry);
+      }
+    },
+    queryPermission: async () => permission,
+    requestPermission: async () => 'granted'
+  });
+  const handle = wrapDirectory('project', root);
+  const read = (path: string): string | undefined => {
+    let current: FakeEntry | undefined = root;
+    for (const part of path.split('/')) {
+      current = current?.kind === 'directory' ? current.entries.get(part) : undefined;
+    }
+    return current?.kind === 'file' ? current.content : undefined;
+  };
+  Object.entries(files).forEach(([path, content]) => {
+    const parts = path.split('/');
+    let dir = root;
+    parts.slice(0, -1).forEach((part) => {
+      if (!dir.entries.has(part)) dir.entries.set(part, { kind: 'directory', entries: new Map() });
+      dir = dir.entries.get(part) as FakeDirectory;
+    });
+    dir.entries.set(parts[parts.length - 1], { kind: 'file', content });
+  });
+  return { handle, read };
+};
 
 describe('localFileSystem', () => {
   describe('shouldIgnorePath', () => {
@@ -16,6 +97,34 @@ describe('localFileSystem', () => {
       expect(shouldIgnorePath('package.json')).toBe(false);
       expect(shouldIgnorePath('README.md')).toBe(false);
     });
+
+    it('should ignore every .env variant and known credential files', () => {
+      expect(shouldIgnorePath('.env')).toBe(true);
+      expect(shouldIgnorePath('apps/web/.env.staging')).toBe(true);
+      expect(shouldIgnorePath('.env.production.local')).toBe(true);
+      expect(shouldIgnorePath('.envrc')).toBe(true);
+      expect(shouldIgnorePath('.npmrc')).toBe(true);
+      expect(shouldIgnorePath('home/.netrc')).toBe(true);
+      expect(shouldIgnorePath('.aws/credentials')).toBe(true);
+      expect(shouldIgnorePath('deploy/.ssh/id_ed25519')).toBe(true);
+      expect(shouldIgnorePath('certs/server.key')).toBe(true);
+    });
+
+    it('should never ingest credentials and VCS metadata, unlike build output', () => {
+      expect(isNeverIngestedPath('.env.local')).toBe(true);
+      expect(isNeverIngestedPath('.git/config')).toBe(true);
+      expect(isNeverIngestedPath('.codemind-backups/x/src/a.ts')).toBe(true);
+      expect(isNeverIngestedPath('node_modules/react/index.js')).toBe(false);
+      expect(isNeverIngestedPath('dist/types/index.d.ts')).toBe(false);
+      expect(isCredentialPath('certs/server.pem')).toBe(true);
+      expect(isCredentialPath('.git/config')).toBe(false);
+    });
+
+    it('should keep project dot directories such as .github and .storybook', () => {
+      expect(shouldIgnorePath('.github/workflows/ci.yml')).toBe(false);
+      expect(shouldIgnorePath('.storybook/main.ts')).toBe(false);
+      expect(shouldIgnorePath('.eslintrc.cjs')).toBe(false);
+    });
   });
 
   describe('extractZipFile', () => {
@@ -23,17 +132,19 @@ describe('localFileSystem', () => {
       const zip = new JSZip();
       zip.file('src/index.ts', 'console.log("hello");');
       zip.file('package.json', '{"name": "test-repo"}');
-      zip.file('node_modules/dummy.js', 'ignore me');
+      zip.file('node_modules/dummy.js', 'kept for include rules');
+      zip.file('.env', 'SECRET=1');
 
       const blob = await zip.generateAsync({ type: 'blob' });
       const zipFile = new File([blob], 'project.zip', { type: 'application/zip' });
 
       const files = await extractZipFile(zipFile);
-      expect(files.length).toBe(2);
+      expect(files.length).toBe(3);
       const paths = files.map(f => f.webkitRelativePath);
       expect(paths).toContain('src/index.ts');
       expect(paths).toContain('package.json');
-      expect(paths).not.toContain('node_modules/dummy.js');
+      expect(paths).toContain('node_modules/dummy.js');
+      expect(paths).not.toContain('.env');
     });
 
     it('should strip common root prefix from github zip archives', async () => {
@@ -51,4 +162,90 @@ describe('localFileSystem', () => {
       expect(paths).toContain('package.json');
     });
   });
+
+  describe('writeLocalFiles', () => {
+    const timestamp = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+    it('reports the plan on dry-run without touching the disk', async () => {
+      const { handle, read } = createFakeDirectory({ 'src/a.ts': 'old', 'src/b.ts': 'same' });
+
+      const results = await writeLocalFiles(handle, [
+        { path: 'src/a.ts', content: 'new', expected: 'old' },
+        { path: 'src/b.ts', content: 'same', expected: 'same' },
+        { path: 'src/c/new.ts', content: 'created', expected: '' }
+      ], { dryRun: true, timestamp });
+
+      expect(results.map((result) => [result.path, result.status])).toEqual([
+        ['src/a.ts', 'updated'],
+        ['src/b.ts', 'unchanged'],
+        ['src/c/new.ts', 'created']
+      ]);
+      expect(results[0].backupPath).toBe('.codemind-backups/2026-10-19T12-00-00-000Z/src/a.ts');
+      expect(read('src/a.ts')).toBe('old');
+      expect(read('src/c/new.ts')).toBeUndefined();
+    });
+
+    it('writes files, backs up overwritten ones and skips files changed on disk', async () => {
+      const { handle, read } = createFakeDirectory({ 'src/a.ts': 'old', 'src/stale.ts': 'edited by hand' });
+
+      const results = await writeLocalFiles(handle, [
+        { path: 'src/a.ts', content: 'new', expected: 'old' },
+        { path: 'src/stale.ts', content: 'suggested', expected: 'reviewed' },
+        { path: 'src/c/new.ts', content: 'created', expected: '' }
+      ], { timestamp });
+
+      expect(results.map((result) => result.status)).toEqual(['updated', 'stale', 'created']);
+      expect(read('src/a.ts')).toBe('new');
+      expect(read('.codemind-backups/2026-10-19T12-00-00-000Z/src/a.ts')).toBe('old');
+      expect(read('src/stale.ts')).toBe('edited by hand');
+      expect(read('src/c/new.ts')).toBe('created');
+      expect(shouldIgnorePath(results[0].backupPath!)).toBe(true);
+    });
+
+    it('asks for write permission again when it is no longer granted', async () => {
+      const { handle } = createFakeDirectory({}, 'prompt');
+      const requestPermission = vi.fn(handle.requestPermission!);
+      expect(await ensureWritePermission({ ...handle, requestPermission })).toBe(true);
+      expect(requestPermission).toHaveBeenCalledWith({ mode: 'readwrite' });
+    });
+  });
+
+  describe('live reload scanning', () => {
+    it('reads nested files with their relative paths, skipping folders that are never ingested', async () => {
+      const { handle } = createFakeDirectory({
+        'src/a.ts': 'a',
+        'src/nested/b.ts': 'b',
+        'node_modules/x/index.js': 'x',
+        '.codemind-backups/old/src/a.ts': 'old',
+        '.ssh/id_rsa': 'key'
+      });
+
+      const files = await readDirectoryFiles(handle);
+      // Build e dependências ficam: as regras de ingestão decidem depois
+      expect(files.map((file) => file.webkitRelativePath).sort()).toEqual(['node_modules/x/index.js', 'src/a.ts', 'src/nested/b.ts']);
+      expect(await files.find((file) => file.webkitRelativePath === 'src/a.ts')!.text()).toBe('a');
+    });
+
+    it('classifies added, modified and deleted files by timestamp and size', () => {
+      const file = (content: string, lastModified: number) => new File([content], 'f', { lastModified });
+      const previous = new Map([
+        ['same.ts', file('same', 1)],
+        ['touched.ts', file('v1', 1)],
+        ['resized.ts', file('v1', 1)],
+        ['gone.ts', file('x', 1)]
+      ]);
+      const next = new Map([
+        ['same.ts', file('same', 1)],
+        ['touched.ts', file('v2', 2)],
+        ['resized.ts', file('v1 longer', 1)],
+        ['new.ts', file('n', 3)]
+      ]);
+
+      expect(diffLocalFiles(previous, next)).toEqual({
+        added: ['new.ts'],
+        modified: ['touched.ts', 'resized.ts'],
+        deleted: ['gone.ts']
+      });
+    });
+  });
 });
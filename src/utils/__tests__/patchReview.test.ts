@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewAnchor, countReviewCommentsByPath, isCommentOnLine, parsePatchLines } from '../patchReview';
+import { GitHubReviewComment } from '../../types';
+
+const patch = [
+  '@@ -10,3 +10,4 @@ export function load() {',
+  '   const user = fetchUser();',
+  '-  return user;',
+  '+  if (!user) return null;',
+  '+  return user.profile;',
+  ' }',
+  '@@ -40,1 +41,1 @@',
+  '-const TTL = 10;',
+  '\\ No newline at end of file'
+].join('\n');
+
+const published = (id: number, path: string, line: number | null, inReplyTo?: number): GitHubReviewComment => ({
+  id,
+  path,
+  line,
+  side: 'RIGHT',
+  body: 'ok',
+  user: { login: 'ana', avatar_url: '' },
+  created_at: '2026-10-01T10:00:00Z',
+  html_url: '',
+  in_reply_to_id: inReplyTo
+});
+
+describe('patchReview', () => {
+  const lines = parsePatchLines(patch);
+
+  it('should number patch lines on both sides of each hunk', () => {
+    expect(lines[1]).toMatchObject({ kind: 'context', oldLine: 10, newLine: 10 });
+    expect(lines[2]).toMatchObject({ kind: 'del', oldLine: 11 });
+    expect(lines[3]).toMatchObject({ kind: 'add', newLine: 11 });
+    expect(lines[5]).toMatchObject({ kind: 'context', oldLine: 12, newLine: 13 });
+    expect(lines[7]).toMatchObject({ kind: 'del', oldLine: 40 });
+    expect(lines[8].kind).toBe('hunk');
+  });
+
+  it('should anchor single and multi-line selections and reject cross-hunk ones', () => {
+    expect(buildReviewAnchor(lines, 2, 2)).toEqual({ line: 11, side: 'LEFT' });
+    expect(buildReviewAnchor(lines, 4, 1)).toEqual({ line: 12, side: 'RIGHT', start_line: 10, start_side: 'RIGHT' });
+    expect(buildReviewAnchor(lines, 2, 3)).toEqual({ line: 11, side: 'RIGHT', start_line: 11, start_side: 'LEFT' });
+    expect(buildReviewAnchor(lines, 5, 7)).toBeNull();
+    expect(isCommentOnLine({ line: 11, side: 'LEFT' }, lines[2])).toBe(true);
+    expect(isCommentOnLine({ line: 11, side: 'RIGHT' }, lines[2])).toBe(false);
+  });
+
+  it('should count top-level and pending comments per file', () => {
+    const counts = countReviewCommentsByPath(
+      [published(1, 'src/a.ts', 3), published(2, 'src/a.ts', 3, 1), published(3, 'src/b.ts', null)],
+      [{ id: 'p1', path: 'src/a.ts', line: 5, side: 'RIGHT', body: 'nit' }]
+    );
+
+    expect(counts.get('src/a.ts')).toBe(2);
+    expect(counts.get('src/b.ts')).toBe(1);
+  });
+});
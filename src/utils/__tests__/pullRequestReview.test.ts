@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewFileInputs, findingsToSuggestions, summarizeTrail } from '../pullRequestReview';
+import { ComponentTrail, GitHubPullRequestFile } from '../../types';
+
+const trail: ComponentTrail = {
+  rootNodeId: 'ui:src/UserCard.tsx',
+  rootName: 'UserCard.tsx',
+  rootPath: 'src/UserCard.tsx',
+  nodes: [
+    { id: 'ui:src/UserCard.tsx', name: 'UserCard.tsx', path: 'src/UserCard.tsx', stage: 'ui', type: 'component' },
+    { id: 'state:useUser', name: 'useUser', path: 'src/hooks/useUser.ts', stage: 'state', type: 'hook' },
+    {
+      id: 'network:getUser',
+      name: 'getUser',
+      path: 'src/hooks/useUser.ts',
+      stage: 'network',
+      type: 'api',
+      metadata: { endpoint: '/api/users/:id', httpMethod: 'GET' }
+    }
+  ],
+  links: [],
+  summary: '',
+  estimatedTokens: 0
+};
+
+const file = (filename: string, status: GitHubPullRequestFile['status'], patch?: string): GitHubPullRequestFile => ({
+  sha: filename,
+  filename,
+  status,
+  additions: 1,
+  deletions: 0,
+  changes: 1,
+  patch
+});
+
+describe('pullRequestReview', () => {
+  it('should attach a trail summary to each changed file except removed ones', () => {
+    expect(summarizeTrail(trail)).toBe(
+      'state:useUser (src/hooks/useUser.ts) → network:getUser GET /api/users/:id (src/hooks/useUser.ts)'
+    );
+
+    const inputs = buildReviewFileInputs(
+      [file('src/UserCard.tsx', 'modified', '@@ -1 +1 @@\n+x'), file('src/old.ts', 'removed')],
+      (path) => (path === 'src/old.ts' ? null : trail)
+    );
+
+    expect(inputs[0]).toMatchObject({ path: 'src/UserCard.tsx', patch: '@@ -1 +1 @@\n+x' });
+    expect(inputs[0].trail).toContain('useUser');
+    expect(inputs[1]).toEqual({ path: 'src/old.ts', status: 'removed' });
+  });
+
+  it('should turn findings into suggestions ordered by severity with line ranges', () => {
+    const suggestions = findingsToSuggestions([
+      { category: 'missing_test', severity: 'low', title: 'Sem teste', description: '', path: 'src/a.ts', startLine: 4, endLine: 2 },
+      {
+        category: 'contract_break',
+        severity: 'high',
+        title: 'Assinatura mudou',
+        description: 'getUser agora exige id numérico',
+        path: 'src/api.ts',
+        startLine: 10,
+        endLine: 14,
+        suggestion: 'getUser(Number(id))'
+      }
+    ]);
+
+    expect(suggestions[0]).toMatchObject({
+      type: 'snippet',
+      title: '[Quebra de contrato] Assinatura mudou',
+      path: 'src/api.ts',
+      lines: [10, 14],
+      content: 'getUser(Number(id))'
+    });
+    expect(suggestions[1]).toMatchObject({ type: 'file', lines: [4, 4], description: 'Sem teste (severidade: low)' });
+  });
+
+  it('should keep findings without a valid start line as notes without content', () => {
+    const [suggestion] = findingsToSuggestions([
+      { category: 'risk', severity: 'medium', title: 'Sem tratamento', description: '', path: 'src/a.ts', startLine: 0, suggestion: 'try {}' }
+    ]);
+
+    expect(suggestion.type).toBe('file');
+    expect(suggestion.lines).toBeUndefined();
+    expect(suggestion.content).toBeUndefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { collectCodeStructures, liftSemanticLinks } from '../symbolGraph';
+import { buildSymbolIndex, loadModuleParser } from '../../dependencyParser';
+import { CodeNode, FileSystemNode, FlatNode, SemanticLink } from '../../types';
+
+const { buildSemanticLinksForFile } = await loadModuleParser();
+
+const flatNode = (id: string, type: string): FlatNode => ({ id, name: id, type, path: id, group: 1 });
+
+describe('symbolGraph', () => {
+  const serviceStructure: CodeNode[] = [
+    {
+      id: 'api',
+      name: 'ApiService',
+      type: 'class',
+      children: [{ id: 'fetch', name: 'fetchUser', type: 'function' }]
+    }
+  ];
+
+  it('should prefer analyzed structures over the repository index', () => {
+    const rootNode: FileSystemNode = {
+      id: '',
+      name: 'root',
+      path: '',
+      type: 'directory',
+      children: [{ id: 'src/api.ts', name: 'api.ts', path: 'src/api.ts', type: 'file', codeStructure: serviceStructure }]
+    };
+    const indexed = new Map<string, CodeNode[]>([
+      ['src/api.ts', []],
+      ['src/util.ts', [{ id: 'fmt', name: 'format', type: 'function' }]]
+    ]);
+
+    const structures = collectCodeStructures(rootNode, indexed);
+
+    expect(structures.get('src/api.ts')).toBe(serviceStructure);
+    expect(structures.has('src/util.ts')).toBe(true);
+    expect(buildSymbolIndex(structures).get('fetchUser')).toEqual(['src/api.ts#fetchUser']);
+  });
+
+  it('should connect calls to nested symbols of files outside the visible graph', () => {
+    const { links } = buildSemanticLinksForFile({
+      sourcePath: 'src/page.ts',
+      content: "import { fetchUser } from './api';\nexport function load() {\n  return fetchUser();\n}\n",
+      codeStructure: [{ id: 'load', name: 'load', type: 'function' }],
+      filePaths: new Set(['src/page.ts', 'src/api.ts']),
+      symbolIndex: buildSymbolIndex(new Map([['src/api.ts', serviceStructure]]))
+    });
+
+    expect(links.find((link) => link.kind === 'call')).toMatchObject({
+      source: 'src/page.ts#load',
+      target: 'src/api.ts#fetchUser'
+    });
+  });
+
+  it('should lift hidden symbol endpoints to their file and merge duplicates', () => {
+    const nodesById: Record<string, FlatNode> = {
+      'src/page.ts': flatNode('src/page.ts', 'file'),
+      'src/page.ts#load': flatNode('src/page.ts#load', 'function'),
+      'src/api.ts': flatNode('src/api.ts', 'file')
+    };
+    const links: SemanticLink[] = [
+      { source: 'src/page.ts#load', target: 'src/api.ts#fetchUser', kind: 'call', symbols: ['fetchUser'], lineRanges: [[3, 3]] },
+      { source: 'src/page.ts#load', target: 'src/api.ts#ApiService', kind: 'call', symbols: ['ApiService'], lineRanges: [[4, 4]] },
+      { source: 'src/api.ts#fetchUser', target: 'src/api.ts#ApiService', kind: 'call', symbols: ['ApiService'] },
+      { source: 'src/page.ts', target: 'src/api.ts', kind: 'import', symbols: ['fetchUser'] }
+    ];
+
+    const lifted = liftSemanticLinks(links, nodesById);
+
+    expect(lifted).toHaveLength(2);
+    expect(lifted[0]).toMatchObject({
+      source: 'src/page.ts#load',
+      target: 'src/api.ts',
+      symbols: ['fetchUser', 'ApiService'],
+      lineRanges: [[3, 3], [4, 4]]
+    });
+    expect(lifted[1]).toBe(links[3]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countTokensWith,
+  getTokenizer,
+  loadExactTokenizer,
+  reconcileCalibration,
+  resolveTokenizerFamily,
+} from '../tokenizers';
+
+describe('tokenizers', () => {
+  it('should pick the tokenizer family from the model id', () => {
+    expect(resolveTokenizerFamily(undefined)).toBe('gemini');
+    expect(resolveTokenizerFamily('google:gemini-2.5-flash')).toBe('gemini');
+    expect(resolveTokenizerFamily('openai:gpt-4o-mini')).toBe('gpt');
+    expect(resolveTokenizerFamily('openai:o3')).toBe('gpt');
+    expect(resolveTokenizerFamily('openai:llama3.1:8b')).toBe('llama');
+    expect(resolveTokenizerFamily('openai:qwen2.5-coder')).toBe('llama');
+    expect(resolveTokenizerFamily('openai:modelo-local')).toBe('heuristic');
+  });
+
+  it('should count digits, code and accented text per family', () => {
+    const gemini = getTokenizer('gemini');
+    const gpt = getTokenizer('gpt');
+
+    // SentencePiece do Gemini separa cada dígito; o BPE do GPT agrupa de 3 em 3
+    expect(gemini.countTokens('123456')).toBe(6);
+    expect(gpt.countTokens('123456')).toBe(2);
+
+    const code = 'export const total = items.reduce((sum, item) => sum + item.price, 0);';
+    const heuristic = getTokenizer('heuristic').countTokens(code);
+    expect(gpt.countTokens(code)).toBeGreaterThan(heuristic);
+
+    // Acentos custam mais que texto ASCII do mesmo tamanho
+    expect(gpt.countTokens('ação função')).toBeGreaterThan(gpt.countTokens('acao funcao'));
+    expect(gpt.countTokens('')).toBe(0);
+  });
+
+  it('should apply and reconcile the calibration factor', () => {
+    const [raw] = countTokensWith('gpt', ['Olá mundo, tudo bem?']);
+    const [calibrated] = countTokensWith('gpt', ['Olá mundo, tudo bem?'], 1.5);
+    expect(calibrated).toBe(Math.round(raw * 1.5));
+
+    expect(reconcileCalibration(1, 100, 130)).toBeCloseTo(1.09);
+    // Relações absurdas são limitadas e uso ausente não altera o fator
+    expect(reconcileCalibration(1, 10, 1000)).toBeCloseTo(1.3);
+    expect(reconcileCalibration(1.2, 0, 50)).toBe(1.2);
+  });
+
+  it('should swap the GPT approximation for the exact BPE once loaded', async () => {
+    expect(await loadExactTokenizer('gemini')).toBe(false);
+    expect(await loadExactTokenizer('gpt')).toBe(true);
+
+    const gpt = getTokenizer('gpt');
+    expect(gpt.countTokens('hello world')).toBe(2);
+    expect(gpt.countTokens('a <|endoftext|> b')).toBeGreaterThan(3);
+    expect(gpt.countTokens('')).toBe(0);
+  });
+});
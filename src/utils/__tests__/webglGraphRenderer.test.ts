@@ -0,0 +1,40 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createWebGLGraphRenderer,
+  decodePickColor,
+  encodePickColor,
+  parseRenderColor,
+} from '../webglGraphRenderer';
+
+const fakeCanvas = (context: unknown) =>
+  ({ getContext: vi.fn().mockReturnValue(context), addEventListener: vi.fn() }) as unknown as HTMLCanvasElement;
+
+describe('webglGraphRenderer', () => {
+  it('should round-trip node indexes through pick colors', () => {
+    [0, 1, 255, 256, 70000].forEach((index) => {
+      const [r, g, b] = encodePickColor(index);
+      expect(decodePickColor(r, g, b)).toBe(index);
+    });
+    expect(decodePickColor(0, 0, 0)).toBe(-1);
+  });
+
+  it('should parse the CSS colors used by the canvas renderer', () => {
+    expect(parseRenderColor('#ff0000')).toEqual([1, 0, 0, 1]);
+    expect(parseRenderColor('rgba(16, 185, 129, 0.3)')[3]).toBeCloseTo(0.3);
+    expect(parseRenderColor('transparent')).toEqual([0, 0, 0, 0]);
+    expect(parseRenderColor('#ffffff', 0.5)).toEqual([1, 1, 1, 0.5]);
+  });
+
+  it('should fall back when WebGL2 is missing or software rendered', () => {
+    expect(createWebGLGraphRenderer(fakeCanvas(null), null)).toBeNull();
+
+    const softwareContext = {
+      RENDERER: 0x1f01,
+      getExtension: () => ({ UNMASKED_RENDERER_WEBGL: 0x9246 }),
+      getParameter: () => 'Google SwiftShader',
+    };
+    const canvas = fakeCanvas(softwareContext);
+    expect(createWebGLGraphRenderer(canvas, null)).toBeNull();
+    expect(canvas.getContext).toHaveBeenCalledWith('webgl2', expect.objectContaining({ failIfMajorPerformanceCaveat: true }));
+  });
+});
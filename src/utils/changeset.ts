@@ -0,0 +1,292 @@
+import { ThreadSuggestion } from '../types';
+
+/**
+ * Changeset: sugestões incluídas de uma thread aplicadas sobre o conteúdo atual
+ * dos arquivos, com diff lado a lado e exportação como patch unificado.
+ */
+
+export interface ChangesetEdit {
+  suggestionId: string;
+  title: string;
+  /** Intervalo substituído no arquivo original (1-based, inclusivo) */
+  lines: [number, number];
+}
+
+export interface ChangesetConflict {
+  suggestionId: string;
+  title: string;
+  lines: [number, number];
+  /** Sugestão já aplicada que ocupa o mesmo intervalo */
+  conflictsWith: string;
+}
+
+/** Trecho sem intervalo válido num arquivo existente: não há onde aplicá-lo */
+export interface ChangesetUnappliable {
+  suggestionId: string;
+  title: string;
+  lines?: [number, number];
+}
+
+export interface ChangesetFile {
+  path: string;
+  status: 'added' | 'modified';
+  original: string;
+  updated: string;
+  applied: ChangesetEdit[];
+  conflicts: ChangesetConflict[];
+  unappliable: ChangesetUnappliable[];
+}
+
+export type DiffOp =
+  | { type: 'equal'; oldLine: number; newLine: number; text: string }
+  | { type: 'delete'; oldLine: number; text: string }
+  | { type: 'insert'; newLine: number; text: string };
+
+export interface SideBySideRow {
+  kind: 'context' | 'added' | 'removed' | 'changed';
+  left?: { line: number; text: string };
+  right?: { line: number; text: string };
+}
+
+const DIFF_CONTEXT_LINES = 3;
+// Acima disso o trecho alterado vira remoção + inserção em bloco
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (content: string) => {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+const rangesOverlap = (a: [number, number], b: [number, number]) => {
+  // Inserções puras (fim < início) só colidem no mesmo ponto
+  const aEnd = Math.max(a[0], a[1]);
+  const bEnd = Math.max(b[0], b[1]);
+  return a[0] <= bEnd && b[0] <= aEnd;
+};
+
+/**
+ * Aplica as sugestões (com `path` e `content`) sobre o conteúdo atual. Sugestões
+ * com `lines` substituem o intervalo; só sugestões do tipo `file` ou em arquivo
+ * novo substituem o arquivo inteiro. Trechos sem intervalo válido em arquivo
+ * existente ficam em `unappliable`. Intervalos sobrepostos ficam em `conflicts`
+ * e a primeira sugestão prevalece.
+ */
+export const buildChangeset = (
+  suggestions: ThreadSuggestion[],
+  getContent: (path: string) => string | undefined
+): ChangesetFile[] => {
+  const byPath = new Map<string, ThreadSuggestion[]>();
+  suggestions.forEach((suggestion) => {
+    if (!suggestion.path || suggestion.content === undefined) return;
+    byPath.set(suggestion.path, [...(byPath.get(suggestion.path) ?? []), suggestion]);
+  });
+
+  return Array.from(byPath.entries()).map(([path, fileSuggestions]) => {
+    const original = getContent(path);
+    const originalLines = splitLines(original ?? '');
+    const lineCount = originalLines.length;
+    const applied: Array<ChangesetEdit & { content: string[] }> = [];
+    const conflicts: ChangesetConflict[] = [];
+    const unappliable: ChangesetUnappliable[] = [];
+
+    fileSuggestions.forEach((suggestion) => {
+      const range = suggestion.lines;
+      const hasValidRange = !!range && range[0] >= 1 && range[1] >= range[0] && range[0] <= lineCount + 1;
+      if (original !== undefined && !hasValidRange && suggestion.type !== 'file') {
+        unappliable.push({ suggestionId: suggestion.id, title: suggestion.title, ...(range ? { lines: range } : {}) });
+        return;
+      }
+      const [start, end] = original !== undefined && hasValidRange ? range! : [1, lineCount];
+      const lines: [number, number] = [Math.min(start, lineCount + 1), Math.min(end, lineCount)];
+      const blocking = applied.find((edit) => rangesOverlap(edit.lines, lines));
+      if (blocking) {
+        conflicts.push({ suggestionId: suggestion.id, title: suggestion.title, lines, conflictsWith: blocking.title });
+        return;
+      }
+      applied.push({ suggestionId: suggestion.id, title: suggestion.title, lines, content: splitLines(suggestion.content!) });
+    });
+
+    const updatedLines = [...originalLines];
+    [...applied]
+      .sort((a, b) => b.lines[0] - a.lines[0])
+      .forEach((edit) => {
+        updatedLines.splice(edit.lines[0] - 1, Math.max(0, edit.lines[1] - edit.lines[0] + 1), ...edit.content);
+      });
+
+    const keepsFinalNewline = original === undefined || original === '' || original.endsWith('\n');
+    const updated = updatedLines.join('\n') + (keepsFinalNewline && updatedLines.length > 0 ? '\n' : '');
+
+    return {
+      path,
+      status: original === undefined ? 'added' : 'modified',
+      original: original ?? '',
+      updated,
+      applied: applied.map(({ content: _content, ...edit }) => edit),
+      conflicts,
+      unappliable
+    };
+  });
+};
+
+/**
+ * Diff por linhas (LCS) após descartar prefixo e sufixo comuns.
+ */
+export const diffLines = (original: string, updated: string): DiffOp[] => {
+  const a = splitLines(original);
+  const b = splitLines(updated);
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const ops: DiffOp[] = [];
+  for (let i = 0; i < prefix; i++) ops.push({ type: 'equal', oldLine: i + 1, newLine: i + 1, text: a[i] });
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    midA.forEach((text, i) => ops.push({ type: 'delete', oldLine: prefix + i + 1, text }));
+    midB.forEach((text, j) => ops.push({ type: 'insert', newLine: prefix + j + 1, text }));
+  } else {
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const table = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        table[i * cols + j] = midA[i] === midB[j]
+          ? table[(i + 1) * cols + j + 1] + 1
+          : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+        ops.push({ type: 'equal', oldLine: prefix + i + 1, newLine: prefix + j + 1, text: midA[i] });
+        i++;
+        j++;
+      } else if (i < midA.length && (j === midB.length || table[(i + 1) * cols + j] >= table[i * cols + j + 1])) {
+        ops.push({ type: 'delete', oldLine: prefix + i + 1, text: midA[i] });
+        i++;
+      } else {
+        ops.push({ type: 'insert', newLine: prefix + j + 1, text: midB[j] });
+        j++;
+      }
+    }
+  }
+
+  for (let k = suffix; k > 0; k--) {
+    ops.push({ type: 'equal', oldLine: a.length - k + 1, newLine: b.length - k + 1, text: a[a.length - k] });
+  }
+  return ops;
+};
+
+/**
+ * Agrupa as operações em hunks com `context` linhas inalteradas em volta.
+ */
+const groupHunks = (ops: DiffOp[], context: number): DiffOp[][] => {
+  const hunks: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') return;
+    const start = Math.max(0, index - context);
+    const end = Math.min(ops.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      hunks.push([start, end]);
+    }
+  });
+  return hunks.map(([start, end]) => ops.slice(start, end + 1));
+};
+
+/**
+ * Linhas do diff lado a lado, já agrupadas em hunks; remoções seguidas de
+ * inserções viram linhas "changed".
+ */
+export const buildSideBySideHunks = (original: string, updated: string, context = DIFF_CONTEXT_LINES): SideBySideRow[][] =>
+  groupHunks(diffLines(original, updated), context).map((hunk) => {
+    const rows: SideBySideRow[] = [];
+    let index = 0;
+    while (index < hunk.length) {
+      const op = hunk[index];
+      if (op.type === 'equal') {
+        rows.push({ kind: 'context', left: { line: op.oldLine, text: op.text }, right: { line: op.newLine, text: op.text } });
+        index++;
+        continue;
+      }
+      const deletes: Array<{ line: number; text: string }> = [];
+      const inserts: Array<{ line: number; text: string }> = [];
+      while (index < hunk.length && hunk[index].type === 'delete') {
+        const del = hunk[index] as Extract<DiffOp, { type: 'delete' }>;
+        deletes.push({ line: del.oldLine, text: del.text });
+        index++;
+      }
+      while (index < hunk.length && hunk[index].type === 'insert') {
+        const ins = hunk[index] as Extract<DiffOp, { type: 'insert' }>;
+        inserts.push({ line: ins.newLine, text: ins.text });
+        index++;
+      }
+      for (let k = 0; k < Math.max(deletes.length, inserts.length); k++) {
+        const left = deletes[k];
+        const right = inserts[k];
+        rows.push({ kind: left && right ? 'changed' : left ? 'removed' : 'added', left, right });
+      }
+    }
+    return rows;
+  });
+
+const formatRange = (start: number, length: number) => (length === 1 ? `${start}` : `${start},${length}`);
+
+/**
+ * Patch unificado (formato `git diff`) com os arquivos do changeset.
+ */
+export const buildUnifiedPatch = (files: ChangesetFile[]): string =>
+  files
+    .filter((file) => file.original !== file.updated)
+    .map((file) => {
+      const header = [
+        `diff --git a/${file.path} b/${file.path}`,
+        ...(file.status === 'added' ? ['new file mode 100644'] : []),
+        `--- ${file.status === 'added' ? '/dev/null' : `a/${file.path}`}`,
+        `+++ b/${file.path}`
+      ];
+      const oldLineCount = splitLines(file.original).length;
+      const newLineCount = splitLines(file.updated).length;
+      const oldMissingNewline = file.original !== '' && !file.original.endsWith('\n');
+      const newMissingNewline = file.updated !== '' && !file.updated.endsWith('\n');
+      const oldBefore = new Map<DiffOp, number>();
+      const newBefore = new Map<DiffOp, number>();
+      let oldSeen = 0;
+      let newSeen = 0;
+      const ops = diffLines(file.original, file.updated);
+      ops.forEach((op) => {
+        oldBefore.set(op, oldSeen);
+        newBefore.set(op, newSeen);
+        if (op.type !== 'insert') oldSeen++;
+        if (op.type !== 'delete') newSeen++;
+      });
+
+      const hunks = groupHunks(ops, DIFF_CONTEXT_LINES).map((hunk) => {
+        const oldLength = hunk.filter((op) => op.type !== 'insert').length;
+        const newLength = hunk.filter((op) => op.type !== 'delete').length;
+        const oldStart = oldLength === 0 ? oldBefore.get(hunk[0])! : oldBefore.get(hunk[0])! + 1;
+        const newStart = newLength === 0 ? newBefore.get(hunk[0])! : newBefore.get(hunk[0])! + 1;
+        const lines = [`@@ -${formatRange(oldStart, oldLength)} +${formatRange(newStart, newLength)} @@`];
+        hunk.forEach((op) => {
+          const prefix = op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+';
+          lines.push(`${prefix}${op.text}`);
+          const isLastOld = op.type !== 'insert' && op.oldLine === oldLineCount && oldMissingNewline;
+          const isLastNew = op.type !== 'delete' && op.newLine === newLineCount && newMissingNewline;
+          if ((op.type === 'equal' && (isLastOld || isLastNew)) || (op.type === 'delete' && isLastOld) || (op.type === 'insert' && isLastNew)) {
+            lines.push('\\ No newline at end of file');
+          }
+        });
+        return lines.join('\n');
+      });
+      return [...header, ...hunks].join('\n');
+    })
+    .join('\n')
+    .concat(files.some((file) => file.original !== file.updated) ? '\n' : '');
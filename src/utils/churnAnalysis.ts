@@ -0,0 +1,187 @@
+import { FileChurnStats, GitHubCommitDetail, HeatmapMode } from '../types';
+
+export const CHURN_WINDOW_OPTIONS = [7, 30, 90, 365];
+export const DEFAULT_CHURN_WINDOW_DAYS = 90;
+/** Cada commit custa uma requisição de detalhe na API do GitHub */
+export const MAX_CHURN_COMMITS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Autores além da paleta ficam com a cor de "outros"
+const OWNERSHIP_PALETTE = ['#38bdf8', '#f472b6', '#a3e635', '#fbbf24', '#c084fc', '#fb7185', '#2dd4bf', '#f97316'];
+const OTHER_AUTHORS_COLOR = '#64748b';
+
+const CHURN_RAMP = ['#fde68a', '#f97316', '#dc2626'];
+const RECENCY_RAMP = ['#1e3a8a', '#0ea5e9', '#67e8f9'];
+
+export interface HeatmapStyle {
+  fill: string;
+  stroke: string;
+  /** 0..1 dentro da métrica (churn/recência); autoria usa a participação do autor */
+  intensity: number;
+}
+
+export interface OwnershipLegendEntry {
+  author: string;
+  color: string;
+  fileCount: number;
+}
+
+const getCommitAuthor = (commit: GitHubCommitDetail) =>
+  commit.author?.login || commit.commit.author.name || 'desconhecido';
+
+/**
+ * Agrega o histórico por arquivo. Os commits são processados do mais recente
+ * para o mais antigo, então uma renomeação redireciona os commits anteriores
+ * para o caminho atual.
+ */
+export const computeFileChurn = (commits: GitHubCommitDetail[]): Record<string, FileChurnStats> => {
+  const stats: Record<string, FileChurnStats> = {};
+  const renamedTo = new Map<string, string>();
+  const resolvePath = (path: string) => {
+    let current = path;
+    const seen = new Set<string>();
+    while (renamedTo.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = renamedTo.get(current)!;
+    }
+    return current;
+  };
+
+  [...commits]
+    .sort((a, b) => Date.parse(b.commit.author.date) - Date.parse(a.commit.author.date))
+    .forEach((commit) => {
+      const author = getCommitAuthor(commit);
+      const date = commit.commit.author.date;
+      (commit.files ?? []).forEach((file) => {
+        const path = resolvePath(file.filename);
+        if (file.status === 'renamed' && file.previous_filename) {
+          renamedTo.set(file.previous_filename, path);
+        }
+        const entry = stats[path] ?? {
+          path,
+          commitCount: 0,
+          additions: 0,
+          deletions: 0,
+          lastCommitAt: date,
+          commitsByAuthor: {},
+          topAuthor: author,
+          topAuthorShare: 0
+        };
+        entry.commitCount += 1;
+        entry.additions += file.additions;
+        entry.deletions += file.deletions;
+        if (Date.parse(date) > Date.parse(entry.lastCommitAt)) entry.lastCommitAt = date;
+        entry.commitsByAuthor[author] = (entry.commitsByAuthor[author] ?? 0) + 1;
+        stats[path] = entry;
+      });
+    });
+
+  Object.values(stats).forEach((entry) => {
+    const [topAuthor, topCount] = Object.entries(entry.commitsByAuthor)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0];
+    entry.topAuthor = topAuthor;
+    entry.topAuthorShare = topCount / entry.commitCount;
+  });
+
+  return stats;
+};
+
+/**
+ * Pontuação de hotspot (0..1): metade pela frequência de commits, metade
+ * pelas linhas alteradas (raiz quadrada, para um arquivo gerado não dominar).
+ */
+const buildChurnScorer = (stats: FileChurnStats[]) => {
+  const maxCommits = Math.max(1, ...stats.map((entry) => entry.commitCount));
+  const maxLines = Math.max(1, ...stats.map((entry) => Math.sqrt(entry.additions + entry.deletions)));
+  return (entry: FileChurnStats) =>
+    0.5 * (entry.commitCount / maxCommits) + 0.5 * (Math.sqrt(entry.additions + entry.deletions) / maxLines);
+};
+
+export const rankHotspots = (stats: Record<string, FileChurnStats>, limit = 10) => {
+  const entries = Object.values(stats);
+  const score = buildChurnScorer(entries);
+  return entries
+    .map((entry) => ({ ...entry, score: score(entry) }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit);
+};
+
+/**
+ * Autores principais por quantidade de arquivos; a ordem define a cor.
+ */
+export const getOwnershipLegend = (stats: Record<string, FileChurnStats>): OwnershipLegendEntry[] => {
+  const fileCountByAuthor = new Map<string, number>();
+  Object.values(stats).forEach((entry) => {
+    fileCountByAuthor.set(entry.topAuthor, (fileCountByAuthor.get(entry.topAuthor) ?? 0) + 1);
+  });
+  return Array.from(fileCountByAuthor.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([author, fileCount], index) => ({
+      author,
+      fileCount,
+      color: OWNERSHIP_PALETTE[index] ?? OTHER_AUTHORS_COLOR
+    }));
+};
+
+const parseHex = (hex: string) => [1, 3, 5].map((offset) => parseInt(hex.slice(offset, offset + 2), 16));
+
+const toHex = (channels: number[]) =>
+  `#${channels.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+
+const mixColors = (from: string, to: string, t: number) => {
+  const a = parseHex(from);
+  const b = parseHex(to);
+  return toHex(a.map((channel, index) => channel + (b[index] - channel) * t));
+};
+
+const sampleRamp = (ramp: string[], t: number) => {
+  const clamped = Math.min(1, Math.max(0, t));
+  const scaled = clamped * (ramp.length - 1);
+  const index = Math.min(ramp.length - 2, Math.floor(scaled));
+  return mixColors(ramp[index], ramp[index + 1], scaled - index);
+};
+
+const styleFor = (fill: string, intensity: number): HeatmapStyle => ({
+  fill,
+  stroke: mixColors(fill, '#ffffff', 0.45),
+  intensity
+});
+
+/**
+ * Cores do overlay por caminho de arquivo, no modo escolhido.
+ */
+export const buildHeatmapStyles = (
+  stats: Record<string, FileChurnStats>,
+  mode: HeatmapMode,
+  windowDays: number,
+  now: number = Date.now()
+): Map<string, HeatmapStyle> => {
+  const styles = new Map<string, HeatmapStyle>();
+  const entries = Object.values(stats);
+  if (mode === 'off' || entries.length === 0) return styles;
+
+  if (mode === 'churn') {
+    const score = buildChurnScorer(entries);
+    entries.forEach((entry) => {
+      const intensity = score(entry);
+      styles.set(entry.path, styleFor(sampleRamp(CHURN_RAMP, intensity), intensity));
+    });
+  } else if (mode === 'recency') {
+    const windowMs = windowDays * DAY_MS;
+    entries.forEach((entry) => {
+      const age = Math.max(0, now - Date.parse(entry.lastCommitAt));
+      const intensity = Math.max(0, 1 - age / windowMs);
+      styles.set(entry.path, styleFor(sampleRamp(RECENCY_RAMP, intensity), intensity));
+    });
+  } else {
+    const colorByAuthor = new Map(getOwnershipLegend(stats).map((item) => [item.author, item.color]));
+    entries.forEach((entry) => {
+      const color = colorByAuthor.get(entry.topAuthor) ?? OTHER_AUTHORS_COLOR;
+      // Posse dividida fica mais apagada
+      styles.set(entry.path, styleFor(mixColors('#1e293b', color, 0.35 + 0.65 * entry.topAuthorShare), entry.topAuthorShare));
+    });
+  }
+
+  return styles;
+};
@@ -0,0 +1,195 @@
+import { PromptItem, SemanticLink } from '../types';
+import { getEndpointId, getFileIdForNode } from './impactAnalysis';
+
+/**
+ * Aresta de import dentro de um ciclo.
+ */
+export interface CycleEdge {
+  /** Id no formato de `semanticLinksById` (`import:origem-->destino`) */
+  linkId: string;
+  source: string;
+  target: string;
+  symbols: string[];
+  /** Intervalos de linhas [início, fim] (1-based) do import no arquivo de origem */
+  lineRanges: Array<[number, number]>;
+  /** Aresta de retorno na DFS: é o import que fecha o ciclo */
+  closesLoop: boolean;
+}
+
+/**
+ * Componente fortemente conexo do grafo de imports (dois ou mais arquivos que
+ * se importam de forma circular).
+ */
+export interface ImportCycle {
+  /** Estável entre recomputações: arquivos ordenados */
+  id: string;
+  files: string[];
+  edges: CycleEdge[];
+}
+
+/**
+ * Encontra os ciclos de import com Tarjan (iterativo, sem estourar a pilha em
+ * repositórios grandes). Em cada componente, uma DFS com coloração (também
+ * iterativa) marca as arestas de retorno: são os imports que fecham o ciclo.
+ */
+export const findImportCycles = (semanticLinks: SemanticLink[]): ImportCycle[] => {
+  const edgesByFile = new Map<string, CycleEdge[]>();
+  semanticLinks.forEach((link) => {
+    if (link.kind !== 'import') return;
+    const source = getFileIdForNode(getEndpointId(link.source));
+    const target = getFileIdForNode(getEndpointId(link.target));
+    if (source === target) return;
+    const bucket = edgesByFile.get(source) ?? [];
+    bucket.push({
+      linkId: `${link.kind}:${getEndpointId(link.source)}-->${getEndpointId(link.target)}`,
+      source,
+      target,
+      symbols: link.symbols ?? [],
+      lineRanges: link.lineRanges ?? [],
+      closesLoop: false
+    });
+    edgesByFile.set(source, bucket);
+  });
+
+  const files = Array.from(new Set([
+    ...edgesByFile.keys(),
+    ...Array.from(edgesByFile.values()).flatMap((edges) => edges.map((edge) => edge.target))
+  ])).sort();
+
+  // Tarjan iterativo
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  files.forEach((start) => {
+    if (index.has(start)) return;
+    const work: Array<{ file: string; next: number }> = [{ file: start, next: 0 }];
+    index.set(start, counter);
+    lowlink.set(start, counter);
+    counter += 1;
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const edges = edgesByFile.get(frame.file) ?? [];
+      if (frame.next < edges.length) {
+        const target = edges[frame.next].target;
+        frame.next += 1;
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowlink.set(target, counter);
+          counter += 1;
+          stack.push(target);
+          onStack.add(target);
+          work.push({ file: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowlink.set(frame.file, Math.min(lowlink.get(frame.file)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].file;
+        lowlink.set(parent, Math.min(lowlink.get(parent)!, lowlink.get(frame.file)!));
+      }
+      if (lowlink.get(frame.file) === index.get(frame.file)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.file);
+        if (component.length > 1) components.push(component.sort());
+      }
+    }
+  });
+
+  return components
+    .map((component) => {
+      const members = new Set(component);
+      const edgesInComponent = new Map<string, CycleEdge[]>();
+      component.forEach((file) => {
+        edgesInComponent.set(file, (edgesByFile.get(file) ?? [])
+          .filter((edge) => members.has(edge.target))
+          .map((edge) => ({ ...edge })));
+      });
+      const edges = component.flatMap((file) => edgesInComponent.get(file)!);
+
+      // DFS com coloração a partir do primeiro arquivo: aresta para nó cinza fecha o ciclo
+      const color = new Map<string, 'gray' | 'black'>([[component[0], 'gray']]);
+      const work: Array<{ file: string; next: number }> = [{ file: component[0], next: 0 }];
+      while (work.length > 0) {
+        const frame = work[work.length - 1];
+        const fileEdges = edgesInComponent.get(frame.file)!;
+        if (frame.next < fileEdges.length) {
+          const edge = fileEdges[frame.next];
+          frame.next += 1;
+          const state = color.get(edge.target);
+          if (state === 'gray') {
+            edge.closesLoop = true;
+          } else if (!state) {
+            color.set(edge.target, 'gray');
+            work.push({ file: edge.target, next: 0 });
+          }
+          continue;
+        }
+        color.set(frame.file, 'black');
+        work.pop();
+      }
+
+      return { id: component.join('|'), files: component, edges };
+    })
+    .sort((a, b) => b.files.length - a.files.length || a.id.localeCompare(b.id));
+};
+
+const formatLines = (lineRanges: Array<[number, number]>) =>
+  lineRanges.map(([start, end]) => (start === end ? `L${start}` : `L${start}-${end}`)).join(', ');
+
+/**
+ * Descreve um import do ciclo em uma linha (`a.ts:L3 → b.ts { foo }`).
+ */
+export const describeCycleEdge = (edge: CycleEdge) => {
+  const lines = edge.lineRanges.length > 0 ? `:${formatLines(edge.lineRanges)}` : '';
+  const symbols = edge.symbols.length > 0 ? ` { ${edge.symbols.join(', ')} }` : '';
+  return `${edge.source}${lines} → ${edge.target}${symbols}`;
+};
+
+/**
+ * Nós e arestas a destacar no grafo para um ciclo.
+ */
+export const getCycleHighlight = (cycle: ImportCycle) => ({
+  nodeIds: [...cycle.files],
+  linkIds: cycle.edges.map((edge) => edge.linkId)
+});
+
+/**
+ * Item de prompt pedindo à IA para desfazer o ciclo, com os imports que o
+ * fecham em destaque.
+ */
+export const buildCyclePromptItem = (cycle: ImportCycle): PromptItem => {
+  const closing = cycle.edges.filter((edge) => edge.closesLoop);
+  const others = cycle.edges.filter((edge) => !edge.closesLoop);
+  const content = [
+    `Dependência circular entre ${cycle.files.length} arquivos:`,
+    ...cycle.files.map((file) => `- ${file}`),
+    '',
+    'Imports que fecham o ciclo:',
+    ...closing.map((edge) => `- ${describeCycleEdge(edge)}`),
+    ...(others.length > 0 ? ['', 'Demais imports do ciclo:', ...others.map((edge) => `- ${describeCycleEdge(edge)}`)] : []),
+    '',
+    'Proponha como quebrar esse ciclo (extrair módulo compartilhado, inverter a dependência ou mover símbolos), indicando quais imports mudar.'
+  ].join('\n');
+
+  return {
+    id: `cycle:${cycle.id}:${Date.now()}`,
+    title: `Ciclo de imports (${cycle.files.length} arquivos)`,
+    content,
+    type: 'context'
+  };
+};
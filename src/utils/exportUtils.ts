@@ -106,8 +106,8 @@ export const generateMarkdownExport = (threads: Thread[], context?: ExportContex
 /**
  * Trigger download of text content as a file.
  */
-export const downloadMarkdown = (content: string, filename: string = 'codemind-export.md') => {
-    const blob = new Blob([content], { type: 'text/markdown;charset=utf-8' });
+export const downloadText = (content: string, filename: string, type: string = 'text/plain;charset=utf-8') => {
+    const blob = new Blob([content], { type });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -120,6 +120,9 @@ export const downloadMarkdown = (content: string, filename: string = 'codemind-e
     }, 0);
 };
 
+export const downloadMarkdown = (content: string, filename: string = 'codemind-export.md') =>
+    downloadText(content, filename, 'text/markdown;charset=utf-8');
+
 const getLangFromPath = (path?: string): string => {
     if (!path) return 'text';
     if (path.endsWith('.ts') || path.endsWith('.tsx')) return 'typescript';
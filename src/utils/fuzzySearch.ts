@@ -0,0 +1,242 @@
+import { CodeNode } from '../types';
+
+export type SearchEntryKind = 'file' | 'directory' | 'symbol' | 'thread';
+
+/**
+ * Item pesquisável da paleta de comandos.
+ */
+export interface SearchEntry {
+  id: string;
+  kind: SearchEntryKind;
+  /** Texto principal (nome do arquivo, símbolo ou título da thread) */
+  label: string;
+  /** Texto secundário, também pesquisado com peso menor (caminho, tipo) */
+  detail: string;
+  /** Nó do grafo a focar ao escolher o item */
+  nodeId?: string;
+  threadId?: string;
+  symbolType?: CodeNode['type'];
+}
+
+export interface SearchResult {
+  entry: SearchEntry;
+  score: number;
+  /** Posições do `label` que casaram com a consulta, para destaque */
+  matches: number[];
+}
+
+interface IndexedEntry {
+  entry: SearchEntry;
+  label: string;
+  detail: string;
+  labelBoundaries: Uint8Array;
+  detailBoundaries: Uint8Array;
+}
+
+export interface SearchIndex {
+  entries: IndexedEntry[];
+}
+
+export interface SearchSources {
+  filePaths: string[];
+  /** Estrutura de código por arquivo (índice do repositório + arquivos analisados) */
+  codeStructures: Map<string, CodeNode[]>;
+  threads: Array<{ id: string; title: string; nodeId?: string }>;
+}
+
+// Só símbolos navegáveis entram na busca
+const SEARCHABLE_SYMBOL_TYPES = new Set<CodeNode['type']>(['function', 'class', 'api_endpoint']);
+
+// Peso do texto secundário em relação ao principal
+const DETAIL_WEIGHT = 0.6;
+
+const isSeparator = (char: string) => char === '/' || char === '.' || char === '_' || char === '-' || char === ' ' || char === '#';
+
+/**
+ * Início de palavra: começo do texto, após separador ou transição camelCase.
+ */
+const computeBoundaries = (original: string) => {
+  const boundaries = new Uint8Array(original.length);
+  for (let i = 0; i < original.length; i++) {
+    const previous = original[i - 1];
+    const current = original[i];
+    boundaries[i] = i === 0 || isSeparator(previous) ||
+      (previous === previous.toLowerCase() && current !== current.toLowerCase()) ? 1 : 0;
+  }
+  return boundaries;
+};
+
+/**
+ * Casa a consulta como subsequência do texto. Tenta começar em cada ocorrência
+ * do primeiro caractere e fica com a melhor pontuação: consecutivos e inícios
+ * de palavra valem mais, saltos custam. Um salto para início de palavra só é
+ * aceito se o restante da consulta ainda cabe depois dele.
+ */
+export const fuzzyMatch = (
+  query: string,
+  text: string,
+  boundaries: Uint8Array = computeBoundaries(text)
+): { score: number; matches: number[] } | null => {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return { score: 0, matches: [] };
+  if (needle.length > haystack.length) return null;
+
+  // latest[q]: última posição em que needle[q] pode casar e ainda sobrar espaço para o resto
+  const latest = new Array<number>(needle.length);
+  let limit = haystack.length;
+  for (let q = needle.length - 1; q >= 0; q--) {
+    limit = haystack.lastIndexOf(needle[q], limit - 1);
+    if (limit === -1) return null;
+    latest[q] = limit;
+  }
+
+  let best: { score: number; matches: number[] } | null = null;
+  let start = haystack.indexOf(needle[0]);
+  let attempts = 0;
+  while (start !== -1 && start <= latest[0] && attempts < 8) {
+    attempts += 1;
+    const matches: number[] = [start];
+    let score = boundaries[start] ? 8 : 1;
+    let position = start;
+    for (let q = 1; q < needle.length; q++) {
+      // Prefere o próximo início de palavra se o caractere consecutivo não casar
+      let next = haystack.indexOf(needle[q], position + 1);
+      if (next === -1 || next > latest[q]) {
+        score = -Infinity;
+        break;
+      }
+      if (next !== position + 1) {
+        for (
+          let candidate = next;
+          candidate !== -1 && candidate <= latest[q];
+          candidate = haystack.indexOf(needle[q], candidate + 1)
+        ) {
+          if (boundaries[candidate]) {
+            next = candidate;
+            break;
+          }
+        }
+      }
+      if (next === position + 1) score += 5;
+      else score -= Math.min(next - position - 1, 5);
+      if (boundaries[next]) score += 8;
+      score += 1;
+      matches.push(next);
+      position = next;
+    }
+    if (Number.isFinite(score) && (!best || score > best.score)) best = { score, matches };
+    start = haystack.indexOf(needle[0], start + 1);
+  }
+
+  if (!best) return null;
+  if (haystack === needle) best.score += 50;
+  else if (haystack.startsWith(needle)) best.score += 20;
+  else if (haystack.includes(needle)) best.score += 10;
+  // Textos curtos desempatam a favor do mais específico
+  best.score -= haystack.length * 0.05;
+  return best;
+};
+
+export const createSearchIndex = (entries: SearchEntry[]): SearchIndex => ({
+  entries: entries.map((entry) => ({
+    entry,
+    label: entry.label,
+    detail: entry.detail,
+    labelBoundaries: computeBoundaries(entry.label),
+    detailBoundaries: computeBoundaries(entry.detail)
+  }))
+});
+
+/**
+ * Busca fuzzy no índice, ordenada pela pontuação (empate pelo texto).
+ */
+export const searchIndex = (index: SearchIndex, query: string, limit = 30): SearchResult[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  const results: SearchResult[] = [];
+
+  index.entries.forEach((item) => {
+    const labelMatch = fuzzyMatch(trimmed, item.label, item.labelBoundaries);
+    const detailMatch = item.detail ? fuzzyMatch(trimmed, item.detail, item.detailBoundaries) : null;
+    if (!labelMatch && !detailMatch) return;
+    const labelScore = labelMatch?.score ?? -Infinity;
+    const detailScore = (detailMatch?.score ?? -Infinity) * DETAIL_WEIGHT;
+    results.push({
+      entry: item.entry,
+      score: Math.max(labelScore, detailScore),
+      matches: labelScore >= detailScore ? labelMatch!.matches : []
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.entry.label.localeCompare(b.entry.label))
+    .slice(0, limit);
+};
+
+/**
+ * Monta os itens pesquisáveis: arquivos, diretórios, símbolos (funções,
+ * classes e endpoints, inclusive aninhados) e threads salvas.
+ */
+export const buildSearchEntries = ({ filePaths, codeStructures, threads }: SearchSources): SearchEntry[] => {
+  const entries: SearchEntry[] = [];
+  const directories = new Set<string>();
+
+  filePaths.forEach((path) => {
+    const slash = path.lastIndexOf('/');
+    entries.push({
+      id: `file:${path}`,
+      kind: 'file',
+      label: path.slice(slash + 1),
+      detail: path,
+      nodeId: path
+    });
+    for (let dir = path.slice(0, Math.max(slash, 0)); dir; dir = dir.slice(0, Math.max(dir.lastIndexOf('/'), 0))) {
+      if (directories.has(dir)) break;
+      directories.add(dir);
+    }
+  });
+
+  directories.forEach((dir) => {
+    entries.push({
+      id: `directory:${dir}`,
+      kind: 'directory',
+      label: dir.slice(dir.lastIndexOf('/') + 1),
+      detail: dir,
+      nodeId: dir
+    });
+  });
+
+  codeStructures.forEach((structure, path) => {
+    // Símbolos homônimos no mesmo arquivo compartilham o nó do grafo
+    const seen = new Set<string>();
+    const visit = (codeNode: CodeNode) => {
+      if (SEARCHABLE_SYMBOL_TYPES.has(codeNode.type) && !seen.has(codeNode.name)) {
+        seen.add(codeNode.name);
+        entries.push({
+          id: `symbol:${path}#${codeNode.name}`,
+          kind: 'symbol',
+          label: codeNode.name,
+          detail: path,
+          nodeId: `${path}#${codeNode.name}`,
+          symbolType: codeNode.type
+        });
+      }
+      codeNode.children?.forEach(visit);
+    };
+    structure.forEach(visit);
+  });
+
+  threads.forEach((thread) => {
+    entries.push({
+      id: `thread:${thread.id}`,
+      kind: 'thread',
+      label: thread.title,
+      detail: 'Thread salva',
+      threadId: thread.id,
+      nodeId: thread.nodeId
+    });
+  });
+
+  return entries;
+};
@@ -0,0 +1,224 @@
+import { ClusterData, FlatNode, Link } from '../types';
+import { getEndpointId } from './impactAnalysis';
+
+/** Máximo de nós desenhados antes de agrupar subárvores em clusters. */
+export const DEFAULT_GRAPH_NODE_BUDGET = 1500;
+
+/**
+ * Níveis de detalhe por zoom: abaixo de `maxZoom`, diretórios com
+ * profundidade >= `maxDepth` viram um único nó. O último nível não limita.
+ */
+export const LOD_LEVELS: { maxZoom: number; maxDepth: number }[] = [
+  { maxZoom: 0.25, maxDepth: 1 },
+  { maxZoom: 0.5, maxDepth: 2 },
+  { maxZoom: 0.8, maxDepth: 3 },
+  { maxZoom: Infinity, maxDepth: Infinity },
+];
+
+export const getLodLevel = (zoom: number) => {
+  const index = LOD_LEVELS.findIndex((level) => zoom < level.maxZoom);
+  return index === -1 ? LOD_LEVELS.length - 1 : index;
+};
+
+export interface ClusterOptions {
+  /** Profundidade a partir da qual diretórios são agrupados (1 = primeiro nível) */
+  maxDepth: number;
+  nodeBudget?: number;
+  /** Diretórios abertos pelo usuário; não viram cluster */
+  pinnedPaths?: Set<string>;
+}
+
+export interface ClusteredGraph {
+  nodes: FlatNode[];
+  links: Link[];
+  clusterCount: number;
+}
+
+const dirname = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return index > 0 ? path.slice(0, index) : '';
+};
+
+const depthOf = (path: string) => (path ? path.split('/').length : 0);
+
+export const getClusterId = (path: string) => `cluster:${path}`;
+
+const isClusterable = (node: FlatNode) =>
+  !node.isGhost && !node.type.startsWith('ghost_') && node.type !== 'cluster';
+
+/**
+ * Agrupa diretórios em clusters conforme o nível de detalhe e o orçamento de
+ * nós, e agrega as arestas entre clusters em feixes (`bundleSize`).
+ *
+ * Primeiro agrupa por profundidade (zoom); se ainda sobrar mais que
+ * `nodeBudget` nós, agrupa os diretórios mais profundos e maiores primeiro,
+ * preservando a estrutura de topo. Tudo em O(n · profundidade).
+ */
+export function clusterGraph(nodes: FlatNode[], links: Link[], options: ClusterOptions): ClusteredGraph {
+  const { maxDepth, nodeBudget = DEFAULT_GRAPH_NODE_BUDGET, pinnedPaths = new Set<string>() } = options;
+  const nodeIds = new Set(nodes.map((node) => node.id));
+
+  // Diretório que contém cada nó (símbolos `arquivo#nome` ficam no diretório do arquivo)
+  const parentDirByNode = new Map<string, string>();
+  const descendants = new Map<string, number>();
+  const directoryNames = new Map<string, string>();
+
+  nodes.forEach((node) => {
+    if (!isClusterable(node)) return;
+    const basePath = node.path.split('#')[0];
+    if (node.type === 'directory') directoryNames.set(node.path, node.name);
+    let dir = dirname(basePath);
+    parentDirByNode.set(node.id, dir);
+    while (dir) {
+      descendants.set(dir, (descendants.get(dir) ?? 0) + 1);
+      dir = dirname(dir);
+    }
+  });
+
+  const collapsed = new Set<string>();
+  const hasCollapsedAncestor = (path: string) => {
+    for (let dir = dirname(path); dir; dir = dirname(dir)) {
+      if (collapsed.has(dir)) return true;
+    }
+    return false;
+  };
+
+  // 1) Nível de detalhe: cada diretório aberto pelo usuário revela mais um nível
+  const directories = Array.from(descendants.keys()).sort((a, b) => depthOf(a) - depthOf(b));
+  if (Number.isFinite(maxDepth)) {
+    directories.forEach((dir) => {
+      if (pinnedPaths.has(dir) || hasCollapsedAncestor(dir)) return;
+      let pinnedAncestors = 0;
+      for (let ancestor = dirname(dir); ancestor; ancestor = dirname(ancestor)) {
+        if (pinnedPaths.has(ancestor)) pinnedAncestors += 1;
+      }
+      if (depthOf(dir) >= maxDepth + pinnedAncestors) collapsed.add(dir);
+    });
+  }
+
+  // 2) Orçamento: conta o que continua visível (cluster vale 1) por diretório
+  const visible = new Map<string, number>();
+  let visibleTotal = 0;
+  nodes.forEach((node) => {
+    const parentDir = parentDirByNode.get(node.id);
+    if (parentDir === undefined) {
+      visibleTotal += 1;
+      return;
+    }
+    if (collapsed.has(node.id) || hasCollapsedAncestor(node.path.split('#')[0])) return;
+    visibleTotal += 1;
+    for (let dir = parentDir; dir; dir = dirname(dir)) {
+      visible.set(dir, (visible.get(dir) ?? 0) + 1);
+    }
+  });
+  // Clusters já criados contam como um nó do diretório pai
+  collapsed.forEach((dir) => {
+    if (hasCollapsedAncestor(dir)) return;
+    visibleTotal += 1;
+    for (let parent = dirname(dir); parent; parent = dirname(parent)) {
+      visible.set(parent, (visible.get(parent) ?? 0) + 1);
+    }
+  });
+
+  if (visibleTotal > nodeBudget) {
+    const candidates = directories
+      .filter((dir) => !collapsed.has(dir) && !pinnedPaths.has(dir) && !hasCollapsedAncestor(dir))
+      .sort((a, b) => depthOf(b) - depthOf(a) || (visible.get(b) ?? 0) - (visible.get(a) ?? 0));
+
+    for (const dir of candidates) {
+      if (visibleTotal <= nodeBudget) break;
+      const hidden = visible.get(dir) ?? 0;
+      if (hidden === 0) continue;
+      // Sem nó de diretório, o cluster é um nó novo
+      const reduction = nodeIds.has(dir) ? hidden : hidden - 1;
+      if (reduction <= 0) continue;
+      collapsed.add(dir);
+      visibleTotal -= reduction;
+      for (let parent = dirname(dir); parent; parent = dirname(parent)) {
+        visible.set(parent, (visible.get(parent) ?? 0) - reduction);
+      }
+    }
+  }
+
+  if (collapsed.size === 0) {
+    return { nodes, links, clusterCount: 0 };
+  }
+
+  // Cluster mais externo de cada nó escondido
+  const outerCluster = (path: string) => {
+    let found: string | null = null;
+    for (let dir = path; dir; dir = dirname(dir)) {
+      if (collapsed.has(dir)) found = dir;
+    }
+    return found;
+  };
+
+  const representative = new Map<string, string>();
+  const clusters = new Map<string, { node: FlatNode; childCount: number }>();
+
+  nodes.forEach((node) => {
+    if (!isClusterable(node)) return;
+    const basePath = node.path.split('#')[0];
+    const clusterPath = outerCluster(node.type === 'directory' ? basePath : dirname(basePath));
+    if (!clusterPath) return;
+
+    const clusterId = nodeIds.has(clusterPath) ? clusterPath : getClusterId(clusterPath);
+    representative.set(node.id, clusterId);
+    if (node.id === clusterPath) return;
+
+    const entry = clusters.get(clusterPath);
+    if (entry) {
+      entry.childCount += 1;
+      entry.node.relevant = entry.node.relevant || node.relevant;
+      return;
+    }
+    const name = directoryNames.get(clusterPath) ?? clusterPath.slice(clusterPath.lastIndexOf('/') + 1);
+    clusters.set(clusterPath, {
+      childCount: 1,
+      node: {
+        id: clusterId,
+        name,
+        type: 'cluster',
+        path: clusterPath,
+        group: depthOf(clusterPath) + 1,
+        relevant: node.relevant,
+        x: 0,
+        y: 0,
+      },
+    });
+  });
+
+  const clusterNodes = Array.from(clusters.values()).map(({ node, childCount }) => {
+    const data: ClusterData = { parentPath: node.path, childCount };
+    return { ...node, name: `${node.name} (${childCount})`, data, childCount };
+  });
+  const nextNodes = [
+    ...nodes.filter((node) => !representative.has(node.id)),
+    ...clusterNodes,
+  ];
+
+  // Arestas entre clusters viram um feixe com a contagem das originais
+  const bundles = new Map<string, Link>();
+  links.forEach((link) => {
+    const sourceId = getEndpointId(link.source);
+    const targetId = getEndpointId(link.target);
+    const source = representative.get(sourceId) ?? sourceId;
+    const target = representative.get(targetId) ?? targetId;
+    if (source === target) return;
+    if (source === sourceId && target === targetId) {
+      bundles.set(`${link.kind ?? ''}:${source}-->${target}`, link);
+      return;
+    }
+    const key = `${link.kind ?? ''}:${source}-->${target}`;
+    const existing = bundles.get(key);
+    // Copia em vez de mutar: a aresta original pode ser do store
+    bundles.set(
+      key,
+      existing
+        ? { ...existing, bundleSize: (existing.bundleSize ?? 1) + 1 }
+        : { source, target, kind: link.kind, bundleSize: 1 }
+    );
+  });
+
+  return { nodes: nextNodes, links: Array.from(bundles.values()), clusterCount: clusterNodes.length };
+}
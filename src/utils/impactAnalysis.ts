@@ -0,0 +1,128 @@
+import { SemanticEdgeType, SemanticLink } from '../types';
+
+export const DEFAULT_IMPACT_MAX_HOPS = 3;
+
+/**
+ * Dependente transitivo encontrado na consulta de raio de impacto.
+ */
+export interface ImpactEntry {
+  id: string;
+  /** Arquivo que contém o nó (o próprio id quando é arquivo) */
+  filePath: string;
+  /** Número de saltos até o nó analisado */
+  distance: number;
+  /** Tipos de aresta pelos quais o impacto chega (import/call) */
+  kinds: SemanticEdgeType[];
+  /** Nó do qual este dependente depende diretamente no caminho mais curto */
+  via: string;
+  /** Quantidade de arestas que apontam deste nó para o conjunto impactado */
+  referenceCount: number;
+}
+
+export interface ImpactResult {
+  entries: ImpactEntry[];
+  nodeIds: string[];
+  linkIds: string[];
+}
+
+/** Id de uma ponta de aresta, antes ou depois de o D3 trocá-la pelo nó */
+export const getEndpointId = (endpoint: string | { id: string }) =>
+  typeof endpoint === 'string' ? endpoint : endpoint.id;
+
+export const getFileIdForNode = (nodeId: string) => nodeId.split('#')[0];
+
+const getSemanticLinkId = (link: SemanticLink) =>
+  `${link.kind}:${getEndpointId(link.source)}-->${getEndpointId(link.target)}`;
+
+/**
+ * Calcula quem depende (importa ou chama) de um nó até `maxHops` saltos,
+ * percorrendo as arestas semânticas no sentido inverso.
+ * Um símbolo alcançado também propaga pelo arquivo que o contém, já que quem
+ * importa o arquivo pode estar usando o símbolo.
+ */
+export const computeImpactRadius = (
+  nodeId: string,
+  semanticLinks: SemanticLink[],
+  maxHops: number = DEFAULT_IMPACT_MAX_HOPS
+): ImpactResult => {
+  const incoming = new Map<string, SemanticLink[]>();
+  const symbolsByFile = new Map<string, string[]>();
+
+  semanticLinks.forEach((link) => {
+    const target = getEndpointId(link.target);
+    const bucket = incoming.get(target) ?? [];
+    bucket.push(link);
+    incoming.set(target, bucket);
+    [getEndpointId(link.source), target].forEach((id) => {
+      const fileId = getFileIdForNode(id);
+      if (fileId === id) return;
+      const symbols = symbolsByFile.get(fileId) ?? [];
+      if (!symbols.includes(id)) symbols.push(id);
+      symbolsByFile.set(fileId, symbols);
+    });
+  });
+
+  const distances = new Map<string, number>();
+  const entriesById = new Map<string, ImpactEntry>();
+  const linkIds = new Set<string>();
+  const queue: string[] = [];
+
+  const enqueue = (id: string, distance: number) => {
+    if (distances.has(id)) return;
+    distances.set(id, distance);
+    queue.push(id);
+  };
+
+  // Analisar um arquivo inclui os seus símbolos; analisar um símbolo inclui seu arquivo
+  enqueue(nodeId, 0);
+  (symbolsByFile.get(nodeId) ?? []).forEach((symbolId) => enqueue(symbolId, 0));
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const distance = distances.get(current)!;
+    const currentFile = getFileIdForNode(current);
+    if (currentFile !== current && currentFile !== getFileIdForNode(nodeId)) {
+      enqueue(currentFile, distance);
+    }
+    if (distance >= maxHops) continue;
+
+    (incoming.get(current) ?? []).forEach((link) => {
+      const dependent = getEndpointId(link.source);
+      if (getFileIdForNode(dependent) === getFileIdForNode(nodeId)) return;
+      linkIds.add(getSemanticLinkId(link));
+      const existing = entriesById.get(dependent);
+      if (existing) {
+        existing.referenceCount += 1;
+        if (!existing.kinds.includes(link.kind)) existing.kinds.push(link.kind);
+        return;
+      }
+      entriesById.set(dependent, {
+        id: dependent,
+        filePath: getFileIdForNode(dependent),
+        distance: distance + 1,
+        kinds: [link.kind],
+        via: current,
+        referenceCount: 1
+      });
+      enqueue(dependent, distance + 1);
+    });
+  }
+
+  const entries = Array.from(entriesById.values()).sort((a, b) => {
+    if (a.distance !== b.distance) return a.distance - b.distance;
+    if (a.referenceCount !== b.referenceCount) return b.referenceCount - a.referenceCount;
+    return a.id.localeCompare(b.id);
+  });
+
+  return {
+    entries,
+    nodeIds: Array.from(new Set([nodeId, ...entries.flatMap((entry) => [entry.id, entry.filePath])])),
+    linkIds: Array.from(linkIds)
+  };
+};
+
+/**
+ * Arquivos únicos impactados, incluindo o arquivo analisado.
+ */
+export const collectImpactedFiles = (nodeId: string, entries: ImpactEntry[]) =>
+  Array.from(new Set([getFileIdForNode(nodeId), ...entries.map((entry) => entry.filePath)]));
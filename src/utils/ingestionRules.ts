@@ -0,0 +1,217 @@
+import { IngestionRules } from '../types';
+import { isCredentialPath, isNeverIngestedPath, shouldIgnorePath } from './localFileSystem';
+
+/**
+ * Filtro de ingestão: pastas embutidas (node_modules, .git...), os `.gitignore`
+ * do projeto (aninhados e com negação) e as regras include/exclude da sessão.
+ *
+ * Precedência: nunca lidos (credenciais, .git...) > exclude > include >
+ * embutidas/.gitignore. Ou seja, `include` resgata build, dependências e o que
+ * o `.gitignore` esconde, nunca credenciais; `exclude` sempre remove.
+ */
+
+export const DEFAULT_INGESTION_RULES: IngestionRules = { include: [], exclude: [] };
+
+export type IngestionRuleKind = 'builtin' | 'gitignore' | 'exclude' | 'include';
+
+export interface IngestionRuleRef {
+  kind: IngestionRuleKind;
+  /** Caminho do `.gitignore` ou o nome da lista de regras da sessão */
+  source: string;
+  pattern: string;
+}
+
+export interface IngestionDecision {
+  ignored: boolean;
+  /** Regra que decidiu (ausente quando nada casou) */
+  rule?: IngestionRuleRef;
+}
+
+export interface IngestionPreviewEntry extends IngestionRuleRef {
+  /** Arquivos removidos pela regra (ou resgatados, para `include`) */
+  count: number;
+}
+
+export interface IngestionPreview {
+  total: number;
+  kept: number;
+  entries: IngestionPreviewEntry[];
+}
+
+interface CompiledRule extends IngestionRuleRef {
+  negated: boolean;
+  dirOnly: boolean;
+  /** Diretório do `.gitignore`; padrões são relativos a ele */
+  baseDir: string;
+  regex: RegExp;
+}
+
+const BUILTIN_RULE: IngestionRuleRef = { kind: 'builtin', source: 'builtin', pattern: 'node_modules, dist, build...' };
+const NEVER_INGESTED_RULE: IngestionRuleRef = { kind: 'builtin', source: 'builtin', pattern: '.git, .vscode, .DS_Store...' };
+const CREDENTIAL_RULE: IngestionRuleRef = { kind: 'builtin', source: 'credentials', pattern: '.env*, *.pem, id_rsa, .aws/...' };
+
+const escapeRegExp = (char: string) => (/[.+^${}()|\\*?[\]]/.test(char) ? `\\${char}` : char);
+
+/**
+ * Converte um glob no estilo gitignore (`*`, `**`, `?`, `[abc]`) em regex.
+ */
+export const globToRegExpSource = (glob: string): string => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        i++;
+        if (atSegmentStart && glob[i + 1] === '/') {
+          source += '(?:.*/)?';
+          i++;
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+};
+
+const compilePattern = (line: string, ref: Omit<IngestionRuleRef, 'pattern'>, baseDir: string): CompiledRule | null => {
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+  if (!pattern || pattern.startsWith('#')) return null;
+  const original = pattern;
+  const negated = pattern.startsWith('!');
+  if (negated) pattern = pattern.slice(1);
+  if (pattern.startsWith('\\#') || pattern.startsWith('\\!')) pattern = pattern.slice(1);
+  const dirOnly = pattern.endsWith('/');
+  if (dirOnly) pattern = pattern.replace(/\/+$/, '');
+  if (!pattern) return null;
+
+  // Barra no início ou no meio ancora no diretório do .gitignore
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) pattern = pattern.slice(1);
+  const body = globToRegExpSource(pattern);
+  return {
+    ...ref,
+    pattern: original,
+    negated,
+    dirOnly,
+    baseDir,
+    regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`)
+  };
+};
+
+const compileList = (patterns: string[], ref: Omit<IngestionRuleRef, 'pattern'>, baseDir = '') =>
+  patterns.map((line) => compilePattern(line, ref, baseDir)).filter((rule): rule is CompiledRule => rule !== null);
+
+const dirOf = (path: string) => (path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '');
+
+const relativeTo = (path: string, baseDir: string) =>
+  baseDir === '' ? path : path.startsWith(`${baseDir}/`) ? path.slice(baseDir.length + 1) : null;
+
+/** Última regra que casa com o caminho (semântica do git) */
+const lastMatch = (rules: CompiledRule[], path: string, isDir: boolean): CompiledRule | undefined => {
+  let match: CompiledRule | undefined;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    const relative = relativeTo(path, rule.baseDir);
+    if (relative !== null && rule.regex.test(relative)) match = rule;
+  }
+  return match;
+};
+
+/**
+ * Monta o filtro. `gitignores` mapeia o caminho de cada `.gitignore` para o
+ * conteúdo; os mais rasos valem primeiro e os aninhados podem sobrescrevê-los.
+ */
+export const createIngestionFilter = (
+  gitignores: Map<string, string>,
+  rules: IngestionRules = DEFAULT_INGESTION_RULES
+): ((path: string) => IngestionDecision) => {
+  const gitignoreRules = Array.from(gitignores.entries())
+    .sort(([a], [b]) => a.split('/').length - b.split('/').length || a.localeCompare(b))
+    .flatMap(([path, content]) => compileList(content.split(/\r?\n/), { kind: 'gitignore', source: path }, dirOf(path)));
+  const excludeRules = compileList(rules.exclude, { kind: 'exclude', source: 'exclude' });
+  const includeRules = compileList(rules.include, { kind: 'include', source: 'include' });
+
+  const matchAny = (list: CompiledRule[], path: string) => {
+    const parts = path.split('/');
+    for (let depth = 1; depth <= parts.length; depth++) {
+      const match = lastMatch(list, parts.slice(0, depth).join('/'), depth < parts.length);
+      if (match && !match.negated) return match;
+    }
+    return undefined;
+  };
+
+  // Diretório ignorado não pode ter filhos reincluídos (como no git)
+  const dirDecisions = new Map<string, CompiledRule | null>();
+  const gitignoreDecision = (path: string): CompiledRule | undefined => {
+    const parts = path.split('/');
+    for (let depth = 1; depth < parts.length; depth++) {
+      const dir = parts.slice(0, depth).join('/');
+      if (!dirDecisions.has(dir)) {
+        const match = lastMatch(gitignoreRules, dir, true);
+        dirDecisions.set(dir, match && !match.negated ? match : null);
+      }
+      const decided = dirDecisions.get(dir);
+      if (decided) return decided;
+    }
+    const match = lastMatch(gitignoreRules, path, false);
+    return match && !match.negated ? match : undefined;
+  };
+
+  const toRef = ({ kind, source, pattern }: CompiledRule): IngestionRuleRef => ({ kind, source, pattern });
+
+  return (path) => {
+    if (isNeverIngestedPath(path)) {
+      return { ignored: true, rule: isCredentialPath(path) ? CREDENTIAL_RULE : NEVER_INGESTED_RULE };
+    }
+    const excluded = matchAny(excludeRules, path);
+    if (excluded) return { ignored: true, rule: toRef(excluded) };
+    const gitignored = gitignoreDecision(path);
+    const hiddenBy = shouldIgnorePath(path) ? BUILTIN_RULE : gitignored ? toRef(gitignored) : null;
+    if (!hiddenBy) return { ignored: false };
+    const included = matchAny(includeRules, path);
+    return included ? { ignored: false, rule: toRef(included) } : { ignored: true, rule: hiddenBy };
+  };
+};
+
+export const isGitignorePath = (path: string) => path === '.gitignore' || path.endsWith('/.gitignore');
+
+/**
+ * Quantos arquivos cada regra remove (ou resgata) dentro de `paths`.
+ */
+export const previewIngestion = (paths: string[], filter: (path: string) => IngestionDecision): IngestionPreview => {
+  const entries = new Map<string, IngestionPreviewEntry>();
+  let kept = 0;
+  paths.forEach((path) => {
+    const decision = filter(path);
+    if (!decision.ignored) kept++;
+    if (!decision.rule) return;
+    const key = `${decision.rule.kind}:${decision.rule.source}:${decision.rule.pattern}`;
+    const entry = entries.get(key) ?? { ...decision.rule, count: 0 };
+    entry.count++;
+    entries.set(key, entry);
+  });
+  return {
+    total: paths.length,
+    kept,
+    entries: Array.from(entries.values()).sort((a, b) => b.count - a.count)
+  };
+};
@@ -1,9 +1,8 @@
 import JSZip from 'jszip';
 
-const IGNORED_DIRECTORIES = new Set([
-  '.git',
-  '.svn',
-  '.hg',
+// Build output and vendored dependencies: hidden by default, but an `include`
+// ingestion rule can bring them back (e.g. `dist/types/**`)
+const BUILD_DIRECTORIES = new Set([
   'node_modules',
   'dist',
   'build',
@@ -11,50 +10,125 @@ const IGNORED_DIRECTORIES = new Set([
   '.nuxt',
   '.turbo',
   '.cache',
-  'coverage',
+  'coverage'
+]);
+
+// Never read: VCS metadata, editor settings and backups written by writeLocalFiles
+const SKIPPED_DIRECTORIES = new Set([
+  '.git',
+  '.svn',
+  '.hg',
   '.vscode',
-  '.idea'
+  '.idea',
+  '.codemind-backups'
 ]);
 
-const IGNORED_FILES = new Set([
+const SKIPPED_FILES = new Set([
   '.DS_Store',
-  'Thumbs.db',
-  '.env',
-  '.env.local',
-  '.env.production'
+  'Thumbs.db'
 ]);
 
+// Credential stores that end up inside checked-out home directories
+const CREDENTIAL_DIRECTORIES = new Set([
+  '.aws',
+  '.azure',
+  '.ssh',
+  '.gnupg',
+  '.kube',
+  '.docker'
+]);
+
+const CREDENTIAL_FILES = new Set([
+  '.npmrc',
+  '.yarnrc.yml',
+  '.netrc',
+  '.pypirc',
+  '.pgpass',
+  '.git-credentials',
+  '.htpasswd',
+  'id_rsa',
+  'id_dsa',
+  'id_ecdsa',
+  'id_ed25519'
+]);
+
+// .env, .env.local, .env.production.local, .envrc...
+const ENV_FILE_PATTERN = /^\.env/;
+const KEY_FILE_PATTERN = /\.(pem|key|p12|pfx|jks|keystore)$/i;
+
+/**
+ * Checks if a relative path points at credentials (`.env*`, private keys,
+ * `.aws/`...). These are never read, so they cannot reach the AI or the indexer.
+ */
+export function isCredentialPath(path: string): boolean {
+  return path.split('/').some((part) =>
+    CREDENTIAL_DIRECTORIES.has(part) ||
+    CREDENTIAL_FILES.has(part) ||
+    ENV_FILE_PATTERN.test(part) ||
+    KEY_FILE_PATTERN.test(part)
+  );
+}
+
+/**
+ * Checks if a relative path is never ingested, whatever the ingestion rules say:
+ * credentials, VCS metadata, editor settings and backups. Traversals skip them.
+ */
+export function isNeverIngestedPath(path: string): boolean {
+  if (isCredentialPath(path)) return true;
+  return path.split('/').some((part) => SKIPPED_DIRECTORIES.has(part) || SKIPPED_FILES.has(part));
+}
+
 /**
- * Checks if a relative path should be ignored during directory traversal.
+ * Checks if a relative path is hidden by default: everything `isNeverIngestedPath`
+ * rejects plus dependencies and build output. Project-specific rules such as
+ * `.gitignore` are applied later by `createIngestionFilter`.
  */
 export function shouldIgnorePath(path: string): boolean {
-  const parts = path.split('/');
-  for (const part of parts) {
-    if (IGNORED_DIRECTORIES.has(part)) return true;
-    if (IGNORED_FILES.has(part)) return true;
-    if (part.startsWith('.') && part !== '.' && part !== '..') return true;
-  }
-  return false;
+  if (isNeverIngestedPath(path)) return true;
+  return path.split('/').some((part) => BUILD_DIRECTORIES.has(part));
 }
 
 /**
- * Ingests a local directory using the modern File System Access API (showDirectoryPicker).
- * Supports browser-native recursive directory reading without server upload.
+ * Minimal shape of the File System Access handles we rely on. `queryPermission`
+ * and `requestPermission` are not in lib.dom yet, hence the local types.
  */
-export async function openDirectoryPicker(): Promise<File[]> {
-  if (!('showDirectoryPicker' in window)) {
-    throw new Error('File System Access API is not supported in this browser. Please use the file upload fallback.');
-  }
+type HandlePermissionState = 'granted' | 'denied' | 'prompt';
 
-  // @ts-ignore
-  const dirHandle = await (window as any).showDirectoryPicker();
+export interface LocalFileHandle {
+  kind: 'file';
+  name: string;
+  getFile(): Promise<File>;
+  createWritable(): Promise<{ write(data: string): Promise<void>; close(): Promise<void> }>;
+}
+
+export interface LocalDirectoryHandle {
+  kind: 'directory';
+  name: string;
+  getDirectoryHandle(name: string, options?: { create?: boolean }): Promise<LocalDirectoryHandle>;
+  getFileHandle(name: string, options?: { create?: boolean }): Promise<LocalFileHandle>;
+  values(): AsyncIterable<LocalDirectoryHandle | LocalFileHandle>;
+  queryPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<HandlePermissionState>;
+  requestPermission?(descriptor: { mode: 'read' | 'readwrite' }): Promise<HandlePermissionState>;
+}
+
+export interface LocalDirectorySelection {
+  /** Root handle, kept so suggestions can be written back later */
+  handle: LocalDirectoryHandle;
+  files: File[];
+}
+
+/**
+ * Recursively reads every file under a directory handle except the ones that are
+ * never ingested; build output stays so ingestion rules can rescue it. Each File
+ * gets `webkitRelativePath` set to its path relative to the handle.
+ */
+export async function readDirectoryFiles(dirHandle: LocalDirectoryHandle): Promise<File[]> {
   const files: File[] = [];
 
-  async function readDirectory(handle: any, currentPath: string = '') {
-    // @ts-ignore
+  async function readDirectory(handle: LocalDirectoryHandle, currentPath: string = '') {
     for await (const entry of handle.values()) {
       const entryPath = currentPath ? `${currentPath}/${entry.name}` : entry.name;
-      if (shouldIgnorePath(entryPath)) continue;
+      if (isNeverIngestedPath(entryPath)) continue;
 
       if (entry.kind === 'file') {
         const file = await entry.getFile();
@@ -74,6 +148,144 @@ export async function openDirectoryPicker(): Promise<File[]> {
   return files;
 }
 
+/**
+ * Ingests a local directory using the modern File System Access API (showDirectoryPicker).
+ * Supports browser-native recursive directory reading without server upload.
+ */
+export async function openDirectoryPicker(): Promise<LocalDirectorySelection> {
+  if (!('showDirectoryPicker' in window)) {
+    throw new Error('File System Access API is not supported in this browser. Please use the file upload fallback.');
+  }
+
+  // @ts-ignore
+  const dirHandle: LocalDirectoryHandle = await (window as any).showDirectoryPicker();
+  const files = await readDirectoryFiles(dirHandle);
+  return { handle: dirHandle, files };
+}
+
+export interface LocalDirectoryChanges {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+/**
+ * Compares two scans of the same directory by `lastModified` and size. Content
+ * is not read here; callers confirm real changes for the files they care about.
+ */
+export function diffLocalFiles(previous: Map<string, File>, next: Map<string, File>): LocalDirectoryChanges {
+  const changes: LocalDirectoryChanges = { added: [], modified: [], deleted: [] };
+  next.forEach((file, path) => {
+    const before = previous.get(path);
+    if (!before) {
+      changes.added.push(path);
+    } else if (before.lastModified !== file.lastModified || before.size !== file.size) {
+      changes.modified.push(path);
+    }
+  });
+  previous.forEach((_file, path) => {
+    if (!next.has(path)) changes.deleted.push(path);
+  });
+  return changes;
+}
+
+/**
+ * Makes sure the directory can be written to, prompting the user again when the
+ * browser dropped the permission (e.g. after a reload or a long idle period).
+ */
+export async function ensureWritePermission(handle: LocalDirectoryHandle): Promise<boolean> {
+  if (!handle.queryPermission || !handle.requestPermission) return true;
+  if ((await handle.queryPermission({ mode: 'readwrite' })) === 'granted') return true;
+  return (await handle.requestPermission({ mode: 'readwrite' })) === 'granted';
+}
+
+export interface LocalFileWrite {
+  path: string;
+  content: string;
+  /** Content the change was reviewed against; a different file on disk is reported as `stale` */
+  expected?: string;
+}
+
+export interface LocalWriteResult {
+  path: string;
+  status: 'created' | 'updated' | 'unchanged' | 'stale';
+  /** Content found on disk before the write (undefined for new files) */
+  previous?: string;
+  backupPath?: string;
+}
+
+export const LOCAL_BACKUP_DIRECTORY = '.codemind-backups';
+
+const resolveParent = async (root: LocalDirectoryHandle, path: string, create: boolean) => {
+  const parts = path.split('/').filter(Boolean);
+  const name = parts.pop();
+  if (!name) throw new Error(`Invalid file path: ${path}`);
+  let dir = root;
+  for (const part of parts) {
+    dir = await dir.getDirectoryHandle(part, { create });
+  }
+  return { dir, name };
+};
+
+const readLocalFile = async (root: LocalDirectoryHandle, path: string): Promise<string | undefined> => {
+  try {
+    const { dir, name } = await resolveParent(root, path, false);
+    const handle = await dir.getFileHandle(name);
+    return await (await handle.getFile()).text();
+  } catch (err: any) {
+    if (err?.name === 'NotFoundError' || err?.name === 'TypeMismatchError') return undefined;
+    throw err;
+  }
+};
+
+const writeLocalFile = async (root: LocalDirectoryHandle, path: string, content: string) => {
+  const { dir, name } = await resolveParent(root, path, true);
+  const handle = await dir.getFileHandle(name, { create: true });
+  const writable = await handle.createWritable();
+  await writable.write(content);
+  await writable.close();
+};
+
+/**
+ * Writes files relative to the opened directory. With `dryRun` nothing is touched
+ * and the results describe what would happen. Overwritten files are first copied
+ * to `.codemind-backups/<timestamp>/` (ignored on ingestion, like any dotfolder).
+ * Files that changed on disk since review (`expected` mismatch) are skipped.
+ */
+export async function writeLocalFiles(
+  root: LocalDirectoryHandle,
+  changes: LocalFileWrite[],
+  options: { dryRun?: boolean; backup?: boolean; timestamp?: number } = {}
+): Promise<LocalWriteResult[]> {
+  const { dryRun = false, backup = true } = options;
+  const stamp = new Date(options.timestamp ?? Date.now()).toISOString().replace(/[:.]/g, '-');
+  const results: LocalWriteResult[] = [];
+
+  for (const change of changes) {
+    const previous = await readLocalFile(root, change.path);
+    let status: LocalWriteResult['status'];
+    if (previous === change.content) {
+      status = 'unchanged';
+    } else if (change.expected !== undefined && (previous ?? '') !== change.expected) {
+      status = 'stale';
+    } else {
+      status = previous === undefined ? 'created' : 'updated';
+    }
+
+    const result: LocalWriteResult = { path: change.path, status, previous };
+    if (status === 'updated' && backup) {
+      result.backupPath = `${LOCAL_BACKUP_DIRECTORY}/${stamp}/${change.path}`;
+    }
+    if (!dryRun && (status === 'created' || status === 'updated')) {
+      if (result.backupPath) await writeLocalFile(root, result.backupPath, previous!);
+      await writeLocalFile(root, change.path, change.content);
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
 /**
  * Extracts and unpacks a .ZIP archive in-memory in the browser.
  * Enables offline code analysis for zipped repositories.
@@ -101,7 +313,7 @@ export async function extractZipFile(zipFile: File): Promise<File[]> {
     if (rootPrefix && cleanPath.startsWith(rootPrefix)) {
       cleanPath = cleanPath.slice(rootPrefix.length);
     }
-    if (!cleanPath || shouldIgnorePath(cleanPath)) continue;
+    if (!cleanPath || isNeverIngestedPath(cleanPath)) continue;
 
     const blob = await zipEntry.async('blob');
     const filename = cleanPath.split('/').pop() || 'file';
@@ -0,0 +1,102 @@
+import { GitHubReviewComment, PendingReviewComment, ReviewCommentSide } from '../types';
+
+export type PatchLineKind = 'hunk' | 'add' | 'del' | 'context';
+
+export interface PatchLine {
+  /** Posição da linha no patch (0 = primeiro cabeçalho @@) */
+  index: number;
+  kind: PatchLineKind;
+  content: string;
+  /** Linha no arquivo da base (ausente em adições e cabeçalhos) */
+  oldLine?: number;
+  /** Linha no arquivo do head (ausente em remoções e cabeçalhos) */
+  newLine?: number;
+}
+
+export interface ReviewAnchor {
+  line: number;
+  side: ReviewCommentSide;
+  start_line?: number;
+  start_side?: ReviewCommentSide;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Numera as linhas de um patch unificado (campo `patch` da API do GitHub)
+ * com as linhas de arquivo de cada lado, que é como a API de review ancora comentários.
+ */
+export const parsePatchLines = (patch: string): PatchLine[] => {
+  let oldLine = 0;
+  let newLine = 0;
+  return patch.split('\n').map((content, index) => {
+    const header = HUNK_HEADER.exec(content);
+    if (header) {
+      oldLine = Number(header[1]);
+      newLine = Number(header[2]);
+      return { index, kind: 'hunk', content };
+    }
+    if (content.startsWith('+')) {
+      return { index, kind: 'add', content, newLine: newLine++ };
+    }
+    if (content.startsWith('-')) {
+      return { index, kind: 'del', content, oldLine: oldLine++ };
+    }
+    // "\ No newline at end of file" não ocupa linha em nenhum dos lados
+    if (content.startsWith('\\')) {
+      return { index, kind: 'hunk', content };
+    }
+    return { index, kind: 'context', content, oldLine: oldLine++, newLine: newLine++ };
+  });
+};
+
+const toSideLine = (line: PatchLine): { line: number; side: ReviewCommentSide } | null => {
+  if (line.kind === 'del') return { line: line.oldLine!, side: 'LEFT' };
+  if (line.kind === 'add' || line.kind === 'context') return { line: line.newLine!, side: 'RIGHT' };
+  return null;
+};
+
+/**
+ * Converte uma seleção de linhas do patch (índices inclusivos, em qualquer ordem)
+ * na âncora do comentário. Seleções que cruzam hunks não são aceitas pela API.
+ */
+export const buildReviewAnchor = (lines: PatchLine[], fromIndex: number, toIndex: number): ReviewAnchor | null => {
+  const start = Math.min(fromIndex, toIndex);
+  const end = Math.max(fromIndex, toIndex);
+  const selected = lines.slice(start, end + 1);
+  if (selected.length === 0 || selected.some((line) => line.kind === 'hunk')) return null;
+
+  const last = toSideLine(selected[selected.length - 1])!;
+  if (selected.length === 1) return last;
+  const first = toSideLine(selected[0])!;
+  return { ...last, start_line: first.line, start_side: first.side };
+};
+
+/**
+ * Verifica se um comentário (enviado ou pendente) está ancorado na linha do patch.
+ */
+export const isCommentOnLine = (
+  comment: Pick<GitHubReviewComment, 'line' | 'side'> | Pick<PendingReviewComment, 'line' | 'side'>,
+  line: PatchLine
+) => {
+  const anchor = toSideLine(line);
+  return !!anchor && comment.line === anchor.line && (comment.side ?? 'RIGHT') === anchor.side;
+};
+
+/**
+ * Quantidade de comentários por arquivo (respostas não contam como novo marcador).
+ */
+export const countReviewCommentsByPath = (
+  comments: GitHubReviewComment[],
+  pending: PendingReviewComment[]
+): Map<string, number> => {
+  const counts = new Map<string, number>();
+  comments.forEach((comment) => {
+    if (comment.in_reply_to_id) return;
+    counts.set(comment.path, (counts.get(comment.path) ?? 0) + 1);
+  });
+  pending.forEach((comment) => {
+    counts.set(comment.path, (counts.get(comment.path) ?? 0) + 1);
+  });
+  return counts;
+};
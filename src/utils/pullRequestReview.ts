@@ -0,0 +1,79 @@
+import {
+  ComponentTrail,
+  GitHubPullRequestFile,
+  PullRequestFindingCategory,
+  PullRequestReviewFileInput,
+  PullRequestReviewFinding,
+  ThreadSuggestion
+} from '../types';
+
+/** Limite de arquivos por revisão (o servidor corta no mesmo valor) */
+export const MAX_REVIEW_FILES = 40;
+const MAX_TRAIL_NODES = 12;
+
+export const FINDING_CATEGORY_LABELS: Record<PullRequestFindingCategory, string> = {
+  risk: 'Risco',
+  missing_test: 'Teste ausente',
+  contract_break: 'Quebra de contrato'
+};
+
+const SEVERITY_ORDER = { high: 0, medium: 1, low: 2 } as const;
+
+/**
+ * Resume a trilha de impacto do arquivo em uma linha: o que ele alcança
+ * (hooks, stores, endpoints, tipos) além dele mesmo.
+ */
+export const summarizeTrail = (trail: ComponentTrail): string => {
+  const related = trail.nodes
+    .filter((node) => node.path !== trail.rootPath || node.stage === 'network')
+    .slice(0, MAX_TRAIL_NODES)
+    .map((node) => {
+      const endpoint = node.metadata?.endpoint
+        ? ` ${node.metadata.httpMethod ?? ''} ${node.metadata.endpoint}`.trimEnd()
+        : '';
+      return `${node.stage}:${node.name}${endpoint}${node.path !== trail.rootPath ? ` (${node.path})` : ''}`;
+    });
+  return related.length > 0 ? related.join(' → ') : '';
+};
+
+/**
+ * Arquivos do PR no formato da revisão; arquivos removidos não têm trilha.
+ */
+export const buildReviewFileInputs = (
+  files: GitHubPullRequestFile[],
+  getTrail: (path: string) => ComponentTrail | null
+): PullRequestReviewFileInput[] =>
+  files.slice(0, MAX_REVIEW_FILES).map((file) => {
+    const trail = file.status === 'removed' ? null : getTrail(file.filename);
+    const trailSummary = trail ? summarizeTrail(trail) : '';
+    return {
+      path: file.filename,
+      status: file.status,
+      ...(file.patch ? { patch: file.patch } : {}),
+      ...(trailSummary ? { trail: trailSummary } : {})
+    };
+  });
+
+/**
+ * Converte os achados da revisão em sugestões da thread, dos mais graves
+ * para os mais leves. Intervalos inválidos viram a linha inicial; sem linha
+ * inicial válida o trecho sugerido é descartado e o achado fica como nota.
+ */
+export const findingsToSuggestions = (
+  findings: PullRequestReviewFinding[]
+): Array<Omit<ThreadSuggestion, 'id' | 'included'>> =>
+  [...findings]
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+    .map((finding) => {
+      const start = finding.startLine && finding.startLine > 0 ? finding.startLine : undefined;
+      const end = start && finding.endLine && finding.endLine >= start ? finding.endLine : start;
+      const snippet = start ? finding.suggestion : undefined;
+      return {
+        type: snippet ? 'snippet' : 'file',
+        title: `[${FINDING_CATEGORY_LABELS[finding.category]}] ${finding.title}`,
+        description: `${finding.description || finding.title} (severidade: ${finding.severity})`,
+        path: finding.path,
+        ...(start && end ? { lines: [start, end] as [number, number] } : {}),
+        ...(snippet ? { content: snippet } : {})
+      };
+    });
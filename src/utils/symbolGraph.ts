@@ -0,0 +1,56 @@
+import { CodeNode, FileSystemNode, FlatNode, SemanticLink } from '../types';
+import { getEndpointId, getFileIdForNode } from './impactAnalysis';
+
+/**
+ * Estruturas de código conhecidas por arquivo: as analisadas na árvore têm
+ * prioridade sobre as do índice do repositório.
+ */
+export const collectCodeStructures = (
+  rootNode: FileSystemNode | null,
+  indexedCodeStructures: Map<string, CodeNode[]>
+) => {
+  const structures = new Map(indexedCodeStructures);
+  const visit = (node: FileSystemNode) => {
+    if (node.codeStructure && node.codeStructure.length > 0) structures.set(node.path, node.codeStructure);
+    node.children?.forEach(visit);
+  };
+  if (rootNode) visit(rootNode);
+  return structures;
+};
+
+/**
+ * Liga as arestas semânticas aos nós visíveis: um símbolo sem nó no grafo
+ * (arquivo não expandido) é representado pelo arquivo que o contém. Arestas
+ * que viram laço são descartadas e as que coincidem são mescladas.
+ */
+export const liftSemanticLinks = (
+  semanticLinks: SemanticLink[],
+  nodesById: Record<string, FlatNode>
+): SemanticLink[] => {
+  const resolve = (id: string) => (nodesById[id] || !id.includes('#') ? id : getFileIdForNode(id));
+  const linksByKey = new Map<string, SemanticLink>();
+
+  semanticLinks.forEach((link) => {
+    const sourceId = getEndpointId(link.source);
+    const targetId = getEndpointId(link.target);
+    const source = resolve(sourceId);
+    const target = resolve(targetId);
+    if (source === target) return;
+    const key = `${link.kind}:${source}-->${target}`;
+    const existing = linksByKey.get(key);
+    if (!existing) {
+      linksByKey.set(key, source === sourceId && target === targetId
+        ? link
+        : { ...link, source, target, symbols: [...(link.symbols ?? [])], lineRanges: [...(link.lineRanges ?? [])] });
+      return;
+    }
+    const merged: SemanticLink = {
+      ...existing,
+      symbols: [...new Set([...(existing.symbols ?? []), ...(link.symbols ?? [])])],
+      lineRanges: [...(existing.lineRanges ?? []), ...(link.lineRanges ?? [])]
+    };
+    linksByKey.set(key, merged);
+  });
+
+  return Array.from(linksByKey.values());
+};
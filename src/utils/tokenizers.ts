@@ -0,0 +1,190 @@
+/**
+ * Tokenizers por família de modelo.
+ *
+ * Famílias com vocabulário público (GPT) carregam o BPE exato sob demanda via
+ * `loadExactTokenizer`, chamado só pelo `tokenizer.worker`. As demais — e o
+ * GPT fora do worker ou enquanto o vocabulário carrega — usam uma aproximação:
+ * a pré-tokenização do modelo (palavras, números, pontuação e espaços) com o
+ * custo típico de cada pedaço no vocabulário dele. Ela erra bem menos que a
+ * regra de 4 caracteres e é recalibrada com o uso real informado pelo
+ * servidor (`AiUsageTokens`).
+ *
+ * Novas famílias entram por `registerTokenizer` neste módulo, para valerem
+ * tanto no worker quanto no fallback síncrono.
+ */
+
+export type TokenizerFamily = 'gemini' | 'gpt' | 'llama' | 'heuristic';
+
+export interface Tokenizer {
+    family: TokenizerFamily;
+    countTokens: (text: string) => number;
+}
+
+/** Custo em caracteres por token de cada classe de pedaço. */
+interface PieceCosts {
+    asciiWord: number;
+    unicodeWord: number;
+    /** Dígitos agrupados por token (1 = um token por dígito) */
+    digits: number;
+    punctuation: number;
+    whitespace: number;
+}
+
+const PRE_TOKENIZE_PATTERN = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+const ASCII_PATTERN = /^[\x00-\x7f]*$/;
+
+const createPieceTokenizer = (family: TokenizerFamily, costs: PieceCosts): Tokenizer => ({
+    family,
+    countTokens: (text: string) => {
+        if (!text) return 0;
+        let tokens = 0;
+        for (const match of text.matchAll(PRE_TOKENIZE_PATTERN)) {
+            const piece = match[0];
+            const body = piece.trimStart();
+            if (body.length === 0) {
+                tokens += Math.ceil(piece.length / costs.whitespace);
+            } else if (/^\p{L}/u.test(body)) {
+                const perToken = ASCII_PATTERN.test(body) ? costs.asciiWord : costs.unicodeWord;
+                tokens += Math.max(1, Math.ceil(piece.length / perToken));
+            } else if (/^\p{N}/u.test(body)) {
+                tokens += Math.ceil(body.length / costs.digits);
+            } else {
+                tokens += Math.max(1, Math.ceil(piece.length / costs.punctuation));
+            }
+        }
+        return tokens;
+    },
+});
+
+const TOKENIZERS = new Map<TokenizerFamily, Tokenizer>();
+
+export function registerTokenizer(tokenizer: Tokenizer): void {
+    TOKENIZERS.set(tokenizer.family, tokenizer);
+}
+
+// SentencePiece com vocabulário grande; dígitos viram um token cada
+registerTokenizer(createPieceTokenizer('gemini', {
+    asciiWord: 5.5,
+    unicodeWord: 3.5,
+    digits: 1,
+    punctuation: 1.5,
+    whitespace: 4,
+}));
+
+// Fallback aproximado do BPE cl100k/o200k; números em grupos de até 3 dígitos
+registerTokenizer(createPieceTokenizer('gpt', {
+    asciiWord: 4.5,
+    unicodeWord: 2.8,
+    digits: 3,
+    punctuation: 2,
+    whitespace: 8,
+}));
+
+// Llama 3 / Qwen / Mistral: BPE byte-level com vocabulário médio
+registerTokenizer(createPieceTokenizer('llama', {
+    asciiWord: 4.2,
+    unicodeWord: 2.6,
+    digits: 2,
+    punctuation: 1.8,
+    whitespace: 6,
+}));
+
+registerTokenizer({
+    family: 'heuristic',
+    countTokens: (text: string) => Math.ceil(text.length / 4),
+});
+
+const EXACT_TOKENIZER_LOADERS: Partial<Record<TokenizerFamily, () => Promise<Tokenizer>>> = {
+    // o200k_base: GPT-4o, série o e GPT-5 (~2 MB de vocabulário, fora do bundle principal)
+    gpt: async () => {
+        const { countTokens } = await import('gpt-tokenizer/encoding/o200k_base');
+        return {
+            family: 'gpt',
+            // Marcadores como <|endoftext|> vindos do usuário contam como texto comum
+            countTokens: (text: string) => (text ? countTokens(text, { disallowedSpecial: new Set() }) : 0),
+        };
+    },
+};
+
+const exactTokenizerLoads = new Map<TokenizerFamily, Promise<boolean>>();
+
+/**
+ * Indica se a família conta com o BPE do próprio provedor; a contagem dessas
+ * famílias já é a cobrada e não passa por calibração.
+ */
+export function hasExactTokenizer(family: TokenizerFamily): boolean {
+    return family in EXACT_TOKENIZER_LOADERS;
+}
+
+/**
+ * Troca a aproximação da família pelo tokenizer exato, quando existe um.
+ * Resolve `false` se a família não tem BPE público ou se o carregamento falhou.
+ */
+export function loadExactTokenizer(family: TokenizerFamily): Promise<boolean> {
+    const loader = EXACT_TOKENIZER_LOADERS[family];
+    if (!loader) return Promise.resolve(false);
+
+    let load = exactTokenizerLoads.get(family);
+    if (!load) {
+        load = loader()
+            .then(tokenizer => {
+                registerTokenizer(tokenizer);
+                return true;
+            })
+            .catch(error => {
+                console.warn(`Exact ${family} tokenizer unavailable, using the approximation:`, error);
+                return false;
+            });
+        exactTokenizerLoads.set(family, load);
+    }
+    return load;
+}
+
+const MODEL_FAMILY_PATTERNS: Array<{ pattern: RegExp; family: TokenizerFamily }> = [
+    { pattern: /gemini|gemma|palm/i, family: 'gemini' },
+    { pattern: /gpt|(^|[:/])o[134]\b|davinci|text-embedding/i, family: 'gpt' },
+    { pattern: /llama|mistral|mixtral|qwen|deepseek|phi|codestral/i, family: 'llama' },
+];
+
+/** Família usada quando o modelo não é informado (padrão do servidor: Gemini). */
+export const DEFAULT_TOKENIZER_FAMILY: TokenizerFamily = 'gemini';
+
+/**
+ * Escolhe a família pelo id do modelo (`provedor:modelo` ou só o modelo).
+ */
+export function resolveTokenizerFamily(model?: string | null): TokenizerFamily {
+    if (!model) return DEFAULT_TOKENIZER_FAMILY;
+    const match = MODEL_FAMILY_PATTERNS.find(entry => entry.pattern.test(model));
+    if (match) return match.family;
+    return model.startsWith('google:') || model.startsWith('vertex:') ? 'gemini' : 'heuristic';
+}
+
+export function getTokenizer(family: TokenizerFamily): Tokenizer {
+    return TOKENIZERS.get(family) ?? (TOKENIZERS.get('heuristic') as Tokenizer);
+}
+
+// ============================================
+// Calibração
+// ============================================
+
+const CALIBRATION_WEIGHT = 0.3;
+const MIN_CALIBRATION = 0.5;
+const MAX_CALIBRATION = 2;
+
+/**
+ * Atualiza o fator de correção (média móvel) com a contagem real reportada
+ * pelo provedor para um texto cuja contagem local era `estimated`.
+ */
+export function reconcileCalibration(current: number, estimated: number, reported: number): number {
+    if (!(estimated > 0) || !(reported > 0)) return current;
+    const observed = Math.min(MAX_CALIBRATION, Math.max(MIN_CALIBRATION, reported / estimated));
+    return current + (observed - current) * CALIBRATION_WEIGHT;
+}
+
+export function countTokensWith(family: TokenizerFamily, texts: string[], factor = 1): number[] {
+    const tokenizer = getTokenizer(family);
+    return texts.map(text => {
+        const raw = tokenizer.countTokens(text);
+        return raw === 0 ? 0 : Math.max(1, Math.round(raw * factor));
+    });
+}
@@ -1,11 +1,12 @@
 import { ComponentTrail, TrailLink, TrailNode, RoutePageInfo } from '../types';
-import { resolveImportTarget } from '../dependencyParser';
+import { ModuleResolutionContext, resolveImportTarget } from '../dependencyParser';
 
 interface TrailExtractorOptions {
   targetPath: string;
   allFilePaths: string[];
   fileMap: Map<string, string>;
   projectFileContents?: Map<string, string>;
+  resolutionContext?: ModuleResolutionContext | null;
 }
 
 /**
@@ -45,7 +46,8 @@ const extractSnippet = (content: string, keyword?: string, maxLines = 25): strin
 const parseImportMappings = (
   sourcePath: string,
   content: string,
-  filePathSet: Set<string>
+  filePathSet: Set<string>,
+  resolutionContext?: ModuleResolutionContext | null
 ): Map<string, { targetPath: string; importedName: string }> => {
   const symbolMap = new Map<string, { targetPath: string; importedName: string }>();
   if (!content) return symbolMap;
@@ -56,7 +58,7 @@ const parseImportMappings = (
   while ((match = namedImportRegex.exec(content)) !== null) {
     const rawSymbols = match[1];
     const specifier = match[2];
-    const targetPath = resolveImportTarget(sourcePath, specifier, filePathSet);
+    const targetPath = resolveImportTarget(sourcePath, specifier, filePathSet, resolutionContext);
     if (targetPath) {
       rawSymbols.split(',').forEach((sym) => {
         const clean = sym.trim();
@@ -75,7 +77,7 @@ const parseImportMappings = (
     const localName = match[1];
     const specifier = match[2];
     if (localName !== 'type' && localName !== '{') {
-      const targetPath = resolveImportTarget(sourcePath, specifier, filePathSet);
+      const targetPath = resolveImportTarget(sourcePath, specifier, filePathSet, resolutionContext);
       if (targetPath) {
         symbolMap.set(localName, { targetPath, importedName: 'default' });
       }
@@ -87,7 +89,7 @@ const parseImportMappings = (
   while ((match = namespaceImportRegex.exec(content)) !== null) {
     const localName = match[1];
     const specifier = match[2];
-    const targetPath = resolveImportTarget(sourcePath, specifier, filePathSet);
+    const targetPath = resolveImportTarget(sourcePath, specifier, filePathSet, resolutionContext);
     if (targetPath) {
       symbolMap.set(localName, { targetPath, importedName: '*' });
     }
@@ -166,7 +168,8 @@ export const extractComponentTrail = ({
   targetPath,
   allFilePaths,
   fileMap,
-  projectFileContents
+  projectFileContents,
+  resolutionContext
 }: TrailExtractorOptions): ComponentTrail => {
   const filePathSet = new Set(allFilePaths);
   const nodes: TrailNode[] = [];
@@ -195,7 +198,7 @@ export const extractComponentTrail = ({
   nodes.push(rootNode);
   addedNodeIds.add(rootNodeId);
 
-  const rootImports = parseImportMappings(targetPath, rootContent, filePathSet);
+  const rootImports = parseImportMappings(targetPath, rootContent, filePathSet, resolutionContext);
   const hooksInRoot = extractHooksInContent(rootContent);
   const apiCallsInRoot = extractApiPatternsInContent(rootContent);
 
@@ -246,7 +249,7 @@ export const extractComponentTrail = ({
 
       // Look for API calls inside this state store / hook
       const apiCallsInHook = extractApiPatternsInContent(hookContent);
-      const hookImports = parseImportMappings(hookPath, hookContent, filePathSet);
+      const hookImports = parseImportMappings(hookPath, hookContent, filePathSet, resolutionContext);
 
       // -------------------------------------------------------------
       // Stage 3: API & Services Layer (from State/Hook)
@@ -421,7 +424,8 @@ export const extractComponentTrail = ({
 export const discoverRoutesAndPages = (
   allFilePaths: string[],
   fileMap: Map<string, string>,
-  projectFileContents?: Map<string, string>
+  projectFileContents?: Map<string, string>,
+  resolutionContext?: ModuleResolutionContext | null
 ): RoutePageInfo[] => {
   const routes: RoutePageInfo[] = [];
 
@@ -460,7 +464,7 @@ export const discoverRoutesAndPages = (
 
     // Discover interactive sub-components referenced in this page
     const subComponents: RoutePageInfo['components'] = [];
-    const importMap = parseImportMappings(filePath, content, new Set(allFilePaths));
+    const importMap = parseImportMappings(filePath, content, new Set(allFilePaths), resolutionContext);
 
     importMap.forEach((info, localName) => {
       if (
@@ -2,7 +2,11 @@ import {
   AiAuditEntry,
   AiMetricsResponse,
   AiMetricsSummary,
+  AiModelOption,
+  AiModelsResponse,
   AiUsageTokens,
+  IndexJob,
+  RepositoryIndex,
   SessionPayload,
   ThreadSuggestion,
 } from '../types';
@@ -85,6 +89,21 @@ export const isAiMetricsResponse = (value: unknown): value is AiMetricsApiRespon
   return isAiMetricsSummary(value.summary) && Array.isArray(value.recent) && value.recent.every(isAiAuditEntry);
 };
 
+const isAiModelOption = (value: unknown): value is AiModelOption =>
+  isRecord(value) && isString(value.id) && isString(value.provider) && isString(value.model);
+
+export const isAiModelsResponse = (value: unknown): value is AiModelsResponse => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  return (
+    isString(value.defaultProvider) &&
+    Array.isArray(value.models) &&
+    value.models.every(isAiModelOption)
+  );
+};
+
 export const isThreadSuggestion = (value: unknown): value is ThreadSuggestion => {
   if (!isRecord(value)) {
     return false;
@@ -198,5 +217,53 @@ export const isSessionPayload = (value: unknown): value is SessionPayload => {
     }
   }
 
+  if (value.ingestionRules !== undefined) {
+    if (!isRecord(value.ingestionRules)) {
+      return false;
+    }
+    const { include, exclude } = value.ingestionRules;
+    if (!Array.isArray(include) || !include.every(isString) || !Array.isArray(exclude) || !exclude.every(isString)) {
+      return false;
+    }
+  }
+
   return true;
 };
+
+const INDEX_JOB_STATUSES = new Set<IndexJob['status']>(['pending', 'in_progress', 'ok', 'error']);
+
+export const isIndexJob = (value: unknown): value is IndexJob => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  return (
+    isString(value.id) &&
+    isString(value.status) &&
+    INDEX_JOB_STATUSES.has(value.status as IndexJob['status']) &&
+    (value.progress === undefined ||
+      value.progress === null ||
+      (isRecord(value.progress) &&
+        isString(value.progress.phase) &&
+        isNumber(value.progress.filesDone) &&
+        (value.progress.filesTotal === null || isNumber(value.progress.filesTotal)))) &&
+    (value.error === null || isString(value.error))
+  );
+};
+
+export const isRepositoryIndex = (value: unknown): value is RepositoryIndex => {
+  if (!isRecord(value)) {
+    return false;
+  }
+
+  return (
+    isString(value.jobId) &&
+    isString(value.indexedAt) &&
+    Array.isArray(value.files) &&
+    value.files.every((file) => isRecord(file) && isString(file.path) && isString(file.hash)) &&
+    Array.isArray(value.semanticLinks) &&
+    value.semanticLinks.every(
+      (link) => isRecord(link) && isString(link.source) && isString(link.target) && isString(link.kind),
+    )
+  );
+};
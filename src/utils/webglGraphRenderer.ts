@@ -0,0 +1,497 @@
+import * as d3 from 'd3';
+
+/** Abaixo deste zoom os rótulos não são desenhados no backend WebGL. */
+export const LABEL_ZOOM_THRESHOLD = 0.6;
+const MAX_LABELS = 400;
+
+export interface GraphRenderNode {
+  id: string;
+  x: number;
+  y: number;
+  radius: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: number;
+  label: string;
+  labelOffset: number;
+  labelFont: string;
+  /** Marcador curto no canto do nó (ex.: comentários de revisão) */
+  badge?: string;
+}
+
+export interface GraphRenderLink {
+  sourceX: number;
+  sourceY: number;
+  targetX: number;
+  targetY: number;
+  color: string;
+  opacity: number;
+  width: number;
+}
+
+export interface GraphRenderScene {
+  nodes: GraphRenderNode[];
+  links: GraphRenderLink[];
+}
+
+export interface GraphViewport {
+  width: number;
+  height: number;
+  transform: { k: number; x: number; y: number };
+}
+
+export interface WebGLGraphRenderer {
+  setScene: (scene: GraphRenderScene) => void;
+  render: (viewport: GraphViewport) => void;
+  /** Id do nó sob o ponto (coordenadas CSS do canvas), lido do buffer de ids */
+  pick: (x: number, y: number) => string | null;
+  dispose: () => void;
+}
+
+type Rgba = [number, number, number, number];
+
+const colorCache = new Map<string, Rgba>();
+
+/**
+ * Converte cores CSS (hex, rgba, `transparent`) em RGBA normalizado.
+ */
+export function parseRenderColor(value: string, opacity = 1): Rgba {
+  let parsed = colorCache.get(value);
+  if (!parsed) {
+    const color = d3.color(value)?.rgb();
+    parsed = color && Number.isFinite(color.r)
+      ? [color.r / 255, color.g / 255, color.b / 255, Number.isFinite(color.opacity) ? color.opacity : 1]
+      : [0, 0, 0, 0];
+    colorCache.set(value, parsed);
+  }
+  return opacity === 1 ? parsed : [parsed[0], parsed[1], parsed[2], parsed[3] * opacity];
+}
+
+/** Índice do nó + 1 em RGB (0 = fundo). */
+export const encodePickColor = (index: number): [number, number, number] => {
+  const value = index + 1;
+  return [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+};
+
+export const decodePickColor = (r: number, g: number, b: number) => r + (g << 8) + (b << 16) - 1;
+
+const SOFTWARE_RENDERER_PATTERN = /swiftshader|llvmpipe|softpipe|software|basic render|mesa offscreen/i;
+
+/**
+ * Contextos rasterizados na CPU (navegadores headless, VMs sem GPU) ficam
+ * mais lentos que o canvas 2D; nesses casos o WebGL não é usado.
+ */
+export function isSoftwareRenderer(gl: WebGL2RenderingContext): boolean {
+  const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+  const renderer = gl.getParameter(debugInfo ? debugInfo.UNMASKED_RENDERER_WEBGL : gl.RENDERER);
+  return typeof renderer === 'string' && SOFTWARE_RENDERER_PATTERN.test(renderer);
+}
+
+// ============================================
+// Shaders
+// ============================================
+
+const NODE_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_center;
+layout(location = 2) in float a_radius;
+layout(location = 3) in vec4 a_fill;
+layout(location = 4) in vec4 a_stroke;
+layout(location = 5) in float a_strokeWidth;
+uniform vec3 u_transform;
+uniform vec2 u_resolution;
+out vec2 v_local;
+out float v_radius;
+out vec4 v_fill;
+out vec4 v_stroke;
+out float v_strokeWidth;
+void main() {
+  float outer = a_radius + a_strokeWidth * 0.5 + 1.0;
+  vec2 screen = (a_center + a_corner * outer) * u_transform.x + u_transform.yz;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_local = a_corner * outer;
+  v_radius = a_radius;
+  v_fill = a_fill;
+  v_stroke = a_stroke;
+  v_strokeWidth = a_strokeWidth;
+}`;
+
+const NODE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_local;
+in float v_radius;
+in vec4 v_fill;
+in vec4 v_stroke;
+in float v_strokeWidth;
+uniform float u_pixel;
+out vec4 outColor;
+void main() {
+  float d = length(v_local);
+  float halfStroke = v_strokeWidth * 0.5;
+  float outerEdge = v_radius + halfStroke;
+  float fillAlpha = v_fill.a * (1.0 - smoothstep(v_radius - u_pixel, v_radius, d));
+  float ring = smoothstep(v_radius - halfStroke - u_pixel, v_radius - halfStroke, d)
+    * (1.0 - smoothstep(outerEdge - u_pixel, outerEdge, d));
+  float strokeAlpha = v_stroke.a * ring * step(0.001, v_strokeWidth);
+  float alpha = strokeAlpha + fillAlpha * (1.0 - strokeAlpha);
+  if (alpha <= 0.0) discard;
+  outColor = vec4(v_stroke.rgb * strokeAlpha + v_fill.rgb * fillAlpha * (1.0 - strokeAlpha), alpha);
+}`;
+
+const PICK_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 v_local;
+in float v_radius;
+in vec4 v_fill;
+in vec4 v_stroke;
+in float v_strokeWidth;
+out vec4 outColor;
+void main() {
+  if (length(v_local) > v_radius + v_strokeWidth * 0.5) discard;
+  outColor = vec4(v_fill.rgb, 1.0);
+}`;
+
+const LINK_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec2 a_source;
+layout(location = 2) in vec2 a_target;
+layout(location = 3) in vec4 a_color;
+layout(location = 4) in float a_width;
+uniform vec3 u_transform;
+uniform vec2 u_resolution;
+out vec4 v_color;
+void main() {
+  vec2 source = a_source * u_transform.x + u_transform.yz;
+  vec2 target = a_target * u_transform.x + u_transform.yz;
+  vec2 direction = target - source;
+  float len = max(length(direction), 0.0001);
+  vec2 normal = vec2(-direction.y, direction.x) / len;
+  float width = max(a_width * u_transform.x, 1.0);
+  vec2 screen = mix(source, target, a_corner.x) + normal * a_corner.y * width * 0.5;
+  vec2 clip = screen / u_resolution * 2.0 - 1.0;
+  gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+  v_color = a_color;
+}`;
+
+const LINK_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec4 v_color;
+out vec4 outColor;
+void main() {
+  outColor = vec4(v_color.rgb * v_color.a, v_color.a);
+}`;
+
+// Dois triângulos por instância
+const NODE_CORNERS = new Float32Array([-1, -1, 1, -1, 1, 1, -1, -1, 1, 1, -1, 1]);
+const LINK_CORNERS = new Float32Array([0, -1, 1, -1, 1, 1, 0, -1, 1, 1, 0, 1]);
+const NODE_FLOATS = 12;
+const LINK_FLOATS = 9;
+
+const compileProgram = (gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string) => {
+  const compile = (type: number, source: string) => {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(gl.getShaderInfoLog(shader) ?? 'Shader compilation failed');
+    }
+    return shader;
+  };
+  const program = gl.createProgram();
+  if (!program) throw new Error('Failed to create program');
+  const vertexShader = compile(gl.VERTEX_SHADER, vertexSource);
+  const fragmentShader = compile(gl.FRAGMENT_SHADER, fragmentSource);
+  gl.attachShader(program, vertexShader);
+  gl.attachShader(program, fragmentShader);
+  gl.linkProgram(program);
+  gl.deleteShader(vertexShader);
+  gl.deleteShader(fragmentShader);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) ?? 'Program link failed');
+  }
+  return program;
+};
+
+/**
+ * Configura um atributo por instância (`divisor` 1) de um buffer intercalado.
+ */
+const instanceAttribute = (
+  gl: WebGL2RenderingContext,
+  location: number,
+  size: number,
+  strideFloats: number,
+  offsetFloats: number
+) => {
+  gl.enableVertexAttribArray(location);
+  gl.vertexAttribPointer(location, size, gl.FLOAT, false, strideFloats * 4, offsetFloats * 4);
+  gl.vertexAttribDivisor(location, 1);
+};
+
+const cornerAttribute = (gl: WebGL2RenderingContext, corners: Float32Array) => {
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, corners, gl.STATIC_DRAW);
+  gl.enableVertexAttribArray(0);
+  gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+  return buffer;
+};
+
+// ============================================
+// Renderer
+// ============================================
+
+/**
+ * Cria o backend WebGL2 do grafo: nós e arestas desenhados por instância,
+ * picking por buffer de ids e rótulos num canvas 2D sobreposto.
+ * Retorna `null` quando não há WebGL2 acelerado; o chamador usa o canvas 2D.
+ */
+export function createWebGLGraphRenderer(
+  canvas: HTMLCanvasElement,
+  labelCanvas: HTMLCanvasElement | null,
+  onContextLost?: () => void
+): WebGLGraphRenderer | null {
+  let gl: WebGL2RenderingContext | null = null;
+  try {
+    gl = canvas.getContext('webgl2', {
+      antialias: true,
+      failIfMajorPerformanceCaveat: true,
+    }) as WebGL2RenderingContext | null;
+  } catch {
+    gl = null;
+  }
+  if (!gl || isSoftwareRenderer(gl)) return null;
+  const context = gl;
+
+  let nodeProgram: WebGLProgram;
+  let pickProgram: WebGLProgram;
+  let linkProgram: WebGLProgram;
+  try {
+    nodeProgram = compileProgram(context, NODE_VERTEX_SHADER, NODE_FRAGMENT_SHADER);
+    pickProgram = compileProgram(context, NODE_VERTEX_SHADER, PICK_FRAGMENT_SHADER);
+    linkProgram = compileProgram(context, LINK_VERTEX_SHADER, LINK_FRAGMENT_SHADER);
+  } catch (error) {
+    console.warn('WebGL graph renderer unavailable:', error);
+    return null;
+  }
+
+  const nodeBuffer = context.createBuffer();
+  const pickBuffer = context.createBuffer();
+  const linkBuffer = context.createBuffer();
+
+  const nodeVao = context.createVertexArray();
+  context.bindVertexArray(nodeVao);
+  const nodeCornerBuffer = cornerAttribute(context, NODE_CORNERS);
+  context.bindBuffer(context.ARRAY_BUFFER, nodeBuffer);
+  instanceAttribute(context, 1, 2, NODE_FLOATS, 0);
+  instanceAttribute(context, 2, 1, NODE_FLOATS, 2);
+  instanceAttribute(context, 3, 4, NODE_FLOATS, 3);
+  instanceAttribute(context, 4, 4, NODE_FLOATS, 7);
+  instanceAttribute(context, 5, 1, NODE_FLOATS, 11);
+
+  // Mesmo layout dos nós, com a cor de picking no lugar do preenchimento
+  const pickVao = context.createVertexArray();
+  context.bindVertexArray(pickVao);
+  context.bindBuffer(context.ARRAY_BUFFER, nodeCornerBuffer);
+  context.enableVertexAttribArray(0);
+  context.vertexAttribPointer(0, 2, context.FLOAT, false, 0, 0);
+  context.bindBuffer(context.ARRAY_BUFFER, nodeBuffer);
+  instanceAttribute(context, 1, 2, NODE_FLOATS, 0);
+  instanceAttribute(context, 2, 1, NODE_FLOATS, 2);
+  instanceAttribute(context, 4, 4, NODE_FLOATS, 7);
+  instanceAttribute(context, 5, 1, NODE_FLOATS, 11);
+  context.bindBuffer(context.ARRAY_BUFFER, pickBuffer);
+  context.enableVertexAttribArray(3);
+  context.vertexAttribPointer(3, 4, context.UNSIGNED_BYTE, true, 0, 0);
+  context.vertexAttribDivisor(3, 1);
+
+  const linkVao = context.createVertexArray();
+  context.bindVertexArray(linkVao);
+  const linkCornerBuffer = cornerAttribute(context, LINK_CORNERS);
+  context.bindBuffer(context.ARRAY_BUFFER, linkBuffer);
+  instanceAttribute(context, 1, 2, LINK_FLOATS, 0);
+  instanceAttribute(context, 2, 2, LINK_FLOATS, 2);
+  instanceAttribute(context, 3, 4, LINK_FLOATS, 4);
+  instanceAttribute(context, 4, 1, LINK_FLOATS, 8);
+  context.bindVertexArray(null);
+
+  const pickTexture = context.createTexture();
+  const pickFramebuffer = context.createFramebuffer();
+  let pickSize = { width: 0, height: 0 };
+
+  let scene: GraphRenderScene = { nodes: [], links: [] };
+  let lastViewport: GraphViewport | null = null;
+
+  const handleContextLost = (event: Event) => {
+    event.preventDefault();
+    onContextLost?.();
+  };
+  canvas.addEventListener('webglcontextlost', handleContextLost);
+
+  const setUniforms = (program: WebGLProgram, viewport: GraphViewport) => {
+    context.useProgram(program);
+    const { k, x, y } = viewport.transform;
+    context.uniform3f(context.getUniformLocation(program, 'u_transform'), k, x, y);
+    context.uniform2f(context.getUniformLocation(program, 'u_resolution'), viewport.width, viewport.height);
+    const pixelLocation = context.getUniformLocation(program, 'u_pixel');
+    if (pixelLocation) context.uniform1f(pixelLocation, 1 / Math.max(k, 0.0001));
+  };
+
+  const resizeCanvas = (target: HTMLCanvasElement, viewport: GraphViewport) => {
+    const dpr = window.devicePixelRatio || 1;
+    const width = Math.floor(viewport.width * dpr);
+    const height = Math.floor(viewport.height * dpr);
+    if (target.width !== width || target.height !== height) {
+      target.width = width;
+      target.height = height;
+      target.style.width = `${viewport.width}px`;
+      target.style.height = `${viewport.height}px`;
+    }
+    return dpr;
+  };
+
+  const drawLabels = (viewport: GraphViewport) => {
+    if (!labelCanvas) return;
+    const ctx = labelCanvas.getContext('2d');
+    if (!ctx) return;
+    const dpr = resizeCanvas(labelCanvas, viewport);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, labelCanvas.width, labelCanvas.height);
+    const { k, x, y } = viewport.transform;
+    if (k < LABEL_ZOOM_THRESHOLD) return;
+
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = '#cbd5e1';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    let drawn = 0;
+    for (const node of scene.nodes) {
+      if (drawn >= MAX_LABELS) break;
+      const screenX = node.x * k + x;
+      const screenY = (node.y + node.labelOffset) * k + y;
+      if (screenX < -100 || screenX > viewport.width + 100 || screenY < -20 || screenY > viewport.height + 20) continue;
+      ctx.font = node.labelFont;
+      ctx.fillText(node.label, screenX, screenY);
+      if (node.badge) {
+        const badgeX = (node.x + node.radius * 0.75) * k + x;
+        const badgeY = (node.y - node.radius * 0.75) * k + y;
+        ctx.beginPath();
+        ctx.arc(badgeX, badgeY, 6, 0, Math.PI * 2);
+        ctx.fillStyle = '#a78bfa';
+        ctx.fill();
+        ctx.fillStyle = '#0f172a';
+        ctx.font = 'bold 8px sans-serif';
+        ctx.fillText(node.badge, badgeX, badgeY);
+        ctx.fillStyle = '#cbd5e1';
+      }
+      drawn += 1;
+    }
+  };
+
+  return {
+    setScene: (nextScene) => {
+      scene = nextScene;
+
+      const nodeData = new Float32Array(scene.nodes.length * NODE_FLOATS);
+      const pickData = new Uint8Array(scene.nodes.length * 4);
+      scene.nodes.forEach((node, index) => {
+        const offset = index * NODE_FLOATS;
+        nodeData[offset] = node.x;
+        nodeData[offset + 1] = node.y;
+        nodeData[offset + 2] = node.radius;
+        nodeData.set(parseRenderColor(node.fill), offset + 3);
+        nodeData.set(parseRenderColor(node.stroke), offset + 7);
+        nodeData[offset + 11] = node.strokeWidth;
+        pickData.set([...encodePickColor(index), 255], index * 4);
+      });
+
+      const linkData = new Float32Array(scene.links.length * LINK_FLOATS);
+      scene.links.forEach((link, index) => {
+        const offset = index * LINK_FLOATS;
+        linkData[offset] = link.sourceX;
+        linkData[offset + 1] = link.sourceY;
+        linkData[offset + 2] = link.targetX;
+        linkData[offset + 3] = link.targetY;
+        linkData.set(parseRenderColor(link.color, link.opacity), offset + 4);
+        linkData[offset + 8] = link.width;
+      });
+
+      context.bindBuffer(context.ARRAY_BUFFER, nodeBuffer);
+      context.bufferData(context.ARRAY_BUFFER, nodeData, context.DYNAMIC_DRAW);
+      context.bindBuffer(context.ARRAY_BUFFER, pickBuffer);
+      context.bufferData(context.ARRAY_BUFFER, pickData, context.DYNAMIC_DRAW);
+      context.bindBuffer(context.ARRAY_BUFFER, linkBuffer);
+      context.bufferData(context.ARRAY_BUFFER, linkData, context.DYNAMIC_DRAW);
+    },
+
+    render: (viewport) => {
+      lastViewport = viewport;
+      resizeCanvas(canvas, viewport);
+      context.viewport(0, 0, canvas.width, canvas.height);
+      context.clearColor(0, 0, 0, 0);
+      context.clear(context.COLOR_BUFFER_BIT);
+      context.enable(context.BLEND);
+      context.blendFunc(context.ONE, context.ONE_MINUS_SRC_ALPHA);
+
+      if (scene.links.length > 0) {
+        setUniforms(linkProgram, viewport);
+        context.bindVertexArray(linkVao);
+        context.drawArraysInstanced(context.TRIANGLES, 0, 6, scene.links.length);
+      }
+      if (scene.nodes.length > 0) {
+        setUniforms(nodeProgram, viewport);
+        context.bindVertexArray(nodeVao);
+        context.drawArraysInstanced(context.TRIANGLES, 0, 6, scene.nodes.length);
+      }
+      context.bindVertexArray(null);
+      drawLabels(viewport);
+    },
+
+    pick: (x, y) => {
+      if (!lastViewport || scene.nodes.length === 0) return null;
+      const dpr = window.devicePixelRatio || 1;
+      const width = canvas.width;
+      const height = canvas.height;
+
+      context.bindFramebuffer(context.FRAMEBUFFER, pickFramebuffer);
+      if (pickSize.width !== width || pickSize.height !== height) {
+        context.bindTexture(context.TEXTURE_2D, pickTexture);
+        context.texImage2D(context.TEXTURE_2D, 0, context.RGBA, width, height, 0, context.RGBA, context.UNSIGNED_BYTE, null);
+        context.framebufferTexture2D(context.FRAMEBUFFER, context.COLOR_ATTACHMENT0, context.TEXTURE_2D, pickTexture, 0);
+        pickSize = { width, height };
+      }
+
+      // Só o pixel sob o cursor é rasterizado
+      const pixelX = Math.floor(x * dpr);
+      const pixelY = height - Math.floor(y * dpr) - 1;
+      context.viewport(0, 0, width, height);
+      context.enable(context.SCISSOR_TEST);
+      context.scissor(pixelX, pixelY, 1, 1);
+      context.disable(context.BLEND);
+      context.clearColor(0, 0, 0, 0);
+      context.clear(context.COLOR_BUFFER_BIT);
+      setUniforms(pickProgram, lastViewport);
+      context.bindVertexArray(pickVao);
+      context.drawArraysInstanced(context.TRIANGLES, 0, 6, scene.nodes.length);
+      context.bindVertexArray(null);
+
+      const pixel = new Uint8Array(4);
+      context.readPixels(pixelX, pixelY, 1, 1, context.RGBA, context.UNSIGNED_BYTE, pixel);
+      context.disable(context.SCISSOR_TEST);
+      context.bindFramebuffer(context.FRAMEBUFFER, null);
+
+      const index = decodePickColor(pixel[0], pixel[1], pixel[2]);
+      return scene.nodes[index]?.id ?? null;
+    },
+
+    dispose: () => {
+      canvas.removeEventListener('webglcontextlost', handleContextLost);
+      [nodeBuffer, pickBuffer, linkBuffer, nodeCornerBuffer, linkCornerBuffer].forEach((buffer) => context.deleteBuffer(buffer));
+      [nodeVao, pickVao, linkVao].forEach((vao) => context.deleteVertexArray(vao));
+      [nodeProgram, pickProgram, linkProgram].forEach((program) => context.deleteProgram(program));
+      context.deleteTexture(pickTexture);
+      context.deleteFramebuffer(pickFramebuffer);
+    },
+  };
+}
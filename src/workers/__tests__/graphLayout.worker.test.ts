@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeGraphLayout,
+  computeHierarchyLayout,
+  computeIncrementalLayout,
+  computeRadialLayout,
+  detectCommunities,
+  LayoutLink,
+  LayoutNode
+} from '../graphLayout.worker';
+
+const dir = (id: string): LayoutNode => ({ id, type: 'directory' });
+const file = (id: string): LayoutNode => ({ id, type: 'file' });
+
+describe('graphLayout.worker', () => {
+  const nodes = [dir(''), dir('src'), file('README.md')];
+  const links: LayoutLink[] = [
+    { source: '', target: 'src' },
+    { source: '', target: 'README.md' }
+  ];
+
+  it('should keep existing positions and place new children next to their parent', () => {
+    const initial = computeGraphLayout(nodes, links, 1000, 800);
+    const expandedNodes = [...nodes, file('src/a.ts'), file('src/b.ts')];
+    const expandedLinks: LayoutLink[] = [
+      ...links,
+      { source: 'src', target: 'src/a.ts' },
+      { source: 'src', target: 'src/b.ts' }
+    ];
+
+    const { positions, origins } = computeIncrementalLayout(expandedNodes, expandedLinks, 1000, 800, initial);
+
+    nodes.forEach(node => expect(positions[node.id]).toEqual(initial[node.id]));
+    ['src/a.ts', 'src/b.ts'].forEach(id => {
+      expect(origins[id]).toEqual(initial['src']);
+      expect(positions[id].x).toBeGreaterThan(initial['src'].x);
+      expect(Math.abs(positions[id].y - initial['src'].y)).toBeLessThan(120);
+    });
+    expect(positions['src/a.ts']).not.toEqual(positions['src/b.ts']);
+  });
+
+  it('should not move anything when only links change', () => {
+    const initial = computeGraphLayout(nodes, links, 1000, 800);
+    const semanticLinks: LayoutLink[] = [...links, { source: 'README.md', target: 'src' }];
+
+    const { positions, origins } = computeIncrementalLayout(nodes, semanticLinks, 1000, 800, initial);
+
+    expect(positions).toEqual(initial);
+    expect(origins).toEqual({});
+  });
+
+  it('should place disconnected new nodes without overlapping the graph', () => {
+    const initial = computeGraphLayout(nodes, links, 1000, 800);
+    const { positions } = computeIncrementalLayout([...nodes, file('orphan.ts')], links, 1000, 800, initial);
+
+    const maxY = Math.max(...nodes.map(node => initial[node.id].y));
+    expect(positions['orphan.ts'].y).toBeGreaterThan(maxY);
+  });
+
+  it('should put the root at the center of the radial tree and children on a ring', () => {
+    const positions = computeRadialLayout(nodes, links, 1000, 800);
+
+    expect(positions['']).toEqual({ x: 500, y: 400 });
+    const radius = (id: string) => Math.hypot(positions[id].x - 500, positions[id].y - 400);
+    expect(radius('src')).toBeCloseTo(radius('README.md'));
+    expect(radius('src')).toBeGreaterThan(0);
+  });
+
+  it('should center parents above their children in the hierarchy', () => {
+    const positions = computeHierarchyLayout(nodes, links);
+
+    expect(positions[''].y).toBeLessThan(positions['src'].y);
+    expect(positions[''].x).toBeCloseTo((positions['src'].x + positions['README.md'].x) / 2);
+  });
+
+  it('should split loosely connected clusters into communities', () => {
+    const clique = (prefix: string): LayoutLink[] => [
+      { source: `${prefix}1`, target: `${prefix}2` },
+      { source: `${prefix}2`, target: `${prefix}3` },
+      { source: `${prefix}3`, target: `${prefix}1` }
+    ];
+    const communityNodes = ['a1', 'a2', 'a3', 'b1', 'b2', 'b3'].map(file);
+    const communityLinks = [...clique('a'), ...clique('b'), { source: 'a1', target: 'b1' }];
+
+    const communities = detectCommunities(communityNodes, communityLinks);
+
+    expect(communities.get('a2')).toBe(communities.get('a3'));
+    expect(communities.get('b2')).toBe(communities.get('b3'));
+    expect(communities.get('a2')).not.toBe(communities.get('b2'));
+  });
+
+  it('should grow new children downwards in the hierarchy layout', () => {
+    const initial = computeHierarchyLayout(nodes, links);
+    const { positions } = computeIncrementalLayout(
+      [...nodes, file('src/a.ts')],
+      [...links, { source: 'src', target: 'src/a.ts' }],
+      1000,
+      800,
+      initial,
+      'hierarchy'
+    );
+
+    expect(positions['src/a.ts'].y).toBeGreaterThan(initial['src'].y);
+  });
+});
@@ -1,4 +1,5 @@
 import * as d3 from 'd3';
+import type { GraphLayoutAlgorithm } from '../types';
 
 export interface LayoutNode {
   id: string;
@@ -12,6 +13,12 @@ export interface LayoutLink {
   target: string;
 }
 
+/**
+ * `incremental` (padrão) mantém as posições recebidas e só posiciona nós novos;
+ * `full` refaz o layout global.
+ */
+export type LayoutMode = 'incremental' | 'full';
+
 export interface LayoutRequest {
   requestId: number;
   nodes: LayoutNode[];
@@ -19,13 +26,32 @@ export interface LayoutRequest {
   width: number;
   height: number;
   positions?: Record<string, { x: number; y: number }>;
+  mode?: LayoutMode;
+  algorithm?: GraphLayoutAlgorithm;
 }
 
 export interface LayoutResponse {
   requestId: number;
   positions: Record<string, { x: number; y: number }>;
+  /** Posição inicial da animação dos nós que se moveram ou surgiram */
+  origins?: Record<string, { x: number; y: number }>;
+}
+
+export interface IncrementalLayoutResult {
+  positions: Record<string, { x: number; y: number }>;
+  origins: Record<string, { x: number; y: number }>;
 }
 
+// Espaçamento entre níveis (x) e entre nós do mesmo nível (y)
+const LEVEL_SPACING = 200;
+const ROW_SPACING = 55;
+// Árvore radial: distância entre anéis e arco mínimo por nó
+const RING_SPACING = 140;
+const MIN_ARC = 40;
+// Hierarquia top-down: largura por folha e altura por nível
+const HIERARCHY_COLUMN = 120;
+const HIERARCHY_ROW = 100;
+
 /**
  * Validates and clamps a coordinate to ensure it is finite and safe.
  */
@@ -167,8 +193,8 @@ export function computeGraphLayout(
   });
 
   // Spacing parameters
-  const nodeWidth = 200;
-  const nodeHeight = 55;
+  const nodeWidth = LEVEL_SPACING;
+  const nodeHeight = ROW_SPACING;
   const startX = 80;
   const startY = 60;
 
@@ -260,16 +286,490 @@ export function computeGraphLayout(
   return positions;
 }
 
+
+const isDirectoryLike = (node: LayoutNode | undefined) =>
+  node?.type === 'directory' || node?.type === 'cluster';
+
+const compareLayoutNodes = (a: LayoutNode | undefined, b: LayoutNode | undefined) => {
+  const aIsDir = isDirectoryLike(a);
+  const bIsDir = isDirectoryLike(b);
+  if (aIsDir !== bIsDir) return aIsDir ? -1 : 1;
+  return (a?.id ?? '').localeCompare(b?.id ?? '');
+};
+
+interface SpanningForest {
+  roots: string[];
+  children: Map<string, string[]>;
+  depth: Map<string, number>;
+}
+
+/**
+ * Floresta geradora por BFS: o pai de cada nó é a primeira aresta de entrada
+ * alcançada. Nós sem entrada (ou em ciclos sem raiz) viram raízes.
+ */
+function buildSpanningForest(nodes: LayoutNode[], links: LayoutLink[]): SpanningForest {
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const outgoing = new Map<string, string[]>();
+  const hasIncoming = new Set<string>();
+  links.forEach(link => {
+    if (link.source === link.target || !nodeMap.has(link.source) || !nodeMap.has(link.target)) return;
+    const list = outgoing.get(link.source);
+    if (list) list.push(link.target);
+    else outgoing.set(link.source, [link.target]);
+    hasIncoming.add(link.target);
+  });
+
+  const sortIds = (ids: string[]) => ids.sort((a, b) => compareLayoutNodes(nodeMap.get(a), nodeMap.get(b)));
+  const roots: string[] = [];
+  const children = new Map<string, string[]>();
+  const depth = new Map<string, number>();
+
+  const visit = (rootId: string) => {
+    roots.push(rootId);
+    depth.set(rootId, 0);
+    const queue = [rootId];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      const next = sortIds((outgoing.get(current) ?? []).filter(id => !depth.has(id)));
+      next.forEach(id => depth.set(id, (depth.get(current) ?? 0) + 1));
+      if (next.length > 0) children.set(current, next);
+      queue.push(...next);
+    }
+  };
+
+  sortIds(nodes.filter(node => !hasIncoming.has(node.id)).map(node => node.id)).forEach(visit);
+  sortIds(nodes.filter(node => !depth.has(node.id)).map(node => node.id)).forEach(id => {
+    if (!depth.has(id)) visit(id);
+  });
+
+  return { roots, children, depth };
+}
+
+const countLeaves = (forest: SpanningForest) => {
+  const leaves = new Map<string, number>();
+  const count = (id: string): number => {
+    const kids = forest.children.get(id);
+    const total = kids ? kids.reduce((sum, kid) => sum + count(kid), 0) : 1;
+    leaves.set(id, total);
+    return total;
+  };
+  forest.roots.forEach(count);
+  return leaves;
+};
+
+/**
+ * Árvore radial: raízes no centro e cada subárvore num setor proporcional ao
+ * número de folhas. Anéis lotados crescem para manter `MIN_ARC` entre nós.
+ */
+export function computeRadialLayout(
+  nodes: LayoutNode[],
+  links: LayoutLink[],
+  width: number,
+  height: number
+): Record<string, { x: number; y: number }> {
+  const forest = buildSpanningForest(nodes, links);
+  const leaves = countLeaves(forest);
+  const perDepth = new Map<number, number>();
+  forest.depth.forEach(level => perDepth.set(level, (perDepth.get(level) ?? 0) + 1));
+
+  // Várias raízes ficam no primeiro anel em volta de um centro virtual
+  const rootOffset = forest.roots.length > 1 ? 1 : 0;
+  const radiusByDepth = new Map<number, number>();
+  let previousRadius = 0;
+  Array.from(perDepth.keys()).sort((a, b) => a - b).forEach(level => {
+    const ring = level + rootOffset;
+    const minimum = ((perDepth.get(level) ?? 0) * MIN_ARC) / (2 * Math.PI);
+    const radius = ring === 0 ? 0 : Math.max(ring * RING_SPACING, minimum, previousRadius + RING_SPACING);
+    radiusByDepth.set(level, radius);
+    previousRadius = radius;
+  });
+
+  const cx = width / 2;
+  const cy = height / 2;
+  const positions: Record<string, { x: number; y: number }> = {};
+  const place = (id: string, start: number, end: number) => {
+    const radius = radiusByDepth.get(forest.depth.get(id) ?? 0) ?? 0;
+    const angle = (start + end) / 2;
+    positions[id] = { x: cx + Math.cos(angle) * radius, y: cy + Math.sin(angle) * radius };
+    const kids = forest.children.get(id) ?? [];
+    const total = leaves.get(id) ?? 1;
+    let cursor = start;
+    kids.forEach(kid => {
+      const span = ((end - start) * (leaves.get(kid) ?? 1)) / total;
+      place(kid, cursor, cursor + span);
+      cursor += span;
+    });
+  };
+
+  const totalLeaves = forest.roots.reduce((sum, id) => sum + (leaves.get(id) ?? 1), 0);
+  let cursor = -Math.PI / 2;
+  forest.roots.forEach(id => {
+    const span = (2 * Math.PI * (leaves.get(id) ?? 1)) / totalLeaves;
+    place(id, cursor, cursor + span);
+    cursor += span;
+  });
+
+  return positions;
+}
+
+/**
+ * Hierarquia top-down: cada folha ocupa uma coluna e o pai fica centralizado
+ * sobre os filhos.
+ */
+export function computeHierarchyLayout(
+  nodes: LayoutNode[],
+  links: LayoutLink[]
+): Record<string, { x: number; y: number }> {
+  const forest = buildSpanningForest(nodes, links);
+  const positions: Record<string, { x: number; y: number }> = {};
+  let nextColumn = 0;
+
+  const place = (id: string): number => {
+    const kids = forest.children.get(id) ?? [];
+    const x = kids.length === 0
+      ? 80 + (nextColumn++) * HIERARCHY_COLUMN
+      : kids.map(place).reduce((sum, value) => sum + value, 0) / kids.length;
+    positions[id] = { x, y: 60 + (forest.depth.get(id) ?? 0) * HIERARCHY_ROW };
+    return x;
+  };
+
+  forest.roots.forEach(place);
+  return positions;
+}
+
+/**
+ * Comunidades pela fase de movimento local do Louvain: cada nó vai para a
+ * comunidade vizinha com maior ganho de modularidade até estabilizar.
+ * Determinístico; nós isolados ficam juntos numa comunidade só. Retorna o
+ * índice da comunidade de cada nó, ordenado por tamanho.
+ */
+export function detectCommunities(nodes: LayoutNode[], links: LayoutLink[], maxIterations = 20): Map<string, number> {
+  const ids = nodes.map(node => node.id).sort();
+  const indexById = new Map(ids.map((id, index) => [id, index]));
+  const neighbors: number[][] = ids.map(() => []);
+  links.forEach(link => {
+    const source = indexById.get(link.source);
+    const target = indexById.get(link.target);
+    if (source === undefined || target === undefined || source === target) return;
+    neighbors[source].push(target);
+    neighbors[target].push(source);
+  });
+
+  const degree = neighbors.map(list => list.length);
+  const totalDegree = degree.reduce((sum, value) => sum + value, 0);
+  const isolated = ids.length;
+  const community = ids.map((_, index) => (degree[index] === 0 ? isolated : index));
+  const totals = new Map<number, number>();
+  community.forEach((c, index) => totals.set(c, (totals.get(c) ?? 0) + degree[index]));
+
+  for (let iteration = 0; iteration < maxIterations && totalDegree > 0; iteration++) {
+    let moved = false;
+    ids.forEach((_, index) => {
+      if (degree[index] === 0) return;
+      const current = community[index];
+      const weights = new Map<number, number>();
+      neighbors[index].forEach(neighbor => {
+        const c = community[neighbor];
+        weights.set(c, (weights.get(c) ?? 0) + 1);
+      });
+
+      totals.set(current, (totals.get(current) ?? 0) - degree[index]);
+      const gain = (c: number) => (weights.get(c) ?? 0) - (degree[index] * (totals.get(c) ?? 0)) / totalDegree;
+      let best = current;
+      let bestGain = gain(current);
+      weights.forEach((_weight, c) => {
+        const candidate = gain(c);
+        if (candidate > bestGain + 1e-9) {
+          best = c;
+          bestGain = candidate;
+        }
+      });
+      totals.set(best, (totals.get(best) ?? 0) + degree[index]);
+      if (best !== current) {
+        community[index] = best;
+        moved = true;
+      }
+    });
+    if (!moved) break;
+  }
+
+  const sizes = new Map<number, number>();
+  community.forEach(c => sizes.set(c, (sizes.get(c) ?? 0) + 1));
+  const order = Array.from(sizes.keys()).sort((a, b) => (sizes.get(b) ?? 0) - (sizes.get(a) ?? 0) || a - b);
+  const rank = new Map(order.map((c, index) => [c, index]));
+  return new Map(ids.map((id, index) => [id, rank.get(community[index])!]));
+}
+
+/**
+ * Force-directed com comunidades: cada comunidade ganha um centro num círculo
+ * e seus nós são atraídos para ele, o que separa os grupos visualmente.
+ */
+export function computeForceLayout(
+  nodes: LayoutNode[],
+  links: LayoutLink[],
+  width: number,
+  height: number
+): Record<string, { x: number; y: number }> {
+  const communities = detectCommunities(nodes, links);
+  const communityCount = Math.max(1, ...Array.from(communities.values()).map(index => index + 1));
+  const cx = width / 2;
+  const cy = height / 2;
+  const spread = Math.max(200, Math.sqrt(nodes.length) * 40);
+  const centers = Array.from({ length: communityCount }, (_, index) => {
+    if (communityCount === 1) return { x: cx, y: cy };
+    const angle = (2 * Math.PI * index) / communityCount;
+    return { x: cx + Math.cos(angle) * spread, y: cy + Math.sin(angle) * spread };
+  });
+
+  const simNodes = nodes.map((node, index) => {
+    const center = centers[communities.get(node.id) ?? 0];
+    // Espiral determinística em volta do centro da comunidade
+    const angle = index * 2.4;
+    const radius = 10 * Math.sqrt(index % 50);
+    return {
+      id: node.id,
+      type: node.type,
+      community: communities.get(node.id) ?? 0,
+      x: center.x + Math.cos(angle) * radius,
+      y: center.y + Math.sin(angle) * radius
+    };
+  });
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const simLinks = links
+    .filter(link => link.source !== link.target && nodeIds.has(link.source) && nodeIds.has(link.target))
+    .map(link => ({ source: link.source, target: link.target }));
+
+  try {
+    const simulation = d3.forceSimulation(simNodes as any)
+      .force('link', d3.forceLink(simLinks)
+        .id((d: any) => d.id)
+        .distance(60)
+        .strength((link: any) => (link.source.community === link.target.community ? 0.6 : 0.05)))
+      .force('charge', d3.forceManyBody().strength(-80).distanceMax(400))
+      .force('x', d3.forceX((d: any) => centers[d.community].x).strength(0.12))
+      .force('y', d3.forceY((d: any) => centers[d.community].y).strength(0.12))
+      .force('collide', d3.forceCollide((d: any) => (isDirectoryLike(d) || d.type === 'app' ? 30 : 20)))
+      .stop();
+
+    const MAX_TICKS = 120;
+    for (let i = 0; i < MAX_TICKS; i++) {
+      simulation.tick();
+      if (simulation.alpha() < 0.01) break;
+    }
+  } catch (err) {
+    console.warn('[graphLayout.worker] Force simulation skipped:', err);
+  }
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  simNodes.forEach(node => {
+    positions[node.id] = { x: sanitizeCoord(node.x, cx), y: sanitizeCoord(node.y, cy) };
+  });
+  return positions;
+}
+
+/** Layout global conforme o algoritmo escolhido para o modo de visualização. */
+export function computeLayout(
+  algorithm: GraphLayoutAlgorithm,
+  nodes: LayoutNode[],
+  links: LayoutLink[],
+  width: number,
+  height: number,
+  existingPositions?: Record<string, { x: number; y: number }>
+): Record<string, { x: number; y: number }> {
+  switch (algorithm) {
+    case 'radial':
+      return computeRadialLayout(nodes, links, width, height);
+    case 'force':
+      return computeForceLayout(nodes, links, width, height);
+    case 'hierarchy':
+      return computeHierarchyLayout(nodes, links);
+    default:
+      return computeGraphLayout(nodes, links, width, height, existingPositions);
+  }
+}
+
+/**
+ * Layout incremental: nós com posição conhecida ficam fixos e os novos entram
+ * ao lado do pai (ou de um vizinho já posicionado), como a próxima coluna do
+ * DAG (abaixo na hierarquia, para fora no radial e no force-directed).
+ * Nós sem vizinho posicionado vão para uma grade abaixo do grafo.
+ * Sem nenhuma posição conhecida equivale ao layout completo.
+ */
+export function computeIncrementalLayout(
+  nodes: LayoutNode[],
+  links: LayoutLink[],
+  width: number,
+  height: number,
+  existingPositions: Record<string, { x: number; y: number }> = {},
+  algorithm: GraphLayoutAlgorithm = 'layered'
+): IncrementalLayoutResult {
+  const positions: Record<string, { x: number; y: number }> = {};
+  nodes.forEach(node => {
+    const pos = existingPositions[node.id];
+    if (pos && Number.isFinite(pos.x) && Number.isFinite(pos.y)) {
+      positions[node.id] = { x: pos.x, y: pos.y };
+    }
+  });
+
+  const pinnedIds = new Set(Object.keys(positions));
+  if (pinnedIds.size === 0) {
+    return { positions: computeLayout(algorithm, nodes, links, width, height), origins: {} };
+  }
+  if (pinnedIds.size === nodes.length) {
+    return { positions, origins: {} };
+  }
+
+  const nodeMap = new Map(nodes.map(node => [node.id, node]));
+  const parentsOf = new Map<string, string[]>();
+  const neighborsOf = new Map<string, string[]>();
+  const push = (map: Map<string, string[]>, key: string, value: string) => {
+    const list = map.get(key);
+    if (list) list.push(value);
+    else map.set(key, [value]);
+  };
+  links.forEach(link => {
+    if (link.source === link.target || !nodeMap.has(link.source) || !nodeMap.has(link.target)) return;
+    push(parentsOf, link.target, link.source);
+    push(neighborsOf, link.source, link.target);
+    push(neighborsOf, link.target, link.source);
+  });
+
+  // Direção em que os filhos crescem a partir do pai
+  const pinnedPositions = Object.values(positions);
+  const centroid = {
+    x: pinnedPositions.reduce((sum, pos) => sum + pos.x, 0) / pinnedPositions.length,
+    y: pinnedPositions.reduce((sum, pos) => sum + pos.y, 0) / pinnedPositions.length
+  };
+  const childPosition = (anchor: { x: number; y: number }, slot: number) => {
+    if (algorithm === 'layered') return { x: anchor.x + LEVEL_SPACING, y: anchor.y + slot * ROW_SPACING };
+    if (algorithm === 'hierarchy') return { x: anchor.x + slot * HIERARCHY_COLUMN, y: anchor.y + HIERARCHY_ROW };
+    const dx = anchor.x - centroid.x;
+    const dy = anchor.y - centroid.y;
+    const length = Math.hypot(dx, dy);
+    const [ux, uy] = length > 1 ? [dx / length, dy / length] : [1, 0];
+    const distance = algorithm === 'radial' ? RING_SPACING : RING_SPACING / 2;
+    return {
+      x: anchor.x + ux * distance - uy * slot * ROW_SPACING,
+      y: anchor.y + uy * distance + ux * slot * ROW_SPACING
+    };
+  };
+
+  // Em ondas: cada onda posiciona os nós cujo pai já tem posição
+  const origins: Record<string, { x: number; y: number }> = {};
+  let pending = nodes.filter(node => !pinnedIds.has(node.id)).map(node => node.id);
+  while (pending.length > 0) {
+    const childrenByAnchor = new Map<string, string[]>();
+    const unplaced: string[] = [];
+    pending.forEach(id => {
+      const anchor = (parentsOf.get(id) ?? []).find(parentId => positions[parentId]) ??
+        (neighborsOf.get(id) ?? []).find(neighborId => positions[neighborId]);
+      if (anchor) push(childrenByAnchor, anchor, id);
+      else unplaced.push(id);
+    });
+    if (childrenByAnchor.size === 0) break;
+
+    childrenByAnchor.forEach((children, anchorId) => {
+      children.sort((aId, bId) => compareLayoutNodes(nodeMap.get(aId), nodeMap.get(bId)));
+      const anchor = positions[anchorId];
+      children.forEach((id, index) => {
+        positions[id] = childPosition(anchor, index - (children.length - 1) / 2);
+        origins[id] = { x: anchor.x, y: anchor.y };
+      });
+    });
+    pending = unplaced;
+  }
+
+  if (pending.length > 0) {
+    const placed = Object.values(positions);
+    const minX = Math.min(...placed.map(pos => pos.x));
+    const maxY = Math.max(...placed.map(pos => pos.y));
+    const cols = Math.max(1, Math.ceil(Math.sqrt(pending.length)));
+    pending.forEach((id, index) => {
+      positions[id] = {
+        x: minX + (index % cols) * 180,
+        y: maxY + ROW_SPACING * 2 + Math.floor(index / cols) * 60
+      };
+    });
+  }
+
+  // Afasta os nós novos entre si e dos fixos, sem mover os fixos
+  try {
+    const simNodes = nodes.map(node => {
+      const pos = positions[node.id];
+      const pinned = pinnedIds.has(node.id);
+      return {
+        id: node.id,
+        type: node.type,
+        x: pos.x,
+        y: pos.y,
+        targetX: pos.x,
+        targetY: pos.y,
+        fx: pinned ? pos.x : undefined,
+        fy: pinned ? pos.y : undefined
+      };
+    });
+
+    const simulation = d3.forceSimulation(simNodes as any)
+      .force('x', d3.forceX((d: any) => d.targetX).strength(0.6))
+      .force('y', d3.forceY((d: any) => d.targetY).strength(0.6))
+      .force('collide', d3.forceCollide((d: any) => (isDirectoryLike(d) || d.type === 'app' ? 30 : 20)))
+      .stop();
+
+    const MAX_TICKS = 40;
+    for (let i = 0; i < MAX_TICKS; i++) {
+      simulation.tick();
+      if (simulation.alpha() < 0.01) break;
+    }
+
+    simNodes.forEach(node => {
+      if (pinnedIds.has(node.id)) return;
+      positions[node.id] = {
+        x: sanitizeCoord(node.x, positions[node.id].x),
+        y: sanitizeCoord(node.y, positions[node.id].y)
+      };
+    });
+  } catch (err) {
+    console.warn('[graphLayout.worker] Incremental relaxation skipped:', err);
+  }
+
+  return { positions, origins };
+}
+
 // Worker message handler
 self.onmessage = (event: MessageEvent<LayoutRequest>) => {
-  const { requestId, nodes, links, width, height, positions: existingPositions } = event.data;
+  const {
+    requestId,
+    nodes,
+    links,
+    width,
+    height,
+    positions: existingPositions,
+    mode = 'incremental',
+    algorithm = 'layered'
+  } = event.data;
 
   try {
-    const finalPositions = computeGraphLayout(nodes, links, width, height, existingPositions);
-    const response: LayoutResponse = {
-      requestId,
-      positions: finalPositions
-    };
+    let response: LayoutResponse;
+    if (mode === 'full') {
+      const finalPositions = computeLayout(algorithm, nodes, links, width, height, existingPositions);
+      // Relayout global anima todos os nós a partir de onde estavam
+      const origins: Record<string, { x: number; y: number }> = {};
+      Object.keys(finalPositions).forEach(id => {
+        const previous = existingPositions?.[id];
+        if (previous) origins[id] = previous;
+      });
+      response = { requestId, positions: finalPositions, origins };
+    } else {
+      const { positions, origins } = computeIncrementalLayout(
+        nodes,
+        links,
+        width,
+        height,
+        existingPositions,
+        algorithm
+      );
+      response = { requestId, positions, origins };
+    }
     self.postMessage(response);
   } catch (error) {
     console.error('[graphLayout.worker] Layout calculation error:', error);
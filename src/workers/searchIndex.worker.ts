@@ -0,0 +1,26 @@
+import { createSearchIndex, searchIndex, SearchEntry, SearchResult } from '../utils/fuzzySearch';
+
+export type SearchWorkerRequest =
+  | { type: 'index'; entries: SearchEntry[] }
+  | { type: 'query'; requestId: number; query: string; limit: number };
+
+export interface SearchWorkerResponse {
+  requestId: number;
+  results: SearchResult[];
+}
+
+// O índice vive no worker; a thread principal só envia consultas
+let index = createSearchIndex([]);
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'index') {
+    index = createSearchIndex(request.entries);
+    return;
+  }
+  const response: SearchWorkerResponse = {
+    requestId: request.requestId,
+    results: searchIndex(index, request.query, request.limit)
+  };
+  self.postMessage(response);
+};
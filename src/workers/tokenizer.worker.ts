@@ -0,0 +1,21 @@
+import { countTokensWith, loadExactTokenizer, TokenizerFamily } from '../utils/tokenizers';
+
+export interface TokenizeRequest {
+  requestId: number;
+  family: TokenizerFamily;
+  texts: string[];
+}
+
+export interface TokenizeResponse {
+  requestId: number;
+  /** Contagens brutas (sem calibração), na ordem de `texts` */
+  counts: number[];
+}
+
+self.onmessage = async (event: MessageEvent<TokenizeRequest>) => {
+  const { requestId, family, texts } = event.data;
+  // O vocabulário BPE só é baixado aqui, na primeira contagem da família
+  await loadExactTokenizer(family);
+  const response: TokenizeResponse = { requestId, counts: countTokensWith(family, texts) };
+  self.postMessage(response);
+};
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
     plugins: [react()],
+    // O tokenizer.worker carrega o vocabulário BPE com import() dinâmico
+    worker: {
+        format: 'es',
+    },
     server: {
         port: 5174,
         host: true,